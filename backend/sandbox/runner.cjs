@@ -0,0 +1,63 @@
+// Runs a student's solution.js in the sandbox, then the hidden test expressions.
+// The expressions arrive as JSON on fd 3, which is closed before the student's code runs;
+// the values they return are written as JSON to fd 4. stdin, stdout and stderr belong to the student.
+// The student's code can write to fd 4 too, so this reports values, never verdicts: the expected
+// values stay with the server, which does the grading.
+'use strict';
+
+const fs = require('fs');
+const vm = require('vm');
+
+const UNSUPPORTED = Symbol('unsupported');
+
+// The value as JSON data, or UNSUPPORTED when no expected value could equal it
+const plain = value => {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : UNSUPPORTED;
+  }
+  if (Array.isArray(value)) {
+    const items = Array.from(value, plain);
+    return items.includes(UNSUPPORTED) ? UNSUPPORTED : items;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value).map(key => [key, plain(value[key])]);
+    return entries.some(([, item]) => item === UNSUPPORTED) ? UNSUPPORTED : Object.fromEntries(entries);
+  }
+  return UNSUPPORTED;
+};
+
+const main = () => {
+  const expressions = JSON.parse(fs.readFileSync(3, 'utf8'));
+  fs.closeSync(3);
+
+  // The solution runs in its own context with only the console, away from the runner's module scope.
+  // Top-level declarations in the solution stay visible to the test expressions.
+  const context = vm.createContext({ console });
+  let loaded = true;
+  try {
+    vm.runInContext(fs.readFileSync('solution.js', 'utf8'), context, { filename: 'solution.js' });
+  } catch (error) {
+    console.error(error && error.stack ? error.stack : String(error));
+    loaded = false;
+  }
+
+  const results = expressions.map(expression => {
+    if (!loaded) {
+      return { error: 'The code did not run to the end' };
+    }
+    try {
+      const value = plain(vm.runInContext(expression, context));
+      return value === UNSUPPORTED ? {} : { value };
+    } catch (error) {
+      return { error: error && typeof error.name === 'string' ? `${error.name}: ${error.message}` : String(error) };
+    }
+  });
+
+  fs.writeSync(4, JSON.stringify(results));
+  fs.closeSync(4);
+};
+
+main();
@@ -0,0 +1,27 @@
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { initializeAgentWorker, shutdownServices } from './services/init.service.js';
+import { logger } from './utils/logger.js';
+
+// Graceful shutdown
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.on(signal, async () => {
+    logger.info(`${signal} received, shutting down agent worker`);
+    await shutdownServices();
+    process.exit(0);
+  });
+}
+
+// Start the worker
+async function startWorker() {
+  try {
+    await initializeAgentWorker();
+  } catch (error) {
+    logger.error('Failed to start agent worker:', error);
+    process.exit(1);
+  }
+}
+
+startWorker();
@@ -0,0 +1,124 @@
+import { pathToFileURL } from 'url';
+import { isAbsolute, resolve } from 'path';
+import { BaseAgent, AgentCapability, AgentConfig } from './base.agent.js';
+import { AgentType, CoreAgentType, StudentIntent } from '../types/index.js';
+
+export const CORE_AGENT_TYPES: CoreAgentType[] = ['coordinator', 'tutor', 'assessment', 'content'];
+
+// Lowercase name usable as a message sender and in agent ids, e.g. 'ethics' or 'math-helper'
+export const AGENT_TYPE_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
+/**
+ * When the coordinator should send a student message to a plug-in agent.
+ * Each hint becomes a routing rule; all of its conditions must match.
+ */
+export interface AgentRoutingHint {
+  intents?: StudentIntent[];
+  keywords?: string[]; // any one of them, case-insensitive
+  minConfidence?: number;
+  capability?: string; // route to any agent offering this capability instead of the plug-in's type
+  priority?: number; // core rules use 5-20
+  exclusive?: boolean;
+  fallbackTypes?: AgentType[];
+}
+
+/**
+ * What a plug-in agent declares about itself. Requests reach the agent as
+ * { sessionId, message, context }; it replies with a Message or { message: Message }.
+ */
+export interface AgentManifest {
+  type: AgentType;
+  name: string;
+  version: string;
+  description: string;
+  capabilities: AgentCapability[];
+  routing?: AgentRoutingHint[];
+  maxConcurrentTasks?: number;
+}
+
+/**
+ * A module listed in AGENT_PLUGINS exports one of these, as default or as `plugin`
+ */
+export interface AgentPlugin {
+  manifest: AgentManifest;
+  createAgent(config: AgentConfig): BaseAgent;
+}
+
+export class AgentPluginError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'AgentPluginError';
+  }
+}
+
+/**
+ * Check a manifest, returning every problem found
+ */
+export function validateManifest(manifest: AgentManifest): string[] {
+  const errors: string[] = [];
+
+  if (typeof manifest.type !== 'string' || !AGENT_TYPE_PATTERN.test(manifest.type)) {
+    errors.push(`type must match ${AGENT_TYPE_PATTERN}`);
+  } else if ((CORE_AGENT_TYPES as string[]).includes(manifest.type) || manifest.type === 'student') {
+    errors.push(`type ${manifest.type} is reserved`);
+  }
+
+  for (const field of ['name', 'version', 'description'] as const) {
+    if (typeof manifest[field] !== 'string' || !manifest[field].trim()) {
+      errors.push(`${field} is required`);
+    }
+  }
+
+  if (!Array.isArray(manifest.capabilities) || manifest.capabilities.length === 0) {
+    errors.push('at least one capability is required');
+  } else if (manifest.capabilities.some(capability => typeof capability?.name !== 'string' || !capability.name)) {
+    errors.push('every capability needs a name');
+  }
+
+  (manifest.routing || []).forEach((hint, index) => {
+    if (!hint.intents?.length && !hint.keywords?.length) {
+      errors.push(`routing[${index}] needs intents or keywords`);
+    }
+    if (hint.minConfidence !== undefined && (hint.minConfidence < 0 || hint.minConfidence > 1)) {
+      errors.push(`routing[${index}].minConfidence must be between 0 and 1`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Build the agent config for a plug-in from its manifest
+ */
+export function createPluginConfig(manifest: AgentManifest, agentId: string = `${manifest.type}-main`): AgentConfig {
+  return {
+    id: agentId,
+    type: manifest.type,
+    capabilities: manifest.capabilities,
+    maxConcurrentTasks: manifest.maxConcurrentTasks || 5,
+    healthCheckInterval: 30000
+  };
+}
+
+/**
+ * Import the plug-in modules named in a comma-separated list of package names or paths.
+ * Relative paths resolve against the working directory.
+ */
+export async function loadAgentPlugins(specifiers: string = process.env.AGENT_PLUGINS || ''): Promise<AgentPlugin[]> {
+  const plugins: AgentPlugin[] = [];
+
+  for (const specifier of specifiers.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const url = specifier.startsWith('.') || isAbsolute(specifier)
+      ? pathToFileURL(resolve(specifier)).href
+      : specifier;
+    const module = await import(url);
+    const plugin: AgentPlugin | undefined = module.default?.manifest ? module.default : module.plugin;
+
+    if (!plugin?.manifest || typeof plugin.createAgent !== 'function') {
+      throw new AgentPluginError(`Agent plug-in ${specifier} must export a manifest and createAgent`);
+    }
+    plugins.push(plugin);
+  }
+
+  return plugins;
+}
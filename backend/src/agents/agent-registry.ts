@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events';
 import { BaseAgent, AgentCapability } from './base.agent.js';
+import { AgentManifest, AgentPluginError, CORE_AGENT_TYPES, validateManifest } from './agent-plugin.js';
+import type { RemoteAgentEntry } from './transports/index.js';
 import { AgentType, AgentState } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
@@ -24,6 +26,7 @@ export class AgentRegistry extends EventEmitter {
   private registrations: Map<string, AgentRegistration> = new Map();
   private capabilityIndex: Map<string, Set<string>> = new Map();
   private typeIndex: Map<AgentType, Set<string>> = new Map();
+  private manifests: Map<AgentType, AgentManifest> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private readonly HEALTH_CHECK_INTERVAL = 30000; // 30 seconds
   private readonly AGENT_TIMEOUT = 60000; // 1 minute
@@ -33,14 +36,63 @@ export class AgentRegistry extends EventEmitter {
     this.startHealthMonitoring();
   }
 
+  /**
+   * Register a plug-in agent type, so agents of that type can register and the coordinator can route to them
+   */
+  public registerPlugin(manifest: AgentManifest): void {
+    const errors = validateManifest(manifest);
+    if (errors.length > 0) {
+      throw new AgentPluginError(`Invalid manifest for agent type ${manifest.type}`, errors);
+    }
+
+    const existing = this.manifests.get(manifest.type);
+    if (existing && existing.name !== manifest.name) {
+      throw new AgentPluginError(`Agent type ${manifest.type} is already provided by ${existing.name}`);
+    }
+
+    this.manifests.set(manifest.type, manifest);
+
+    logger.info(`Agent plug-in ${manifest.name} ${manifest.version} registered as type ${manifest.type}`);
+    this.emit('plugin:registered', manifest);
+  }
+
+  /**
+   * Remove a plug-in agent type; its agents should be unregistered first
+   */
+  public unregisterPlugin(agentType: AgentType): void {
+    const manifest = this.manifests.get(agentType);
+    if (manifest) {
+      this.manifests.delete(agentType);
+      this.emit('plugin:unregistered', manifest);
+    }
+  }
+
+  /**
+   * Get the manifest of a plug-in agent type
+   */
+  public getManifest(agentType: AgentType): AgentManifest | undefined {
+    return this.manifests.get(agentType);
+  }
+
+  /**
+   * Get the manifests of all plug-in agent types
+   */
+  public getManifests(): AgentManifest[] {
+    return Array.from(this.manifests.values());
+  }
+
   /**
    * Register an agent in the registry
    */
   public registerAgent(agent: BaseAgent, metadata: Record<string, any> = {}): void {
     const state = agent.getState();
     const capabilities = agent.getCapabilities();
+
+    if (!(CORE_AGENT_TYPES as AgentType[]).includes(state.agentType) && !this.manifests.has(state.agentType)) {
+      throw new AgentPluginError(`Agent type ${state.agentType} has no registered plug-in manifest`);
+    }
     
-    const registration: AgentRegistration = {
+    this.addRegistration({
       agentId: state.agentId,
       agentType: state.agentType,
       capabilities,
@@ -48,26 +100,46 @@ export class AgentRegistry extends EventEmitter {
       registeredAt: new Date(),
       lastSeen: new Date(),
       metadata
-    };
+    });
+  }
+
+  /**
+   * Register an agent hosted by another process on the message bus. Its process checked the
+   * agent's type when it registered it, so no manifest is needed here.
+   */
+  public registerRemoteAgent(entry: RemoteAgentEntry): void {
+    this.addRegistration({
+      agentId: entry.agentId,
+      agentType: entry.agentType,
+      capabilities: entry.capabilities,
+      status: entry.status,
+      registeredAt: new Date(),
+      lastSeen: new Date(),
+      metadata: { nodeId: entry.nodeId }
+    });
+  }
+
+  private addRegistration(registration: AgentRegistration): void {
+    const { agentId, agentType, capabilities } = registration;
 
     // Store registration
-    this.registrations.set(state.agentId, registration);
+    this.registrations.set(agentId, registration);
 
     // Update capability index
     for (const capability of capabilities) {
       if (!this.capabilityIndex.has(capability.name)) {
         this.capabilityIndex.set(capability.name, new Set());
       }
-      this.capabilityIndex.get(capability.name)!.add(state.agentId);
+      this.capabilityIndex.get(capability.name)!.add(agentId);
     }
 
     // Update type index
-    if (!this.typeIndex.has(state.agentType)) {
-      this.typeIndex.set(state.agentType, new Set());
+    if (!this.typeIndex.has(agentType)) {
+      this.typeIndex.set(agentType, new Set());
     }
-    this.typeIndex.get(state.agentType)!.add(state.agentId);
+    this.typeIndex.get(agentType)!.add(agentId);
 
-    logger.info(`Agent ${state.agentId} registered in registry`);
+    logger.info(`Agent ${agentId} registered in registry`);
     this.emit('agent:registered', registration);
   }
 
@@ -352,6 +424,7 @@ export class AgentRegistry extends EventEmitter {
     this.registrations.clear();
     this.capabilityIndex.clear();
     this.typeIndex.clear();
+    this.manifests.clear();
     this.removeAllListeners();
   }
 }
\ No newline at end of file
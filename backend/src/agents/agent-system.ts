@@ -1,13 +1,20 @@
 import { EventEmitter } from 'events';
 import { BaseAgent, AgentConfig } from './base.agent.js';
 import { MessageBus, MessageBusConfig } from './message-bus.js';
+import { MessageScheduler, SchedulerBusyError, SchedulerConfig } from './message-scheduler.js';
 import { AgentRegistry } from './agent-registry.js';
+import { AgentPlugin, createPluginConfig } from './agent-plugin.js';
+import { MessageTransportName, RemoteAgentEntry, createMessageTransport } from './transports/index.js';
 import { HealthMonitor, HealthMonitorConfig } from './health-monitor.js';
-import { CoordinatorAgent, CoordinatorConfig } from './coordinator.agent.js';
-import { SharedContextManager } from './shared-context.js';
+import { CoordinatorAgent, CoordinatorConfig, CoordinationResponse, createCoordinatorConfig } from './coordinator.agent.js';
+import { SharedContextManager, SharedContextData } from './shared-context.js';
 import { StateSynchronizer, StateSyncConfig } from './state-sync.js';
 import { RedisService } from '../services/redis.service.js';
-import { AgentType } from '../types/index.js';
+import { conversationMemoryService } from '../services/conversation-memory.service.js';
+import { moderationService, ModerationResult } from '../services/moderation.service.js';
+import { usageService } from '../services/usage.service.js';
+import { classroomService } from '../services/classroom.service.js';
+import { AgentType, Message, MessageMetadata, MessagePriority, TutorMode } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface AgentSystemConfig {
@@ -15,6 +22,26 @@ export interface AgentSystemConfig {
   healthMonitor: HealthMonitorConfig;
   coordinator: CoordinatorConfig;
   stateSync: StateSyncConfig;
+  turns: SchedulerConfig; // student turns handled at once and allowed to wait
+}
+
+export interface TurnOptions {
+  priority?: MessagePriority; // queue class of the turn, carried onto the messages it sends to agents; medium by default
+  onQueued?: (position: number) => void; // the turn is waiting; position 1 is next
+  history?: Message[]; // prior turns the caller keeps, windowed in place of the shared context history
+  moderation?: ModerationResult; // the caller already moderated the student message, so it is not checked or logged again
+}
+
+// Context the agent system sets for every turn; a client's context never supplies these
+export const SERVER_CONTEXT_KEYS = [
+  'userId', 'conversationHistory', 'conversationSummary', 'streamId', 'tutorMode', 'socraticDialogue'
+] as const;
+
+const BUSY_MESSAGE = "I'm helping a lot of students right now. Please send your message again in a moment.";
+
+export interface TutorModeSetting {
+  mode: TutorMode;
+  enforced: boolean; // a teacher requires this mode, so the student can't change it
 }
 
 export class AgentSystem extends EventEmitter {
@@ -28,9 +55,11 @@ export class AgentSystem extends EventEmitter {
   private contextManager: SharedContextManager;
   private stateSynchronizer: StateSynchronizer;
   private coordinator: CoordinatorAgent;
+  private turnScheduler: MessageScheduler;
   
   // Agent management
   private agents: Map<string, BaseAgent> = new Map();
+  private streamHandlers: Map<string, (content: string) => void> = new Map();
   private isRunning: boolean = false;
 
   constructor(config: AgentSystemConfig, redisService: RedisService) {
@@ -39,7 +68,7 @@ export class AgentSystem extends EventEmitter {
     this.redisService = redisService;
 
     // Initialize core components
-    this.messageBus = new MessageBus(config.messageBus);
+    this.messageBus = new MessageBus(config.messageBus, undefined, createMessageTransport(config.messageBus.transport, redisService));
     this.registry = new AgentRegistry();
     this.contextManager = new SharedContextManager(redisService);
     this.healthMonitor = new HealthMonitor(config.healthMonitor, this.registry, this.messageBus);
@@ -50,6 +79,7 @@ export class AgentSystem extends EventEmitter {
       this.registry
     );
     this.coordinator = new CoordinatorAgent(config.coordinator, this.messageBus, this.registry);
+    this.turnScheduler = new MessageScheduler(config.turns, 'Too many student turns waiting');
 
     this.setupEventListeners();
   }
@@ -95,6 +125,7 @@ export class AgentSystem extends EventEmitter {
 
     try {
       logger.info('Stopping agent system...');
+      this.turnScheduler.clear(new Error('Agent system is not running'));
 
       // Stop all agents
       for (const agent of this.agents.values()) {
@@ -146,6 +177,29 @@ export class AgentSystem extends EventEmitter {
       this.emit('agent:registered', { agentId, agentType: agent.getState().agentType });
     } catch (error) {
       logger.error(`Failed to register agent ${agentId}:`, error);
+      this.messageBus.unregisterAgent(agentId);
+      this.registry.unregisterAgent(agentId);
+      throw error;
+    }
+  }
+
+  /**
+   * Register a plug-in's manifest and start an agent built from it
+   */
+  public async registerPlugin(plugin: AgentPlugin, agentId?: string): Promise<BaseAgent> {
+    const { manifest } = plugin;
+    const isNewType = !this.registry.getManifest(manifest.type);
+
+    this.registry.registerPlugin(manifest);
+
+    try {
+      const agent = plugin.createAgent(createPluginConfig(manifest, agentId));
+      await this.registerAgent(agent, { plugin: manifest.name, version: manifest.version });
+      return agent;
+    } catch (error) {
+      if (isNewType) {
+        this.registry.unregisterPlugin(manifest.type);
+      }
       throw error;
     }
   }
@@ -179,6 +233,235 @@ export class AgentSystem extends EventEmitter {
     }
   }
 
+  /**
+   * Route a student message through the coordinator, keeping the shared session context in sync.
+   * When onChunk is given, agents that support streaming report partial text through it.
+   * Both the student message and the answer pass through moderation; blocked or escalated
+   * messages never reach the agents, and neither do messages once a daily token budget is spent.
+   * Turns of one session are handled one at a time in the order they arrived; when too many
+   * turns are waiting the student gets a busy reply instead.
+   */
+  public async handleStudentMessage(
+    sessionId: string,
+    userId: string,
+    studentMessage: Message,
+    context: Record<string, any> = {},
+    onChunk?: (content: string) => void,
+    options: TurnOptions = {}
+  ): Promise<CoordinationResponse> {
+    if (!this.isRunning) {
+      throw new Error('Agent system is not running');
+    }
+
+    try {
+      return await this.turnScheduler.schedule(
+        { priority: options.priority, sessionId, onQueued: options.onQueued },
+        () => this.handleTurn(sessionId, userId, studentMessage, context, onChunk, options)
+      );
+    } catch (error) {
+      if (error instanceof SchedulerBusyError) {
+        logger.warn(`Turn for session ${sessionId} refused with ${error.queued} turns waiting`);
+        return this.stoppedResponse(BUSY_MESSAGE, 'System busy', { busy: true });
+      }
+      throw error;
+    }
+  }
+
+  private async handleTurn(
+    sessionId: string,
+    userId: string,
+    studentMessage: Message,
+    context: Record<string, any>,
+    onChunk: ((content: string) => void) | undefined,
+    { priority, history, moderation }: TurnOptions
+  ): Promise<CoordinationResponse> {
+    const moderationContext = { userId, sessionId, messageId: studentMessage.id };
+    const inputCheck = moderation || await moderationService.moderate(studentMessage.content, 'input', moderationContext);
+    if (inputCheck.action === 'block' || inputCheck.action === 'escalate') {
+      return this.stoppedResponse(
+        inputCheck.text,
+        `Message ${inputCheck.action === 'block' ? 'blocked' : 'escalated'} by moderation`,
+        { moderation: inputCheck.action }
+      );
+    }
+    if (inputCheck.action === 'rewrite') {
+      studentMessage = { ...studentMessage, content: inputCheck.text };
+    }
+
+    // Checked after moderation so a student in crisis still gets the support message
+    const budget = await usageService.checkBudget(userId);
+    if (!budget.allowed) {
+      return this.stoppedResponse(
+        budget.message || '',
+        `Daily ${budget.exceeded} token budget reached`,
+        { budgetExceeded: budget.exceeded }
+      );
+    }
+
+    const sharedContext = await this.getSessionContext(sessionId, userId);
+    const tutorMode = (await this.requiredTutorMode(userId)) || sharedContext.tutorMode;
+
+    // Budget the caller's history or the shared context's. Windowing can summarize older turns
+    // with the LLM, so it only happens once the budget allows the turn.
+    const conversation = await conversationMemoryService.buildWindow(
+      sessionId,
+      history || sharedContext.conversationHistory,
+      undefined,
+      userId
+    );
+
+    const streamId = onChunk ? `stream-${studentMessage.id}` : undefined;
+    if (streamId && onChunk) {
+      this.streamHandlers.set(streamId, this.moderateStream(onChunk));
+    }
+
+    try {
+      const response = await this.coordinator.coordinateRequest({
+        sessionId,
+        studentMessage,
+        // Clients ask for an explanation, example and check question together with this flag
+        requiresMultipleAgents: context.requiresMultipleAgents === true,
+        priority,
+        context: {
+          currentTopic: sharedContext.currentTopic || undefined,
+          ...context,
+          // After the caller's context so a client can't bill another user, skip the history window,
+          // write into another turn's stream or switch off a mode its teacher requires
+          userId,
+          conversationHistory: conversation.messages,
+          conversationSummary: conversation.summary,
+          streamId,
+          tutorMode,
+          socraticDialogue: tutorMode === 'socratic' ? sharedContext.socraticDialogue : null
+        }
+      });
+
+      if (response.success) {
+        const outputCheck = await moderationService.moderate(response.aggregatedResponse.content, 'output', moderationContext);
+        if (outputCheck.action !== 'allow') {
+          response.aggregatedResponse = {
+            ...response.aggregatedResponse,
+            content: outputCheck.text,
+            metadata: { ...response.aggregatedResponse.metadata, moderation: outputCheck.action }
+          };
+        }
+      }
+
+      await this.contextManager.addMessage(sessionId, studentMessage);
+      if (response.success) {
+        await this.contextManager.addMessage(sessionId, response.aggregatedResponse);
+
+        const dialogue = response.aggregatedResponse.metadata?.socratic;
+        if (dialogue) {
+          await this.contextManager.updateSocraticDialogue(
+            sessionId,
+            response.aggregatedResponse.metadata.agentId || 'tutor',
+            dialogue
+          );
+        }
+      }
+
+      return response;
+    } finally {
+      if (streamId) {
+        this.streamHandlers.delete(streamId);
+      }
+    }
+  }
+
+  /**
+   * The tutor mode a session runs in, taking the student's classes into account
+   */
+  public async getTutorMode(sessionId: string, userId: string): Promise<TutorModeSetting> {
+    const required = await this.requiredTutorMode(userId);
+    const sharedContext = await this.contextManager.getContext(sessionId);
+
+    return {
+      mode: required || sharedContext?.tutorMode || 'explain',
+      enforced: required !== null
+    };
+  }
+
+  /**
+   * Choose the tutor mode for a session. A mode required by the student's teacher wins,
+   * so the returned setting may differ from the one asked for.
+   */
+  public async setTutorMode(sessionId: string, userId: string, mode: TutorMode): Promise<TutorModeSetting> {
+    const required = await this.requiredTutorMode(userId);
+    if (required && required !== mode) {
+      return { mode: required, enforced: true };
+    }
+
+    await this.getSessionContext(sessionId, userId);
+    await this.contextManager.setTutorMode(sessionId, mode);
+    logger.info(`Session ${sessionId} switched to ${mode} tutor mode`);
+
+    return { mode, enforced: required !== null };
+  }
+
+  /**
+   * Load the shared context for a session, starting one if needed
+   */
+  private async getSessionContext(sessionId: string, userId: string): Promise<SharedContextData> {
+    const sharedContext = await this.contextManager.getContext(sessionId);
+    return sharedContext || await this.contextManager.initializeContext(sessionId, userId);
+  }
+
+  /**
+   * The tutor mode the student's classes require, if any
+   */
+  private async requiredTutorMode(userId: string): Promise<TutorMode | null> {
+    try {
+      return await classroomService.getRequiredTutorMode(userId);
+    } catch (error) {
+      logger.warn('Could not check class tutor mode, using the session mode:', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * The reply for a student message that moderation, a token budget or a full queue stopped before it reached the agents
+   */
+  private stoppedResponse(
+    content: string,
+    reason: string,
+    metadata: Omit<MessageMetadata, 'messageType'>
+  ): CoordinationResponse {
+    return {
+      responses: [],
+      aggregatedResponse: {
+        id: `system-${Date.now()}`,
+        sender: 'coordinator',
+        content,
+        timestamp: new Date(),
+        metadata: { messageType: 'system', ...metadata }
+      },
+      involvedAgents: [],
+      processingTime: 0,
+      success: false,
+      errors: [reason]
+    };
+  }
+
+  /**
+   * Stop forwarding streamed text as soon as the answer so far would be moderated;
+   * the moderated final answer replaces it
+   */
+  private moderateStream(onChunk: (content: string) => void): (content: string) => void {
+    let streamed = '';
+    let held = false;
+
+    return (content: string) => {
+      if (held) return;
+      streamed += content;
+      if (moderationService.check(streamed, 'output').action !== 'allow') {
+        held = true;
+        return;
+      }
+      onChunk(content);
+    };
+  }
+
   /**
    * Get agent by ID
    */
@@ -259,6 +542,7 @@ export class AgentSystem extends EventEmitter {
     healthSummary: any;
     coordinationStats: any;
     syncStats: any;
+    scheduling: { turns: ReturnType<MessageScheduler['getStats']>; deliveries: ReturnType<MessageScheduler['getStats']> };
   } {
     const registryStats = this.registry.getStatistics();
     const healthSummary = this.healthMonitor.getHealthSummary();
@@ -272,7 +556,11 @@ export class AgentSystem extends EventEmitter {
       agentsByType: registryStats.agentsByType,
       healthSummary,
       coordinationStats,
-      syncStats
+      syncStats,
+      scheduling: {
+        turns: this.turnScheduler.getStats(),
+        deliveries: this.messageBus.getQueueStats()
+      }
     };
   }
 
@@ -372,6 +660,29 @@ export class AgentSystem extends EventEmitter {
       logger.info('Message bus stopped');
     });
 
+    // Keep registry status in step with the agents so routing sees them as available
+    this.messageBus.on('agent:status_changed', (data) => {
+      this.registry.updateAgentStatus(data.agentId, data.status);
+    });
+
+    // Agents hosted by other processes are routed to like local ones
+    this.messageBus.on('agent:remote_seen', (entry: RemoteAgentEntry) => {
+      if (this.registry.getAgent(entry.agentId)) {
+        this.registry.updateAgentStatus(entry.agentId, entry.status);
+      } else {
+        this.registry.registerRemoteAgent(entry);
+      }
+    });
+
+    this.messageBus.on('agent:remote_lost', (entry: RemoteAgentEntry) => {
+      this.registry.unregisterAgent(entry.agentId);
+    });
+
+    // Forward streamed partial responses to whoever started the request
+    this.messageBus.on('agent:stream_chunk', (data) => {
+      this.streamHandlers.get(data.streamId)?.(data.content);
+    });
+
     // Registry events
     this.registry.on('agent:registered', (registration) => {
       logger.info(`Agent registered: ${registration.agentId}`);
@@ -423,4 +734,40 @@ export class AgentSystem extends EventEmitter {
       throughput: 0 // Would be calculated from message processing
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create default agent system configuration
+ */
+export function createAgentSystemConfig(): AgentSystemConfig {
+  return {
+    messageBus: {
+      maxQueueSize: 1000,
+      maxConcurrentDeliveries: parseInt(process.env.AGENT_BUS_MAX_CONCURRENT || '50'),
+      messageTimeout: parseInt(process.env.AGENT_MESSAGE_TIMEOUT || '60000'),
+      retryAttempts: 2,
+      retryDelay: 1000,
+      transport: (process.env.AGENT_BUS_TRANSPORT || 'local') as MessageTransportName,
+      nodeId: process.env.AGENT_NODE_ID,
+      heartbeatInterval: parseInt(process.env.AGENT_BUS_HEARTBEAT_MS || '10000')
+    },
+    healthMonitor: {
+      checkInterval: 30000,
+      timeout: 5000,
+      maxRetries: 3,
+      alertThreshold: 0.5,
+      metricsRetentionPeriod: 3600000
+    },
+    coordinator: createCoordinatorConfig('coordinator-main'),
+    stateSync: {
+      syncInterval: 5000,
+      conflictResolution: 'last_write_wins',
+      maxRetries: 3,
+      retryDelay: 1000
+    },
+    turns: {
+      maxConcurrent: parseInt(process.env.MAX_CONCURRENT_TURNS || '20'),
+      maxQueued: parseInt(process.env.MAX_QUEUED_TURNS || '100')
+    }
+  };
+}
@@ -1,6 +1,9 @@
 import { BaseAgent, AgentMessage, AgentConfig } from './base.agent.js';
 import { LLMService, LLMRequest, createLLMService } from '../services/llm.service.js';
-import { Message, MessageMetadata, AgentType, AssessmentResult, QuestionResult } from '../types/index.js';
+import { promptRegistry, RenderedPrompt } from '../services/prompt-registry.service.js';
+import { codeSandboxService, SandboxError } from '../services/code-sandbox.service.js';
+import { Message, MessageMetadata, AgentType, AssessmentResult, QuestionResult, QuestionType, BankQuestion, PromptReference, LLMAttribution, HintLevel, CodeExercise, CodeTestResult } from '../types/index.js';
+import { RepositoryFactory, QuestionRepository } from '../database/repositories/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface AssessmentConfig extends AgentConfig {
@@ -23,10 +26,12 @@ export interface AssessmentRequest {
   sessionId: string;
   studentMessage: Message;
   context: AssessmentContext;
-  assessmentType: 'comprehension' | 'practice' | 'quiz' | 'adaptive';
+  assessmentType: 'comprehension' | 'practice' | 'quiz' | 'adaptive' | 'answer';
+  questionId?: string; // for 'answer': the question the student message answers
 }
 
 export interface AssessmentContext {
+  userId?: string;
   currentTopic: string;
   studentLevel: 'beginner' | 'intermediate' | 'advanced';
   recentConcepts: string[];
@@ -34,6 +39,7 @@ export interface AssessmentContext {
   strugglingAreas: string[];
   timeSpentOnTopic: number;
   conversationHistory?: Message[];
+  recentQuestionIds?: string[];
 }
 
 export interface AssessmentResponse {
@@ -65,6 +71,10 @@ export interface Question {
   difficulty: number;
   concept: string;
   timeEstimate: number;
+  topic?: string;
+  source?: 'curated' | 'generated';
+  prompt?: PromptReference; // template a generated question came from
+  code?: CodeExercise; // code_completion questions graded against hidden tests
 }
 
 export interface EvaluationResult {
@@ -77,6 +87,31 @@ export interface EvaluationResult {
   conceptsAssessed: string[];
   timeSpent: number;
   hintsUsed: number;
+  gradedBy?: PromptReference; // template used when the LLM graded the answer
+  testResults?: CodeTestResult[]; // set when the answer was run against the question's tests
+}
+
+export interface AnswerAttempt {
+  hintsUsed?: number;
+  timeSpent?: number;
+}
+
+export interface GradingResult {
+  isCorrect: boolean;
+  confidence: number;
+  reasoning: string;
+  prompt?: PromptReference; // template used when the LLM graded the answer
+  testResults?: CodeTestResult[];
+}
+
+/**
+ * Hints are revealed one level at a time; each level costs the hint penalty when the answer is scored
+ */
+export const HINT_LEVELS: HintLevel[] = ['nudge', 'partial_step', 'worked_solution'];
+
+export interface HintStep {
+  level: HintLevel;
+  hint: string;
 }
 
 export interface DifficultyAdjustment {
@@ -86,7 +121,7 @@ export interface DifficultyAdjustment {
   adjustmentType: 'increase' | 'decrease' | 'maintain';
 }
 
-export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer' | 'explanation' | 'code_completion';
+export type { QuestionType };
 
 export class AssessmentAgent extends BaseAgent {
   private llmService: LLMService;
@@ -164,6 +199,9 @@ export class AssessmentAgent extends BaseAgent {
       case 'adaptive':
         return await this.generateAdaptiveAssessment(request);
 
+      case 'answer':
+        return await this.gradeChatAnswer(request);
+
       default:
         // If no specific type, analyze student message to determine what's needed
         return await this.analyzeAndRespond(request);
@@ -181,7 +219,10 @@ export class AssessmentAgent extends BaseAgent {
       context.currentTopic,
       context.recentConcepts,
       context.studentLevel,
-      'comprehension'
+      'comprehension',
+      undefined,
+      context.recentQuestionIds,
+      this.attributionFor(context, request.sessionId)
     );
 
     const assessment: Assessment = {
@@ -212,7 +253,10 @@ export class AssessmentAgent extends BaseAgent {
       context.currentTopic,
       context.recentConcepts,
       context.studentLevel,
-      'practice'
+      'practice',
+      undefined,
+      context.recentQuestionIds,
+      this.attributionFor(context, request.sessionId)
     );
 
     const responseMessage = this.createQuestionMessage(question);
@@ -227,7 +271,20 @@ export class AssessmentAgent extends BaseAgent {
    * Generate full quiz assessment
    */
   private async generateQuiz(request: AssessmentRequest): Promise<AssessmentResponse> {
-    const { context } = request;
+    const assessment = await this.createQuiz(request.context);
+    const responseMessage = this.createQuizIntroMessage(assessment);
+
+    return {
+      message: responseMessage,
+      assessment,
+      nextRecommendations: ['Review incorrect answers', 'Move to next topic', 'Practice more']
+    };
+  }
+
+  /**
+   * Build a timed quiz for the given context
+   */
+  public async createQuiz(context: AssessmentContext): Promise<Assessment> {
     const maxQuestions = this.assessmentConfig.assessmentSettings.maxQuestionsPerAssessment;
 
     const questions: Question[] = [];
@@ -236,7 +293,10 @@ export class AssessmentAgent extends BaseAgent {
         context.currentTopic,
         context.recentConcepts,
         context.studentLevel,
-        'quiz'
+        'quiz',
+        undefined,
+        [...(context.recentQuestionIds || []), ...questions.map(q => q.id)],
+        this.attributionFor(context)
       );
       questions.push(question);
     }
@@ -251,13 +311,7 @@ export class AssessmentAgent extends BaseAgent {
       difficulty: this.calculateDifficulty(context)
     };
 
-    const responseMessage = this.createQuizIntroMessage(assessment);
-
-    return {
-      message: responseMessage,
-      assessment,
-      nextRecommendations: ['Review incorrect answers', 'Move to next topic', 'Practice more']
-    };
+    return assessment;
   }
 
   /**
@@ -274,7 +328,9 @@ export class AssessmentAgent extends BaseAgent {
       context.recentConcepts,
       context.studentLevel,
       'adaptive',
-      initialDifficulty
+      initialDifficulty,
+      context.recentQuestionIds,
+      this.attributionFor(context, request.sessionId)
     );
 
     const responseMessage = this.createQuestionMessage(question);
@@ -297,22 +353,44 @@ export class AssessmentAgent extends BaseAgent {
   public async evaluateStudentResponse(
     questionId: string,
     studentAnswer: string,
-    context: AssessmentContext
+    context: AssessmentContext,
+    attempt: AnswerAttempt = {}
   ): Promise<EvaluationResult> {
     const question = await this.questionBank.getQuestion(questionId);
     if (!question) {
       throw new Error(`Question ${questionId} not found`);
     }
 
-    // Use LLM to evaluate the response, especially for open-ended questions
-    const evaluation = await this.evaluateWithLLM(question, studentAnswer);
+    return await this.evaluateAnswer(question, studentAnswer, context, attempt);
+  }
+
+  /**
+   * Grade an answer to a known question, e.g. one stored with a quiz attempt
+   */
+  public async evaluateAnswer(
+    question: Question,
+    studentAnswer: string,
+    context: AssessmentContext,
+    attempt: AnswerAttempt = {}
+  ): Promise<EvaluationResult> {
+    const questionId = question.id;
+    const hintsUsed = Math.min(attempt.hintsUsed || 0, HINT_LEVELS.length);
+
+    // Closed questions are graded by exact match, code by its tests and open-ended ones by the LLM rubric
+    const evaluation = this.isClosedQuestion(question)
+      ? this.gradeExactMatch(question, studentAnswer)
+      : await this.gradeCode(question, studentAnswer)
+        ?? await this.evaluateWithLLM(question, studentAnswer, this.attributionFor(context));
 
     // Calculate score using scoring engine
-    const score = this.scoringEngine.calculateScore(question, studentAnswer, evaluation);
+    const score = this.scoringEngine.calculateScore(question, studentAnswer, evaluation, hintsUsed);
 
     // Generate feedback
     const feedback = await this.generateFeedback(question, studentAnswer, evaluation);
 
+    // Track answer statistics; answered generated questions are queued for teacher review
+    await this.questionBank.recordAnswer(question, evaluation.isCorrect);
+
     return {
       questionId,
       studentAnswer,
@@ -321,11 +399,116 @@ export class AssessmentAgent extends BaseAgent {
       maxScore: score.maxPoints,
       feedback,
       conceptsAssessed: [question.concept],
-      timeSpent: 0, // This would be tracked by the frontend
-      hintsUsed: 0 // This would be tracked during the question session
+      timeSpent: attempt.timeSpent || 0,
+      hintsUsed,
+      gradedBy: evaluation.prompt,
+      testResults: evaluation.testResults
     };
   }
 
+  /**
+   * Points awarded for a fully correct answer
+   */
+  public getPointsPerQuestion(): number {
+    return this.assessmentConfig.scoringRules.correctAnswerPoints;
+  }
+
+  /**
+   * Look up a question by id from the bank
+   */
+  public async getQuestion(questionId: string): Promise<Question | null> {
+    return await this.questionBank.getQuestion(questionId);
+  }
+
+  /**
+   * The question's hint ladder: a nudge, a partial step and the worked solution.
+   * Questions without enough authored hints get them generated once and saved with the question.
+   */
+  public async getHintLadder(question: Question, context: Pick<AssessmentContext, 'userId'>, sessionId?: string): Promise<HintStep[]> {
+    if (question.hints.length < 2) {
+      const generated = await this.generateHints(question, this.attributionFor(context, sessionId));
+      if (generated) {
+        await this.questionBank.saveHints(question, generated);
+      }
+    }
+
+    const [nudge, ...steps] = question.hints.length >= 2
+      ? question.hints
+      : this.createFallbackHints(question);
+
+    return [
+      { level: 'nudge', hint: nudge },
+      { level: 'partial_step', hint: steps.join(' ') },
+      { level: 'worked_solution', hint: `${question.explanation} The answer is: ${question.correctAnswer}` }
+    ];
+  }
+
+  /**
+   * Pick the next adaptive question after an evaluated answer
+   */
+  public async generateNextQuestion(
+    context: AssessmentContext,
+    evaluation: EvaluationResult,
+    currentDifficulty: number
+  ): Promise<{ question: Question; difficultyAdjustment: DifficultyAdjustment }> {
+    const percentage = evaluation.maxScore > 0 ? (evaluation.score / evaluation.maxScore) * 100 : 0;
+    const difficultyAdjustment = this.recommendDifficultyAdjustment(
+      currentDifficulty,
+      [...context.previousScores.slice(-4), percentage],
+      context
+    );
+
+    const question = await this.generateContextualQuestion(
+      context.currentTopic,
+      context.recentConcepts,
+      context.studentLevel,
+      'adaptive',
+      difficultyAdjustment.recommendedDifficulty,
+      [...(context.recentQuestionIds || []), evaluation.questionId],
+      this.attributionFor(context)
+    );
+
+    return { question, difficultyAdjustment };
+  }
+
+  /**
+   * One short question per concept that is due for review. A concept that fails to
+   * produce a question is skipped so the rest of the review can go ahead.
+   */
+  public async generateReviewQuestions(
+    items: Array<{ concept: string; topic: string }>,
+    studentLevel: 'beginner' | 'intermediate' | 'advanced',
+    excludeIds: string[] = [],
+    userId?: string
+  ): Promise<Question[]> {
+    const questions: Question[] = [];
+
+    for (const item of items) {
+      try {
+        const question = await this.generateContextualQuestion(
+          item.concept,
+          [item.concept],
+          studentLevel,
+          'review',
+          undefined,
+          [...excludeIds, ...questions.map(q => q.id)],
+          this.attributionFor({ userId })
+        );
+
+        // Keep the concept key so the graded answer reschedules this review item
+        question.concept = item.concept;
+        if (!question.topic || question.topic === item.concept) {
+          question.topic = item.topic;
+        }
+        questions.push(question);
+      } catch (error) {
+        logger.warn(`Failed to generate review question for concept ${item.concept}:`, error);
+      }
+    }
+
+    return questions;
+  }
+
   /**
    * Recommend difficulty adjustment based on performance
    */
@@ -373,6 +556,27 @@ export class AssessmentAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Grade a chat reply to the question last asked in the conversation
+   */
+  private async gradeChatAnswer(request: AssessmentRequest): Promise<AssessmentResponse> {
+    const question = request.questionId ? await this.questionBank.getQuestion(request.questionId) : null;
+    if (!question) {
+      return await this.analyzeAndRespond(request);
+    }
+
+    const answer = request.studentMessage.content.replace(/^\s*(?:(?:my|the)\s+answer\s+(?:is|would\s+be)|answer\s*:)\s*:?\s*/i, '');
+    const evaluationResult = await this.evaluateAnswer(question, answer, request.context);
+
+    return {
+      message: this.createFeedbackMessage(question, evaluationResult),
+      evaluationResult,
+      nextRecommendations: evaluationResult.isCorrect
+        ? ['Try another practice question', 'Move to next concept']
+        : ['Review explanation', 'Try another practice question']
+    };
+  }
+
   /**
    * Analyze student message and respond appropriately
    */
@@ -395,19 +599,30 @@ export class AssessmentAgent extends BaseAgent {
   }
 
   /**
-   * Generate contextual question using LLM
+   * Get a contextual question, preferring vetted bank questions over LLM generation
    */
   private async generateContextualQuestion(
     topic: string,
     concepts: string[],
     studentLevel: 'beginner' | 'intermediate' | 'advanced',
-    questionType: 'comprehension' | 'practice' | 'quiz' | 'adaptive',
-    difficulty?: number
+    questionType: 'comprehension' | 'practice' | 'quiz' | 'adaptive' | 'review',
+    difficulty?: number,
+    excludeIds: string[] = [],
+    attribution: LLMAttribution = this.attributionFor({})
   ): Promise<Question> {
+    const targetDifficulty = difficulty || this.mapStudentLevelToDifficulty(studentLevel);
+
+    const bankQuestion = await this.questionBank.findQuestion(topic, targetDifficulty, excludeIds);
+    if (bankQuestion) {
+      return bankQuestion;
+    }
+
     const systemPrompt = this.createQuestionGenerationPrompt(topic, concepts, studentLevel, questionType, difficulty);
 
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -421,11 +636,14 @@ export class AssessmentAgent extends BaseAgent {
     const response = await this.llmService.generateCompletion(llmRequest);
 
     // Parse the LLM response to extract question components
-    return this.parseQuestionFromLLM(response.content, topic, difficulty || this.mapStudentLevelToDifficulty(studentLevel));
+    const question = this.parseQuestionFromLLM(response.content, topic, targetDifficulty, systemPrompt.prompt);
+    await this.questionBank.addQuestion(question);
+
+    return question;
   }
 
   /**
-   * Create system prompt for question generation
+   * Render the system prompt for question generation
    */
   private createQuestionGenerationPrompt(
     topic: string,
@@ -433,37 +651,79 @@ export class AssessmentAgent extends BaseAgent {
     studentLevel: string,
     questionType: string,
     difficulty?: number
-  ): string {
-    return `You are an AI assessment specialist creating ${questionType} questions for high school students (grades 9-10) learning Machine Learning.
-
-REQUIREMENTS:
-- Create questions appropriate for ${studentLevel} level students
-- Focus on the topic: ${topic}
-- Include these concepts: ${concepts.join(', ')}
-- Question difficulty: ${difficulty || 'appropriate for level'}
-- Use clear, age-appropriate language
-- Provide realistic answer options for multiple choice
-- Include helpful hints that guide without giving away the answer
-
-FORMAT YOUR RESPONSE AS JSON:
-{
-  "question": "The main question text",
-  "type": "multiple_choice|true_false|short_answer|explanation",
-  "options": ["option1", "option2", "option3", "option4"] (for multiple choice only),
-  "correctAnswer": "The correct answer",
-  "explanation": "Why this is the correct answer",
-  "hints": ["hint1", "hint2", "hint3"],
-  "concept": "Primary ML concept being tested",
-  "timeEstimate": 120 (seconds)
-}
+  ): RenderedPrompt {
+    return promptRegistry.render('assessment.question-generation', {
+      questionType,
+      studentLevel,
+      topic,
+      concepts,
+      difficulty
+    });
+  }
 
-Make the question engaging and relatable to high school students. Use examples from social media, games, sports, or other familiar contexts when possible.`;
+  /**
+   * Usage attribution for LLM calls made for the student in this context
+   */
+  private attributionFor(context: Pick<AssessmentContext, 'userId'>, sessionId?: string): LLMAttribution {
+    return { agent: 'assessment', userId: context.userId, sessionId };
+  }
+
+  /**
+   * Write the nudge and partial step for a question that has no authored hints
+   */
+  private async generateHints(question: Question, attribution: LLMAttribution): Promise<string[] | null> {
+    const systemPrompt = promptRegistry.render('assessment.hints', {
+      question: question.question,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation,
+      concept: question.concept
+    });
+
+    const llmRequest: LLMRequest = {
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
+      messages: [
+        {
+          role: 'user',
+          content: `Write hints for: "${question.question}"`
+        }
+      ],
+      temperature: 0.4,
+      maxTokens: 300
+    };
+
+    try {
+      const response = await this.llmService.generateCompletion(llmRequest);
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+
+      if (jsonMatch) {
+        const hints = JSON.parse(jsonMatch[0]);
+        if (typeof hints.nudge === 'string' && typeof hints.partialStep === 'string') {
+          return [hints.nudge, hints.partialStep];
+        }
+      }
+    } catch (error) {
+      logger.warn(`Failed to generate hints for question ${question.id}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Generic hints for when none could be generated; they are not saved with the question
+   */
+  private createFallbackHints(question: Question): string[] {
+    return [
+      `Think about what you already know about ${question.concept}.`,
+      `Re-read the question and find the detail that connects it to ${question.concept}, then rule out the answers that don't fit.`
+    ];
   }
 
   /**
    * Parse question from LLM response
    */
-  private parseQuestionFromLLM(content: string, topic: string, difficulty: number): Question {
+  private parseQuestionFromLLM(content: string, topic: string, difficulty: number, prompt: PromptReference): Question {
     try {
       // Try to parse JSON response
       const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -480,7 +740,10 @@ Make the question engaging and relatable to high school students. Use examples f
           hints: questionData.hints || [],
           difficulty,
           concept: questionData.concept || topic,
-          timeEstimate: questionData.timeEstimate || 120
+          timeEstimate: questionData.timeEstimate || 120,
+          topic,
+          source: 'generated',
+          prompt
         };
       }
     } catch (error) {
@@ -514,34 +777,86 @@ Make the question engaging and relatable to high school students. Use examples f
       ],
       difficulty,
       concept: topic,
-      timeEstimate: 90
+      timeEstimate: 90,
+      topic
     };
   }
 
   /**
-   * Evaluate student response using LLM
+   * Check whether a question has a fixed set of answers
    */
-  private async evaluateWithLLM(question: Question, studentAnswer: string): Promise<{ isCorrect: boolean; confidence: number; reasoning: string }> {
-    const systemPrompt = `You are an AI assessment evaluator. Evaluate if the student's answer is correct.
+  private isClosedQuestion(question: Question): boolean {
+    return question.type === 'multiple_choice' || question.type === 'true_false';
+  }
 
-Question: ${question.question}
-Correct Answer: ${question.correctAnswer}
-Student Answer: ${studentAnswer}
+  /**
+   * Grade multiple choice and true/false answers by exact match.
+   * Students may answer with the option text or its letter.
+   */
+  private gradeExactMatch(question: Question, studentAnswer: string): GradingResult {
+    const options = question.options || (question.type === 'true_false' ? ['True', 'False'] : []);
+    const normalize = (value: string) => value.toLowerCase().trim().replace(/[.!]+$/, '');
+    const resolve = (value: string): string => {
+      const normalized = normalize(value);
+      const letterMatch = normalized.match(/^\(?([a-z])\)?$/);
+      const option = letterMatch ? options[letterMatch[1].charCodeAt(0) - 97] : undefined;
+      return option ? normalize(option) : normalized;
+    };
 
-Consider:
-- Exact matches and semantically equivalent answers
-- Partial credit for partially correct responses
-- Common misconceptions and errors
+    const isCorrect = resolve(studentAnswer) === resolve(question.correctAnswer);
+    return {
+      isCorrect,
+      confidence: isCorrect ? 1.0 : 0.0,
+      reasoning: 'Exact match against the answer key'
+    };
+  }
 
-Respond with JSON:
-{
-  "isCorrect": true/false,
-  "confidence": 0.0-1.0,
-  "reasoning": "Brief explanation of evaluation"
-}`;
+  /**
+   * Run code answers against the question's hidden tests in the sandbox.
+   * Returns null for questions without tests, or when the sandbox cannot take the run, so the LLM grades instead.
+   */
+  private async gradeCode(question: Question, studentAnswer: string): Promise<GradingResult | null> {
+    if (question.type !== 'code_completion' || !question.code?.testCases.length) {
+      return null;
+    }
+
+    try {
+      const run = await codeSandboxService.run({
+        language: question.code.language,
+        code: studentAnswer,
+        testCases: question.code.testCases
+      });
+      const passed = run.results.filter(result => result.passed).length;
+      const total = run.results.length;
+
+      return {
+        isCorrect: passed === total,
+        confidence: passed / total,
+        reasoning: `${passed} of ${total} tests passed`,
+        testResults: run.results
+      };
+    } catch (error) {
+      if (!(error instanceof SandboxError)) throw error;
+      logger.warn(`Code sandbox unavailable for question ${question.id}, grading with the LLM: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Evaluate open-ended student response using LLM
+   */
+  private async evaluateWithLLM(question: Question, studentAnswer: string, attribution: LLMAttribution): Promise<GradingResult> {
+    const systemPrompt = promptRegistry.render('assessment.answer-evaluation', {
+      question: question.question,
+      correctAnswer: question.correctAnswer,
+      rubric: question.explanation,
+      studentAnswer
+    });
 
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -558,7 +873,12 @@ Respond with JSON:
 
       if (jsonMatch) {
         const evaluation = JSON.parse(jsonMatch[0]);
-        return evaluation;
+        return {
+          isCorrect: Boolean(evaluation.isCorrect),
+          confidence: Math.max(0, Math.min(1, Number(evaluation.confidence) || 0)),
+          reasoning: evaluation.reasoning || '',
+          prompt: systemPrompt.prompt
+        };
       }
     } catch (error) {
       logger.warn('Failed to parse LLM evaluation response');
@@ -579,10 +899,15 @@ Respond with JSON:
   private async generateFeedback(
     question: Question,
     studentAnswer: string,
-    evaluation: { isCorrect: boolean; confidence: number; reasoning: string }
+    evaluation: GradingResult
   ): Promise<string> {
     if (evaluation.isCorrect) {
       return `Correct! ${question.explanation}`;
+    } else if (evaluation.testResults) {
+      const failed = evaluation.testResults
+        .filter(result => !result.passed)
+        .map(result => `- ${result.description}${result.error ? ` (${result.error})` : ''}`);
+      return `${evaluation.reasoning}. These tests failed:\n${failed.join('\n')}\n\n${question.explanation}`;
     } else {
       return `Not quite right. ${question.explanation} Your answer "${studentAnswer}" shows you're thinking about it, but the key point is understanding how ${question.concept} works in practice.`;
     }
@@ -604,7 +929,9 @@ Respond with JSON:
     const metadata: MessageMetadata = {
       agentId: this.config.id,
       messageType: 'assessment',
-      difficulty: question.difficulty
+      difficulty: question.difficulty,
+      prompts: question.prompt ? [question.prompt] : undefined,
+      questionId: question.id
     };
 
     return {
@@ -616,6 +943,27 @@ Respond with JSON:
     };
   }
 
+  /**
+   * Create the feedback message for a graded chat answer
+   */
+  private createFeedbackMessage(question: Question, evaluation: EvaluationResult): Message {
+    const metadata: MessageMetadata = {
+      agentId: this.config.id,
+      messageType: 'feedback',
+      difficulty: question.difficulty,
+      concepts: evaluation.conceptsAssessed,
+      prompts: evaluation.gradedBy ? [evaluation.gradedBy] : undefined
+    };
+
+    return {
+      id: `feedback-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      sender: 'assessment',
+      content: evaluation.feedback,
+      timestamp: new Date(),
+      metadata
+    };
+  }
+
   /**
    * Create quiz introduction message
    */
@@ -631,7 +979,8 @@ ${assessment.questions[0].question}`;
     const metadata: MessageMetadata = {
       agentId: this.config.id,
       messageType: 'assessment',
-      difficulty: assessment.difficulty
+      difficulty: assessment.difficulty,
+      questionId: assessment.questions[0].id
     };
 
     return {
@@ -673,24 +1022,123 @@ ${assessment.questions[0].question}`;
 }
 
 /**
- * Question Bank class for managing questions
+ * Question Bank class backed by the question repository.
+ * Generated questions stay in memory until a student answers them.
  */
 class QuestionBank {
   private questions = new Map<string, Question>();
+  private persistedIds = new Set<string>();
+
+  constructor(private repository: QuestionRepository = RepositoryFactory.getQuestionRepository()) { }
 
   async initialize(): Promise<void> {
-    // Initialize with some basic questions
-    // In a real implementation, this would load from a database
     logger.info('Question bank initialized');
   }
 
   async getQuestion(id: string): Promise<Question | null> {
-    return this.questions.get(id) || null;
+    const cached = this.questions.get(id);
+    if (cached) return cached;
+
+    try {
+      const stored = await this.repository.findQuestionById(id);
+      if (stored) {
+        this.persistedIds.add(stored.id);
+        return this.toQuestion(stored);
+      }
+    } catch (error) {
+      logger.warn(`Question bank lookup failed for ${id}:`, error);
+    }
+
+    return null;
   }
 
   async addQuestion(question: Question): Promise<void> {
     this.questions.set(question.id, question);
   }
+
+  /**
+   * Find an approved bank question for a topic near the requested difficulty
+   */
+  async findQuestion(topic: string, difficulty: number, excludeIds: string[] = []): Promise<Question | null> {
+    try {
+      const stored = await this.repository.pickApprovedQuestion(topic, { difficulty, excludeIds });
+      if (!stored) return null;
+
+      this.persistedIds.add(stored.id);
+      const question = this.toQuestion(stored);
+      this.questions.set(question.id, question);
+      return question;
+    } catch (error) {
+      logger.warn(`Question bank search failed for topic ${topic}, generating instead:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Keep generated hints with the question so later students reuse them
+   */
+  async saveHints(question: Question, hints: string[]): Promise<void> {
+    question.hints = hints;
+
+    try {
+      if (this.persistedIds.has(question.id)) {
+        await this.repository.updateHints(question.id, hints);
+      }
+    } catch (error) {
+      logger.warn(`Failed to save hints for question ${question.id}:`, error);
+    }
+  }
+
+  /**
+   * Record an answer, saving answered generated questions for teacher review
+   */
+  async recordAnswer(question: Question, isCorrect: boolean): Promise<void> {
+    try {
+      if (!this.persistedIds.has(question.id)) {
+        if (question.source !== 'generated') return;
+
+        await this.repository.saveForReview({
+          id: question.id,
+          type: question.type,
+          question: question.question,
+          options: question.options,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          hints: question.hints,
+          difficulty: question.difficulty,
+          concept: question.concept,
+          topic: question.topic || question.concept,
+          timeEstimate: question.timeEstimate,
+          source: 'generated',
+          prompt: question.prompt
+        });
+        this.persistedIds.add(question.id);
+      }
+
+      await this.repository.recordAnswer(question.id, isCorrect);
+    } catch (error) {
+      logger.warn(`Failed to record answer for question ${question.id}:`, error);
+    }
+  }
+
+  private toQuestion(stored: BankQuestion): Question {
+    return {
+      id: stored.id,
+      type: stored.type,
+      question: stored.question,
+      options: stored.options,
+      correctAnswer: stored.correctAnswer,
+      explanation: stored.explanation,
+      hints: stored.hints,
+      difficulty: stored.difficulty,
+      concept: stored.concept,
+      timeEstimate: stored.timeEstimate,
+      topic: stored.topic,
+      source: stored.source,
+      prompt: stored.prompt,
+      code: stored.code
+    };
+  }
 }
 
 /**
@@ -702,21 +1150,23 @@ class ScoringEngine {
   calculateScore(
     question: Question,
     studentAnswer: string,
-    evaluation: { isCorrect: boolean; confidence: number }
+    evaluation: { isCorrect: boolean; confidence: number },
+    hintsUsed: number = 0
   ): { points: number; maxPoints: number } {
     const maxPoints = this.rules.correctAnswerPoints;
+    let points = 0;
 
     if (evaluation.isCorrect) {
-      return { points: maxPoints, maxPoints };
+      points = maxPoints;
+    } else if (this.rules.partialCreditEnabled && evaluation.confidence > 0.5) {
+      // Partial credit based on confidence if enabled
+      points = Math.floor(maxPoints * evaluation.confidence);
     }
 
-    // Partial credit based on confidence if enabled
-    if (this.rules.partialCreditEnabled && evaluation.confidence > 0.5) {
-      const partialPoints = Math.floor(maxPoints * evaluation.confidence);
-      return { points: partialPoints, maxPoints };
-    }
+    // Each hint used costs points, but never below zero
+    points = Math.max(0, points - hintsUsed * this.rules.hintPenalty);
 
-    return { points: 0, maxPoints };
+    return { points, maxPoints };
   }
 }
 
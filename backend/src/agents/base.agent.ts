@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { AgentState, AgentType, Message, MessageMetadata } from '../types/index.js';
+import { AgentState, AgentType, Message, MessageMetadata, MessagePriority } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface AgentMessage {
@@ -10,6 +10,7 @@ export interface AgentMessage {
   payload: any;
   timestamp: Date;
   correlationId?: string;
+  priority?: MessagePriority; // scheduling class on the message bus; defaults by message type
 }
 
 export interface AgentCapability {
@@ -174,6 +175,13 @@ export abstract class BaseAgent extends EventEmitter {
     return [...this.config.capabilities];
   }
 
+  /**
+   * Get how many messages the agent handles at once
+   */
+  public getMaxConcurrentTasks(): number {
+    return this.config.maxConcurrentTasks;
+  }
+
   /**
    * Create a response message
    */
@@ -203,6 +211,17 @@ export abstract class BaseAgent extends EventEmitter {
     };
   }
 
+  /**
+   * Publish a partial response for a streamed request
+   */
+  protected emitStreamChunk(streamId: string, content: string): void {
+    this.emit('agent:stream_chunk', {
+      agentId: this.config.id,
+      streamId,
+      content
+    });
+  }
+
   /**
    * Update agent status
    */
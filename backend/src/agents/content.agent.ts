@@ -1,6 +1,8 @@
 import { BaseAgent, AgentMessage, AgentConfig } from './base.agent.js';
 import { LLMService, LLMRequest, createLLMService } from '../services/llm.service.js';
-import { Message, MessageMetadata, AgentType } from '../types/index.js';
+import { curriculumService } from '../services/curriculum.service.js';
+import { promptRegistry, RenderedPrompt } from '../services/prompt-registry.service.js';
+import { Message, MessageMetadata, AgentType, PromptReference, LLMAttribution } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface ContentConfig extends AgentConfig {
@@ -26,6 +28,7 @@ export interface ContentRequest {
 }
 
 export interface ContentContext {
+  userId?: string;
   currentTopic: string;
   studentLevel: 'beginner' | 'intermediate' | 'advanced';
   learningPace: 'slow' | 'medium' | 'fast';
@@ -65,6 +68,7 @@ export interface GeneratedContent {
   exercises?: Exercise[];
   examples?: Example[];
   visualAids?: VisualAid[];
+  prompt?: PromptReference; // template the content was generated from
 }
 
 export interface Exercise {
@@ -179,7 +183,7 @@ export class ContentAgent extends BaseAgent {
     // Handle system-wide updates
     if (message.payload.type === 'curriculum_update') {
       logger.info('Received curriculum update');
-      await this.curriculumManager.updateCurriculum(message.payload.data);
+      await this.curriculumManager.updateCurriculum();
     }
   }
 
@@ -192,22 +196,23 @@ export class ContentAgent extends BaseAgent {
    */
   private async processContentRequest(request: ContentRequest): Promise<ContentResponse> {
     const { requestType, context, specifications } = request;
+    const attribution: LLMAttribution = { agent: 'content', userId: context.userId, sessionId: request.sessionId };
 
     switch (requestType) {
       case 'explanation':
-        return await this.generateExplanation(context, specifications);
+        return await this.generateExplanation(context, attribution, specifications);
       
       case 'example':
-        return await this.generateExample(context, specifications);
+        return await this.generateExample(context, attribution, specifications);
       
       case 'exercise':
-        return await this.generateExercise(context, specifications);
+        return await this.generateExercise(context, attribution, specifications);
       
       case 'curriculum_path':
         return await this.generateCurriculumPath(context);
       
       case 'adaptive_content':
-        return await this.generateAdaptiveContent(context, specifications);
+        return await this.generateAdaptiveContent(context, attribution, specifications);
       
       default:
         throw new Error(`Unknown content request type: ${requestType}`);
@@ -219,6 +224,7 @@ export class ContentAgent extends BaseAgent {
    */
   private async generateExplanation(
     context: ContentContext,
+    attribution: LLMAttribution,
     specifications?: ContentSpecifications
   ): Promise<ContentResponse> {
     const topic = context.currentTopic;
@@ -239,7 +245,7 @@ export class ContentAgent extends BaseAgent {
       format: specifications?.format || 'text',
       includeExamples: specifications?.includeExamples ?? true,
       focusConcepts: specifications?.focusConcepts
-    });
+    }, attribution);
 
     const responseMessage = this.createContentMessage(content);
     
@@ -258,6 +264,7 @@ export class ContentAgent extends BaseAgent {
    */
   private async generateExample(
     context: ContentContext,
+    attribution: LLMAttribution,
     specifications?: ContentSpecifications
   ): Promise<ContentResponse> {
     const topic = context.currentTopic;
@@ -269,7 +276,7 @@ export class ContentAgent extends BaseAgent {
       preferredExamples: context.preferredExamples,
       format: specifications?.format || 'text',
       focusConcepts: specifications?.focusConcepts
-    });
+    }, attribution);
 
     const responseMessage = this.createContentMessage(content);
     
@@ -287,6 +294,7 @@ export class ContentAgent extends BaseAgent {
    */
   private async generateExercise(
     context: ContentContext,
+    attribution: LLMAttribution,
     specifications?: ContentSpecifications
   ): Promise<ContentResponse> {
     const topic = context.currentTopic;
@@ -299,7 +307,7 @@ export class ContentAgent extends BaseAgent {
       timeAvailable: context.timeAvailable,
       format: specifications?.format || 'interactive',
       focusConcepts: specifications?.focusConcepts
-    });
+    }, attribution);
 
     const responseMessage = this.createContentMessage(content);
     
@@ -360,6 +368,7 @@ export class ContentAgent extends BaseAgent {
    */
   private async generateAdaptiveContent(
     context: ContentContext,
+    attribution: LLMAttribution,
     specifications?: ContentSpecifications
   ): Promise<ContentResponse> {
     // Analyze student needs and adapt content accordingly
@@ -373,7 +382,7 @@ export class ContentAgent extends BaseAgent {
       learningPace: context.learningPace,
       strugglingConcepts: context.strugglingConcepts,
       format: specifications?.format || 'mixed'
-    });
+    }, attribution);
 
     const responseMessage = this.createContentMessage(content);
     
@@ -395,7 +404,8 @@ export class ContentAgent extends BaseAgent {
       messageType: 'explanation',
       difficulty: content.difficulty,
       hasCode: content.format === 'code' || content.format === 'mixed',
-      hasMath: content.concepts.some(concept => this.requiresMath(concept))
+      hasMath: content.concepts.some(concept => this.requiresMath(concept)),
+      prompts: content.prompt ? [content.prompt] : undefined
     };
 
     return {
@@ -488,57 +498,24 @@ class CurriculumManager {
   }
 
   async initialize(): Promise<void> {
-    // Initialize with ML curriculum topics
-    this.initializeMLCurriculum();
-    logger.info('Curriculum manager initialized');
-  }
-
-  private initializeMLCurriculum(): void {
-    const topics: CurriculumTopic[] = [
-      {
-        id: 'intro-to-ml',
-        title: 'Introduction to Machine Learning',
-        description: 'Basic concepts and overview of machine learning',
-        difficulty: 1,
-        prerequisites: [],
-        learningObjectives: ['Understand what ML is', 'Identify ML applications', 'Distinguish ML from traditional programming'],
-        estimatedDuration: 20,
-        concepts: ['artificial intelligence', 'data', 'algorithms', 'predictions']
-      },
-      {
-        id: 'supervised-learning',
-        title: 'Supervised Learning',
-        description: 'Learning with labeled data',
-        difficulty: 2,
-        prerequisites: ['intro-to-ml'],
-        learningObjectives: ['Understand supervised learning', 'Identify classification vs regression', 'Recognize training data'],
-        estimatedDuration: 25,
-        concepts: ['labeled data', 'training', 'classification', 'regression']
-      },
-      {
-        id: 'unsupervised-learning',
-        title: 'Unsupervised Learning',
-        description: 'Finding patterns in unlabeled data',
-        difficulty: 2,
-        prerequisites: ['intro-to-ml'],
-        learningObjectives: ['Understand unsupervised learning', 'Learn about clustering', 'Identify pattern recognition'],
-        estimatedDuration: 25,
-        concepts: ['unlabeled data', 'clustering', 'patterns', 'dimensionality reduction']
-      },
-      {
-        id: 'neural-networks',
-        title: 'Neural Networks',
-        description: 'Brain-inspired computing models',
-        difficulty: 4,
-        prerequisites: ['supervised-learning'],
-        learningObjectives: ['Understand neural network basics', 'Learn about layers and neurons', 'Recognize deep learning'],
-        estimatedDuration: 35,
-        concepts: ['neurons', 'layers', 'weights', 'deep learning']
-      }
-    ];
-
-    topics.forEach(topic => {
-      this.topics.set(topic.id, topic);
+    this.loadCurriculumTopics();
+    logger.info(`Curriculum manager initialized with curriculum v${curriculumService.getVersion()}`);
+  }
+
+  private loadCurriculumTopics(): void {
+    this.topics.clear();
+
+    curriculumService.getTopics().forEach(topic => {
+      this.topics.set(topic.id, {
+        id: topic.id,
+        title: topic.name,
+        description: topic.description,
+        difficulty: topic.difficulty,
+        prerequisites: topic.prerequisites,
+        learningObjectives: topic.learningObjectives,
+        estimatedDuration: topic.estimatedTimeMinutes,
+        concepts: topic.concepts.map(concept => concept.name)
+      });
     });
   }
 
@@ -608,9 +585,10 @@ class CurriculumManager {
     return related;
   }
 
-  async updateCurriculum(updateData: any): Promise<void> {
-    // Handle curriculum updates
-    logger.info('Curriculum updated with new data');
+  async updateCurriculum(): Promise<void> {
+    // The curriculum service holds the reloaded file; pick up its topics
+    this.loadCurriculumTopics();
+    logger.info(`Curriculum updated to v${curriculumService.getVersion()}`);
   }
 
   private mapStudentLevelToMaxDifficulty(level: 'beginner' | 'intermediate' | 'advanced'): number {
@@ -640,11 +618,13 @@ class ContentGenerator {
     format: ContentFormat;
     includeExamples: boolean;
     focusConcepts?: string[];
-  }): Promise<GeneratedContent> {
+  }, attribution: LLMAttribution): Promise<GeneratedContent> {
     const systemPrompt = this.createExplanationPrompt(params);
     
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -663,6 +643,7 @@ class ContentGenerator {
       format: params.format,
       title: `Understanding ${params.topic}`,
       content: response.content,
+      prompt: systemPrompt.prompt,
       difficulty: params.difficulty,
       estimatedTime: this.estimateReadingTime(response.content),
       concepts: params.focusConcepts || [params.topic],
@@ -678,11 +659,13 @@ class ContentGenerator {
     preferredExamples: string[];
     format: ContentFormat;
     focusConcepts?: string[];
-  }): Promise<GeneratedContent> {
+  }, attribution: LLMAttribution): Promise<GeneratedContent> {
     const systemPrompt = this.createExamplePrompt(params);
     
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -701,6 +684,7 @@ class ContentGenerator {
       format: params.format,
       title: `${params.topic} in Action`,
       content: response.content,
+      prompt: systemPrompt.prompt,
       difficulty: params.difficulty,
       estimatedTime: this.estimateReadingTime(response.content),
       concepts: params.focusConcepts || [params.topic],
@@ -716,11 +700,13 @@ class ContentGenerator {
     timeAvailable?: number;
     format: ContentFormat;
     focusConcepts?: string[];
-  }): Promise<GeneratedContent> {
+  }, attribution: LLMAttribution): Promise<GeneratedContent> {
     const systemPrompt = this.createExercisePrompt(params);
     
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -739,6 +725,7 @@ class ContentGenerator {
       format: params.format,
       title: `Practice: ${params.topic}`,
       content: response.content,
+      prompt: systemPrompt.prompt,
       difficulty: params.difficulty,
       estimatedTime: params.timeAvailable || 10,
       concepts: params.focusConcepts || [params.topic],
@@ -801,12 +788,14 @@ Ready to continue your ML journey?`;
     learningPace: string;
     strugglingConcepts: string[];
     format: ContentFormat;
-  }): Promise<GeneratedContent> {
+  }, attribution: LLMAttribution): Promise<GeneratedContent> {
     // Generate content adapted to specific student needs
     const systemPrompt = this.createAdaptivePrompt(params);
     
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution,
       messages: [
         {
           role: 'user',
@@ -825,6 +814,7 @@ Ready to continue your ML journey?`;
       format: params.format,
       title: `Personalized: ${params.topic}`,
       content: response.content,
+      prompt: systemPrompt.prompt,
       difficulty: params.adaptationNeeds.recommendedDifficulty,
       estimatedTime: this.estimateReadingTime(response.content),
       concepts: [params.topic],
@@ -832,74 +822,51 @@ Ready to continue your ML journey?`;
     };
   }
 
-  private createExplanationPrompt(params: any): string {
-    return `You are creating educational content for high school students (grades 9-10) learning Machine Learning.
-
-TOPIC: ${params.topic}
-STUDENT LEVEL: ${params.studentLevel}
-LEARNING PACE: ${params.learningPace}
-DIFFICULTY: ${params.difficulty}/5
-
-REQUIREMENTS:
-- Use clear, age-appropriate language
-- Include real-world examples from social media, games, sports, or entertainment
-- Break complex concepts into digestible parts
-- Keep explanations engaging and relatable
-- Use analogies that high school students understand
-- Avoid overwhelming technical jargon
-
-${params.includeExamples ? 'Include 1-2 concrete examples that illustrate the concept.' : ''}
-${params.focusConcepts ? `Focus specifically on these concepts: ${params.focusConcepts.join(', ')}` : ''}
-
-Create content that is informative yet accessible for a ${params.studentLevel} student.`;
+  private createExplanationPrompt(params: {
+    topic: string;
+    studentLevel: string;
+    learningPace: string;
+    difficulty: number;
+    includeExamples: boolean;
+    focusConcepts?: string[];
+  }): RenderedPrompt {
+    return promptRegistry.render('content.explanation', {
+      topic: params.topic,
+      studentLevel: params.studentLevel,
+      learningPace: params.learningPace,
+      difficulty: params.difficulty,
+      includeExamples: params.includeExamples,
+      focusConcepts: params.focusConcepts
+    });
   }
 
-  private createExamplePrompt(params: any): string {
-    return `Create a practical, relatable example of ${params.topic} for high school students.
-
-REQUIREMENTS:
-- Use contexts familiar to teenagers (social media, streaming, gaming, etc.)
-- Make the example concrete and specific
-- Explain how the ML concept applies in this real-world scenario
-- Keep it engaging and easy to understand
-- Show the practical value and relevance
-
-PREFERRED CONTEXTS: ${params.preferredExamples.join(', ') || 'social media, entertainment, sports'}
-
-Make this example something students can relate to and remember.`;
+  private createExamplePrompt(params: { topic: string; preferredExamples: string[] }): RenderedPrompt {
+    return promptRegistry.render('content.example', {
+      topic: params.topic,
+      preferredExamples: params.preferredExamples
+    });
   }
 
-  private createExercisePrompt(params: any): string {
-    return `Create a hands-on exercise about ${params.topic} for high school students.
-
-REQUIREMENTS:
-- Make it interactive and engaging
-- Provide clear step-by-step instructions
-- Include expected outcomes
-- Make it achievable in ${params.timeAvailable || 10} minutes
-- Use familiar contexts and examples
-- Include reflection questions
-
-The exercise should help students apply what they've learned about ${params.topic} in a practical way.`;
+  private createExercisePrompt(params: { topic: string; timeAvailable?: number }): RenderedPrompt {
+    return promptRegistry.render('content.exercise', {
+      topic: params.topic,
+      timeAvailable: params.timeAvailable || 10
+    });
   }
 
-  private createAdaptivePrompt(params: any): string {
-    return `Create adaptive educational content for ${params.topic} based on specific student needs.
-
-ADAPTATION NEEDS:
-- Recommended difficulty: ${params.adaptationNeeds.recommendedDifficulty}/5
-- Learning style: ${params.adaptationNeeds.preferredStyle}
-- Areas needing support: ${params.strugglingConcepts.join(', ')}
-- Learning pace: ${params.learningPace}
-
-REQUIREMENTS:
-- Address the specific struggling concepts
-- Adapt the explanation style to match learning preferences
-- Provide additional scaffolding where needed
-- Include remediation strategies if necessary
-- Keep content encouraging and supportive
-
-Create content that specifically addresses this student's learning needs.`;
+  private createAdaptivePrompt(params: {
+    topic: string;
+    adaptationNeeds: AdaptationNeeds;
+    strugglingConcepts: string[];
+    learningPace: string;
+  }): RenderedPrompt {
+    return promptRegistry.render('content.adaptive', {
+      topic: params.topic,
+      recommendedDifficulty: params.adaptationNeeds.recommendedDifficulty,
+      preferredStyle: params.adaptationNeeds.preferredStyle,
+      strugglingConcepts: params.strugglingConcepts,
+      learningPace: params.learningPace
+    });
   }
 
   private async generateExamples(topic: string, count: number): Promise<Example[]> {
@@ -1,12 +1,26 @@
 import { BaseAgent, AgentMessage, AgentConfig, AgentCapability } from './base.agent.js';
 import { MessageBus } from './message-bus.js';
-import { AgentRegistry } from './agent-registry.js';
+import { AgentRegistry, AgentRegistration } from './agent-registry.js';
+import { CORE_AGENT_TYPES } from './agent-plugin.js';
 import { ResilienceManager } from '../services/resilience-manager.service.js';
-import { AgentType, Message, MessageMetadata } from '../types/index.js';
+import { RetryService } from '../services/retry.service.js';
+import { curriculumService } from '../services/curriculum.service.js';
+import { intentClassifierService } from '../services/intent-classifier.service.js';
+import { responseSynthesisService } from '../services/response-synthesis.service.js';
+import {
+  AgentType,
+  IntentClassification,
+  Message,
+  MessageMetadata,
+  MessagePriority,
+  ResponseSectionKind,
+  StudentIntent
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface CoordinatorConfig extends AgentConfig {
   routingRules: RoutingRule[];
+  fanOutRules: RoutingRule[]; // run in parallel and synthesized when a request requires multiple agents
   fallbackStrategy: 'round_robin' | 'random' | 'least_busy';
   maxRetries: number;
   retryDelay: number;
@@ -14,14 +28,21 @@ export interface CoordinatorConfig extends AgentConfig {
 
 export interface RoutingRule {
   condition: RoutingCondition;
-  targetAgentType: AgentType;
+  targetAgentType?: AgentType;
+  targetCapability?: string; // in place of a type: any active agent offering this capability
   priority: number;
   fallbackTypes?: AgentType[];
+  exclusive?: boolean; // when it matches, no other rule runs
+  deadlineMs?: number; // the agent's reply counts as failed after this long
+  section?: ResponseSectionKind; // the part of a synthesized reply the agent writes
+  context?: Record<string, any>; // added to the request context for this agent, e.g. an assessment type
 }
 
 export interface RoutingCondition {
   messageType?: string;
   keywords?: string[];
+  intents?: StudentIntent[]; // matches when the message's top intent is one of these
+  minConfidence?: number; // confidence the intent needs, 0-1
   capability?: string;
   sessionContext?: Record<string, any>;
 }
@@ -31,7 +52,8 @@ export interface CoordinationRequest {
   studentMessage: Message;
   context: Record<string, any>;
   requiresMultipleAgents?: boolean;
-  priority?: number;
+  priority?: MessagePriority; // carried onto the messages sent to agents
+  intent?: IntentClassification; // classified when a rule first needs it, unless the caller supplies it
 }
 
 export interface CoordinationResponse {
@@ -41,6 +63,7 @@ export interface CoordinationResponse {
   processingTime: number;
   success: boolean;
   errors?: string[];
+  intent?: IntentClassification;
 }
 
 export interface AgentResponse {
@@ -50,6 +73,7 @@ export interface AgentResponse {
   processingTime: number;
   success: boolean;
   error?: string;
+  section?: ResponseSectionKind;
 }
 
 export class CoordinatorAgent extends BaseAgent {
@@ -89,13 +113,13 @@ export class CoordinatorAgent extends BaseAgent {
       logger.info(`Coordinating request ${coordinationId} for session ${request.sessionId}`);
       
       // Determine routing strategy
-      const routingPlan = this.createRoutingPlan(request);
+      const routingPlan = await this.createRoutingPlan(request);
       
       // Execute routing plan
       const responses = await this.executeRoutingPlan(routingPlan, request);
       
       // Aggregate responses
-      const aggregatedResponse = this.aggregateResponses(responses, request);
+      const aggregatedResponse = await this.aggregateResponses(responses, request);
       
       const processingTime = Date.now() - startTime;
       
@@ -105,7 +129,8 @@ export class CoordinatorAgent extends BaseAgent {
         involvedAgents: responses.map(r => r.agentId),
         processingTime,
         success: responses.some(r => r.success),
-        errors: responses.filter(r => !r.success).map(r => r.error || 'Unknown error')
+        errors: responses.filter(r => !r.success).map(r => r.error || 'Unknown error'),
+        intent: request.intent
       };
 
       // Update routing stats
@@ -214,18 +239,27 @@ export class CoordinatorAgent extends BaseAgent {
   /**
    * Create routing plan based on request
    */
-  private createRoutingPlan(request: CoordinationRequest): RoutingRule[] {
+  private async createRoutingPlan(request: CoordinationRequest): Promise<RoutingRule[]> {
     const applicableRules: RoutingRule[] = [];
-    
-    for (const rule of this.coordinatorConfig.routingRules) {
-      if (this.matchesRoutingCondition(rule.condition, request)) {
+
+    // Sort by priority (higher priority first), so the first exclusive match wins
+    const rules = [...this.coordinatorConfig.routingRules, ...this.getPluginRoutingRules()]
+      .sort((a, b) => b.priority - a.priority);
+
+    for (const rule of rules) {
+      if (await this.matchesRoutingCondition(rule.condition, request)) {
+        if (rule.exclusive) {
+          return [rule];
+        }
         applicableRules.push(rule);
       }
     }
-
-    // Sort by priority (higher priority first)
-    applicableRules.sort((a, b) => b.priority - a.priority);
     
+    // Explanation, example and check question from their agents, in place of the single-purpose rules
+    if (request.requiresMultipleAgents && this.coordinatorConfig.fanOutRules.length > 0) {
+      return this.coordinatorConfig.fanOutRules;
+    }
+
     // If no specific rules match, use default routing
     if (applicableRules.length === 0) {
       applicableRules.push(this.getDefaultRoutingRule(request));
@@ -235,63 +269,65 @@ export class CoordinatorAgent extends BaseAgent {
   }
 
   /**
-   * Execute routing plan
+   * Execute routing plan, querying the agents in parallel
    */
   private async executeRoutingPlan(
     routingPlan: RoutingRule[],
     request: CoordinationRequest
   ): Promise<AgentResponse[]> {
-    const responses: AgentResponse[] = [];
-    
-    for (const rule of routingPlan) {
-      try {
-        const agentResponse = await this.routeToAgent(rule, request);
-        if (agentResponse) {
-          responses.push(agentResponse);
-        }
-      } catch (error) {
-        logger.error(`Failed to route to agent type ${rule.targetAgentType}:`, error);
-        
-        // Try fallback agents
-        if (rule.fallbackTypes) {
-          for (const fallbackType of rule.fallbackTypes) {
-            try {
-              const fallbackRule: RoutingRule = {
-                ...rule,
-                targetAgentType: fallbackType
-              };
-              const fallbackResponse = await this.routeToAgent(fallbackRule, request);
-              if (fallbackResponse) {
-                responses.push(fallbackResponse);
-                break;
-              }
-            } catch (fallbackError) {
-              logger.error(`Fallback to ${fallbackType} also failed:`, fallbackError);
-            }
+    const responses = await Promise.all(routingPlan.map(rule => this.executeRule(rule, request)));
+
+    return responses.filter((response): response is AgentResponse => response !== null);
+  }
+
+  /**
+   * Route one rule, trying its fallback agent types when no agent of the target type can take it
+   */
+  private async executeRule(rule: RoutingRule, request: CoordinationRequest): Promise<AgentResponse | null> {
+    try {
+      return await this.routeToAgent(rule, request);
+    } catch (error) {
+      logger.error(`Failed to route to ${this.describeTarget(rule)}:`, error);
+
+      // Try fallback agents
+      for (const fallbackType of rule.fallbackTypes || []) {
+        try {
+          const fallbackRule: RoutingRule = {
+            ...rule,
+            targetAgentType: fallbackType,
+            targetCapability: undefined
+          };
+          const fallbackResponse = await this.routeToAgent(fallbackRule, request);
+          if (fallbackResponse) {
+            return fallbackResponse;
           }
+        } catch (fallbackError) {
+          logger.error(`Fallback to ${fallbackType} also failed:`, fallbackError);
         }
       }
-    }
 
-    return responses;
+      return null;
+    }
   }
 
   /**
-   * Route request to specific agent type
+   * Route request to an agent of the rule's target type or capability
    */
   private async routeToAgent(rule: RoutingRule, request: CoordinationRequest): Promise<AgentResponse | null> {
     const startTime = Date.now();
     
-    // Find available agents of the target type
-    const availableAgents = this.registry.findAgentsByType(rule.targetAgentType)
-      .filter(agent => agent.status === 'active');
+    // Find available agents for the target
+    const availableAgents = this.findTargetAgents(rule)
+      .filter(agent => agent.status === 'active' || agent.status === 'busy');
     
     if (availableAgents.length === 0) {
-      throw new Error(`No available agents of type ${rule.targetAgentType}`);
+      throw new Error(`No available agents for ${this.describeTarget(rule)}`);
     }
 
     // Select agent based on fallback strategy
-    const selectedAgent = this.selectAgent(availableAgents);
+    const selectedAgent: AgentRegistration = this.selectAgent(availableAgents);
+    const agentType = selectedAgent.agentType;
+    const agentRequest = rule.context ? { ...request, context: { ...request.context, ...rule.context } } : request;
     
     // Create agent message
     const agentMessage: AgentMessage = {
@@ -299,42 +335,40 @@ export class CoordinatorAgent extends BaseAgent {
       from: this.config.id,
       to: selectedAgent.agentId,
       type: 'request',
-      payload: {
-        sessionId: request.sessionId,
-        message: request.studentMessage,
-        context: request.context
-      },
-      timestamp: new Date()
+      payload: this.buildAgentPayload(agentType, agentRequest),
+      timestamp: new Date(),
+      priority: request.priority
     };
 
     try {
-      let response: AgentMessage | null;
-      
       // Use resilience manager if available
-      if (this.resilienceManager) {
-        response = await this.resilienceManager.executeAgentMessageWithResilience(
-          selectedAgent.agentId,
-          rule.targetAgentType,
-          agentMessage,
-          (msg) => this.messageBus.sendMessage(msg),
-          {
-            userId: request.context.userId,
-            sessionId: request.sessionId
-          }
-        );
-      } else {
-        response = await this.messageBus.sendMessage(agentMessage);
-      }
+      const sending = this.resilienceManager
+        ? this.resilienceManager.executeAgentMessageWithResilience(
+            selectedAgent.agentId,
+            agentType,
+            agentMessage,
+            (msg) => this.messageBus.sendMessage(msg),
+            {
+              userId: request.context.userId,
+              sessionId: request.sessionId
+            }
+          )
+        : this.messageBus.sendMessage(agentMessage);
+
+      const response = rule.deadlineMs
+        ? await RetryService.withTimeout(sending, rule.deadlineMs, `${agentType} agent missed its ${rule.deadlineMs}ms deadline`)
+        : await sending;
       
       const processingTime = Date.now() - startTime;
       
       if (response) {
         return {
           agentId: selectedAgent.agentId,
-          agentType: rule.targetAgentType,
-          response: response.payload as Message,
+          agentType,
+          response: this.extractResponseMessage(response.payload),
           processingTime,
-          success: true
+          success: true,
+          section: rule.section
         };
       } else {
         throw new Error('No response received from agent');
@@ -344,15 +378,116 @@ export class CoordinatorAgent extends BaseAgent {
       
       return {
         agentId: selectedAgent.agentId,
-        agentType: rule.targetAgentType,
+        agentType,
         response: this.createErrorResponse(request.studentMessage, error as Error),
         processingTime,
         success: false,
-        error: (error as Error).message
+        error: (error as Error).message,
+        section: rule.section
       };
     }
   }
 
+  /**
+   * Registered agents matching the rule's target capability, or else its target type
+   */
+  private findTargetAgents(rule: RoutingRule): AgentRegistration[] {
+    if (rule.targetCapability) {
+      return this.registry.findAgentsByCapability(rule.targetCapability);
+    }
+    return rule.targetAgentType ? this.registry.findAgentsByType(rule.targetAgentType) : [];
+  }
+
+  private describeTarget(rule: RoutingRule): string {
+    return rule.targetCapability ? `capability ${rule.targetCapability}` : `type ${rule.targetAgentType}`;
+  }
+
+  /**
+   * Routing rules from the hints in the manifests of registered plug-in agents
+   */
+  private getPluginRoutingRules(): RoutingRule[] {
+    return this.registry.getManifests().flatMap(manifest =>
+      (manifest.routing || []).map(hint => ({
+        condition: { intents: hint.intents, keywords: hint.keywords, minConfidence: hint.minConfidence },
+        targetAgentType: hint.capability ? undefined : manifest.type,
+        targetCapability: hint.capability,
+        priority: hint.priority ?? 8,
+        exclusive: hint.exclusive,
+        fallbackTypes: hint.fallbackTypes ?? ['tutor']
+      }))
+    );
+  }
+
+  /**
+   * Build the request payload in the shape expected by the target agent type;
+   * plug-in agents get the same shape as the tutor
+   */
+  private buildAgentPayload(agentType: AgentType, request: CoordinationRequest): Record<string, any> {
+    const context = {
+      currentTopic: request.context.currentTopic || curriculumService.getTopics()[0].id,
+      studentLevel: request.context.studentLevel || 'beginner',
+      learningPace: request.context.learningPace || 'medium',
+      conversationHistory: request.context.conversationHistory || [],
+      ...request.context,
+      intent: request.intent?.intent
+    };
+
+    switch (agentType) {
+      case 'assessment': {
+        // Answers to the question the assessment agent last asked are graded rather than met with a new question
+        const pendingQuestion = this.getPendingQuestion(request);
+        const answering = request.intent?.intent === 'quiz_answer' && pendingQuestion?.metadata.questionId;
+
+        return {
+          sessionId: request.sessionId,
+          studentMessage: request.studentMessage,
+          context: {
+            recentConcepts: [],
+            previousScores: [],
+            strugglingAreas: [],
+            timeSpentOnTopic: 0,
+            ...context
+          },
+          assessmentType: request.context.assessmentType
+            || (answering ? 'answer' : request.intent?.intent === 'practice_request' ? 'practice' : undefined),
+          questionId: answering ? pendingQuestion!.metadata.questionId : undefined
+        };
+      }
+
+      case 'content':
+        return {
+          sessionId: request.sessionId,
+          requestType: request.context.contentRequestType || 'example',
+          context: {
+            completedTopics: [],
+            strugglingConcepts: [],
+            preferredExamples: [],
+            ...context
+          },
+          specifications: request.context.contentSpecifications
+        };
+
+      default:
+        return {
+          sessionId: request.sessionId,
+          message: request.studentMessage,
+          context
+        };
+    }
+  }
+
+  /**
+   * Extract the chat message from an agent response payload
+   */
+  private extractResponseMessage(payload: any): Message {
+    // Specialized agents wrap their message with extra data (assessment, content, follow-ups)
+    if (payload && payload.message && typeof payload.message.content === 'string') {
+      return payload.message as Message;
+    }
+
+    return payload as Message;
+  }
+
   /**
    * Select agent based on strategy
    */
@@ -378,7 +513,7 @@ export class CoordinatorAgent extends BaseAgent {
   /**
    * Aggregate responses from multiple agents
    */
-  private aggregateResponses(responses: AgentResponse[], request: CoordinationRequest): Message {
+  private async aggregateResponses(responses: AgentResponse[], request: CoordinationRequest): Promise<Message> {
     if (responses.length === 0) {
       return this.createErrorResponse(request.studentMessage, new Error('No agent responses received'));
     }
@@ -389,6 +524,11 @@ export class CoordinatorAgent extends BaseAgent {
       return successfulResponses[0].response;
     }
 
+    // Fan-out sections are merged into one reply; a section whose agent failed is left out
+    if (successfulResponses.length > 1 && successfulResponses.every(r => r.section)) {
+      return await this.synthesizeResponses(successfulResponses, request);
+    }
+
     // If multiple responses, combine them intelligently
     if (successfulResponses.length > 1) {
       return this.combineResponses(successfulResponses, request);
@@ -411,7 +551,9 @@ export class CoordinatorAgent extends BaseAgent {
       messageType: 'explanation',
       agentId: this.config.id,
       hasCode: responses.some(r => r.response.metadata.hasCode),
-      hasMath: responses.some(r => r.response.metadata.hasMath)
+      hasMath: responses.some(r => r.response.metadata.hasMath),
+      concepts: [...new Set(responses.flatMap(r => r.response.metadata.concepts || []))],
+      prompts: responses.flatMap(r => r.response.metadata.prompts || [])
     };
 
     return {
@@ -423,6 +565,37 @@ export class CoordinatorAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Merge fan-out responses into explanation, example and check question, keeping each section's provenance
+   */
+  private async synthesizeResponses(responses: AgentResponse[], request: CoordinationRequest): Promise<Message> {
+    const reply = await responseSynthesisService.synthesize(
+      request.studentMessage,
+      responses.map(r => ({ kind: r.section!, agentId: r.agentId, agentType: r.agentType, message: r.response })),
+      { agent: 'coordinator', userId: request.context.userId, sessionId: request.sessionId }
+    );
+    const check = responses.find(r => r.section === 'check');
+
+    const metadata: MessageMetadata = {
+      messageType: 'explanation',
+      agentId: this.config.id,
+      hasCode: responses.some(r => r.response.metadata.hasCode),
+      hasMath: responses.some(r => r.response.metadata.hasMath),
+      concepts: [...new Set(responses.flatMap(r => r.response.metadata.concepts || []))],
+      prompts: [...responses.flatMap(r => r.response.metadata.prompts || []), ...(reply.prompt ? [reply.prompt] : [])],
+      questionId: check?.response.metadata.questionId,
+      sections: reply.sections
+    };
+
+    return {
+      id: `synthesized-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      sender: 'coordinator',
+      content: reply.content,
+      timestamp: new Date(),
+      metadata
+    };
+  }
+
   /**
    * Create error response
    */
@@ -444,7 +617,7 @@ export class CoordinatorAgent extends BaseAgent {
   /**
    * Check if request matches routing condition
    */
-  private matchesRoutingCondition(condition: RoutingCondition, request: CoordinationRequest): boolean {
+  private async matchesRoutingCondition(condition: RoutingCondition, request: CoordinationRequest): Promise<boolean> {
     // Check message type
     if (condition.messageType && request.studentMessage.metadata.messageType !== condition.messageType) {
       return false;
@@ -478,9 +651,44 @@ export class CoordinatorAgent extends BaseAgent {
       }
     }
 
+    // Check intent last, since classifying may call the LLM
+    if (condition.intents) {
+      const intent = await this.classifyIntent(request);
+      if (!condition.intents.includes(intent.intent) || intent.confidence < (condition.minConfidence || 0)) {
+        return false;
+      }
+    }
+
     return true;
   }
 
+  /**
+   * Classify the student message once per request
+   */
+  private async classifyIntent(request: CoordinationRequest): Promise<IntentClassification> {
+    if (!request.intent) {
+      const pending = this.getPendingQuestion(request);
+      // In a synthesized reply only the check section asks the question
+      const check = pending?.metadata.sections?.find(section => section.kind === 'check');
+
+      request.intent = await intentClassifierService.classify(request.studentMessage.content, {
+        pendingQuestion: check ? pending!.content.slice(check.start, check.end) : pending?.content,
+        attribution: { agent: 'intent-classifier', userId: request.context.userId, sessionId: request.sessionId }
+      });
+      logger.info(`Classified message in session ${request.sessionId} as ${request.intent.intent} (${request.intent.confidence}, ${request.intent.method})`);
+    }
+    return request.intent;
+  }
+
+  /**
+   * The message the student is replying to, if the last agent turn asked an assessment question
+   */
+  private getPendingQuestion(request: CoordinationRequest): Message | undefined {
+    const history: Message[] = request.context.conversationHistory || [];
+    const lastReply = [...history].reverse().find(message => message.sender !== 'student');
+    return lastReply?.metadata?.messageType === 'assessment' || lastReply?.metadata?.questionId ? lastReply : undefined;
+  }
+
   /**
    * Get default routing rule
    */
@@ -507,8 +715,7 @@ export class CoordinatorAgent extends BaseAgent {
    * Initialize routing statistics
    */
   private initializeRoutingStats(): void {
-    const agentTypes: AgentType[] = ['coordinator', 'tutor', 'assessment', 'content'];
-    for (const type of agentTypes) {
+    for (const type of CORE_AGENT_TYPES) {
       this.routingStats.set(type, { requests: 0, successes: 0, failures: 0 });
     }
   }
@@ -518,15 +725,101 @@ export class CoordinatorAgent extends BaseAgent {
    */
   private updateRoutingStats(responses: AgentResponse[]): void {
     for (const response of responses) {
-      const stats = this.routingStats.get(response.agentType);
-      if (stats) {
-        stats.requests++;
-        if (response.success) {
-          stats.successes++;
-        } else {
-          stats.failures++;
-        }
+      // Plug-in agent types get an entry on their first request
+      if (!this.routingStats.has(response.agentType)) {
+        this.routingStats.set(response.agentType, { requests: 0, successes: 0, failures: 0 });
+      }
+
+      const stats = this.routingStats.get(response.agentType)!;
+      stats.requests++;
+      if (response.success) {
+        stats.successes++;
+      } else {
+        stats.failures++;
       }
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create default coordinator configuration
+ */
+export function createCoordinatorConfig(agentId: string): CoordinatorConfig {
+  return {
+    id: agentId,
+    type: 'coordinator' as AgentType,
+    capabilities: [
+      {
+        name: 'route_requests',
+        description: 'Route student messages to the appropriate specialized agents',
+        inputTypes: ['student_message', 'session_context'],
+        outputTypes: ['coordinated_response']
+      }
+    ],
+    maxConcurrentTasks: 20,
+    healthCheckInterval: 30000,
+    routingRules: [
+      {
+        // Socratic sessions stay with the tutor so replies are checked against the dialogue
+        condition: { sessionContext: { tutorMode: 'socratic' } },
+        targetAgentType: 'tutor',
+        priority: 20,
+        exclusive: true
+      },
+      {
+        // Feelings and off-topic chat get the tutor's reply alone
+        condition: { intents: ['emotional', 'off_topic'] },
+        targetAgentType: 'tutor',
+        priority: 15,
+        exclusive: true
+      },
+      {
+        condition: { intents: ['quiz_answer'] },
+        targetAgentType: 'assessment',
+        priority: 12,
+        fallbackTypes: ['tutor'],
+        exclusive: true
+      },
+      {
+        condition: { intents: ['practice_request'] },
+        targetAgentType: 'assessment',
+        priority: 10,
+        fallbackTypes: ['tutor']
+      },
+      {
+        condition: { intents: ['example_request'] },
+        targetAgentType: 'content',
+        priority: 5,
+        fallbackTypes: ['tutor']
+      }
+    ],
+    fanOutRules: [
+      {
+        condition: {},
+        targetAgentType: 'tutor',
+        priority: 0,
+        section: 'explanation',
+        deadlineMs: 20000
+      },
+      {
+        condition: {},
+        targetAgentType: 'content',
+        priority: 0,
+        section: 'example',
+        deadlineMs: 15000,
+        context: { contentRequestType: 'example' }
+      },
+      {
+        condition: {},
+        targetAgentType: 'assessment',
+        priority: 0,
+        section: 'check',
+        deadlineMs: 15000,
+        context: { assessmentType: 'comprehension' }
+      }
+    ],
+    fallbackStrategy: 'least_busy',
+    maxRetries: 2,
+    retryDelay: 1000
+  };
+}
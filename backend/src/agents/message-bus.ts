@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
+import { hostname } from 'os';
 import { BaseAgent, AgentMessage } from './base.agent.js';
-import { AgentType } from '../types/index.js';
+import { MessageScheduler, JobOptions } from './message-scheduler.js';
+import { MessageTransport, MessageTransportName, RemoteAgentEntry, TransportEnvelope } from './transports/index.js';
+import { AgentType, MessagePriority } from '../types/index.js';
 import { CircuitBreakerManager } from '../services/circuit-breaker-manager.service.js';
 import { logger } from '../utils/logger.js';
 
@@ -12,24 +15,45 @@ export interface MessageRoute {
 }
 
 export interface MessageBusConfig {
-  maxQueueSize: number;
+  maxQueueSize: number; // deliveries waiting for an agent; more are refused
+  maxConcurrentDeliveries?: number; // deliveries running at once across agents; defaults to 50
   messageTimeout: number;
   retryAttempts: number;
   retryDelay: number;
+  transport: MessageTransportName;
+  nodeId?: string; // names this process on the transport; defaults to host and pid
+  heartbeatInterval: number; // how often agents are re-advertised and the directory re-read
 }
 
+// Messages that don't name a priority; health checks go first so a busy agent isn't reported down
+const DEFAULT_PRIORITY: Record<AgentMessage['type'], MessagePriority> = {
+  health_check: 'high',
+  request: 'medium',
+  response: 'medium',
+  broadcast: 'low'
+};
+
 export class MessageBus extends EventEmitter {
   private agents: Map<string, BaseAgent> = new Map();
-  private messageQueue: AgentMessage[] = [];
+  private remoteAgents: Map<string, RemoteAgentEntry> = new Map();
+  private scheduler: MessageScheduler;
   private pendingMessages: Map<string, { resolve: Function; reject: Function; timeout: NodeJS.Timeout }> = new Map();
   private config: MessageBusConfig;
-  private isProcessing: boolean = false;
   private circuitBreakerManager: CircuitBreakerManager | null = null;
+  private transport: MessageTransport | null = null;
+  private readonly nodeId: string;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
 
-  constructor(config: MessageBusConfig, circuitBreakerManager?: CircuitBreakerManager) {
+  constructor(config: MessageBusConfig, circuitBreakerManager?: CircuitBreakerManager, transport?: MessageTransport | null) {
     super();
     this.config = config;
     this.circuitBreakerManager = circuitBreakerManager || null;
+    this.transport = transport || null;
+    this.nodeId = config.nodeId || `${hostname()}-${process.pid}`;
+    this.scheduler = new MessageScheduler(
+      { maxConcurrent: config.maxConcurrentDeliveries || 50, maxQueued: config.maxQueueSize },
+      'Message queue is full'
+    );
   }
 
   /**
@@ -57,6 +81,7 @@ export class MessageBus extends EventEmitter {
 
     agent.on('agent:status_changed', (data) => {
       this.emit('agent:status_changed', data);
+      this.advertise(agent);
     });
 
     agent.on('agent:health_check_failed', (data) => {
@@ -64,7 +89,14 @@ export class MessageBus extends EventEmitter {
       this.emit('agent:health_check_failed', data);
     });
 
+    agent.on('agent:stream_chunk', (data) => {
+      this.emit('agent:stream_chunk', data);
+      // The request may have come from another process
+      this.publish({ kind: 'event', origin: this.nodeId, event: { name: 'agent:stream_chunk', data } });
+    });
+
     logger.info(`Agent ${agentId} registered with message bus`);
+    this.advertise(agent, true);
   }
 
   /**
@@ -77,6 +109,7 @@ export class MessageBus extends EventEmitter {
       this.agents.delete(agentId);
       logger.info(`Agent ${agentId} unregistered from message bus`);
       this.emit('agent:unregistered', { agentId });
+      this.withdraw(agentId);
     }
   }
 
@@ -84,18 +117,17 @@ export class MessageBus extends EventEmitter {
    * Send a message to a specific agent
    */
   public async sendMessage(message: AgentMessage): Promise<AgentMessage | null> {
-    if (this.messageQueue.length >= this.config.maxQueueSize) {
+    if (this.scheduler.isFull()) {
       throw new Error('Message queue is full');
     }
 
     // Use circuit breaker if available
     if (this.circuitBreakerManager && message.to !== 'all') {
-      const targetAgent = this.agents.get(message.to);
-      if (targetAgent) {
-        const agentState = targetAgent.getState();
+      const agentType = this.agents.get(message.to)?.getState().agentType ?? this.remoteAgents.get(message.to)?.agentType;
+      if (agentType) {
         return await this.circuitBreakerManager.executeAgentMessage(
           message.to,
-          agentState.agentType,
+          agentType,
           message,
           (msg) => this.sendMessageDirect(msg)
         );
@@ -106,27 +138,51 @@ export class MessageBus extends EventEmitter {
   }
 
   /**
-   * Send message directly without circuit breaker protection
+   * Send message directly without circuit breaker protection. Local deliveries are scheduled by
+   * priority and run once the target agent has a free task slot.
    */
   private async sendMessageDirect(message: AgentMessage): Promise<AgentMessage | null> {
-    if (this.messageQueue.length >= this.config.maxQueueSize) {
-      throw new Error('Message queue is full');
+    // Agents hosted by another process are reached through the transport
+    const remoteAgent = this.agents.has(message.to) ? undefined : this.remoteAgents.get(message.to);
+    if (remoteAgent) {
+      return this.sendRemote(message, remoteAgent, message.type === 'request');
     }
 
-    // Add message to queue
-    this.messageQueue.push(message);
-    
-    // Start processing if not already processing
-    if (!this.isProcessing) {
-      this.processMessageQueue();
+    // A broadcast schedules its delivery to each agent on its own
+    if (message.to === 'all') {
+      await this.broadcastMessage(message);
+      return null;
     }
 
     // If this is a request, wait for response
-    if (message.type === 'request') {
-      return this.waitForResponse(message);
-    }
+    const reply = message.type === 'request' ? this.waitForResponse(message) : Promise.resolve(null);
+
+    this.scheduler.schedule(this.deliveryJob(message), () => this.deliverMessage(message))
+      .catch(error => {
+        logger.error(`Failed to deliver message ${message.id}:`, error);
+        this.emit('message:delivery_failed', { message, error });
+        this.rejectResponse(message.id, error);
+      });
+
+    return reply;
+  }
+
+  /**
+   * Scheduling for a delivery: its priority class and the concurrency limit of its target agent
+   */
+  private deliveryJob(message: AgentMessage, agentId: string = message.to): JobOptions {
+    return {
+      priority: message.priority || DEFAULT_PRIORITY[message.type],
+      agentId,
+      agentLimit: this.agents.get(agentId)?.getMaxConcurrentTasks()
+    };
+  }
 
-    return null;
+  /**
+   * Deliveries running and waiting, by priority class
+   */
+  public getQueueStats(): ReturnType<MessageScheduler['getStats']> {
+    return this.scheduler.getStats();
   }
 
   /**
@@ -138,15 +194,30 @@ export class MessageBus extends EventEmitter {
       to: 'all'
     };
 
-    for (const [agentId, agent] of this.agents) {
-      if (agentId !== message.from && agent.getState().status === 'active') {
-        try {
-          await agent.processMessage(broadcastMessage);
-        } catch (error) {
-          logger.error(`Failed to broadcast message to agent ${agentId}:`, error);
-        }
-      }
-    }
+    await this.deliverBroadcast(broadcastMessage);
+    await this.publish({ kind: 'broadcast', origin: this.nodeId, message: broadcastMessage });
+  }
+
+  /**
+   * Deliver a broadcast to the active agents in this process, each delivery scheduled like any other
+   */
+  private async deliverBroadcast(broadcastMessage: AgentMessage): Promise<void> {
+    const deliveries = [...this.agents]
+      .filter(([agentId, agent]) => agentId !== broadcastMessage.from && this.isReachable(agent))
+      .map(([agentId, agent]) =>
+        this.scheduler.schedule(this.deliveryJob(broadcastMessage, agentId), () => agent.processMessage(broadcastMessage))
+          .catch(error => logger.error(`Failed to broadcast message to agent ${agentId}:`, error))
+      );
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Whether a local agent takes deliveries; a busy agent gets them once it has a free task slot
+   */
+  private isReachable(agent: BaseAgent): boolean {
+    const { status } = agent.getState();
+    return status === 'active' || status === 'busy';
   }
 
   /**
@@ -156,10 +227,10 @@ export class MessageBus extends EventEmitter {
     const responses: AgentMessage[] = [];
     
     for (const [agentId, agent] of this.agents) {
-      const agentState = agent.getState();
-      if (agentState.agentType === agentType && agentState.status === 'active') {
+      if (agent.getState().agentType === agentType && this.isReachable(agent)) {
         try {
-          const response = await agent.processMessage({ ...message, to: agentId });
+          const targeted: AgentMessage = { ...message, to: agentId };
+          const response = await this.scheduler.schedule(this.deliveryJob(targeted), () => agent.processMessage(targeted));
           if (response) {
             responses.push(response);
           }
@@ -169,6 +240,19 @@ export class MessageBus extends EventEmitter {
       }
     }
 
+    for (const remoteAgent of this.remoteAgents.values()) {
+      if (remoteAgent.agentType === agentType && remoteAgent.status === 'active') {
+        try {
+          const response = await this.sendRemote({ ...message, to: remoteAgent.agentId }, remoteAgent, true);
+          if (response) {
+            responses.push(response);
+          }
+        } catch (error) {
+          logger.error(`Failed to send message to agent ${remoteAgent.agentId}:`, error);
+        }
+      }
+    }
+
     return responses;
   }
 
@@ -199,6 +283,20 @@ export class MessageBus extends EventEmitter {
     return Array.from(this.agents.values());
   }
 
+  /**
+   * Get the agents other processes host, as last read from the directory
+   */
+  public getRemoteAgents(): RemoteAgentEntry[] {
+    return Array.from(this.remoteAgents.values());
+  }
+
+  /**
+   * Name of this process on the transport
+   */
+  public getNodeId(): string {
+    return this.nodeId;
+  }
+
   /**
    * Get agent states
    */
@@ -250,82 +348,275 @@ export class MessageBus extends EventEmitter {
   }
 
   /**
-   * Process message queue
+   * Deliver message to target agent
+   */
+  private async deliverMessage(message: AgentMessage): Promise<void> {
+    const targetAgent = this.agents.get(message.to);
+    if (!targetAgent) {
+      throw new Error(`Target agent ${message.to} not found`);
+    }
+
+    const response = await targetAgent.processMessage(message);
+    
+    if (response && message.type === 'request') {
+      this.resolveResponse(message.id, response);
+    }
+
+    this.emit('message:delivered', { message, response });
+  }
+
+  /**
+   * Send a message to an agent in another process; a reply is awaited under a key that is
+   * unique per target, since sendToAgentType sends the same message id to several agents
+   */
+  private async sendRemote(message: AgentMessage, remoteAgent: RemoteAgentEntry, awaitReply: boolean): Promise<AgentMessage | null> {
+    const replyKey = awaitReply ? `${message.id}:${message.to}` : undefined;
+    const reply = replyKey ? this.waitForResponse(message, replyKey) : Promise.resolve(null);
+
+    try {
+      const delivered = await this.transport!.send(remoteAgent.nodeId, { kind: 'deliver', origin: this.nodeId, message, replyKey });
+      if (!delivered) {
+        // Nothing listens on the node's channel, so its process has gone
+        this.forgetNode(remoteAgent.nodeId);
+        throw new Error(`Agent ${message.to} is unreachable`);
+      }
+    } catch (error) {
+      if (!replyKey) {
+        throw error;
+      }
+      this.rejectResponse(replyKey, error as Error);
+    }
+
+    return reply;
+  }
+
+  /**
+   * Handle an envelope from the transport
+   */
+  private async handleEnvelope(envelope: TransportEnvelope): Promise<void> {
+    switch (envelope.kind) {
+      case 'deliver':
+        await this.deliverFromRemote(envelope);
+        break;
+
+      case 'reply':
+        if (envelope.error) {
+          this.rejectResponse(envelope.replyKey!, new Error(envelope.error));
+        } else {
+          this.resolveResponse(envelope.replyKey!, envelope.message || null);
+        }
+        break;
+
+      case 'broadcast':
+        if (envelope.origin !== this.nodeId && envelope.message) {
+          await this.deliverBroadcast(envelope.message);
+        }
+        break;
+
+      case 'event':
+        if (envelope.origin !== this.nodeId && envelope.event) {
+          this.emit(envelope.event.name, envelope.event.data);
+        }
+        break;
+
+      case 'directory':
+        if (envelope.origin !== this.nodeId) {
+          await this.refreshRemoteAgents();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Hand a message from another process to the local agent, replying to the sender if it waits
+   */
+  private async deliverFromRemote(envelope: TransportEnvelope): Promise<void> {
+    const message = envelope.message!;
+    let response: AgentMessage | null = null;
+    let error: string | undefined;
+
+    try {
+      const targetAgent = this.agents.get(message.to);
+      if (!targetAgent) {
+        throw new Error(`Target agent ${message.to} not found`);
+      }
+      response = await this.scheduler.schedule(this.deliveryJob(message), () => targetAgent.processMessage(message));
+      this.emit('message:delivered', { message, response });
+    } catch (deliveryError) {
+      logger.error(`Failed to deliver message ${message.id} from node ${envelope.origin}:`, deliveryError);
+      error = (deliveryError as Error).message;
+    }
+
+    if (envelope.replyKey) {
+      await this.transport!.send(envelope.origin, { kind: 'reply', origin: this.nodeId, replyKey: envelope.replyKey, message: response, error })
+        .catch(sendError => logger.error(`Failed to reply to node ${envelope.origin}:`, sendError));
+    }
+  }
+
+  /**
+   * Re-read the directory of agents other processes host, dropping those whose process stopped heartbeating
    */
-  private async processMessageQueue(): Promise<void> {
-    if (this.isProcessing || this.messageQueue.length === 0) {
+  public async refreshRemoteAgents(): Promise<void> {
+    if (!this.transport) {
       return;
     }
 
-    this.isProcessing = true;
+    const staleBefore = Date.now() - this.config.heartbeatInterval * 3;
+    const listed = new Set<string>();
 
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift()!;
-      
-      try {
-        await this.deliverMessage(message);
-      } catch (error) {
-        logger.error(`Failed to deliver message ${message.id}:`, error);
-        this.emit('message:delivery_failed', { message, error });
+    for (const entry of await this.transport.listAgents()) {
+      if (entry.nodeId === this.nodeId) {
+        continue;
+      }
+      if (entry.lastSeen < staleBefore) {
+        await this.transport.withdraw(entry.agentId);
+        continue;
+      }
+
+      listed.add(entry.agentId);
+      const isNew = !this.remoteAgents.has(entry.agentId);
+      this.remoteAgents.set(entry.agentId, entry);
+      this.emit('agent:remote_seen', entry);
+      if (isNew) {
+        logger.info(`Agent ${entry.agentId} (${entry.agentType}) available on node ${entry.nodeId}`);
+      }
+    }
+
+    for (const [agentId, entry] of this.remoteAgents) {
+      if (!listed.has(agentId)) {
+        this.remoteAgents.delete(agentId);
+        logger.info(`Agent ${agentId} on node ${entry.nodeId} is no longer available`);
+        this.emit('agent:remote_lost', entry);
       }
     }
+  }
 
-    this.isProcessing = false;
+  /**
+   * Drop every agent of a node that stopped listening
+   */
+  private forgetNode(nodeId: string): void {
+    for (const [agentId, entry] of this.remoteAgents) {
+      if (entry.nodeId === nodeId) {
+        this.remoteAgents.delete(agentId);
+        this.transport?.withdraw(agentId).catch(() => {});
+        this.emit('agent:remote_lost', entry);
+      }
+    }
   }
 
   /**
-   * Deliver message to target agent
+   * List a local agent in the directory; a new listing is announced so other nodes pick it up at once
    */
-  private async deliverMessage(message: AgentMessage): Promise<void> {
-    if (message.to === 'all') {
-      await this.broadcastMessage(message);
+  private async advertise(agent: BaseAgent, announce: boolean = false): Promise<void> {
+    const state = agent.getState();
+    // Every process runs its own coordinator, so coordinators are never addressed across processes
+    if (!this.transport || state.agentType === 'coordinator') {
       return;
     }
 
-    const targetAgent = this.agents.get(message.to);
-    if (!targetAgent) {
-      throw new Error(`Target agent ${message.to} not found`);
+    try {
+      await this.transport.advertise({
+        agentId: state.agentId,
+        agentType: state.agentType,
+        capabilities: agent.getCapabilities(),
+        status: state.status,
+        nodeId: this.nodeId,
+        lastSeen: Date.now()
+      });
+      if (announce) {
+        await this.transport.broadcast({ kind: 'directory', origin: this.nodeId });
+      }
+    } catch (error) {
+      logger.error(`Failed to advertise agent ${state.agentId}:`, error);
     }
+  }
 
-    const response = await targetAgent.processMessage(message);
-    
-    if (response && message.type === 'request') {
-      this.resolveResponse(message.id, response);
+  private async withdraw(agentId: string): Promise<void> {
+    if (!this.transport) {
+      return;
     }
 
-    this.emit('message:delivered', { message, response });
+    try {
+      await this.transport.withdraw(agentId);
+      await this.transport.broadcast({ kind: 'directory', origin: this.nodeId });
+    } catch (error) {
+      logger.error(`Failed to withdraw agent ${agentId}:`, error);
+    }
+  }
+
+  /**
+   * Send an envelope to every node, logging rather than failing when the transport is down
+   */
+  private async publish(envelope: TransportEnvelope): Promise<void> {
+    if (!this.transport) {
+      return;
+    }
+
+    try {
+      await this.transport.broadcast(envelope);
+    } catch (error) {
+      logger.error(`Failed to publish ${envelope.kind} to other nodes:`, error);
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    for (const agent of this.agents.values()) {
+      await this.advertise(agent);
+    }
+    await this.refreshRemoteAgents().catch(error => logger.error('Failed to refresh the agent directory:', error));
   }
 
   /**
    * Wait for response to a request message
    */
-  private waitForResponse(message: AgentMessage): Promise<AgentMessage | null> {
+  private waitForResponse(message: AgentMessage, key: string = message.id): Promise<AgentMessage | null> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        this.pendingMessages.delete(message.id);
+        this.pendingMessages.delete(key);
         reject(new Error(`Message ${message.id} timed out`));
       }, this.config.messageTimeout);
 
-      this.pendingMessages.set(message.id, { resolve, reject, timeout });
+      this.pendingMessages.set(key, { resolve, reject, timeout });
     });
   }
 
   /**
    * Resolve pending response
    */
-  private resolveResponse(messageId: string, response: AgentMessage): void {
-    const pending = this.pendingMessages.get(messageId);
+  private resolveResponse(key: string, response: AgentMessage | null): void {
+    const pending = this.pendingMessages.get(key);
     if (pending) {
       clearTimeout(pending.timeout);
-      this.pendingMessages.delete(messageId);
+      this.pendingMessages.delete(key);
       pending.resolve(response);
     }
   }
 
   /**
-   * Start the message bus
+   * Reject pending response
+   */
+  private rejectResponse(key: string, error: Error): void {
+    const pending = this.pendingMessages.get(key);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingMessages.delete(key);
+      pending.reject(error);
+    }
+  }
+
+  /**
+   * Start the message bus, joining the other processes when a transport is configured
    */
   public async start(): Promise<void> {
+    if (this.transport) {
+      await this.transport.connect(this.nodeId, (envelope) => {
+        this.handleEnvelope(envelope).catch(error => logger.error(`Failed to handle ${envelope.kind} envelope:`, error));
+      });
+      await this.heartbeat();
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), this.config.heartbeatInterval);
+      logger.info(`Message bus joined the ${this.transport.name} transport as node ${this.nodeId}`);
+    }
+
     logger.info('Message bus started');
     this.emit('message_bus:started');
   }
@@ -334,6 +625,8 @@ export class MessageBus extends EventEmitter {
    * Stop the message bus
    */
   public async stop(): Promise<void> {
+    this.scheduler.clear(new Error('Message bus stopped'));
+
     // Clear pending messages
     for (const [messageId, pending] of this.pendingMessages) {
       clearTimeout(pending.timeout);
@@ -350,8 +643,19 @@ export class MessageBus extends EventEmitter {
       }
     }
 
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.transport) {
+      for (const agentId of this.agents.keys()) {
+        await this.withdraw(agentId);
+      }
+      await this.transport.disconnect().catch(error => logger.error('Error leaving the message transport:', error));
+    }
+
     this.agents.clear();
-    this.messageQueue.length = 0;
+    this.remoteAgents.clear();
     
     logger.info('Message bus stopped');
     this.emit('message_bus:stopped');
@@ -0,0 +1,163 @@
+import { MessagePriority } from '../types/index.js';
+
+const PRIORITY_RANK: Record<MessagePriority, number> = { high: 0, medium: 1, low: 2 };
+
+export interface SchedulerConfig {
+  maxConcurrent: number; // jobs running at once
+  maxQueued: number; // jobs waiting to start; more are turned away
+}
+
+export interface JobOptions {
+  priority?: MessagePriority; // defaults to medium
+  sessionId?: string; // jobs of one session run one at a time, in the order they arrived
+  agentId?: string;
+  agentLimit?: number; // jobs for the agent allowed to run at once
+  onQueued?: (position: number) => void; // called when the job has to wait, and again as it moves up
+}
+
+interface QueuedJob {
+  seq: number;
+  options: JobOptions;
+  rank: number;
+  position?: number;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+export class SchedulerBusyError extends Error {
+  constructor(message: string, public readonly queued: number) {
+    super(message);
+    this.name = 'SchedulerBusyError';
+  }
+}
+
+/**
+ * Runs async jobs by priority class. Higher classes start first and jobs in a class start in
+ * arrival order, except that a job waits while another job of its session is running or queued
+ * ahead of it, or while its agent is at its concurrency limit; the scheduler then starts the next
+ * job that can run.
+ */
+export class MessageScheduler {
+  private queue: QueuedJob[] = [];
+  private running = 0;
+  private activeSessions: Set<string> = new Set();
+  private activeByAgent: Map<string, number> = new Map();
+  private seq = 0;
+
+  constructor(private readonly config: SchedulerConfig, private readonly busyMessage: string = 'Scheduler queue is full') {}
+
+  /**
+   * Run the job once its turn comes; rejects with SchedulerBusyError when the queue is full
+   */
+  public schedule<T>(options: JobOptions, run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const job: QueuedJob = {
+        seq: this.seq++,
+        options,
+        rank: PRIORITY_RANK[options.priority || 'medium'],
+        start: () => {
+          this.acquire(options);
+          run()
+            .then(resolve, reject)
+            .finally(() => {
+              this.release(options);
+              this.drain();
+            });
+        },
+        reject
+      };
+
+      if (this.queue.length === 0 && this.canStart(job)) {
+        job.start();
+        return;
+      }
+
+      if (this.queue.length >= this.config.maxQueued) {
+        reject(new SchedulerBusyError(this.busyMessage, this.queue.length));
+        return;
+      }
+
+      // Behind every queued job of the same or a higher class
+      const index = this.queue.findIndex(queued => queued.rank > job.rank);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, job);
+      this.drain();
+    });
+  }
+
+  /**
+   * Reject every job still waiting, e.g. on shutdown
+   */
+  public clear(error: Error): void {
+    const waiting = this.queue.splice(0);
+    for (const job of waiting) {
+      job.reject(error);
+    }
+  }
+
+  public isFull(): boolean {
+    return this.queue.length >= this.config.maxQueued;
+  }
+
+  public getStats(): { running: number; queued: number; queuedByPriority: Record<MessagePriority, number> } {
+    const queuedByPriority: Record<MessagePriority, number> = { high: 0, medium: 0, low: 0 };
+    for (const job of this.queue) {
+      queuedByPriority[job.options.priority || 'medium']++;
+    }
+    return { running: this.running, queued: this.queue.length, queuedByPriority };
+  }
+
+  /**
+   * Start every queued job that can run, then tell the rest where they stand
+   */
+  private drain(): void {
+    for (let index = 0; index < this.queue.length; index++) {
+      const job = this.queue[index];
+      if (this.canStart(job)) {
+        this.queue.splice(index--, 1);
+        job.start();
+      }
+    }
+
+    this.queue.forEach((job, index) => {
+      if (job.options.onQueued && job.position !== index + 1) {
+        job.position = index + 1;
+        job.options.onQueued(job.position);
+      }
+    });
+  }
+
+  private canStart(job: QueuedJob): boolean {
+    const { sessionId, agentId, agentLimit } = job.options;
+
+    if (this.running >= this.config.maxConcurrent) {
+      return false;
+    }
+    if (sessionId && (this.activeSessions.has(sessionId) ||
+        this.queue.some(queued => queued.options.sessionId === sessionId && queued.seq < job.seq))) {
+      return false;
+    }
+    if (agentId && agentLimit && (this.activeByAgent.get(agentId) || 0) >= agentLimit) {
+      return false;
+    }
+    return true;
+  }
+
+  private acquire({ sessionId, agentId }: JobOptions): void {
+    this.running++;
+    if (sessionId) this.activeSessions.add(sessionId);
+    if (agentId) this.activeByAgent.set(agentId, (this.activeByAgent.get(agentId) || 0) + 1);
+  }
+
+  private release({ sessionId, agentId }: JobOptions): void {
+    this.running--;
+    if (sessionId) this.activeSessions.delete(sessionId);
+    if (agentId) {
+      const active = (this.activeByAgent.get(agentId) || 1) - 1;
+      if (active > 0) {
+        this.activeByAgent.set(agentId, active);
+      } else {
+        this.activeByAgent.delete(agentId);
+      }
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { AgentType, LearningSession, StudentProgress, Message } from '../types/index.js';
+import { AgentType, LearningSession, StudentProgress, Message, TutorMode, SocraticDialogue } from '../types/index.js';
 import { RedisService } from '../services/redis.service.js';
 import { logger } from '../utils/logger.js';
 
@@ -12,6 +12,8 @@ export interface SharedContextData {
   agentStates: Map<string, AgentContextState>;
   learningObjectives: string[];
   currentDifficulty: number;
+  tutorMode: TutorMode;
+  socraticDialogue: SocraticDialogue | null; // where the student is in the current Socratic problem
   lastActivity: Date;
   metadata: Record<string, any>;
 }
@@ -29,7 +31,7 @@ export interface AgentContextState {
 export interface ContextUpdate {
   sessionId: string;
   agentId: string;
-  updateType: 'message' | 'progress' | 'topic' | 'difficulty' | 'metadata' | 'agent_state';
+  updateType: 'message' | 'progress' | 'topic' | 'difficulty' | 'metadata' | 'agent_state' | 'tutor_mode' | 'dialogue';
   data: any;
   timestamp: Date;
 }
@@ -73,6 +75,8 @@ export class SharedContextManager extends EventEmitter {
       agentStates: new Map(),
       learningObjectives: [],
       currentDifficulty: 1,
+      tutorMode: 'explain',
+      socraticDialogue: null,
       lastActivity: new Date(),
       metadata: {}
     };
@@ -148,6 +152,14 @@ export class SharedContextManager extends EventEmitter {
           this.updateAgentStateInternal(contextData, agentId, data);
           break;
         
+        case 'tutor_mode':
+          this.updateTutorMode(contextData, data as TutorMode);
+          break;
+        
+        case 'dialogue':
+          contextData.socraticDialogue = data as SocraticDialogue | null;
+          break;
+        
         default:
           logger.warn(`Unknown update type: ${updateType}`);
       }
@@ -200,6 +212,36 @@ export class SharedContextManager extends EventEmitter {
     await this.updateContext(update);
   }
 
+  /**
+   * Switch the session between direct explanations and Socratic questioning
+   */
+  public async setTutorMode(sessionId: string, mode: TutorMode): Promise<void> {
+    await this.updateContext({
+      sessionId,
+      agentId: 'system',
+      updateType: 'tutor_mode',
+      data: mode,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Store the Socratic dialogue state after a tutor turn, or clear it with null
+   */
+  public async updateSocraticDialogue(
+    sessionId: string,
+    agentId: string,
+    dialogue: SocraticDialogue | null
+  ): Promise<void> {
+    await this.updateContext({
+      sessionId,
+      agentId,
+      updateType: 'dialogue',
+      data: dialogue,
+      timestamp: new Date()
+    });
+  }
+
   /**
    * Get conversation history for a session
    */
@@ -368,6 +410,8 @@ export class SharedContextManager extends EventEmitter {
       
       // Convert object back to Map
       const contextData: SharedContextData = {
+        tutorMode: 'explain',
+        socraticDialogue: null,
         ...parsedData,
         agentStates: new Map(Object.entries(parsedData.agentStates || {})),
         lastActivity: new Date(parsedData.lastActivity)
@@ -425,6 +469,16 @@ export class SharedContextManager extends EventEmitter {
     contextData.metadata = { ...contextData.metadata, ...metadata };
   }
 
+  /**
+   * Update tutor mode; a dialogue from the other mode no longer applies
+   */
+  private updateTutorMode(contextData: SharedContextData, mode: TutorMode): void {
+    if (contextData.tutorMode !== mode) {
+      contextData.socraticDialogue = null;
+    }
+    contextData.tutorMode = mode;
+  }
+
   /**
    * Update agent state (internal)
    */
@@ -0,0 +1,23 @@
+import { RedisService } from '../../services/redis.service.js';
+import { MessageTransport, MessageTransportName } from './message-transport.js';
+import { RedisMessageTransport } from './redis.transport.js';
+
+export type { MessageTransport, MessageTransportName, RemoteAgentEntry, TransportEnvelope } from './message-transport.js';
+export { serializeEnvelope, parseEnvelope } from './message-transport.js';
+export { RedisMessageTransport } from './redis.transport.js';
+
+/**
+ * Create the transport selected by the message bus configuration; 'local' keeps every agent in this process
+ */
+export function createMessageTransport(name: MessageTransportName, redisService: RedisService): MessageTransport | null {
+  switch (name) {
+    case 'local':
+      return null;
+
+    case 'redis':
+      return new RedisMessageTransport(redisService.getClient());
+
+    default:
+      throw new Error(`Unknown message transport: ${name}`);
+  }
+}
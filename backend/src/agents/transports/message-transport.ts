@@ -0,0 +1,76 @@
+import type { AgentMessage, AgentCapability } from '../base.agent.js';
+import type { AgentState, AgentType } from '../../types/index.js';
+
+export type MessageTransportName = 'local' | 'redis';
+
+/**
+ * An agent hosted by some process on the bus, as listed in the shared directory
+ */
+export interface RemoteAgentEntry {
+  agentId: string;
+  agentType: AgentType;
+  capabilities: AgentCapability[];
+  status: AgentState['status'];
+  nodeId: string; // the process hosting the agent
+  lastSeen: number; // epoch ms of the hosting process's last heartbeat
+}
+
+/**
+ * What one process sends another over the transport
+ */
+export interface TransportEnvelope {
+  kind: 'deliver' | 'reply' | 'broadcast' | 'event' | 'directory';
+  origin: string; // node id of the sender
+  message?: AgentMessage | null;
+  replyKey?: string; // set on a delivery that awaits a reply; echoed on the reply
+  error?: string; // the target agent failed to handle the delivery
+  event?: { name: string; data: any }; // agent events other processes listen for, e.g. stream chunks
+}
+
+/**
+ * Carries agent messages between processes sharing one message bus
+ */
+export interface MessageTransport {
+  readonly name: MessageTransportName;
+
+  /**
+   * Start receiving the envelopes addressed to this node and those sent to every node
+   */
+  connect(nodeId: string, onEnvelope: (envelope: TransportEnvelope) => void): Promise<void>;
+
+  disconnect(): Promise<void>;
+
+  /**
+   * Send an envelope to one node; resolves false when no process is listening for it
+   */
+  send(nodeId: string, envelope: TransportEnvelope): Promise<boolean>;
+
+  /**
+   * Send an envelope to every node, including this one
+   */
+  broadcast(envelope: TransportEnvelope): Promise<void>;
+
+  /**
+   * Add or refresh an agent in the shared directory
+   */
+  advertise(entry: RemoteAgentEntry): Promise<void>;
+
+  withdraw(agentId: string): Promise<void>;
+
+  listAgents(): Promise<RemoteAgentEntry[]>;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export function serializeEnvelope(envelope: TransportEnvelope): string {
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parse an envelope, turning the timestamps JSON flattened back into Dates
+ */
+export function parseEnvelope(raw: string): TransportEnvelope {
+  return JSON.parse(raw, (_key, value) =>
+    typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+  );
+}
@@ -0,0 +1,80 @@
+import type { RedisClientType } from 'redis';
+import {
+  MessageTransport,
+  RemoteAgentEntry,
+  TransportEnvelope,
+  parseEnvelope,
+  serializeEnvelope
+} from './message-transport.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Message transport over Redis pub/sub. Each process subscribes to its own node channel and to a
+ * broadcast channel on a duplicate connection, since a subscribed connection can't run other
+ * commands. The agent directory is a hash of agent id to entry.
+ */
+export class RedisMessageTransport implements MessageTransport {
+  readonly name = 'redis' as const;
+  private subscriber: RedisClientType | null = null;
+
+  constructor(
+    private readonly client: RedisClientType,
+    private readonly prefix: string = process.env.AGENT_BUS_PREFIX || 'agent-bus'
+  ) {}
+
+  async connect(nodeId: string, onEnvelope: (envelope: TransportEnvelope) => void): Promise<void> {
+    this.subscriber = this.client.duplicate();
+    await this.subscriber.connect();
+
+    await this.subscriber.subscribe([this.nodeChannel(nodeId), this.broadcastChannel()], (raw: string) => {
+      try {
+        onEnvelope(parseEnvelope(raw));
+      } catch (error) {
+        logger.error('Dropped an unreadable message bus envelope:', error);
+      }
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      const subscriber = this.subscriber;
+      this.subscriber = null;
+      await subscriber.unsubscribe();
+      await subscriber.quit();
+    }
+  }
+
+  async send(nodeId: string, envelope: TransportEnvelope): Promise<boolean> {
+    const receivers = await this.client.publish(this.nodeChannel(nodeId), serializeEnvelope(envelope));
+    return receivers > 0;
+  }
+
+  async broadcast(envelope: TransportEnvelope): Promise<void> {
+    await this.client.publish(this.broadcastChannel(), serializeEnvelope(envelope));
+  }
+
+  async advertise(entry: RemoteAgentEntry): Promise<void> {
+    await this.client.hSet(this.directoryKey(), entry.agentId, JSON.stringify(entry));
+  }
+
+  async withdraw(agentId: string): Promise<void> {
+    await this.client.hDel(this.directoryKey(), agentId);
+  }
+
+  async listAgents(): Promise<RemoteAgentEntry[]> {
+    const entries = await this.client.hGetAll(this.directoryKey());
+    return Object.values(entries).map(entry => JSON.parse(entry) as RemoteAgentEntry);
+  }
+
+  private nodeChannel(nodeId: string): string {
+    return `${this.prefix}:node:${nodeId}`;
+  }
+
+  private broadcastChannel(): string {
+    return `${this.prefix}:broadcast`;
+  }
+
+  private directoryKey(): string {
+    return `${this.prefix}:agents`;
+  }
+}
@@ -1,6 +1,8 @@
 import { BaseAgent, AgentMessage, AgentConfig } from './base.agent.js';
 import { LLMService, LLMRequest, createLLMService } from '../services/llm.service.js';
-import { Message, MessageMetadata, AgentType } from '../types/index.js';
+import { curriculumService } from '../services/curriculum.service.js';
+import { promptRegistry, RenderedPrompt } from '../services/prompt-registry.service.js';
+import { Message, MessageMetadata, AgentType, PromptReference, TutorMode, SocraticDialogue } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface TutorConfig extends AgentConfig {
@@ -16,6 +18,9 @@ export interface TutorConfig extends AgentConfig {
     useRealWorldExamples: boolean;
     mathNotationSupport: boolean;
   };
+  socraticSettings: {
+    revealAfterAttempts: number; // missed replies on one step before the answer is revealed
+  };
 }
 
 export interface TutorRequest {
@@ -25,6 +30,7 @@ export interface TutorRequest {
 }
 
 export interface TutorContext {
+  userId?: string;
   currentTopic?: string;
   studentLevel?: 'beginner' | 'intermediate' | 'advanced';
   learningPace?: 'slow' | 'medium' | 'fast';
@@ -32,6 +38,10 @@ export interface TutorContext {
   strugglingAreas?: string[];
   preferredExamples?: string[];
   conversationHistory?: Message[];
+  conversationSummary?: string;
+  streamId?: string;
+  tutorMode?: TutorMode;
+  socraticDialogue?: SocraticDialogue | null;
 }
 
 export interface TutorResponse {
@@ -100,7 +110,11 @@ export class TutorAgent extends BaseAgent {
    * Generate tutor response for student message
    */
   private async generateTutorResponse(request: TutorRequest): Promise<TutorResponse> {
-    const { message, context } = request;
+    const { sessionId, message, context } = request;
+
+    if (context.tutorMode === 'socratic') {
+      return this.generateSocraticResponse(request);
+    }
     
     // Analyze student message to understand intent and topic
     const messageAnalysis = this.analyzeStudentMessage(message.content, context);
@@ -113,19 +127,23 @@ export class TutorAgent extends BaseAgent {
     
     // Generate LLM response
     const llmRequest: LLMRequest = {
-      systemPrompt,
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution: { agent: 'tutor', userId: context.userId, sessionId },
       messages: conversationMessages,
       temperature: this.tutorConfig.llmConfig.temperature,
       maxTokens: this.tutorConfig.llmConfig.maxTokens
     };
 
-    const llmResponse = await this.llmService.generateCompletion(llmRequest);
+    const llmContent = context.streamId
+      ? await this.streamCompletion(llmRequest, context.streamId)
+      : (await this.llmService.generateCompletion(llmRequest)).content;
     
     // Process and format the response
-    const formattedResponse = this.formatTutorResponse(llmResponse.content, messageAnalysis);
+    const formattedResponse = this.formatTutorResponse(llmContent, messageAnalysis);
     
     // Create response message
-    const responseMessage = this.createResponseMessage(formattedResponse, messageAnalysis);
+    const responseMessage = this.createResponseMessage(formattedResponse, messageAnalysis, systemPrompt.prompt);
     
     // Generate follow-up suggestions
     const followUps = this.generateFollowUpSuggestions(messageAnalysis, context);
@@ -139,6 +157,140 @@ export class TutorAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Guide the student through a problem with leading questions. A message outside an active
+   * dialogue opens a new one; the answer is only revealed after repeated misses on one step.
+   */
+  private async generateSocraticResponse(request: TutorRequest): Promise<TutorResponse> {
+    const { message, context } = request;
+
+    const opening = context.socraticDialogue?.status !== 'active';
+    const dialogue: SocraticDialogue = opening || !context.socraticDialogue
+      ? { question: message.content, step: 0, attempts: 0, status: 'active' }
+      : context.socraticDialogue;
+    const finalAttempt = !opening &&
+      dialogue.attempts + 1 >= this.tutorConfig.socraticSettings.revealAfterAttempts;
+
+    let { turn, content, prompt } = await this.requestSocraticTurn(request, dialogue, opening, finalAttempt, false);
+
+    // The answer stays hidden until the attempts run out: ask once more, then fall back to a guiding question
+    if (turn?.verdict === 'revealed' && !finalAttempt) {
+      logger.warn('Socratic tutor revealed the answer before the student ran out of attempts, asking again');
+      ({ turn, content, prompt } = await this.requestSocraticTurn(request, dialogue, opening, finalAttempt, true));
+
+      if (!turn || turn.verdict === 'revealed') {
+        logger.warn('Socratic tutor revealed the answer again, replying with a guiding question');
+        turn = { verdict: 'not_yet', reply: SOCRATIC_GUIDING_QUESTION };
+      }
+    }
+
+    // An unreadable verdict leaves the dialogue where it was
+    const nextDialogue = turn && !opening
+      ? this.advanceDialogue(dialogue, turn.verdict)
+      : dialogue;
+
+    const analysis = this.analyzeStudentMessage(dialogue.question, context);
+    const responseMessage = this.createResponseMessage(turn?.reply || content, analysis, prompt);
+    responseMessage.metadata.messageType = nextDialogue.status === 'active' ? 'question' : 'explanation';
+    responseMessage.metadata.socratic = nextDialogue;
+
+    return {
+      message: responseMessage,
+      conceptsCovered: analysis.conceptsInvolved,
+      difficultyLevel: analysis.difficultyLevel,
+      requiresAssessment: nextDialogue.status === 'solved'
+    };
+  }
+
+  /**
+   * Ask the LLM for the next Socratic reply and its verdict on the student's message
+   */
+  private async requestSocraticTurn(
+    request: TutorRequest,
+    dialogue: SocraticDialogue,
+    opening: boolean,
+    finalAttempt: boolean,
+    revealedEarly: boolean
+  ): Promise<{ turn: SocraticTurn | null; content: string; prompt: PromptReference }> {
+    const { sessionId, message, context } = request;
+
+    const systemPrompt = promptRegistry.render('tutor.socratic', {
+      question: dialogue.question,
+      step: dialogue.step,
+      attempts: dialogue.attempts,
+      opening,
+      finalAttempt,
+      revealedEarly,
+      currentTopic: context.currentTopic,
+      studentLevel: context.studentLevel,
+      conversationSummary: context.conversationSummary
+    });
+
+    // Not streamed: the reply arrives wrapped in JSON with the verdict
+    const completion = await this.llmService.generateCompletion({
+      systemPrompt: systemPrompt.text,
+      prompt: systemPrompt.prompt,
+      attribution: { agent: 'tutor', userId: context.userId, sessionId },
+      messages: this.prepareConversationHistory(context, message),
+      temperature: this.tutorConfig.llmConfig.temperature,
+      maxTokens: this.tutorConfig.llmConfig.maxTokens
+    });
+
+    return { turn: this.parseSocraticTurn(completion.content), content: completion.content, prompt: systemPrompt.prompt };
+  }
+
+  /**
+   * Read the verdict and reply from a Socratic completion
+   */
+  private parseSocraticTurn(content: string): SocraticTurn | null {
+    try {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const turn = JSON.parse(jsonMatch[0]);
+        if (SOCRATIC_VERDICTS.includes(turn.verdict) && typeof turn.reply === 'string' && turn.reply.trim()) {
+          return { verdict: turn.verdict, reply: turn.reply.trim() };
+        }
+      }
+    } catch (error) {
+      // Fall through to the unreadable case
+    }
+
+    logger.warn('Failed to parse Socratic tutor response');
+    return null;
+  }
+
+  /**
+   * Move the dialogue on after the student's reply was judged
+   */
+  private advanceDialogue(dialogue: SocraticDialogue, verdict: SocraticVerdict): SocraticDialogue {
+    switch (verdict) {
+      case 'step_complete':
+        return { ...dialogue, step: dialogue.step + 1, attempts: 0 };
+      case 'solved':
+        return { ...dialogue, step: dialogue.step + 1, attempts: 0, status: 'solved' };
+      case 'revealed':
+        return { ...dialogue, attempts: dialogue.attempts + 1, status: 'revealed' };
+      default:
+        return { ...dialogue, attempts: dialogue.attempts + 1 };
+    }
+  }
+
+  /**
+   * Stream the LLM completion, publishing each chunk, and return the full text
+   */
+  private async streamCompletion(llmRequest: LLMRequest, streamId: string): Promise<string> {
+    let content = '';
+
+    for await (const chunk of this.llmService.streamCompletion(llmRequest)) {
+      if (chunk.content) {
+        content += chunk.content;
+        this.emitStreamChunk(streamId, chunk.content);
+      }
+    }
+
+    return content;
+  }
+
   /**
    * Analyze student message to understand learning needs
    */
@@ -171,68 +323,22 @@ export class TutorAgent extends BaseAgent {
   }
 
   /**
-   * Create system prompt for LLM based on context
+   * Render the tutor system prompt for this context
    */
-  private createSystemPrompt(context: TutorContext, analysis: MessageAnalysis): string {
-    const basePrompt = `You are an AI tutor specializing in teaching Machine Learning concepts to high school students (grades 9-10). Your role is to:
-
-1. Explain ML concepts in age-appropriate language suitable for 9th-10th graders
-2. Use real-world examples that high school students can relate to
-3. Break down complex concepts into digestible parts
-4. Encourage curiosity and critical thinking
-5. Adapt explanations based on student understanding level
-
-IMPORTANT GUIDELINES:
-- Keep explanations clear and concise (under ${this.tutorConfig.educationalSettings.maxExplanationLength} words)
-- Use analogies and examples from everyday life (sports, social media, games, etc.)
-- Avoid overly technical jargon unless necessary, and always explain technical terms
-- When using mathematical concepts, explain them step-by-step
-- Encourage questions and provide supportive feedback
-- If a concept is too advanced, break it down or suggest prerequisites
-
-CURRENT CONTEXT:`;
-
-    let contextPrompt = '';
-    
-    if (context.currentTopic) {
-      contextPrompt += `\n- Current topic: ${context.currentTopic}`;
-    }
-    
-    if (context.studentLevel) {
-      contextPrompt += `\n- Student level: ${context.studentLevel}`;
-    }
-    
-    if (context.learningPace) {
-      contextPrompt += `\n- Learning pace: ${context.learningPace}`;
-    }
-    
-    if (context.strugglingAreas && context.strugglingAreas.length > 0) {
-      contextPrompt += `\n- Student struggles with: ${context.strugglingAreas.join(', ')}`;
-    }
-    
-    if (context.previousConcepts && context.previousConcepts.length > 0) {
-      contextPrompt += `\n- Previously covered: ${context.previousConcepts.join(', ')}`;
-    }
-
-    let responseGuidance = '\n\nFOR THIS RESPONSE:';
-    
-    if (analysis.isConfused) {
-      responseGuidance += '\n- The student seems confused, provide extra clarity and reassurance';
-    }
-    
-    if (analysis.needsExample) {
-      responseGuidance += '\n- Provide concrete, relatable examples';
-    }
-    
-    if (analysis.needsMath) {
-      responseGuidance += '\n- Include mathematical explanations but keep them accessible';
-    }
-    
-    if (analysis.conceptsInvolved.length > 0) {
-      responseGuidance += `\n- Focus on these ML concepts: ${analysis.conceptsInvolved.join(', ')}`;
-    }
-
-    return basePrompt + contextPrompt + responseGuidance;
+  private createSystemPrompt(context: TutorContext, analysis: MessageAnalysis): RenderedPrompt {
+    return promptRegistry.render('tutor.system', {
+      maxExplanationLength: this.tutorConfig.educationalSettings.maxExplanationLength,
+      currentTopic: context.currentTopic,
+      studentLevel: context.studentLevel,
+      learningPace: context.learningPace,
+      strugglingAreas: context.strugglingAreas,
+      previousConcepts: context.previousConcepts,
+      conversationSummary: context.conversationSummary,
+      isConfused: analysis.isConfused,
+      needsExample: analysis.needsExample,
+      needsMath: analysis.needsMath,
+      concepts: analysis.conceptsInvolved
+    });
   }
 
   /**
@@ -241,10 +347,9 @@ CURRENT CONTEXT:`;
   private prepareConversationHistory(context: TutorContext, currentMessage: Message) {
     const messages = [];
     
-    // Include recent conversation history (last 5 messages)
+    // Include prior turns; the caller has already fit them to the token budget
     if (context.conversationHistory) {
-      const recentHistory = context.conversationHistory.slice(-5);
-      for (const msg of recentHistory) {
+      for (const msg of context.conversationHistory) {
         messages.push({
           role: msg.sender === 'student' ? 'user' as const : 'assistant' as const,
           content: msg.content
@@ -283,13 +388,16 @@ CURRENT CONTEXT:`;
   /**
    * Create response message with proper metadata
    */
-  private createResponseMessage(content: string, analysis: MessageAnalysis): Message {
+  private createResponseMessage(content: string, analysis: MessageAnalysis, prompt: PromptReference): Message {
     const metadata: MessageMetadata = {
       agentId: this.config.id,
+      topicId: analysis.conceptsInvolved[0],
       messageType: 'explanation',
       difficulty: analysis.difficultyLevel,
-      hasCode: /```|`/.test(content),
-      hasMath: analysis.needsMath
+      hasCode: /^ {0,3}(```|~~~)/m.test(content),
+      hasMath: analysis.needsMath,
+      concepts: analysis.conceptsInvolved,
+      prompts: [prompt]
     };
 
     return {
@@ -382,6 +490,19 @@ CURRENT CONTEXT:`;
   }
 }
 
+const SOCRATIC_VERDICTS = ['not_yet', 'step_complete', 'solved', 'revealed'] as const;
+
+type SocraticVerdict = typeof SOCRATIC_VERDICTS[number];
+
+interface SocraticTurn {
+  verdict: SocraticVerdict;
+  reply: string;
+}
+
+// Sent in place of a reply that kept giving the answer away
+const SOCRATIC_GUIDING_QUESTION = "You're not there yet, but you're closer than you think. " +
+  'Which part of the problem feels least clear to you right now?';
+
 /**
  * Message analysis interface
  */
@@ -406,47 +527,14 @@ class MLCurriculum {
   }
 
   private initializeCurriculum(): void {
-    // Core ML concepts appropriate for high school
-    this.concepts.set('machine learning', {
-      complexity: 1,
-      requiresMath: false,
-      relatedConcepts: ['artificial intelligence', 'supervised learning', 'unsupervised learning'],
-      keywords: ['machine learning', 'ml', 'artificial intelligence', 'ai']
-    });
-
-    this.concepts.set('supervised learning', {
-      complexity: 2,
-      requiresMath: false,
-      relatedConcepts: ['classification', 'regression', 'training data'],
-      keywords: ['supervised', 'labeled data', 'training', 'prediction']
-    });
-
-    this.concepts.set('unsupervised learning', {
-      complexity: 2,
-      requiresMath: false,
-      relatedConcepts: ['clustering', 'pattern recognition'],
-      keywords: ['unsupervised', 'clustering', 'patterns', 'unlabeled']
-    });
-
-    this.concepts.set('classification', {
-      complexity: 2,
-      requiresMath: true,
-      relatedConcepts: ['decision trees', 'accuracy', 'features'],
-      keywords: ['classification', 'categories', 'classes', 'predict']
-    });
-
-    this.concepts.set('regression', {
-      complexity: 3,
-      requiresMath: true,
-      relatedConcepts: ['linear regression', 'prediction', 'continuous values'],
-      keywords: ['regression', 'linear', 'prediction', 'continuous']
-    });
-
-    this.concepts.set('neural networks', {
-      complexity: 4,
-      requiresMath: true,
-      relatedConcepts: ['deep learning', 'neurons', 'layers'],
-      keywords: ['neural', 'network', 'deep learning', 'neurons']
+    // Concepts come from the shared curriculum file so the tutor and content agents agree
+    curriculumService.getConcepts().forEach(concept => {
+      this.concepts.set(concept.name.toLowerCase(), {
+        complexity: concept.complexity,
+        requiresMath: concept.requiresMath,
+        relatedConcepts: concept.relatedConcepts,
+        keywords: concept.keyTerms.map(term => term.toLowerCase())
+      });
     });
   }
 
@@ -523,6 +611,9 @@ export function createTutorConfig(agentId: string): TutorConfig {
       maxExplanationLength: 500,
       useRealWorldExamples: true,
       mathNotationSupport: true
+    },
+    socraticSettings: {
+      revealAfterAttempts: parseInt(process.env.SOCRATIC_REVEAL_AFTER_ATTEMPTS || '3')
     }
   };
 }
\ No newline at end of file
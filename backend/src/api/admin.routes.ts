@@ -0,0 +1,100 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, validateQuery, validateRequest } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { usageService, usageDay } from '../services/usage.service.js';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Every admin route needs an admin account
+router.use(authenticateToken, requireRole(['admin']));
+
+const DEFAULT_REPORT_DAYS = 30;
+
+// Validation schemas
+const usageQuerySchema = Joi.object({
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+const userSchoolSchema = Joi.object({
+  schoolId: Joi.string().trim().min(1).max(100).allow(null).required()
+});
+
+/**
+ * GET /api/admin/usage?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * LLM token usage and estimated cost by day, model, agent and school, with a monthly spend forecast.
+ * Defaults to the last 30 days.
+ */
+router.get('/usage',
+  validateQuery(usageQuerySchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const to = (req.query.to as string) || usageDay();
+      if (Number.isNaN(Date.parse(to)) || (req.query.from && Number.isNaN(Date.parse(req.query.from as string)))) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      const from = (req.query.from as string) ||
+        usageDay(new Date(Date.parse(to) - (DEFAULT_REPORT_DAYS - 1) * 24 * 60 * 60 * 1000));
+      if (from > to) {
+        return res.status(400).json({ error: 'from must not be after to' });
+      }
+
+      const report = await usageService.getReport(from, to);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Get usage report error:', error);
+      res.status(500).json({
+        error: 'Failed to get usage report',
+        message: 'An error occurred while building the usage report.'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/users/:userId/school
+ * Assign a user to the school whose daily token budget their tutoring counts against,
+ * or remove the assignment with a null schoolId. Only admins assign schools, so a
+ * student cannot move to another school's budget.
+ */
+router.put('/users/:userId/school',
+  validateRequest(userSchoolSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await RepositoryFactory.getUserRepository().updateSchool(req.params.userId, req.body.schoolId);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      logger.info(`Admin ${req.user?.userId} set the school of user ${user.id} to ${user.schoolId ?? 'none'}`);
+
+      res.json({
+        success: true,
+        data: { userId: user.id, schoolId: user.schoolId ?? null }
+      });
+    } catch (error) {
+      logger.error('Set user school error:', error);
+      res.status(500).json({
+        error: 'Failed to set user school',
+        message: 'An error occurred while assigning the user to a school.'
+      });
+    }
+  }
+);
+
+export { router as adminRoutes };
@@ -1,18 +1,52 @@
 import { Router, Response } from 'express';
-import { authenticateToken, validateRequest, chatRateLimit } from '../middleware/index.js';
+import { authenticateToken, validateRequest, validateQuery, chatRateLimit } from '../middleware/index.js';
 import { logger } from '../utils/logger.js';
 import { AuthenticatedRequest } from '../types/auth.types.js';
-import { bedrockService } from '../services/bedrock.service.js';
 import { authService } from '../services/auth.service.js';
+import { getAgentSystem } from '../services/init.service.js';
+import { assessmentService, AssessmentError, AssessmentErrorCode } from '../services/assessment.service.js';
+import { hintService, HintError, HintErrorCode } from '../services/hint.service.js';
+import { Message } from '../types/index.js';
 import Joi from 'joi';
 
 const router = Router();
 
 // Validation schemas
+// Only what a client may say about its turn; identity, history and streams are set by the server
+const chatContextSchema = Joi.object({
+  currentTopic: Joi.string().max(100).optional(),
+  learningPace: Joi.string().valid('slow', 'medium', 'fast').optional(),
+  requiresMultipleAgents: Joi.boolean().optional(),
+  assessmentType: Joi.string().max(50).optional(),
+  contentRequestType: Joi.string().max(50).optional()
+});
+
 const chatMessageSchema = Joi.object({
   message: Joi.string().required().max(1000),
   sessionId: Joi.string().uuid().optional(),
-  context: Joi.object().optional()
+  context: chatContextSchema.optional()
+});
+
+const assessmentSubmissionSchema = Joi.object({
+  questionId: Joi.string().required(),
+  answer: Joi.string().required().max(2000),
+  hintsUsed: Joi.number().integer().min(0).max(10).optional(),
+  timeSpent: Joi.number().min(0).optional(),
+  sessionId: Joi.string().uuid().optional()
+});
+
+const hintRequestSchema = Joi.object({
+  questionId: Joi.string().required(),
+  sessionId: Joi.string().max(100).optional()
+});
+
+const tutorModeQuerySchema = Joi.object({
+  sessionId: Joi.string().required().max(100)
+});
+
+const tutorModeSchema = Joi.object({
+  sessionId: Joi.string().required().max(100),
+  mode: Joi.string().valid('explain', 'socratic').required()
 });
 
 const topicQuerySchema = Joi.object({
@@ -21,6 +55,17 @@ const topicQuerySchema = Joi.object({
   sessionId: Joi.string().uuid().optional()
 });
 
+const hintErrorStatus: Record<HintErrorCode, number> = {
+  not_found: 404,
+  no_hints: 409,
+  in_quiz: 409
+};
+
+const assessmentErrorStatus: Record<AssessmentErrorCode, number> = {
+  already_answered: 409,
+  in_quiz: 409
+};
+
 /**
  * POST /api/agents/chat
  * Send a message to the multi-agent system
@@ -54,16 +99,42 @@ router.post('/chat',
         logger.warn('Could not fetch user grade, using default:', error instanceof Error ? error.message : String(error));
       }
 
-      // Generate intelligent response using AWS Bedrock
-      const agentResponse = await bedrockService.generateMLResponse(message, userGrade);
+      const chatSessionId = sessionId || `session_${Date.now()}`;
+      const studentMessage: Message = {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        sender: 'student',
+        content: message,
+        timestamp: new Date(),
+        metadata: { messageType: 'question' }
+      };
+
+      // Route the message through the coordinator and specialized agents
+      const coordination = await getAgentSystem().handleStudentMessage(
+        chatSessionId,
+        userId,
+        studentMessage,
+        {
+          ...(context || {}),
+          studentLevel: userGrade === 9 ? 'beginner' : 'intermediate'
+        },
+        undefined,
+        // Waits behind live chat turns, which stream to a student watching
+        { priority: 'medium' }
+      );
 
       const response = {
-        message: agentResponse.message,
-        agentName: agentResponse.agentName,
-        sessionId: sessionId || `session_${Date.now()}`,
+        message: coordination.aggregatedResponse.content,
+        agentType: coordination.aggregatedResponse.sender,
+        agents: coordination.responses.map(r => ({
+          agentId: r.agentId,
+          agentType: r.agentType,
+          success: r.success,
+          processingTime: r.processingTime
+        })),
+        sessionId: chatSessionId,
         timestamp: new Date(),
-        confidence: agentResponse.confidence,
-        metadata: agentResponse.metadata
+        processingTime: coordination.processingTime,
+        metadata: coordination.aggregatedResponse.metadata
       };
 
       res.json({
@@ -173,29 +244,59 @@ router.get('/status',
  */
 router.post('/assessment',
   authenticateToken,
-  validateRequest(Joi.object({
-    questionId: Joi.string().required(),
-    answer: Joi.string().required().max(500),
-    sessionId: Joi.string().uuid().optional()
-  })),
+  validateRequest(assessmentSubmissionSchema),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { questionId, answer, sessionId } = req.body;
+      const { questionId, answer, hintsUsed, timeSpent, sessionId } = req.body;
       const userId = req.user?.userId;
 
       if (!userId) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      logger.info(`Assessment response received from user ${userId}`, { questionId });
+      logger.info(`Assessment response received from user ${userId}`, { questionId, hintsUsed });
 
-      // Mock assessment response for now
+      let studentLevel: 'beginner' | 'intermediate' = 'beginner';
+      try {
+        const user = await authService.getUserById(userId);
+        if (user && user.grade > 9) {
+          studentLevel = 'intermediate';
+        }
+      } catch (error) {
+        logger.warn('Could not fetch user grade, using default:', error instanceof Error ? error.message : String(error));
+      }
+
+      const result = await assessmentService.submitAnswer({
+        userId,
+        questionId,
+        answer,
+        hintsUsed,
+        timeSpent,
+        studentLevel,
+        sessionId
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          error: 'Question not found',
+          message: `No question with id ${questionId} is available for grading.`
+        });
+      }
+
+      const { evaluation } = result;
       const response = {
         questionId,
-        isCorrect: Math.random() > 0.5, // Random for demo
-        feedback: `Your answer "${answer}" has been processed. The assessment agent is being implemented.`,
-        score: Math.floor(Math.random() * 100),
-        nextQuestion: null,
+        isCorrect: evaluation.isCorrect,
+        feedback: evaluation.feedback,
+        score: evaluation.score,
+        maxScore: evaluation.maxScore,
+        percentage: evaluation.maxScore > 0 ? Math.round((evaluation.score / evaluation.maxScore) * 100) : 0,
+        hintsUsed: evaluation.hintsUsed,
+        correctAnswer: result.correctAnswer,
+        conceptsAssessed: evaluation.conceptsAssessed,
+        assessmentId: result.assessmentResult.id,
+        nextQuestion: result.nextQuestion,
+        difficultyAdjustment: result.difficultyAdjustment,
         sessionId: sessionId || `session_${Date.now()}`
       };
 
@@ -205,6 +306,13 @@ router.post('/assessment',
       });
 
     } catch (error) {
+      if (error instanceof AssessmentError) {
+        return res.status(assessmentErrorStatus[error.code]).json({
+          error: error.message,
+          code: error.code
+        });
+      }
+
       logger.error('Error processing assessment:', error);
       res.status(500).json({
         error: 'Failed to process assessment',
@@ -214,4 +322,113 @@ router.post('/assessment',
   }
 );
 
+/**
+ * POST /api/agents/assessment/hint
+ * Reveal the next level of a question's hint ladder: nudge, partial step, then worked solution
+ */
+router.post('/assessment/hint',
+  authenticateToken,
+  validateRequest(hintRequestSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { questionId, sessionId } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const hint = await hintService.requestHint(userId, questionId, sessionId);
+
+      res.json({
+        success: true,
+        data: hint
+      });
+
+    } catch (error) {
+      if (error instanceof HintError) {
+        return res.status(hintErrorStatus[error.code]).json({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      logger.error('Error revealing hint:', error);
+      res.status(500).json({
+        error: 'Failed to get hint',
+        message: 'Unable to load a hint at this time. Please try again.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/agents/mode?sessionId=...
+ * Get the tutor mode of a chat session and whether a teacher requires it
+ */
+router.get('/mode',
+  authenticateToken,
+  validateQuery(tutorModeQuerySchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const setting = await getAgentSystem().getTutorMode(req.query.sessionId as string, userId);
+
+      res.json({
+        success: true,
+        data: setting
+      });
+    } catch (error) {
+      logger.error('Error getting tutor mode:', error);
+      res.status(500).json({
+        error: 'Failed to get tutor mode',
+        message: 'An error occurred while loading the tutor mode.'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/agents/mode
+ * Switch a chat session between direct explanations and Socratic questioning
+ */
+router.put('/mode',
+  authenticateToken,
+  validateRequest(tutorModeSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { sessionId, mode } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const setting = await getAgentSystem().setTutorMode(sessionId, userId, mode);
+      if (setting.mode !== mode) {
+        return res.status(403).json({
+          error: 'Your teacher requires step-by-step guidance for your class',
+          data: setting
+        });
+      }
+
+      res.json({
+        success: true,
+        data: setting
+      });
+    } catch (error) {
+      logger.error('Error setting tutor mode:', error);
+      res.status(500).json({
+        error: 'Failed to set tutor mode',
+        message: 'An error occurred while changing the tutor mode. Please try again.'
+      });
+    }
+  }
+);
+
 export { router as agentRoutes };
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Router, Response } from 'express';
 import { authenticateToken } from '../middleware/index.js';
 import { AuthenticatedRequest } from '../types/auth.types.js';
 import { analyticsService } from '../services/analytics.service.js';
+import { masteryService } from '../services/mastery.service.js';
+import { hintService } from '../services/hint.service.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
@@ -70,6 +72,69 @@ router.get('/topics',
   }
 );
 
+/**
+ * GET /api/analytics/mastery
+ * Get the student's per-concept mastery estimates, optionally for one topic
+ */
+router.get('/mastery',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const topicId = typeof req.query.topicId === 'string' ? req.query.topicId : undefined;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const mastery = await masteryService.getMastery(userId, topicId);
+
+      res.json({
+        success: true,
+        data: mastery
+      });
+
+    } catch (error) {
+      logger.error('Error retrieving concept mastery:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve concept mastery',
+        message: 'Unable to load concept mastery at this time.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/analytics/hints
+ * Get how much the student relies on hints, per concept
+ */
+router.get('/hints',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const dependence = await hintService.getHintDependence(userId);
+
+      res.json({
+        success: true,
+        data: dependence
+      });
+
+    } catch (error) {
+      logger.error('Error retrieving hint dependence:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve hint dependence',
+        message: 'Unable to load hint usage at this time.'
+      });
+    }
+  }
+);
+
 /**
  * POST /api/analytics/session/start
  * Start tracking a new learning session
@@ -12,7 +12,13 @@ const registerSchema = Joi.object({
   username: Joi.string().alphanum().min(3).max(30).required(),
   email: Joi.string().email().required(),
   password: Joi.string().min(8).required(),
-  grade: Joi.number().valid(9, 10).required()
+  grade: Joi.number().valid(9, 10).required(),
+  role: Joi.string().valid('student', 'teacher').default('student'),
+  teacherCode: Joi.string().max(100).when('role', {
+    is: 'teacher',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
 });
 
 const loginSchema = Joi.object({
@@ -59,6 +65,13 @@ router.post('/register',
         });
         return;
       }
+
+      if (error.message.includes('teacher signup code')) {
+        res.status(403).json({
+          error: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -148,6 +161,7 @@ router.get('/me', authenticateToken, async (req: AuthenticatedRequest, res: Resp
           id: user._id.toString(),
           username: user.username,
           email: user.email,
+          role: user.role || 'student',
           grade: user.grade,
           createdAt: user.createdAt,
           lastActive: user.lastActive,
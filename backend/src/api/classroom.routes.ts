@@ -0,0 +1,224 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, validateRequest } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { classroomService, ClassroomError, ClassroomErrorCode } from '../services/classroom.service.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const createClassroomSchema = Joi.object({
+  name: Joi.string().trim().required().max(100),
+  description: Joi.string().trim().max(500).allow('').optional(),
+  grade: Joi.number().valid(9, 10).optional()
+});
+
+const joinClassroomSchema = Joi.object({
+  joinCode: Joi.string().trim().alphanum().length(6).required()
+});
+
+const classroomSettingsSchema = Joi.object({
+  tutorMode: Joi.string().valid('explain', 'socratic').required()
+});
+
+const classroomErrorStatus: Record<ClassroomErrorCode, number> = {
+  not_found: 404,
+  forbidden: 403,
+  invalid_code: 404,
+  conflict: 409
+};
+
+/**
+ * Send a classroom error with the matching status, or a generic 500
+ */
+export function handleClassroomError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof ClassroomError) {
+    res.status(classroomErrorStatus[error.code]).json({
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+
+  logger.error(fallbackMessage, error);
+  res.status(500).json({
+    error: fallbackMessage,
+    message: 'An error occurred while processing your class request. Please try again.'
+  });
+}
+
+/**
+ * GET /api/classes
+ * Get the teacher's classes, or the classes a student has joined
+ */
+router.get('/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const classes = req.user!.role === 'teacher'
+        ? await classroomService.getTeacherClassrooms(userId)
+        : await classroomService.getStudentClassrooms(userId);
+
+      res.json({
+        success: true,
+        data: classes
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to get classes');
+    }
+  }
+);
+
+/**
+ * POST /api/classes
+ * Create a class with a join code
+ */
+router.post('/',
+  authenticateToken,
+  requireRole(['teacher']),
+  validateRequest(createClassroomSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { name, description, grade } = req.body;
+      const classroom = await classroomService.createClassroom(userId, {
+        name,
+        description: description || undefined,
+        grade
+      });
+
+      res.status(201).json({
+        success: true,
+        data: classroom
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to create class');
+    }
+  }
+);
+
+/**
+ * POST /api/classes/join
+ * Join a class by its code
+ */
+router.post('/join',
+  authenticateToken,
+  requireRole(['student']),
+  validateRequest(joinClassroomSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const classroom = await classroomService.joinClassroom(userId, req.body.joinCode);
+
+      res.json({
+        success: true,
+        data: classroom
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to join class');
+    }
+  }
+);
+
+/**
+ * PATCH /api/classes/:classId
+ * Change class settings; a 'socratic' tutor mode is required for every enrolled student
+ */
+router.patch('/:classId',
+  authenticateToken,
+  requireRole(['teacher']),
+  validateRequest(classroomSettingsSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const classroom = await classroomService.updateClassroomSettings(userId, req.params.classId, {
+        tutorMode: req.body.tutorMode
+      });
+
+      res.json({
+        success: true,
+        data: classroom
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to update class settings');
+    }
+  }
+);
+
+/**
+ * GET /api/classes/:classId/students
+ * Get the roster of one of the teacher's classes
+ */
+router.get('/:classId/students',
+  authenticateToken,
+  requireRole(['teacher']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const roster = await classroomService.getRoster(userId, req.params.classId);
+
+      res.json({
+        success: true,
+        data: roster
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to get class roster');
+    }
+  }
+);
+
+/**
+ * DELETE /api/classes/:classId/students/:studentId
+ * Remove a student from one of the teacher's classes
+ */
+router.delete('/:classId/students/:studentId',
+  authenticateToken,
+  requireRole(['teacher']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      await classroomService.removeStudent(userId, req.params.classId, req.params.studentId);
+
+      res.json({
+        success: true,
+        message: 'Student removed from class'
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to remove student');
+    }
+  }
+);
+
+export { router as classroomRoutes };
@@ -0,0 +1,69 @@
+import { Router, Response } from 'express';
+import { authenticateToken, validateRequest, codeRunRateLimit } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { codeSandboxService, SandboxError, SandboxErrorCode } from '../services/code-sandbox.service.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const runCodeSchema = Joi.object({
+  language: Joi.string().valid('python', 'javascript').required(),
+  code: Joi.string().max(20000).required(),
+  stdin: Joi.string().allow('').max(10000).optional()
+});
+
+const sandboxErrorStatus: Record<SandboxErrorCode, number> = {
+  busy: 503,
+  unavailable: 503
+};
+
+/**
+ * POST /api/code/run
+ * Run a Python or JavaScript snippet in the sandbox and return its output.
+ * Hidden tests only run when a code_completion answer is graded.
+ */
+router.post('/run',
+  authenticateToken,
+  codeRunRateLimit,
+  validateRequest(runCodeSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { language, code, stdin } = req.body;
+      const result = await codeSandboxService.run({ language, code, stdin });
+
+      logger.info(`Ran ${language} code for user ${userId}`, {
+        exitCode: result.exitCode,
+        timedOut: result.timedOut,
+        durationMs: result.durationMs
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof SandboxError) {
+        return res.status(sandboxErrorStatus[error.code]).json({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      logger.error('Run code error:', error);
+      res.status(500).json({
+        error: 'Failed to run code',
+        message: 'An error occurred while running your code.'
+      });
+    }
+  }
+);
+
+export { router as codeRoutes };
@@ -0,0 +1,90 @@
+import { Router, Response } from 'express';
+import { authenticateToken } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { curriculumService } from '../services/curriculum.service.js';
+
+const router = Router();
+
+/**
+ * GET /api/curriculum
+ * Get the active curriculum with its topics and concepts
+ */
+router.get('/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const curriculum = curriculumService.getCurriculum();
+
+      // Clients can cache by checksum; Express answers 304 when it still matches
+      res.set('ETag', `"${curriculum.checksum}"`);
+      res.json({
+        success: true,
+        data: curriculum
+      });
+    } catch (error) {
+      logger.error('Get curriculum error:', error);
+      res.status(500).json({
+        error: 'Failed to get curriculum',
+        message: 'An error occurred while loading the curriculum.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/curriculum/version
+ * Get the version stamp of the active curriculum
+ */
+router.get('/version',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { version, checksum, loadedAt, curriculum } = curriculumService.getCurriculum();
+
+      res.json({
+        success: true,
+        data: { id: curriculum.id, version, checksum, loadedAt }
+      });
+    } catch (error) {
+      logger.error('Get curriculum version error:', error);
+      res.status(500).json({
+        error: 'Failed to get curriculum version',
+        message: 'An error occurred while loading the curriculum.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/curriculum/topics/:topicId
+ * Get a single topic with its concepts
+ */
+router.get('/topics/:topicId',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const topic = curriculumService.getTopic(req.params.topicId);
+
+      if (!topic) {
+        return res.status(404).json({
+          error: 'Topic not found',
+          message: `No topic "${req.params.topicId}" in curriculum v${curriculumService.getVersion()}`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: topic
+      });
+    } catch (error) {
+      logger.error('Get curriculum topic error:', error);
+      res.status(500).json({
+        error: 'Failed to get topic',
+        message: 'An error occurred while loading the curriculum.'
+      });
+    }
+  }
+);
+
+export { router as curriculumRoutes };
@@ -126,6 +126,28 @@ router.use('/sessions', sessionRoutes);
 // Mount agent routes
 router.use('/agents', agentRoutes);
 
+// Mount quiz routes
+import { quizRoutes } from './quiz.routes.js';
+router.use('/quiz', quizRoutes);
+
+// Mount curriculum routes
+import { curriculumRoutes } from './curriculum.routes.js';
+router.use('/curriculum', curriculumRoutes);
+
+// Mount review routes
+import { reviewRoutes } from './review.routes.js';
+router.use('/reviews', reviewRoutes);
+
+// Mount classroom and teacher routes
+import { classroomRoutes } from './classroom.routes.js';
+import { teacherRoutes } from './teacher.routes.js';
+router.use('/classes', classroomRoutes);
+router.use('/teacher', teacherRoutes);
+
+// Mount admin routes
+import { adminRoutes } from './admin.routes.js';
+router.use('/admin', adminRoutes);
+
 // Mount WebSocket routes
 router.use('/websocket', webSocketRoutes);
 
@@ -137,4 +159,8 @@ router.use('/profile', profileRoutes);
 import { analyticsRoutes } from './analytics.routes.js';
 router.use('/analytics', analyticsRoutes);
 
+// Mount code runner routes
+import { codeRoutes } from './code.routes.js';
+router.use('/code', codeRoutes);
+
 export { router as apiRoutes };
\ No newline at end of file
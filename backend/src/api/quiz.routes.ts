@@ -0,0 +1,219 @@
+import { Router, Response } from 'express';
+import { authenticateToken, validateRequest } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { authService } from '../services/auth.service.js';
+import { quizService, QuizError, QuizErrorCode } from '../services/quiz.service.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const startQuizSchema = Joi.object({
+  topic: Joi.string().required().max(100),
+  sessionId: Joi.string().max(100).optional()
+});
+
+const quizAnswerSchema = Joi.object({
+  answer: Joi.string().required().max(2000),
+  timeSpent: Joi.number().min(0).optional()
+});
+
+const quizErrorStatus: Record<QuizErrorCode, number> = {
+  not_found: 404,
+  not_active: 409,
+  conflict: 409,
+  no_hints: 409,
+  expired: 410
+};
+
+/**
+ * Send a quiz error with the matching status, or a generic 500
+ */
+function handleQuizError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof QuizError) {
+    res.status(quizErrorStatus[error.code]).json({
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+
+  logger.error(fallbackMessage, error);
+  res.status(500).json({
+    error: fallbackMessage,
+    message: 'An error occurred while processing your quiz. Please try again.'
+  });
+}
+
+/**
+ * POST /api/quiz/start
+ * Start a timed quiz, or resume the unfinished one
+ */
+router.post('/start',
+  authenticateToken,
+  validateRequest(startQuizSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { topic, sessionId } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let studentLevel: 'beginner' | 'intermediate' = 'beginner';
+      try {
+        const user = await authService.getUserById(userId);
+        if (user && user.grade > 9) {
+          studentLevel = 'intermediate';
+        }
+      } catch (error) {
+        logger.warn('Could not fetch user grade, using default:', error instanceof Error ? error.message : String(error));
+      }
+
+      const attempt = await quizService.startQuiz(userId, { topic, sessionId, studentLevel });
+
+      res.status(201).json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to start quiz');
+    }
+  }
+);
+
+/**
+ * GET /api/quiz/active
+ * Get the unfinished quiz attempt, if any
+ */
+router.get('/active',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const attempt = await quizService.getActiveAttempt(userId);
+
+      res.json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to get active quiz');
+    }
+  }
+);
+
+/**
+ * GET /api/quiz/:attemptId
+ * Get a quiz attempt with its current question
+ */
+router.get('/:attemptId',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const attempt = await quizService.getAttempt(userId, req.params.attemptId);
+
+      res.json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to get quiz');
+    }
+  }
+);
+
+/**
+ * POST /api/quiz/:attemptId/answer
+ * Submit the answer to the current question
+ */
+router.post('/:attemptId/answer',
+  authenticateToken,
+  validateRequest(quizAnswerSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { answer, timeSpent } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await quizService.submitAnswer(userId, req.params.attemptId, answer, timeSpent);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to submit quiz answer');
+    }
+  }
+);
+
+/**
+ * POST /api/quiz/:attemptId/hint
+ * Reveal the next hint for the current question
+ */
+router.post('/:attemptId/hint',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await quizService.requestHint(userId, req.params.attemptId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to get quiz hint');
+    }
+  }
+);
+
+/**
+ * POST /api/quiz/:attemptId/finish
+ * Finish the quiz and get the final score
+ */
+router.post('/:attemptId/finish',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const attempt = await quizService.finishQuiz(userId, req.params.attemptId);
+
+      res.json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      handleQuizError(res, error, 'Failed to finish quiz');
+    }
+  }
+);
+
+export { router as quizRoutes };
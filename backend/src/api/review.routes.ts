@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { authenticateToken, validateRequest, validateQuery } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { authService } from '../services/auth.service.js';
+import { reviewSchedulerService } from '../services/review-scheduler.service.js';
+import { assessmentService } from '../services/assessment.service.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const dueReviewsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(10)
+});
+
+const reviewSessionSchema = Joi.object({
+  sessionId: Joi.string().max(100).optional(),
+  limit: Joi.number().integer().min(1).max(5).default(3)
+});
+
+/**
+ * GET /api/reviews
+ * Get the student's review queue ordered by due date
+ */
+router.get('/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const queue = await reviewSchedulerService.getReviewQueue(userId);
+
+      res.json({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      logger.error('Get review queue error:', error);
+      res.status(500).json({
+        error: 'Failed to get review queue',
+        message: 'An error occurred while loading your reviews.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/reviews/due
+ * Get the concepts that are due for review now
+ */
+router.get('/due',
+  authenticateToken,
+  validateQuery(dueReviewsQuerySchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const due = await reviewSchedulerService.getDueReviews(userId, Number(req.query.limit) || undefined);
+
+      res.json({
+        success: true,
+        data: due
+      });
+    } catch (error) {
+      logger.error('Get due reviews error:', error);
+      res.status(500).json({
+        error: 'Failed to get due reviews',
+        message: 'An error occurred while loading your reviews.'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/reviews/session
+ * Generate short review questions for the due concepts at the start of a session.
+ * Answers are graded through POST /api/agents/assessment, which reschedules each concept.
+ */
+router.post('/session',
+  authenticateToken,
+  validateRequest(reviewSessionSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let studentLevel: 'beginner' | 'intermediate' = 'beginner';
+      try {
+        const user = await authService.getUserById(userId);
+        if (user && user.grade > 9) {
+          studentLevel = 'intermediate';
+        }
+      } catch (error) {
+        logger.warn('Could not fetch user grade, using default:', error instanceof Error ? error.message : String(error));
+      }
+
+      const reviewSet = await assessmentService.createReviewQuestions(userId, studentLevel, req.body.limit);
+
+      res.json({
+        success: true,
+        data: {
+          ...reviewSet,
+          sessionId: req.body.sessionId
+        }
+      });
+    } catch (error) {
+      logger.error('Start review session error:', error);
+      res.status(500).json({
+        error: 'Failed to prepare review questions',
+        message: 'An error occurred while preparing your review. Please try again.'
+      });
+    }
+  }
+);
+
+export { router as reviewRoutes };
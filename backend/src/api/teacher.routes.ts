@@ -0,0 +1,223 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, validateRequest, validateQuery } from '../middleware/index.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticatedRequest } from '../types/auth.types.js';
+import { ModerationEvent } from '../types/index.js';
+import { classroomService } from '../services/classroom.service.js';
+import { assessmentService } from '../services/assessment.service.js';
+import { moderationService } from '../services/moderation.service.js';
+import { handleClassroomError } from './classroom.routes.js';
+import Joi from 'joi';
+
+const router = Router();
+
+// Every teacher route needs a teacher account
+router.use(authenticateToken, requireRole(['teacher']));
+
+// Validation schemas
+const pendingQuestionsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const questionReviewSchema = Joi.object({
+  decision: Joi.string().valid('approved', 'rejected').required()
+});
+
+const moderationQuerySchema = Joi.object({
+  status: Joi.string().valid('open', 'reviewed', 'closed', 'all').default('open'),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const escalationReviewSchema = Joi.object({
+  note: Joi.string().max(1000).allow('').optional()
+});
+
+/**
+ * GET /api/teacher/students/:studentId
+ * Get progress, assessment history and sessions for a student in the teacher's classes
+ */
+router.get('/students/:studentId',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const overview = await classroomService.getStudentOverview(userId, req.params.studentId);
+
+      res.json({
+        success: true,
+        data: overview
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to get student overview');
+    }
+  }
+);
+
+/**
+ * GET /api/teacher/students/:studentId/sessions/:sessionId
+ * Get the transcript of one of the student's sessions
+ */
+router.get('/students/:studentId/sessions/:sessionId',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const transcript = await classroomService.getSessionTranscript(
+        userId,
+        req.params.studentId,
+        req.params.sessionId
+      );
+
+      res.json({
+        success: true,
+        data: transcript
+      });
+    } catch (error) {
+      handleClassroomError(res, error, 'Failed to get session transcript');
+    }
+  }
+);
+
+/**
+ * GET /api/teacher/questions/pending
+ * Get generated questions waiting for review
+ */
+router.get('/questions/pending',
+  validateQuery(pendingQuestionsQuerySchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const questions = await assessmentService.getPendingQuestions(Number(req.query.limit) || undefined);
+
+      res.json({
+        success: true,
+        data: questions
+      });
+    } catch (error) {
+      logger.error('Get pending questions error:', error);
+      res.status(500).json({
+        error: 'Failed to get pending questions',
+        message: 'An error occurred while loading the review queue.'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/teacher/questions/:questionId/review
+ * Approve or reject a generated question
+ */
+router.post('/questions/:questionId/review',
+  validateRequest(questionReviewSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const question = await assessmentService.reviewQuestion(req.params.questionId, req.body.decision, userId);
+
+      if (!question) {
+        return res.status(404).json({ error: 'Question not found' });
+      }
+
+      res.json({
+        success: true,
+        data: question
+      });
+    } catch (error) {
+      logger.error('Review question error:', error);
+      res.status(500).json({
+        error: 'Failed to review question',
+        message: 'An error occurred while saving the review.'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/teacher/moderation/events
+ * Get moderation interventions for students in the teacher's classes, open escalations by default
+ */
+router.get('/moderation/events',
+  validateQuery(moderationQuerySchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const status = req.query.status === 'all' ? undefined : req.query.status as ModerationEvent['status'];
+      const students = await classroomService.getTeacherStudents(userId);
+      const studentsById = new Map(students.map(student => [student.id, student]));
+      const events = await moderationService.getEvents([...studentsById.keys()], status, Number(req.query.limit) || undefined);
+
+      res.json({
+        success: true,
+        data: events.map(event => ({
+          ...event,
+          student: studentsById.get(event.userId)
+        }))
+      });
+    } catch (error) {
+      logger.error('Get moderation events error:', error);
+      res.status(500).json({
+        error: 'Failed to get moderation events',
+        message: 'An error occurred while loading moderation events.'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/teacher/moderation/events/:eventId/review
+ * Mark an escalation for one of the teacher's students as reviewed
+ */
+router.post('/moderation/events/:eventId/review',
+  validateRequest(escalationReviewSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const students = await classroomService.getTeacherStudents(userId);
+      const event = await moderationService.reviewEscalation(
+        req.params.eventId,
+        userId,
+        students.map(student => student.id),
+        req.body.note || undefined
+      );
+
+      if (!event) {
+        return res.status(404).json({ error: 'Moderation event not found' });
+      }
+
+      res.json({
+        success: true,
+        data: event
+      });
+    } catch (error) {
+      logger.error('Review moderation event error:', error);
+      res.status(500).json({
+        error: 'Failed to review moderation event',
+        message: 'An error occurred while saving the review.'
+      });
+    }
+  }
+);
+
+export { router as teacherRoutes };
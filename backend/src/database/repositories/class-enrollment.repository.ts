@@ -0,0 +1,65 @@
+import { AbstractRepository } from './base.repository.js';
+import { ClassEnrollmentDocument, ClassEnrollmentModel } from '../schemas/classroom.schema.js';
+import { ClassEnrollment } from '../../types/index.js';
+
+export interface ClassEnrollmentRepository {
+  // Enrollment management
+  enrollStudent(classId: string, studentId: string): Promise<ClassEnrollment>;
+  removeEnrollment(classId: string, studentId: string): Promise<boolean>;
+
+  // Enrollment queries
+  findEnrollmentsByClass(classId: string): Promise<ClassEnrollment[]>;
+  findEnrollmentsByStudent(studentId: string): Promise<ClassEnrollment[]>;
+  countEnrollmentsByClass(classIds: string[]): Promise<Record<string, number>>;
+}
+
+export class ClassEnrollmentRepositoryImpl extends AbstractRepository<ClassEnrollmentDocument> implements ClassEnrollmentRepository {
+  constructor() {
+    super(ClassEnrollmentModel);
+  }
+
+  async enrollStudent(classId: string, studentId: string): Promise<ClassEnrollment> {
+    // Joining twice keeps the original enrollment instead of failing on the unique index
+    const enrollmentDoc = await this.model.findOneAndUpdate(
+      { classId, studentId },
+      { $setOnInsert: { classId, studentId, joinedAt: new Date() } },
+      { upsert: true, new: true }
+    ).exec();
+
+    return this.documentToEnrollment(enrollmentDoc);
+  }
+
+  async removeEnrollment(classId: string, studentId: string): Promise<boolean> {
+    return this.deleteOne({ classId, studentId });
+  }
+
+  async findEnrollmentsByClass(classId: string): Promise<ClassEnrollment[]> {
+    const enrollmentDocs = await this.findMany({ classId }, { sort: { joinedAt: 1 } });
+    return enrollmentDocs.map(doc => this.documentToEnrollment(doc));
+  }
+
+  async findEnrollmentsByStudent(studentId: string): Promise<ClassEnrollment[]> {
+    const enrollmentDocs = await this.findMany({ studentId }, { sort: { joinedAt: -1 } });
+    return enrollmentDocs.map(doc => this.documentToEnrollment(doc));
+  }
+
+  async countEnrollmentsByClass(classIds: string[]): Promise<Record<string, number>> {
+    if (classIds.length === 0) return {};
+
+    const counts = await this.model.aggregate([
+      { $match: { classId: { $in: classIds } } },
+      { $group: { _id: '$classId', count: { $sum: 1 } } }
+    ]);
+
+    return Object.fromEntries(counts.map(entry => [entry._id, entry.count]));
+  }
+
+  private documentToEnrollment(doc: ClassEnrollmentDocument): ClassEnrollment {
+    return {
+      id: doc._id.toString(),
+      classId: doc.classId,
+      studentId: doc.studentId,
+      joinedAt: doc.joinedAt
+    };
+  }
+}
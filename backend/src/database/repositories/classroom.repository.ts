@@ -0,0 +1,79 @@
+import { AbstractRepository } from './base.repository.js';
+import { ClassroomDocument, ClassroomModel } from '../schemas/classroom.schema.js';
+import { Classroom, TutorMode } from '../../types/index.js';
+
+export interface CreateClassroomData {
+  name: string;
+  description?: string;
+  teacherId: string;
+  joinCode: string;
+  grade?: 9 | 10;
+}
+
+export interface ClassroomSettings {
+  tutorMode?: TutorMode;
+}
+
+export interface ClassroomRepository {
+  // Classroom management
+  createClassroom(classroomData: CreateClassroomData): Promise<Classroom>;
+  findClassroomById(classId: string): Promise<Classroom | null>;
+  findClassroomByJoinCode(joinCode: string): Promise<Classroom | null>;
+  updateClassroomSettings(classId: string, settings: ClassroomSettings): Promise<Classroom | null>;
+
+  // Classroom queries
+  findClassroomsByTeacher(teacherId: string): Promise<Classroom[]>;
+  findClassroomsByIds(classIds: string[]): Promise<Classroom[]>;
+}
+
+export class ClassroomRepositoryImpl extends AbstractRepository<ClassroomDocument> implements ClassroomRepository {
+  constructor() {
+    super(ClassroomModel);
+  }
+
+  async createClassroom(classroomData: CreateClassroomData): Promise<Classroom> {
+    const classroomDoc = await this.create(classroomData as Partial<ClassroomDocument>);
+    return this.documentToClassroom(classroomDoc);
+  }
+
+  async findClassroomById(classId: string): Promise<Classroom | null> {
+    const classroomDoc = await this.findById(classId);
+    return classroomDoc ? this.documentToClassroom(classroomDoc) : null;
+  }
+
+  async findClassroomByJoinCode(joinCode: string): Promise<Classroom | null> {
+    const classroomDoc = await this.findOne({ joinCode: joinCode.trim().toUpperCase() });
+    return classroomDoc ? this.documentToClassroom(classroomDoc) : null;
+  }
+
+  async updateClassroomSettings(classId: string, settings: ClassroomSettings): Promise<Classroom | null> {
+    const classroomDoc = await this.updateById(classId, { $set: settings });
+    return classroomDoc ? this.documentToClassroom(classroomDoc) : null;
+  }
+
+  async findClassroomsByTeacher(teacherId: string): Promise<Classroom[]> {
+    const classroomDocs = await this.findMany({ teacherId }, { sort: { createdAt: -1 } });
+    return classroomDocs.map(doc => this.documentToClassroom(doc));
+  }
+
+  async findClassroomsByIds(classIds: string[]): Promise<Classroom[]> {
+    if (classIds.length === 0) return [];
+
+    const classroomDocs = await this.findMany({ _id: { $in: classIds } }, { sort: { name: 1 } });
+    return classroomDocs.map(doc => this.documentToClassroom(doc));
+  }
+
+  private documentToClassroom(doc: ClassroomDocument): Classroom {
+    return {
+      id: doc._id.toString(),
+      name: doc.name,
+      description: doc.description,
+      teacherId: doc.teacherId,
+      joinCode: doc.joinCode,
+      grade: doc.grade,
+      tutorMode: doc.tutorMode,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
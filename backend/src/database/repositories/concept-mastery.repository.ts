@@ -0,0 +1,80 @@
+import { AbstractRepository } from './base.repository.js';
+import { ConceptMasteryDocument, ConceptMasteryModel } from '../schemas/concept-mastery.schema.js';
+import { ConceptMastery, MasteryEvidenceSource } from '../../types/index.js';
+
+export interface MasteryState {
+  topic: string;
+  pKnown: number;
+  attempts: number;
+  correctAttempts: number;
+  hintsUsed: number;
+  exposures: number;
+  lastEvidence: MasteryEvidenceSource;
+  lastEvidenceAt: Date;
+}
+
+export interface ConceptMasteryRepository {
+  findByConcepts(userId: string, concepts: string[]): Promise<ConceptMastery[]>;
+  findByUser(userId: string, topic?: string): Promise<ConceptMastery[]>;
+  saveMastery(userId: string, concept: string, state: MasteryState): Promise<ConceptMastery>;
+}
+
+export class ConceptMasteryRepositoryImpl extends AbstractRepository<ConceptMasteryDocument> implements ConceptMasteryRepository {
+  constructor() {
+    super(ConceptMasteryModel);
+  }
+
+  async findByConcepts(userId: string, concepts: string[]): Promise<ConceptMastery[]> {
+    if (concepts.length === 0) return [];
+
+    const masteryDocs = await this.findMany({
+      userId,
+      concept: { $in: concepts.map(concept => this.normalizeConcept(concept)) }
+    });
+    return masteryDocs.map(doc => this.documentToMastery(doc));
+  }
+
+  async findByUser(userId: string, topic?: string): Promise<ConceptMastery[]> {
+    const masteryDocs = await this.findMany(
+      topic ? { userId, topic } : { userId },
+      { sort: { topic: 1, concept: 1 } }
+    );
+    return masteryDocs.map(doc => this.documentToMastery(doc));
+  }
+
+  async saveMastery(userId: string, concept: string, state: MasteryState): Promise<ConceptMastery> {
+    const normalized = this.normalizeConcept(concept);
+    const masteryDoc = await this.model.findOneAndUpdate(
+      { userId, concept: normalized },
+      {
+        $set: state,
+        $setOnInsert: { userId, concept: normalized }
+      },
+      { upsert: true, new: true }
+    ).exec();
+
+    return this.documentToMastery(masteryDoc);
+  }
+
+  private normalizeConcept(concept: string): string {
+    return concept.trim().toLowerCase();
+  }
+
+  private documentToMastery(doc: ConceptMasteryDocument): ConceptMastery {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      concept: doc.concept,
+      topic: doc.topic,
+      pKnown: doc.pKnown,
+      attempts: doc.attempts,
+      correctAttempts: doc.correctAttempts,
+      hintsUsed: doc.hintsUsed,
+      exposures: doc.exposures,
+      lastEvidence: doc.lastEvidence,
+      lastEvidenceAt: doc.lastEvidenceAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
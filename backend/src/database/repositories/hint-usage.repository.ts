@@ -0,0 +1,111 @@
+import { AbstractRepository } from './base.repository.js';
+import { HintUsageDocument, HintUsageModel } from '../schemas/hint-usage.schema.js';
+import { HintDependence, HintUsage } from '../../types/index.js';
+
+export interface HintedQuestion {
+  questionId: string;
+  concept: string;
+  topic: string;
+  sessionId?: string;
+}
+
+export interface HintUsageRepository {
+  findOpenUsage(userId: string, questionId: string): Promise<HintUsage | null>;
+  recordHint(userId: string, question: HintedQuestion): Promise<HintUsage>;
+  recordAnswer(userId: string, question: HintedQuestion, hintsUsed: number, isCorrect: boolean): Promise<HintUsage>;
+  summarizeByConcept(userId: string, workedSolutionLevel: number): Promise<HintDependence[]>;
+}
+
+export class HintUsageRepositoryImpl extends AbstractRepository<HintUsageDocument> implements HintUsageRepository {
+  constructor() {
+    super(HintUsageModel);
+  }
+
+  /**
+   * The student's record for a question they have not answered yet
+   */
+  async findOpenUsage(userId: string, questionId: string): Promise<HintUsage | null> {
+    const usageDoc = await this.findOne({ userId, questionId, answered: false });
+    return usageDoc ? this.documentToUsage(usageDoc) : null;
+  }
+
+  /**
+   * Count one more revealed hint, opening the record on the first hint
+   */
+  async recordHint(userId: string, question: HintedQuestion): Promise<HintUsage> {
+    const usageDoc = await this.model.findOneAndUpdate(
+      { userId, questionId: question.questionId, answered: false },
+      {
+        $inc: { hintsUsed: 1 },
+        $setOnInsert: { concept: question.concept, topic: question.topic, sessionId: question.sessionId }
+      },
+      { upsert: true, new: true }
+    ).exec();
+
+    return this.documentToUsage(usageDoc);
+  }
+
+  /**
+   * Close the open record with the graded answer. Answers given without hints get a record too,
+   * so dependence is measured against every answer.
+   */
+  async recordAnswer(userId: string, question: HintedQuestion, hintsUsed: number, isCorrect: boolean): Promise<HintUsage> {
+    const usageDoc = await this.model.findOneAndUpdate(
+      { userId, questionId: question.questionId, answered: false },
+      {
+        $set: { hintsUsed, isCorrect, answered: true, answeredAt: new Date() },
+        $setOnInsert: { concept: question.concept, topic: question.topic, sessionId: question.sessionId }
+      },
+      { upsert: true, new: true }
+    ).exec();
+
+    return this.documentToUsage(usageDoc);
+  }
+
+  /**
+   * Answered questions per concept with how many needed hints or the worked solution
+   */
+  async summarizeByConcept(userId: string, workedSolutionLevel: number): Promise<HintDependence[]> {
+    const rows = await this.model.aggregate([
+      { $match: { userId, answered: true } },
+      {
+        $group: {
+          _id: '$concept',
+          topic: { $last: '$topic' },
+          answers: { $sum: 1 },
+          hintedAnswers: { $sum: { $cond: [{ $gt: ['$hintsUsed', 0] }, 1, 0] } },
+          hintsUsed: { $sum: '$hintsUsed' },
+          workedSolutions: { $sum: { $cond: [{ $gte: ['$hintsUsed', workedSolutionLevel] }, 1, 0] } }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    return rows.map(row => ({
+      concept: row._id,
+      topic: row.topic,
+      answers: row.answers,
+      hintedAnswers: row.hintedAnswers,
+      hintsUsed: row.hintsUsed,
+      workedSolutions: row.workedSolutions,
+      dependence: row.answers > 0 ? row.hintedAnswers / row.answers : 0
+    }));
+  }
+
+  private documentToUsage(doc: HintUsageDocument): HintUsage {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      questionId: doc.questionId,
+      concept: doc.concept,
+      topic: doc.topic,
+      sessionId: doc.sessionId,
+      hintsUsed: doc.hintsUsed,
+      answered: doc.answered,
+      isCorrect: doc.isCorrect,
+      answeredAt: doc.answeredAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
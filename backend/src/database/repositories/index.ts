@@ -1,3 +1,17 @@
+import { UserRepository, UserRepositoryImpl } from './user.repository.js';
+import { SessionRepository, SessionRepositoryImpl } from './session.repository.js';
+import { ProgressRepository, ProgressRepositoryImpl } from './progress.repository.js';
+import { QuestionRepository, QuestionRepositoryImpl } from './question.repository.js';
+import { QuizAttemptRepository, QuizAttemptRepositoryImpl } from './quiz-attempt.repository.js';
+import { ClassroomRepository, ClassroomRepositoryImpl } from './classroom.repository.js';
+import { ClassEnrollmentRepository, ClassEnrollmentRepositoryImpl } from './class-enrollment.repository.js';
+import { ReviewItemRepository, ReviewItemRepositoryImpl } from './review-item.repository.js';
+import { ConceptMasteryRepository, ConceptMasteryRepositoryImpl } from './concept-mastery.repository.js';
+import { IndexedQuestionRepository, IndexedQuestionRepositoryImpl } from './indexed-question.repository.js';
+import { ModerationEventRepository, ModerationEventRepositoryImpl } from './moderation-event.repository.js';
+import { LLMUsageRepository, LLMUsageRepositoryImpl } from './llm-usage.repository.js';
+import { HintUsageRepository, HintUsageRepositoryImpl } from './hint-usage.repository.js';
+
 // Base repository exports
 export type { BaseRepository } from './base.repository.js';
 export { AbstractRepository } from './base.repository.js';
@@ -25,11 +39,77 @@ export type {
 } from './progress.repository.js';
 export { ProgressRepositoryImpl } from './progress.repository.js';
 
+// Question repository exports
+export type {
+  QuestionRepository,
+  CreateQuestionData,
+  QuestionSearchOptions
+} from './question.repository.js';
+export { QuestionRepositoryImpl } from './question.repository.js';
+
+// Quiz attempt repository exports
+export type {
+  QuizAttemptRepository,
+  CreateQuizAttemptData,
+  QuizCompletion
+} from './quiz-attempt.repository.js';
+export { QuizAttemptRepositoryImpl } from './quiz-attempt.repository.js';
+
+// Classroom repository exports
+export type {
+  ClassroomRepository,
+  CreateClassroomData,
+  ClassroomSettings
+} from './classroom.repository.js';
+export { ClassroomRepositoryImpl } from './classroom.repository.js';
+
+// Class enrollment repository exports
+export type { ClassEnrollmentRepository } from './class-enrollment.repository.js';
+export { ClassEnrollmentRepositoryImpl } from './class-enrollment.repository.js';
+
+// Review item repository exports
+export type {
+  ReviewItemRepository,
+  ReviewSchedule,
+  NewReviewItem
+} from './review-item.repository.js';
+export { ReviewItemRepositoryImpl } from './review-item.repository.js';
+
+// Concept mastery repository exports
+export type { ConceptMasteryRepository, MasteryState } from './concept-mastery.repository.js';
+export { ConceptMasteryRepositoryImpl } from './concept-mastery.repository.js';
+
+// Indexed question repository exports
+export type { IndexedQuestionRepository, NewIndexedQuestion } from './indexed-question.repository.js';
+export { IndexedQuestionRepositoryImpl } from './indexed-question.repository.js';
+
+// Moderation event repository exports
+export type { ModerationEventRepository, NewModerationEvent } from './moderation-event.repository.js';
+export { ModerationEventRepositoryImpl } from './moderation-event.repository.js';
+
+// LLM usage repository exports
+export type { LLMUsageRepository, NewLLMUsage, UsageScope } from './llm-usage.repository.js';
+export { LLMUsageRepositoryImpl } from './llm-usage.repository.js';
+
+// Hint usage repository exports
+export type { HintUsageRepository, HintedQuestion } from './hint-usage.repository.js';
+export { HintUsageRepositoryImpl } from './hint-usage.repository.js';
+
 // Repository factory for dependency injection
 export class RepositoryFactory {
   private static userRepository: UserRepository;
   private static sessionRepository: SessionRepository;
   private static progressRepository: ProgressRepository;
+  private static questionRepository: QuestionRepository;
+  private static quizAttemptRepository: QuizAttemptRepository;
+  private static classroomRepository: ClassroomRepository;
+  private static classEnrollmentRepository: ClassEnrollmentRepository;
+  private static reviewItemRepository: ReviewItemRepository;
+  private static conceptMasteryRepository: ConceptMasteryRepository;
+  private static indexedQuestionRepository: IndexedQuestionRepository;
+  private static moderationEventRepository: ModerationEventRepository;
+  private static llmUsageRepository: LLMUsageRepository;
+  private static hintUsageRepository: HintUsageRepository;
 
   static getUserRepository(): UserRepository {
     if (!this.userRepository) {
@@ -52,6 +132,76 @@ export class RepositoryFactory {
     return this.progressRepository;
   }
 
+  static getQuestionRepository(): QuestionRepository {
+    if (!this.questionRepository) {
+      this.questionRepository = new QuestionRepositoryImpl();
+    }
+    return this.questionRepository;
+  }
+
+  static getQuizAttemptRepository(): QuizAttemptRepository {
+    if (!this.quizAttemptRepository) {
+      this.quizAttemptRepository = new QuizAttemptRepositoryImpl();
+    }
+    return this.quizAttemptRepository;
+  }
+
+  static getClassroomRepository(): ClassroomRepository {
+    if (!this.classroomRepository) {
+      this.classroomRepository = new ClassroomRepositoryImpl();
+    }
+    return this.classroomRepository;
+  }
+
+  static getClassEnrollmentRepository(): ClassEnrollmentRepository {
+    if (!this.classEnrollmentRepository) {
+      this.classEnrollmentRepository = new ClassEnrollmentRepositoryImpl();
+    }
+    return this.classEnrollmentRepository;
+  }
+
+  static getReviewItemRepository(): ReviewItemRepository {
+    if (!this.reviewItemRepository) {
+      this.reviewItemRepository = new ReviewItemRepositoryImpl();
+    }
+    return this.reviewItemRepository;
+  }
+
+  static getConceptMasteryRepository(): ConceptMasteryRepository {
+    if (!this.conceptMasteryRepository) {
+      this.conceptMasteryRepository = new ConceptMasteryRepositoryImpl();
+    }
+    return this.conceptMasteryRepository;
+  }
+
+  static getIndexedQuestionRepository(): IndexedQuestionRepository {
+    if (!this.indexedQuestionRepository) {
+      this.indexedQuestionRepository = new IndexedQuestionRepositoryImpl();
+    }
+    return this.indexedQuestionRepository;
+  }
+
+  static getModerationEventRepository(): ModerationEventRepository {
+    if (!this.moderationEventRepository) {
+      this.moderationEventRepository = new ModerationEventRepositoryImpl();
+    }
+    return this.moderationEventRepository;
+  }
+
+  static getLLMUsageRepository(): LLMUsageRepository {
+    if (!this.llmUsageRepository) {
+      this.llmUsageRepository = new LLMUsageRepositoryImpl();
+    }
+    return this.llmUsageRepository;
+  }
+
+  static getHintUsageRepository(): HintUsageRepository {
+    if (!this.hintUsageRepository) {
+      this.hintUsageRepository = new HintUsageRepositoryImpl();
+    }
+    return this.hintUsageRepository;
+  }
+
   // For testing - allows injection of mock repositories
   static setUserRepository(repository: UserRepository): void {
     this.userRepository = repository;
@@ -65,10 +215,60 @@ export class RepositoryFactory {
     this.progressRepository = repository;
   }
 
+  static setQuestionRepository(repository: QuestionRepository): void {
+    this.questionRepository = repository;
+  }
+
+  static setQuizAttemptRepository(repository: QuizAttemptRepository): void {
+    this.quizAttemptRepository = repository;
+  }
+
+  static setClassroomRepository(repository: ClassroomRepository): void {
+    this.classroomRepository = repository;
+  }
+
+  static setClassEnrollmentRepository(repository: ClassEnrollmentRepository): void {
+    this.classEnrollmentRepository = repository;
+  }
+
+  static setReviewItemRepository(repository: ReviewItemRepository): void {
+    this.reviewItemRepository = repository;
+  }
+
+  static setConceptMasteryRepository(repository: ConceptMasteryRepository): void {
+    this.conceptMasteryRepository = repository;
+  }
+
+  static setIndexedQuestionRepository(repository: IndexedQuestionRepository): void {
+    this.indexedQuestionRepository = repository;
+  }
+
+  static setModerationEventRepository(repository: ModerationEventRepository): void {
+    this.moderationEventRepository = repository;
+  }
+
+  static setLLMUsageRepository(repository: LLMUsageRepository): void {
+    this.llmUsageRepository = repository;
+  }
+
+  static setHintUsageRepository(repository: HintUsageRepository): void {
+    this.hintUsageRepository = repository;
+  }
+
   // Reset all repositories (useful for testing)
   static reset(): void {
     this.userRepository = null as any;
     this.sessionRepository = null as any;
     this.progressRepository = null as any;
+    this.questionRepository = null as any;
+    this.quizAttemptRepository = null as any;
+    this.classroomRepository = null as any;
+    this.classEnrollmentRepository = null as any;
+    this.reviewItemRepository = null as any;
+    this.conceptMasteryRepository = null as any;
+    this.indexedQuestionRepository = null as any;
+    this.moderationEventRepository = null as any;
+    this.llmUsageRepository = null as any;
+    this.hintUsageRepository = null as any;
   }
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { AbstractRepository } from './base.repository.js';
+import { IndexedQuestionDocument, IndexedQuestionModel } from '../schemas/indexed-question.schema.js';
+import { IndexedQuestion } from '../../types/index.js';
+
+export type NewIndexedQuestion = Omit<IndexedQuestion, 'id'>;
+
+export interface IndexedQuestionRepository {
+  addQuestion(entry: NewIndexedQuestion): Promise<IndexedQuestion>;
+  findRecentByUser(userId: string, limit?: number): Promise<IndexedQuestion[]>;
+}
+
+export class IndexedQuestionRepositoryImpl extends AbstractRepository<IndexedQuestionDocument> implements IndexedQuestionRepository {
+  constructor() {
+    super(IndexedQuestionModel);
+  }
+
+  async addQuestion(entry: NewIndexedQuestion): Promise<IndexedQuestion> {
+    const questionDoc = await this.create(entry as Partial<IndexedQuestionDocument>);
+    return this.documentToIndexedQuestion(questionDoc);
+  }
+
+  async findRecentByUser(userId: string, limit = 200): Promise<IndexedQuestion[]> {
+    const questionDocs = await this.findMany({ userId }, { sort: { askedAt: -1 }, limit });
+    return questionDocs.map(doc => this.documentToIndexedQuestion(doc));
+  }
+
+  private documentToIndexedQuestion(doc: IndexedQuestionDocument): IndexedQuestion {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      sessionId: doc.sessionId,
+      question: doc.question,
+      answer: doc.answer,
+      answerMessageId: doc.answerMessageId,
+      terms: doc.terms,
+      askedAt: doc.askedAt
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { AbstractRepository } from './base.repository.js';
+import { LLMUsageDocument, LLMUsageModel } from '../schemas/llm-usage.schema.js';
+import { LLMUsageRecord, LLMUsageSummary } from '../../types/index.js';
+
+export type NewLLMUsage = Omit<LLMUsageRecord, 'id' | 'createdAt'>;
+
+// Whose usage to count; everyone's when empty
+export interface UsageScope {
+  userId?: string;
+  schoolId?: string;
+}
+
+export interface LLMUsageRepository {
+  recordUsage(usage: NewLLMUsage): Promise<LLMUsageRecord>;
+  sumTokensForDay(day: string, scope?: UsageScope): Promise<number>;
+  summarize(fromDay: string, toDay: string): Promise<LLMUsageSummary[]>;
+}
+
+export class LLMUsageRepositoryImpl extends AbstractRepository<LLMUsageDocument> implements LLMUsageRepository {
+  constructor() {
+    super(LLMUsageModel);
+  }
+
+  async recordUsage(usage: NewLLMUsage): Promise<LLMUsageRecord> {
+    const usageDoc = await this.create(usage as Partial<LLMUsageDocument>);
+    return this.documentToUsage(usageDoc);
+  }
+
+  /**
+   * Tokens used on a day, by one student, one school or across everyone when the scope is empty
+   */
+  async sumTokensForDay(day: string, scope: UsageScope = {}): Promise<number> {
+    const match: Record<string, unknown> = { day };
+    if (scope.userId) match.userId = scope.userId;
+    if (scope.schoolId) match.schoolId = scope.schoolId;
+
+    const [result] = await this.model.aggregate([
+      { $match: match },
+      { $group: { _id: null, totalTokens: { $sum: '$totalTokens' } } }
+    ]);
+
+    return result?.totalTokens || 0;
+  }
+
+  /**
+   * Usage per day, model, agent and school for an inclusive range of days
+   */
+  async summarize(fromDay: string, toDay: string): Promise<LLMUsageSummary[]> {
+    const rows = await this.model.aggregate([
+      { $match: { day: { $gte: fromDay, $lte: toDay } } },
+      {
+        $group: {
+          _id: { day: '$day', model: '$modelId', agent: '$agent', school: '$schoolId' },
+          calls: { $sum: 1 },
+          promptTokens: { $sum: '$promptTokens' },
+          completionTokens: { $sum: '$completionTokens' },
+          totalTokens: { $sum: '$totalTokens' },
+          estimatedCost: { $sum: '$estimatedCost' }
+        }
+      },
+      { $sort: { '_id.day': 1, '_id.model': 1, '_id.agent': 1 } }
+    ]);
+
+    return rows.map(row => ({
+      day: row._id.day,
+      model: row._id.model,
+      agent: row._id.agent,
+      school: row._id.school ?? undefined,
+      calls: row.calls,
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+      totalTokens: row.totalTokens,
+      estimatedCost: row.estimatedCost
+    }));
+  }
+
+  private documentToUsage(doc: LLMUsageDocument): LLMUsageRecord {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      schoolId: doc.schoolId,
+      sessionId: doc.sessionId,
+      agent: doc.agent,
+      modelId: doc.modelId,
+      prompt: doc.prompt?.id ? { id: doc.prompt.id, version: doc.prompt.version } : undefined,
+      promptTokens: doc.promptTokens,
+      completionTokens: doc.completionTokens,
+      totalTokens: doc.totalTokens,
+      estimatedCost: doc.estimatedCost,
+      day: doc.day,
+      createdAt: doc.createdAt
+    };
+  }
+}
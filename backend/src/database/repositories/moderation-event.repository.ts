@@ -0,0 +1,70 @@
+import { AbstractRepository } from './base.repository.js';
+import { ModerationEventDocument, ModerationEventModel } from '../schemas/moderation-event.schema.js';
+import { ModerationEvent } from '../../types/index.js';
+
+export type NewModerationEvent = Omit<ModerationEvent, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ModerationEventRepository {
+  logEvent(event: NewModerationEvent): Promise<ModerationEvent>;
+  findEventById(eventId: string): Promise<ModerationEvent | null>;
+  findEventsByUsers(userIds: string[], status?: ModerationEvent['status'], limit?: number): Promise<ModerationEvent[]>;
+  markReviewed(eventId: string, reviewerId: string, note?: string): Promise<ModerationEvent | null>;
+}
+
+export class ModerationEventRepositoryImpl extends AbstractRepository<ModerationEventDocument> implements ModerationEventRepository {
+  constructor() {
+    super(ModerationEventModel);
+  }
+
+  async logEvent(event: NewModerationEvent): Promise<ModerationEvent> {
+    const eventDoc = await this.create(event as Partial<ModerationEventDocument>);
+    return this.documentToModerationEvent(eventDoc);
+  }
+
+  async findEventById(eventId: string): Promise<ModerationEvent | null> {
+    const eventDoc = await this.findById(eventId);
+    return eventDoc ? this.documentToModerationEvent(eventDoc) : null;
+  }
+
+  async findEventsByUsers(userIds: string[], status?: ModerationEvent['status'], limit = 50): Promise<ModerationEvent[]> {
+    const filter: Record<string, unknown> = { userId: { $in: userIds } };
+    if (status) filter.status = status;
+
+    const eventDocs = await this.findMany(filter, { sort: { createdAt: -1 }, limit });
+    return eventDocs.map(doc => this.documentToModerationEvent(doc));
+  }
+
+  async markReviewed(eventId: string, reviewerId: string, note?: string): Promise<ModerationEvent | null> {
+    const eventDoc = await this.updateById(eventId, {
+      status: 'reviewed',
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      ...(note ? { reviewNote: note } : {})
+    });
+    return eventDoc ? this.documentToModerationEvent(eventDoc) : null;
+  }
+
+  private documentToModerationEvent(doc: ModerationEventDocument): ModerationEvent {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      sessionId: doc.sessionId,
+      messageId: doc.messageId,
+      direction: doc.direction,
+      action: doc.action,
+      findings: doc.findings.map(finding => ({
+        category: finding.category,
+        score: finding.score,
+        method: finding.method
+      })),
+      excerpt: doc.excerpt,
+      policyVersion: doc.policyVersion,
+      status: doc.status,
+      reviewedBy: doc.reviewedBy,
+      reviewedAt: doc.reviewedAt,
+      reviewNote: doc.reviewNote,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,270 @@
+import { FilterQuery } from 'mongoose';
+import { AbstractRepository } from './base.repository.js';
+import { QuestionDocument, QuestionModel } from '../schemas/question.schema.js';
+import { BankQuestion, CodeExercise, PromptReference, QuestionType } from '../../types/index.js';
+
+export interface CreateQuestionData {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+  hints: string[];
+  difficulty: number;
+  concept: string;
+  topic: string;
+  timeEstimate?: number;
+  source: 'curated' | 'generated';
+  prompt?: PromptReference;
+  code?: CodeExercise;
+  reviewStatus?: 'approved' | 'pending_review' | 'rejected';
+}
+
+export interface QuestionSearchOptions {
+  difficulty?: number;
+  type?: QuestionType;
+  excludeIds?: string[];
+  limit?: number;
+}
+
+export interface QuestionRepository {
+  // Question management
+  createQuestion(questionData: CreateQuestionData): Promise<BankQuestion>;
+  findQuestionById(questionId: string): Promise<BankQuestion | null>;
+  seedQuestions(questions: CreateQuestionData[]): Promise<number>;
+
+  // Bank lookups (approved questions only)
+  findApprovedQuestions(topic: string, options?: QuestionSearchOptions): Promise<BankQuestion[]>;
+  pickApprovedQuestion(topic: string, options?: QuestionSearchOptions): Promise<BankQuestion | null>;
+
+  // Generated questions and teacher review
+  saveForReview(questionData: CreateQuestionData): Promise<BankQuestion>;
+  findPendingReview(limit?: number): Promise<BankQuestion[]>;
+  updateReviewStatus(questionId: string, status: 'approved' | 'rejected', reviewerId: string): Promise<BankQuestion | null>;
+
+  // Generated hints are kept so later students reuse them
+  updateHints(questionId: string, hints: string[]): Promise<void>;
+
+  // Usage statistics
+  recordAnswer(questionId: string, isCorrect: boolean): Promise<void>;
+  getTopicCounts(): Promise<Array<{ topic: string; approved: number; pendingReview: number }>>;
+}
+
+export class QuestionRepositoryImpl extends AbstractRepository<QuestionDocument> implements QuestionRepository {
+  constructor() {
+    super(QuestionModel);
+  }
+
+  async createQuestion(questionData: CreateQuestionData): Promise<BankQuestion> {
+    const existing = await this.findById(questionData.id);
+    if (existing) {
+      throw new Error('Question with this id already exists');
+    }
+
+    const questionDoc = await this.create(this.toDocumentData(questionData));
+    return this.documentToQuestion(questionDoc);
+  }
+
+  async findQuestionById(questionId: string): Promise<BankQuestion | null> {
+    const questionDoc = await this.findById(questionId);
+    return questionDoc ? this.documentToQuestion(questionDoc) : null;
+  }
+
+  async seedQuestions(questions: CreateQuestionData[]): Promise<number> {
+    if (questions.length === 0) return 0;
+
+    // Only insert missing ids so teacher edits to seeded questions survive restarts
+    const result = await this.model.bulkWrite(questions.map(questionData => ({
+      updateOne: {
+        filter: { _id: questionData.id },
+        update: { $setOnInsert: this.toInsertData(questionData) },
+        upsert: true
+      }
+    })));
+
+    return result.upsertedCount;
+  }
+
+  async findApprovedQuestions(topic: string, options: QuestionSearchOptions = {}): Promise<BankQuestion[]> {
+    const questionDocs = await this.findMany(this.buildBankFilter(topic, options), {
+      sort: { timesAnswered: 1, createdAt: 1 },
+      limit: options.limit || 20
+    });
+
+    return questionDocs.map(doc => this.documentToQuestion(doc));
+  }
+
+  async pickApprovedQuestion(topic: string, options: QuestionSearchOptions = {}): Promise<BankQuestion | null> {
+    const candidates = await this.findApprovedQuestions(topic, { ...options, difficulty: undefined, limit: 50 });
+    if (candidates.length === 0) return null;
+
+    if (options.difficulty === undefined) {
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+
+    // Prefer the closest difficulty, choosing randomly among equally close questions
+    const target = options.difficulty;
+    const closestDistance = Math.min(...candidates.map(q => Math.abs(q.difficulty - target)));
+    const closest = candidates.filter(q => Math.abs(q.difficulty - target) === closestDistance);
+
+    return closest[Math.floor(Math.random() * closest.length)];
+  }
+
+  async saveForReview(questionData: CreateQuestionData): Promise<BankQuestion> {
+    const questionDoc = await this.model.findOneAndUpdate(
+      { _id: questionData.id },
+      {
+        $setOnInsert: this.toInsertData({
+          ...questionData,
+          source: 'generated',
+          reviewStatus: 'pending_review'
+        })
+      },
+      { new: true, upsert: true }
+    ).exec();
+
+    return this.documentToQuestion(questionDoc!);
+  }
+
+  async findPendingReview(limit: number = 50): Promise<BankQuestion[]> {
+    const questionDocs = await this.findMany(
+      { reviewStatus: 'pending_review' },
+      { sort: { timesAnswered: -1, createdAt: 1 }, limit }
+    );
+
+    return questionDocs.map(doc => this.documentToQuestion(doc));
+  }
+
+  async updateReviewStatus(
+    questionId: string,
+    status: 'approved' | 'rejected',
+    reviewerId: string
+  ): Promise<BankQuestion | null> {
+    const questionDoc = await this.updateById(questionId, {
+      reviewStatus: status,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date()
+    });
+
+    return questionDoc ? this.documentToQuestion(questionDoc) : null;
+  }
+
+  async updateHints(questionId: string, hints: string[]): Promise<void> {
+    await this.updateById(questionId, { hints });
+  }
+
+  async recordAnswer(questionId: string, isCorrect: boolean): Promise<void> {
+    await this.updateById(questionId, {
+      $inc: {
+        timesAnswered: 1,
+        timesCorrect: isCorrect ? 1 : 0
+      }
+    });
+  }
+
+  async getTopicCounts(): Promise<Array<{ topic: string; approved: number; pendingReview: number }>> {
+    const result = await this.model.aggregate([
+      {
+        $group: {
+          _id: '$topic',
+          approved: { $sum: { $cond: [{ $eq: ['$reviewStatus', 'approved'] }, 1, 0] } },
+          pendingReview: { $sum: { $cond: [{ $eq: ['$reviewStatus', 'pending_review'] }, 1, 0] } }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    return result.map(item => ({
+      topic: item._id,
+      approved: item.approved,
+      pendingReview: item.pendingReview
+    }));
+  }
+
+  private buildBankFilter(topic: string, options: QuestionSearchOptions): FilterQuery<QuestionDocument> {
+    const filter: FilterQuery<QuestionDocument> = {
+      reviewStatus: 'approved',
+      // Agents pass either a curriculum topic id or a concept name
+      $or: [{ topic: this.normalizeTopic(topic) }, { concept: topic.trim().toLowerCase() }]
+    };
+
+    if (options.difficulty !== undefined) {
+      filter.difficulty = options.difficulty;
+    }
+
+    if (options.type) {
+      filter.type = options.type;
+    }
+
+    if (options.excludeIds && options.excludeIds.length > 0) {
+      filter._id = { $nin: options.excludeIds };
+    }
+
+    return filter;
+  }
+
+  private normalizeTopic(topic: string): string {
+    return topic.trim().toLowerCase().replace(/\s+/g, '-');
+  }
+
+  private toInsertData(questionData: CreateQuestionData): Partial<QuestionDocument> {
+    // The _id comes from the upsert filter
+    const { _id, ...insertData } = this.toDocumentData(questionData);
+    return insertData as Partial<QuestionDocument>;
+  }
+
+  private toDocumentData(questionData: CreateQuestionData): Partial<QuestionDocument> {
+    return {
+      _id: questionData.id,
+      type: questionData.type,
+      question: questionData.question,
+      options: questionData.options,
+      correctAnswer: questionData.correctAnswer,
+      explanation: questionData.explanation,
+      hints: questionData.hints,
+      difficulty: questionData.difficulty,
+      concept: questionData.concept,
+      topic: this.normalizeTopic(questionData.topic),
+      timeEstimate: questionData.timeEstimate || 120,
+      source: questionData.source,
+      prompt: questionData.prompt,
+      code: questionData.code,
+      reviewStatus: questionData.reviewStatus || (questionData.source === 'curated' ? 'approved' : 'pending_review'),
+      timesAnswered: 0,
+      timesCorrect: 0
+    } as Partial<QuestionDocument>;
+  }
+
+  private documentToQuestion(doc: QuestionDocument): BankQuestion {
+    return {
+      id: doc._id,
+      type: doc.type,
+      question: doc.question,
+      options: doc.options && doc.options.length > 0 ? doc.options : undefined,
+      correctAnswer: doc.correctAnswer,
+      explanation: doc.explanation,
+      hints: doc.hints,
+      difficulty: doc.difficulty,
+      concept: doc.concept,
+      topic: doc.topic,
+      timeEstimate: doc.timeEstimate,
+      source: doc.source,
+      prompt: doc.prompt?.id ? { id: doc.prompt.id, version: doc.prompt.version } : undefined,
+      code: doc.code?.language
+        ? {
+          language: doc.code.language,
+          starterCode: doc.code.starterCode,
+          testCases: doc.code.testCases.map(test => ({ description: test.description, expression: test.expression, expected: test.expected }))
+        }
+        : undefined,
+      reviewStatus: doc.reviewStatus,
+      timesAnswered: doc.timesAnswered,
+      timesCorrect: doc.timesCorrect,
+      reviewedBy: doc.reviewedBy,
+      reviewedAt: doc.reviewedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
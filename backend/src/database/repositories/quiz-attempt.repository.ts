@@ -0,0 +1,140 @@
+import { AbstractRepository } from './base.repository.js';
+import { QuizAttemptDocument, QuizAttemptModel } from '../schemas/quiz-attempt.schema.js';
+import { QuizAttempt, QuizAnswer, QuizQuestion } from '../../types/index.js';
+
+export interface CreateQuizAttemptData {
+  userId: string;
+  sessionId?: string;
+  assessmentId: string;
+  topic: string;
+  difficulty: number;
+  questions: QuizQuestion[];
+  timeLimit: number;
+  passingScore: number;
+  pointsPerQuestion: number;
+}
+
+export interface QuizCompletion {
+  status: 'completed' | 'expired';
+  score: number;
+  maxScore: number;
+  percentage: number;
+  passed: boolean;
+}
+
+export interface QuizAttemptRepository {
+  // Attempt management
+  createAttempt(attemptData: CreateQuizAttemptData): Promise<QuizAttempt>;
+  findAttemptById(attemptId: string): Promise<QuizAttempt | null>;
+  findActiveAttempt(userId: string): Promise<QuizAttempt | null>;
+  findAttemptsByUser(userId: string, limit?: number): Promise<QuizAttempt[]>;
+
+  // Progress through an attempt (only while in progress)
+  recordAnswer(attemptId: string, questionIndex: number, answer: QuizAnswer): Promise<QuizAttempt | null>;
+  revealHint(attemptId: string, questionIndex: number): Promise<QuizAttempt | null>;
+  completeAttempt(attemptId: string, completion: QuizCompletion): Promise<QuizAttempt | null>;
+}
+
+export class QuizAttemptRepositoryImpl extends AbstractRepository<QuizAttemptDocument> implements QuizAttemptRepository {
+  constructor() {
+    super(QuizAttemptModel);
+  }
+
+  async createAttempt(attemptData: CreateQuizAttemptData): Promise<QuizAttempt> {
+    const startedAt = new Date();
+
+    const attemptDoc = await this.create({
+      ...attemptData,
+      answers: [],
+      hintsRevealed: attemptData.questions.map(() => 0),
+      currentQuestionIndex: 0,
+      status: 'in_progress',
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + attemptData.timeLimit * 1000),
+      score: 0,
+      maxScore: attemptData.questions.length * attemptData.pointsPerQuestion
+    } as Partial<QuizAttemptDocument>);
+
+    return this.documentToAttempt(attemptDoc);
+  }
+
+  async findAttemptById(attemptId: string): Promise<QuizAttempt | null> {
+    const attemptDoc = await this.findById(attemptId);
+    return attemptDoc ? this.documentToAttempt(attemptDoc) : null;
+  }
+
+  async findActiveAttempt(userId: string): Promise<QuizAttempt | null> {
+    const attemptDocs = await this.findMany(
+      { userId, status: 'in_progress' },
+      { sort: { startedAt: -1 }, limit: 1 }
+    );
+
+    return attemptDocs.length > 0 ? this.documentToAttempt(attemptDocs[0]) : null;
+  }
+
+  async findAttemptsByUser(userId: string, limit: number = 20): Promise<QuizAttempt[]> {
+    const attemptDocs = await this.findMany({ userId }, { sort: { startedAt: -1 }, limit });
+    return attemptDocs.map(doc => this.documentToAttempt(doc));
+  }
+
+  async recordAnswer(attemptId: string, questionIndex: number, answer: QuizAnswer): Promise<QuizAttempt | null> {
+    // Matching on the current index rejects duplicate submissions for the same question
+    const attemptDoc = await this.updateOne(
+      { _id: attemptId, status: 'in_progress', currentQuestionIndex: questionIndex },
+      {
+        $push: { answers: answer },
+        $inc: { currentQuestionIndex: 1, score: answer.score }
+      }
+    );
+
+    return attemptDoc ? this.documentToAttempt(attemptDoc) : null;
+  }
+
+  async revealHint(attemptId: string, questionIndex: number): Promise<QuizAttempt | null> {
+    const attemptDoc = await this.updateOne(
+      { _id: attemptId, status: 'in_progress', currentQuestionIndex: questionIndex },
+      { $inc: { [`hintsRevealed.${questionIndex}`]: 1 } }
+    );
+
+    return attemptDoc ? this.documentToAttempt(attemptDoc) : null;
+  }
+
+  async completeAttempt(attemptId: string, completion: QuizCompletion): Promise<QuizAttempt | null> {
+    // Only the first completion wins, so an attempt is never scored twice
+    const attemptDoc = await this.updateOne(
+      { _id: attemptId, status: 'in_progress' },
+      {
+        ...completion,
+        completedAt: new Date()
+      }
+    );
+
+    return attemptDoc ? this.documentToAttempt(attemptDoc) : null;
+  }
+
+  private documentToAttempt(doc: QuizAttemptDocument): QuizAttempt {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      sessionId: doc.sessionId,
+      assessmentId: doc.assessmentId,
+      topic: doc.topic,
+      difficulty: doc.difficulty,
+      questions: doc.questions,
+      answers: doc.answers,
+      hintsRevealed: doc.hintsRevealed,
+      currentQuestionIndex: doc.currentQuestionIndex,
+      timeLimit: doc.timeLimit,
+      passingScore: doc.passingScore,
+      pointsPerQuestion: doc.pointsPerQuestion,
+      status: doc.status,
+      startedAt: doc.startedAt,
+      expiresAt: doc.expiresAt,
+      completedAt: doc.completedAt,
+      score: doc.score,
+      maxScore: doc.maxScore,
+      percentage: doc.percentage,
+      passed: doc.passed
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { AbstractRepository } from './base.repository.js';
+import { ReviewItemDocument, ReviewItemModel } from '../schemas/review-item.schema.js';
+import { ReviewItem, ReviewItemSource } from '../../types/index.js';
+
+export interface ReviewSchedule {
+  topic: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date;
+  lastQuality: number;
+}
+
+export interface NewReviewItem {
+  concept: string;
+  topic: string;
+}
+
+export interface ReviewItemRepository {
+  // Scheduling
+  findItem(userId: string, concept: string): Promise<ReviewItem | null>;
+  saveSchedule(userId: string, concept: string, source: ReviewItemSource, schedule: ReviewSchedule): Promise<ReviewItem>;
+  addItems(userId: string, items: NewReviewItem[], source: ReviewItemSource, dueAt: Date): Promise<number>;
+
+  // Review queue
+  findDueItems(userId: string, asOf: Date, limit?: number): Promise<ReviewItem[]>;
+  findItemsByUser(userId: string, limit?: number): Promise<ReviewItem[]>;
+  countDueItems(userId: string, asOf: Date): Promise<number>;
+}
+
+export class ReviewItemRepositoryImpl extends AbstractRepository<ReviewItemDocument> implements ReviewItemRepository {
+  constructor() {
+    super(ReviewItemModel);
+  }
+
+  async findItem(userId: string, concept: string): Promise<ReviewItem | null> {
+    const itemDoc = await this.findOne({ userId, concept: this.normalizeConcept(concept) });
+    return itemDoc ? this.documentToReviewItem(itemDoc) : null;
+  }
+
+  async saveSchedule(
+    userId: string,
+    concept: string,
+    source: ReviewItemSource,
+    schedule: ReviewSchedule
+  ): Promise<ReviewItem> {
+    const normalized = this.normalizeConcept(concept);
+    const itemDoc = await this.model.findOneAndUpdate(
+      { userId, concept: normalized },
+      {
+        $set: schedule,
+        $setOnInsert: { userId, concept: normalized, source }
+      },
+      { upsert: true, new: true }
+    ).exec();
+
+    return this.documentToReviewItem(itemDoc);
+  }
+
+  async addItems(userId: string, items: NewReviewItem[], source: ReviewItemSource, dueAt: Date): Promise<number> {
+    if (items.length === 0) return 0;
+
+    // Existing items keep their schedule; only unseen concepts are added
+    const result = await this.model.bulkWrite(items.map(item => {
+      const concept = this.normalizeConcept(item.concept);
+      return {
+        updateOne: {
+          filter: { userId, concept },
+          update: { $setOnInsert: { userId, concept, topic: item.topic, source, dueAt } },
+          upsert: true
+        }
+      };
+    }));
+
+    return result.upsertedCount;
+  }
+
+  async findDueItems(userId: string, asOf: Date, limit = 10): Promise<ReviewItem[]> {
+    const itemDocs = await this.findMany(
+      { userId, dueAt: { $lte: asOf } },
+      { sort: { dueAt: 1 }, limit }
+    );
+    return itemDocs.map(doc => this.documentToReviewItem(doc));
+  }
+
+  async findItemsByUser(userId: string, limit = 50): Promise<ReviewItem[]> {
+    const itemDocs = await this.findMany({ userId }, { sort: { dueAt: 1 }, limit });
+    return itemDocs.map(doc => this.documentToReviewItem(doc));
+  }
+
+  async countDueItems(userId: string, asOf: Date): Promise<number> {
+    return this.count({ userId, dueAt: { $lte: asOf } });
+  }
+
+  private normalizeConcept(concept: string): string {
+    return concept.trim().toLowerCase();
+  }
+
+  private documentToReviewItem(doc: ReviewItemDocument): ReviewItem {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      concept: doc.concept,
+      topic: doc.topic,
+      easeFactor: doc.easeFactor,
+      interval: doc.interval,
+      repetitions: doc.repetitions,
+      lapses: doc.lapses,
+      dueAt: doc.dueAt,
+      lastReviewedAt: doc.lastReviewedAt,
+      lastQuality: doc.lastQuality,
+      source: doc.source,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
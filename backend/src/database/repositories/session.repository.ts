@@ -2,6 +2,7 @@ import { FilterQuery } from 'mongoose';
 import { AbstractRepository } from './base.repository.js';
 import { SessionDocument, SessionModel } from '../schemas/session.schema.js';
 import { LearningSession, Message, AgentState, ProgressData } from '../../types/index.js';
+import { redactPersonalData } from '../../utils/pii.js';
 
 export interface CreateSessionData {
   userId: string;
@@ -98,7 +99,7 @@ export class SessionRepositoryImpl extends AbstractRepository<SessionDocument> i
 
   async addMessage(sessionId: string, message: Message): Promise<LearningSession | null> {
     const sessionDoc = await this.updateById(sessionId, {
-      $push: { conversationHistory: message }
+      $push: { conversationHistory: this.redactMessage(message) }
     });
 
     return sessionDoc ? this.documentToSession(sessionDoc) : null;
@@ -106,7 +107,7 @@ export class SessionRepositoryImpl extends AbstractRepository<SessionDocument> i
 
   async addMessages(sessionId: string, messages: Message[]): Promise<LearningSession | null> {
     const sessionDoc = await this.updateById(sessionId, {
-      $push: { conversationHistory: { $each: messages } }
+      $push: { conversationHistory: { $each: messages.map(message => this.redactMessage(message)) } }
     });
 
     return sessionDoc ? this.documentToSession(sessionDoc) : null;
@@ -285,6 +286,13 @@ export class SessionRepositoryImpl extends AbstractRepository<SessionDocument> i
     }));
   }
 
+  /**
+   * Personal data never reaches the stored transcript
+   */
+  private redactMessage(message: Message): Message {
+    return { ...message, content: redactPersonalData(message.content) };
+  }
+
   private documentToSession(doc: SessionDocument): LearningSession {
     return {
       id: doc._id,
@@ -26,7 +26,9 @@ export interface UserRepository {
   // User management methods
   findByEmail(email: string): Promise<User | null>;
   findByUsername(username: string): Promise<User | null>;
+  findUsersByIds(userIds: string[]): Promise<User[]>;
   updatePreferences(userId: string, preferences: Partial<UserPreferences>): Promise<User | null>;
+  updateSchool(userId: string, schoolId: string | null): Promise<User | null>;
   updateLastActive(userId: string): Promise<void>;
   
   // Analytics methods
@@ -134,6 +136,13 @@ export class UserRepositoryImpl extends AbstractRepository<UserDocument> impleme
     return userDoc ? this.documentToUser(userDoc) : null;
   }
 
+  async findUsersByIds(userIds: string[]): Promise<User[]> {
+    if (userIds.length === 0) return [];
+
+    const userDocs = await this.findMany({ _id: { $in: userIds } });
+    return userDocs.map(doc => this.documentToUser(doc));
+  }
+
   async updatePreferences(userId: string, preferences: Partial<UserPreferences>): Promise<User | null> {
     const userDoc = await this.updateById(userId, { 
       $set: { 
@@ -146,6 +155,11 @@ export class UserRepositoryImpl extends AbstractRepository<UserDocument> impleme
     return userDoc ? this.documentToUser(userDoc) : null;
   }
 
+  async updateSchool(userId: string, schoolId: string | null): Promise<User | null> {
+    const userDoc = await this.updateById(userId, schoolId ? { $set: { schoolId } } : { $unset: { schoolId: 1 } });
+    return userDoc ? this.documentToUser(userDoc) : null;
+  }
+
   async updateLastActive(userId: string): Promise<void> {
     await this.updateById(userId, { lastActive: new Date() });
   }
@@ -201,7 +215,13 @@ export class UserRepositoryImpl extends AbstractRepository<UserDocument> impleme
       id: doc._id,
       username: doc.username,
       email: doc.email,
+      firstName: doc.firstName,
+      lastName: doc.lastName,
+      role: doc.role || 'student',
       grade: doc.grade,
+      schoolId: doc.schoolId,
+      learningInterests: doc.learningInterests || [],
+      profileCompleted: doc.profileCompleted,
       createdAt: doc.createdAt,
       lastActive: doc.lastActive,
       preferences: doc.preferences
@@ -1,5 +1,6 @@
 import { Schema, model, Document } from 'mongoose';
 import { AgentState, AgentType } from '../../types/index.js';
+import { AGENT_TYPE_PATTERN } from '../../agents/agent-plugin.js';
 
 // Additional types for agent schema
 export interface AgentMessage {
@@ -37,7 +38,7 @@ export interface AgentMessageDocument extends Omit<AgentMessage, 'id'>, Document
 const agentStateSchema = new Schema<AgentStateDocument>({
   agentType: {
     type: String,
-    enum: ['coordinator', 'tutor', 'assessment', 'content'],
+    match: AGENT_TYPE_PATTERN, // core types and plug-in types alike
     required: true
   },
   sessionId: {
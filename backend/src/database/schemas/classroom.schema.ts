@@ -0,0 +1,89 @@
+import { Schema, model, Document } from 'mongoose';
+import { Classroom, ClassEnrollment } from '../../types/index.js';
+
+export interface ClassroomDocument extends Omit<Classroom, 'id'>, Document {
+  _id: string;
+}
+
+export interface ClassEnrollmentDocument extends Omit<ClassEnrollment, 'id'>, Document {
+  _id: string;
+}
+
+const classroomSchema = new Schema<ClassroomDocument>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  teacherId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  joinCode: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  grade: {
+    type: Number,
+    enum: [9, 10]
+  },
+  tutorMode: {
+    type: String,
+    enum: ['explain', 'socratic']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+const classEnrollmentSchema = new Schema<ClassEnrollmentDocument>({
+  classId: {
+    type: String,
+    required: true,
+    ref: 'Classroom'
+  },
+  studentId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for teacher and student lookups
+classroomSchema.index({ teacherId: 1, createdAt: -1 });
+classEnrollmentSchema.index({ classId: 1, studentId: 1 }, { unique: true });
+classEnrollmentSchema.index({ studentId: 1 });
+
+export const ClassroomModel = model<ClassroomDocument>('Classroom', classroomSchema);
+export const ClassEnrollmentModel = model<ClassEnrollmentDocument>('ClassEnrollment', classEnrollmentSchema);
@@ -0,0 +1,75 @@
+import { Schema, model, Document } from 'mongoose';
+import { ConceptMastery } from '../../types/index.js';
+
+export interface ConceptMasteryDocument extends Omit<ConceptMastery, 'id'>, Document {
+  _id: string;
+}
+
+const conceptMasterySchema = new Schema<ConceptMasteryDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  concept: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  topic: {
+    type: String,
+    required: true
+  },
+  pKnown: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1
+  },
+  attempts: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  correctAttempts: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  hintsUsed: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  exposures: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  lastEvidence: {
+    type: String,
+    enum: ['assessment', 'tutor'],
+    required: true
+  },
+  lastEvidenceAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// One estimate per student and concept; topic rollups read a student's concepts by topic
+conceptMasterySchema.index({ userId: 1, concept: 1 }, { unique: true });
+conceptMasterySchema.index({ userId: 1, topic: 1 });
+
+export const ConceptMasteryModel = model<ConceptMasteryDocument>('ConceptMastery', conceptMasterySchema);
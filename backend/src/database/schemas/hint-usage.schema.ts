@@ -0,0 +1,62 @@
+import { Schema, model, Document } from 'mongoose';
+import { HintUsage } from '../../types/index.js';
+
+export interface HintUsageDocument extends Omit<HintUsage, 'id'>, Document {
+  _id: string;
+}
+
+const hintUsageSchema = new Schema<HintUsageDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  questionId: {
+    type: String,
+    required: true
+  },
+  concept: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  topic: {
+    type: String,
+    required: true
+  },
+  sessionId: {
+    type: String
+  },
+  hintsUsed: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  answered: {
+    type: Boolean,
+    default: false
+  },
+  isCorrect: {
+    type: Boolean
+  },
+  answeredAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Hints are counted on the student's open record for a question; reports group answered records by concept
+hintUsageSchema.index({ userId: 1, questionId: 1, answered: 1 });
+hintUsageSchema.index({ userId: 1, answered: 1, concept: 1 });
+
+export const HintUsageModel = model<HintUsageDocument>('HintUsage', hintUsageSchema);
@@ -8,4 +8,32 @@ export { ProgressModel } from './progress.schema.js';
 export type { ProgressDocument } from './progress.schema.js';
 
 export { AgentStateModel, AgentMessageModel } from './agent.schema.js';
-export type { AgentStateDocument, AgentMessageDocument } from './agent.schema.js';
\ No newline at end of file
+export type { AgentStateDocument, AgentMessageDocument } from './agent.schema.js';
+
+export { QuestionModel } from './question.schema.js';
+export type { QuestionDocument } from './question.schema.js';
+
+export { QuizAttemptModel } from './quiz-attempt.schema.js';
+export type { QuizAttemptDocument } from './quiz-attempt.schema.js';
+
+export { ClassroomModel, ClassEnrollmentModel } from './classroom.schema.js';
+export type { ClassroomDocument, ClassEnrollmentDocument } from './classroom.schema.js';
+
+export { ReviewItemModel } from './review-item.schema.js';
+export type { ReviewItemDocument } from './review-item.schema.js';
+
+export { ConceptMasteryModel } from './concept-mastery.schema.js';
+export type { ConceptMasteryDocument } from './concept-mastery.schema.js';
+
+export { IndexedQuestionModel } from './indexed-question.schema.js';
+export type { IndexedQuestionDocument } from './indexed-question.schema.js';
+
+export { ModerationEventModel } from './moderation-event.schema.js';
+export type { ModerationEventDocument } from './moderation-event.schema.js';
+
+
+export { LLMUsageModel } from './llm-usage.schema.js';
+export type { LLMUsageDocument } from './llm-usage.schema.js';
+
+export { HintUsageModel } from './hint-usage.schema.js';
+export type { HintUsageDocument } from './hint-usage.schema.js';
@@ -0,0 +1,53 @@
+import { Schema, model, Document } from 'mongoose';
+import { IndexedQuestion } from '../../types/index.js';
+
+export interface IndexedQuestionDocument extends Omit<IndexedQuestion, 'id'>, Document {
+  _id: string;
+}
+
+const indexedQuestionSchema = new Schema<IndexedQuestionDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  sessionId: {
+    type: String,
+    required: true
+  },
+  question: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  answer: {
+    type: String,
+    required: true
+  },
+  answerMessageId: {
+    type: String,
+    required: true
+  },
+  terms: [{
+    type: String
+  }],
+  askedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Each student's index is loaded newest first
+indexedQuestionSchema.index({ userId: 1, askedAt: -1 });
+
+export const IndexedQuestionModel = model<IndexedQuestionDocument>('IndexedQuestion', indexedQuestionSchema);
@@ -0,0 +1,73 @@
+import { Schema, model, Document } from 'mongoose';
+import { LLMUsageRecord } from '../../types/index.js';
+
+export interface LLMUsageDocument extends Omit<LLMUsageRecord, 'id'>, Document {
+  _id: string;
+}
+
+const llmUsageSchema = new Schema<LLMUsageDocument>({
+  userId: {
+    type: String,
+    ref: 'User'
+  },
+  schoolId: {
+    type: String
+  },
+  sessionId: {
+    type: String
+  },
+  agent: {
+    type: String,
+    required: true
+  },
+  modelId: {
+    type: String,
+    required: true
+  },
+  prompt: {
+    id: { type: String },
+    version: { type: Number }
+  },
+  promptTokens: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  completionTokens: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  totalTokens: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  estimatedCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  day: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Budget checks sum a student's or a school's tokens for the day; reports group a range of days
+llmUsageSchema.index({ userId: 1, day: 1 });
+llmUsageSchema.index({ schoolId: 1, day: 1 });
+llmUsageSchema.index({ day: 1, modelId: 1, agent: 1 });
+
+export const LLMUsageModel = model<LLMUsageDocument>('LLMUsage', llmUsageSchema);
@@ -0,0 +1,89 @@
+import { Schema, model, Document } from 'mongoose';
+import { ModerationEvent } from '../../types/index.js';
+
+export interface ModerationEventDocument extends Omit<ModerationEvent, 'id'>, Document {
+  _id: string;
+}
+
+const moderationFindingSchema = new Schema({
+  category: {
+    type: String,
+    enum: ['self_harm', 'harassment', 'personal_data'],
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1
+  },
+  method: {
+    type: String,
+    enum: ['rule', 'classifier'],
+    required: true
+  }
+}, { _id: false });
+
+const moderationEventSchema = new Schema<ModerationEventDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  sessionId: {
+    type: String
+  },
+  messageId: {
+    type: String
+  },
+  direction: {
+    type: String,
+    enum: ['input', 'output'],
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['rewrite', 'block', 'escalate'],
+    required: true
+  },
+  findings: [moderationFindingSchema],
+  excerpt: {
+    type: String,
+    default: ''
+  },
+  policyVersion: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['open', 'reviewed', 'closed'],
+    required: true
+  },
+  reviewedBy: {
+    type: String,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    maxlength: 1000
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Teachers list their students' escalations by status, newest first
+moderationEventSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+export const ModerationEventModel = model<ModerationEventDocument>('ModerationEvent', moderationEventSchema);
@@ -0,0 +1,126 @@
+import { Schema, model, Document } from 'mongoose';
+import { BankQuestion, CodeExercise, CodeTestCase } from '../../types/index.js';
+
+export interface QuestionDocument extends Omit<BankQuestion, 'id'>, Document {
+  _id: string;
+}
+
+const codeTestCaseSchema = new Schema<CodeTestCase>({
+  description: { type: String, required: true, maxlength: 200 },
+  expression: { type: String, required: true, maxlength: 1000 },
+  expected: { type: String, required: true, maxlength: 2000 }
+}, { _id: false });
+
+// Hidden test cases that grade code_completion answers in the sandbox
+export const codeExerciseSchema = new Schema<CodeExercise>({
+  language: {
+    type: String,
+    enum: ['python', 'javascript'],
+    required: true
+  },
+  starterCode: {
+    type: String,
+    default: '',
+    maxlength: 5000
+  },
+  testCases: [codeTestCaseSchema]
+}, { _id: false });
+
+const questionSchema = new Schema<QuestionDocument>({
+  // Question ids are generated by the assessment agent, so they are stored as-is
+  _id: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['multiple_choice', 'true_false', 'short_answer', 'explanation', 'code_completion'],
+    required: true
+  },
+  question: {
+    type: String,
+    required: true,
+    maxlength: 2000
+  },
+  options: [{
+    type: String,
+    maxlength: 500
+  }],
+  correctAnswer: {
+    type: String,
+    required: true,
+    maxlength: 2000
+  },
+  explanation: {
+    type: String,
+    default: '',
+    maxlength: 2000
+  },
+  hints: [{
+    type: String,
+    maxlength: 500
+  }],
+  difficulty: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5
+  },
+  concept: {
+    type: String,
+    required: true
+  },
+  topic: {
+    type: String,
+    required: true
+  },
+  timeEstimate: {
+    type: Number,
+    min: 0,
+    default: 120
+  },
+  source: {
+    type: String,
+    enum: ['curated', 'generated'],
+    required: true
+  },
+  prompt: {
+    id: { type: String },
+    version: { type: Number }
+  },
+  code: codeExerciseSchema,
+  reviewStatus: {
+    type: String,
+    enum: ['approved', 'pending_review', 'rejected'],
+    default: 'pending_review'
+  },
+  timesAnswered: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  timesCorrect: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  reviewedBy: String,
+  reviewedAt: Date
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for bank lookups and the review queue
+questionSchema.index({ topic: 1, reviewStatus: 1, difficulty: 1 });
+questionSchema.index({ concept: 1, reviewStatus: 1 });
+questionSchema.index({ reviewStatus: 1, createdAt: -1 });
+
+export const QuestionModel = model<QuestionDocument>('Question', questionSchema);
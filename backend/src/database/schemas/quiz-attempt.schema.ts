@@ -0,0 +1,186 @@
+import { Schema, model, Document } from 'mongoose';
+import { QuizAttempt, QuizQuestion, QuizAnswer } from '../../types/index.js';
+import { codeExerciseSchema } from './question.schema.js';
+
+export interface QuizAttemptDocument extends Omit<QuizAttempt, 'id'>, Document {
+  _id: string;
+}
+
+const quizQuestionSchema = new Schema<QuizQuestion>({
+  id: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['multiple_choice', 'true_false', 'short_answer', 'explanation', 'code_completion'],
+    required: true
+  },
+  question: {
+    type: String,
+    required: true,
+    maxlength: 2000
+  },
+  options: [String],
+  correctAnswer: {
+    type: String,
+    required: true
+  },
+  explanation: {
+    type: String,
+    default: ''
+  },
+  hints: [String],
+  difficulty: {
+    type: Number,
+    min: 1,
+    max: 5
+  },
+  concept: String,
+  topic: String,
+  timeEstimate: {
+    type: Number,
+    default: 120
+  },
+  source: {
+    type: String,
+    enum: ['curated', 'generated']
+  },
+  code: codeExerciseSchema
+}, { _id: false });
+
+const quizAnswerSchema = new Schema<QuizAnswer>({
+  questionId: {
+    type: String,
+    required: true
+  },
+  answer: {
+    type: String,
+    maxlength: 2000,
+    default: ''
+  },
+  isCorrect: {
+    type: Boolean,
+    required: true
+  },
+  score: {
+    type: Number,
+    min: 0,
+    required: true
+  },
+  maxScore: {
+    type: Number,
+    min: 0,
+    required: true
+  },
+  feedback: {
+    type: String,
+    default: ''
+  },
+  hintsUsed: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  timeSpent: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  answeredAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const quizAttemptSchema = new Schema<QuizAttemptDocument>({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionId: String,
+  assessmentId: {
+    type: String,
+    required: true
+  },
+  topic: {
+    type: String,
+    required: true
+  },
+  difficulty: {
+    type: Number,
+    min: 1,
+    max: 5,
+    default: 1
+  },
+  questions: {
+    type: [quizQuestionSchema],
+    validate: [(questions: QuizQuestion[]) => questions.length > 0, 'A quiz needs at least one question']
+  },
+  answers: [quizAnswerSchema],
+  hintsRevealed: [Number],
+  currentQuestionIndex: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  timeLimit: {
+    type: Number,
+    min: 0,
+    required: true
+  },
+  passingScore: {
+    type: Number,
+    min: 0,
+    max: 100,
+    required: true
+  },
+  pointsPerQuestion: {
+    type: Number,
+    min: 0,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'completed', 'expired'],
+    default: 'in_progress'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  completedAt: Date,
+  score: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  maxScore: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  percentage: Number,
+  passed: Boolean
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for resuming and expiring attempts
+quizAttemptSchema.index({ userId: 1, status: 1, startedAt: -1 });
+quizAttemptSchema.index({ status: 1, expiresAt: 1 });
+
+export const QuizAttemptModel = model<QuizAttemptDocument>('QuizAttempt', quizAttemptSchema);
@@ -0,0 +1,75 @@
+import { Schema, model, Document } from 'mongoose';
+import { ReviewItem } from '../../types/index.js';
+
+export interface ReviewItemDocument extends Omit<ReviewItem, 'id'>, Document {
+  _id: string;
+}
+
+const reviewItemSchema = new Schema<ReviewItemDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  concept: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  topic: {
+    type: String,
+    required: true
+  },
+  easeFactor: {
+    type: Number,
+    min: 1.3,
+    default: 2.5
+  },
+  interval: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  repetitions: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  lapses: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  dueAt: {
+    type: Date,
+    required: true
+  },
+  lastReviewedAt: Date,
+  lastQuality: {
+    type: Number,
+    min: 0,
+    max: 5
+  },
+  source: {
+    type: String,
+    enum: ['struggling', 'assessment'],
+    required: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// One item per student and concept; due lookups are per student by date
+reviewItemSchema.index({ userId: 1, concept: 1 }, { unique: true });
+reviewItemSchema.index({ userId: 1, dueAt: 1 });
+
+export const ReviewItemModel = model<ReviewItemDocument>('ReviewItem', reviewItemSchema);
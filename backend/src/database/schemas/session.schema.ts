@@ -1,5 +1,6 @@
 import { Schema, model, Document } from 'mongoose';
 import { LearningSession, Message, MessageMetadata, AgentState, ProgressData } from '../../types/index.js';
+import { AGENT_TYPE_PATTERN } from '../../agents/agent-plugin.js';
 
 export interface SessionDocument extends Omit<LearningSession, 'id'>, Document {
   _id: string;
@@ -35,7 +36,7 @@ const messageSchema = new Schema<Message>({
   },
   sender: {
     type: String,
-    enum: ['student', 'tutor', 'assessment', 'content', 'coordinator'],
+    match: AGENT_TYPE_PATTERN, // 'student' or an agent type, including plug-ins
     required: true
   },
   content: {
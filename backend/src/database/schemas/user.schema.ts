@@ -55,11 +55,21 @@ const userSchema = new Schema<UserDocument>({
     trim: true,
     maxlength: 50
   },
+  role: {
+    type: String,
+    enum: ['student', 'teacher', 'admin'],
+    default: 'student'
+  },
   grade: {
     type: Number,
     required: true,
     enum: [9, 10]
   },
+  schoolId: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
   learningInterests: [{
     type: String,
     trim: true,
@@ -98,6 +108,8 @@ const userSchema = new Schema<UserDocument>({
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
 userSchema.index({ lastActive: -1 });
+userSchema.index({ role: 1 });
+userSchema.index({ schoolId: 1 });
 
 // Update lastActive on save
 userSchema.pre('save', function(next) {
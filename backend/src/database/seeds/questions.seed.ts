@@ -0,0 +1,281 @@
+import { CreateQuestionData } from '../repositories/question.repository.js';
+
+/**
+ * Curated, teacher-vetted questions for each curriculum topic.
+ * Ids are stable so seeding is idempotent across restarts.
+ */
+export const CURATED_QUESTIONS: CreateQuestionData[] = [
+  // Introduction to Machine Learning
+  {
+    id: 'curated-intro-to-ml-1',
+    type: 'multiple_choice',
+    question: 'Which of these is the best description of machine learning?',
+    options: [
+      'Writing every rule for the computer by hand',
+      'Letting a computer find patterns in data to make predictions',
+      'Building robots that look like humans',
+      'Storing large amounts of data in the cloud'
+    ],
+    correctAnswer: 'Letting a computer find patterns in data to make predictions',
+    explanation: 'Machine learning systems learn patterns from examples instead of following hand-written rules for every case.',
+    hints: [
+      'Think about where the "rules" come from in machine learning',
+      'What does the computer learn from?'
+    ],
+    difficulty: 1,
+    concept: 'predictions',
+    topic: 'intro-to-ml',
+    timeEstimate: 60,
+    source: 'curated'
+  },
+  {
+    id: 'curated-intro-to-ml-2',
+    type: 'true_false',
+    question: 'True or false: a music app recommending songs based on what you have listened to before is an example of machine learning.',
+    options: ['True', 'False'],
+    correctAnswer: 'True',
+    explanation: 'Recommendation systems learn your preferences from your listening history, which is a classic machine learning application.',
+    hints: [
+      'Does the app learn from your past behavior?',
+      'Would a programmer write a separate rule for every listener?'
+    ],
+    difficulty: 1,
+    concept: 'data',
+    topic: 'intro-to-ml',
+    timeEstimate: 45,
+    source: 'curated'
+  },
+  {
+    id: 'curated-intro-to-ml-3',
+    type: 'short_answer',
+    question: 'In one sentence, explain how traditional programming differs from machine learning.',
+    correctAnswer: 'In traditional programming people write the rules, while in machine learning the computer learns the rules from data.',
+    explanation: 'Traditional programs turn rules plus data into answers; machine learning turns data plus answers into rules.',
+    hints: [
+      'Who writes the rules in each approach?',
+      'What does machine learning need instead of hand-written rules?'
+    ],
+    difficulty: 2,
+    concept: 'algorithms',
+    topic: 'intro-to-ml',
+    timeEstimate: 120,
+    source: 'curated'
+  },
+
+  // Supervised Learning
+  {
+    id: 'curated-supervised-learning-1',
+    type: 'multiple_choice',
+    question: 'A model is trained on emails that are already marked "spam" or "not spam". What kind of learning is this?',
+    options: [
+      'Supervised learning',
+      'Unsupervised learning',
+      'Reinforcement learning',
+      'Traditional programming'
+    ],
+    correctAnswer: 'Supervised learning',
+    explanation: 'The training emails come with labels, and learning from labeled examples is supervised learning.',
+    hints: [
+      'Are the training examples labeled?',
+      'Think about a teacher giving you the answers while you practice'
+    ],
+    difficulty: 1,
+    concept: 'labeled data',
+    topic: 'supervised-learning',
+    timeEstimate: 60,
+    source: 'curated'
+  },
+  {
+    id: 'curated-supervised-learning-2',
+    type: 'multiple_choice',
+    question: 'Predicting tomorrow\'s temperature in degrees is an example of which task?',
+    options: ['Classification', 'Regression', 'Clustering', 'Dimensionality reduction'],
+    correctAnswer: 'Regression',
+    explanation: 'Regression predicts a number on a continuous scale, like a temperature, while classification predicts a category.',
+    hints: [
+      'Is the answer a category or a number?',
+      'Could the prediction be 21.5?'
+    ],
+    difficulty: 2,
+    concept: 'regression',
+    topic: 'supervised-learning',
+    timeEstimate: 60,
+    source: 'curated'
+  },
+  {
+    id: 'curated-supervised-learning-3',
+    type: 'explanation',
+    question: 'Why do we keep some labeled data aside as a test set instead of training on all of it?',
+    correctAnswer: 'To check how well the model works on new data it has not seen during training.',
+    explanation: 'A separate test set shows whether the model generalizes to new examples or has just memorized the training data.',
+    hints: [
+      'What happens if you study with the exact questions that will be on the exam?',
+      'We want to know how the model does on data it has never seen'
+    ],
+    difficulty: 3,
+    concept: 'training',
+    topic: 'supervised-learning',
+    timeEstimate: 150,
+    source: 'curated'
+  },
+  {
+    id: 'curated-supervised-learning-4',
+    type: 'code_completion',
+    question: 'Finish the nearest-neighbor classifier: predict(point, examples) should return the label of the example closest to point. Each example is a pair ([x, y], label).',
+    correctAnswer: [
+      'def distance(a, b):',
+      '    return ((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2) ** 0.5',
+      '',
+      'def predict(point, examples):',
+      '    closest = min(examples, key=lambda example: distance(point, example[0]))',
+      '    return closest[1]'
+    ].join('\n'),
+    explanation: 'A nearest-neighbor classifier measures the distance from the new point to every labeled example and copies the label of the closest one.',
+    hints: [
+      'You need the distance from point to every example, then the smallest one',
+      'min(examples, key=...) can pick the example with the smallest distance; return its label'
+    ],
+    difficulty: 3,
+    concept: 'classification',
+    topic: 'supervised-learning',
+    timeEstimate: 300,
+    source: 'curated',
+    code: {
+      language: 'python',
+      starterCode: [
+        'def distance(a, b):',
+        '    return ((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2) ** 0.5',
+        '',
+        'def predict(point, examples):',
+        '    # Return the label of the example closest to point',
+        '    pass'
+      ].join('\n'),
+      testCases: [
+        {
+          description: 'Picks the label of the only example',
+          expression: "predict([1, 1], [([0, 0], 'cat')])",
+          expected: '"cat"'
+        },
+        {
+          description: 'Picks the closer of two examples',
+          expression: "predict([4, 5], [([0, 0], 'cat'), ([5, 5], 'dog')])",
+          expected: '"dog"'
+        },
+        {
+          description: 'Works with negative coordinates',
+          expression: "predict([-3, -2], [([2, 2], 'apple'), ([-3, -3], 'pear'), ([0, 0], 'plum')])",
+          expected: '"pear"'
+        }
+      ]
+    }
+  },
+
+  // Unsupervised Learning
+  {
+    id: 'curated-unsupervised-learning-1',
+    type: 'multiple_choice',
+    question: 'A store groups customers by shopping habits without knowing any groups in advance. Which technique is this?',
+    options: ['Classification', 'Regression', 'Clustering', 'Labeling'],
+    correctAnswer: 'Clustering',
+    explanation: 'Clustering finds natural groups in unlabeled data, such as customers with similar shopping habits.',
+    hints: [
+      'Are there any labels in this data?',
+      'The goal is to find groups'
+    ],
+    difficulty: 1,
+    concept: 'clustering',
+    topic: 'unsupervised-learning',
+    timeEstimate: 60,
+    source: 'curated'
+  },
+  {
+    id: 'curated-unsupervised-learning-2',
+    type: 'true_false',
+    question: 'True or false: unsupervised learning needs every training example to have a correct answer attached.',
+    options: ['True', 'False'],
+    correctAnswer: 'False',
+    explanation: 'Unsupervised learning works with unlabeled data and looks for structure or patterns on its own.',
+    hints: [
+      'What does "unsupervised" suggest about labels?',
+      'Compare it with supervised learning'
+    ],
+    difficulty: 1,
+    concept: 'unlabeled data',
+    topic: 'unsupervised-learning',
+    timeEstimate: 45,
+    source: 'curated'
+  },
+  {
+    id: 'curated-unsupervised-learning-3',
+    type: 'short_answer',
+    question: 'Give one reason to reduce the number of features (dimensions) in a dataset.',
+    correctAnswer: 'To make the data easier to visualize or faster to process by keeping only the most useful information.',
+    explanation: 'Dimensionality reduction keeps the most important patterns while making data simpler to visualize, store and learn from.',
+    hints: [
+      'How easy is it to draw data with 100 columns?',
+      'Do all features carry useful information?'
+    ],
+    difficulty: 3,
+    concept: 'dimensionality reduction',
+    topic: 'unsupervised-learning',
+    timeEstimate: 120,
+    source: 'curated'
+  },
+
+  // Neural Networks
+  {
+    id: 'curated-neural-networks-1',
+    type: 'multiple_choice',
+    question: 'In a neural network, what does a weight control?',
+    options: [
+      'How strongly one neuron\'s output affects the next neuron',
+      'How many layers the network has',
+      'How much memory the computer uses',
+      'The order in which data is loaded'
+    ],
+    correctAnswer: 'How strongly one neuron\'s output affects the next neuron',
+    explanation: 'Weights scale the signals passed between neurons, and training adjusts them so the network makes better predictions.',
+    hints: [
+      'Weights sit on the connections between neurons',
+      'Think of a volume knob on each connection'
+    ],
+    difficulty: 2,
+    concept: 'weights',
+    topic: 'neural-networks',
+    timeEstimate: 60,
+    source: 'curated'
+  },
+  {
+    id: 'curated-neural-networks-2',
+    type: 'true_false',
+    question: 'True or false: "deep learning" refers to neural networks with many hidden layers.',
+    options: ['True', 'False'],
+    correctAnswer: 'True',
+    explanation: 'The "deep" in deep learning refers to stacking many layers, which lets the network learn increasingly complex features.',
+    hints: [
+      'What could "deep" be measuring in a network?',
+      'Think about stacking layers'
+    ],
+    difficulty: 2,
+    concept: 'deep learning',
+    topic: 'neural-networks',
+    timeEstimate: 45,
+    source: 'curated'
+  },
+  {
+    id: 'curated-neural-networks-3',
+    type: 'explanation',
+    question: 'Describe what happens to a neural network\'s weights during training.',
+    correctAnswer: 'The weights are adjusted step by step to reduce the difference between the network\'s predictions and the correct answers.',
+    explanation: 'Training compares predictions with correct answers and nudges each weight to make the error smaller, repeating over many examples.',
+    hints: [
+      'How does the network know it made a mistake?',
+      'What would you change to make the next prediction better?'
+    ],
+    difficulty: 4,
+    concept: 'neurons',
+    topic: 'neural-networks',
+    timeEstimate: 180,
+    source: 'curated'
+  }
+];
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/auth.service.js';
 import { AuthenticatedRequest, JWTPayload } from '../types/auth.types.js';
+import { UserRole } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -35,8 +36,9 @@ export const authenticateToken = async (
       return;
     }
 
-    // Attach user info to request
-    req.user = payload;
+    // Attach user info to request; the stored role wins over the token's claim
+    // so promotions apply immediately and tokens issued before roles still work
+    req.user = { ...payload, role: user.role || 'student' };
     next();
   } catch (error) {
     logger.error('Authentication middleware error:', error);
@@ -83,7 +85,7 @@ export const optionalAuth = async (
       const user = await authService.getUserById(payload.userId);
       
       if (user) {
-        req.user = payload;
+        req.user = { ...payload, role: user.role || 'student' };
       }
     }
     
@@ -116,6 +118,31 @@ export const requireGrade = (grades: (9 | 10)[]) => {
       return;
     }
 
+    next();
+  };
+};
+
+/**
+ * Middleware to check if user has one of the required roles
+ */
+export const requireRole = (roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED'
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({ 
+        error: `Access restricted to roles: ${roles.join(', ')}`,
+        code: 'ROLE_RESTRICTED'
+      });
+      return;
+    }
+
     next();
   };
 };
\ No newline at end of file
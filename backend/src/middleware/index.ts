@@ -1,7 +1,8 @@
 export { 
   authenticateToken, 
   optionalAuth, 
-  requireGrade 
+  requireGrade,
+  requireRole
 } from './auth.middleware.js';
 
 export {
@@ -13,6 +14,7 @@ export {
   createRateLimit,
   chatRateLimit,
   authRateLimit,
+  codeRunRateLimit,
   apiRateLimit,
   requestLogger,
   asyncHandler,
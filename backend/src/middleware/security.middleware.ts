@@ -57,6 +57,15 @@ export const authRateLimit = createRateLimit({
   message: 'Too many authentication attempts. Please try again later.'
 });
 
+/**
+ * Rate limiter for running code in the sandbox
+ */
+export const codeRunRateLimit = createRateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 10, // 10 runs per minute
+  message: 'Too many code runs. Please wait a moment before running again.'
+});
+
 /**
  * General API rate limiter
  */
@@ -7,6 +7,8 @@ import {
   ProgressTrackingDocument,
   LearningVelocityDocument
 } from '../database/schemas/analytics.schema.js';
+import { curriculumService } from './curriculum.service.js';
+import { reviewSchedulerService } from './review-scheduler.service.js';
 import { logger } from '../utils/logger.js';
 
 interface SessionStartData {
@@ -35,6 +37,7 @@ interface ProgressUpdateData {
 }
 
 interface LearningAnalytics {
+  curriculumVersion: string;
   overallProgress: number;
   topicsCompleted: number;
   totalTimeSpent: number;
@@ -139,6 +142,11 @@ class AnalyticsService {
 
       await progressEntry.save();
 
+      // Bring struggling concepts back later through the review queue
+      if (data.metadata?.strugglingConcepts?.length) {
+        await reviewSchedulerService.addStrugglingConcepts(data.userId, data.topicId, data.metadata.strugglingConcepts);
+      }
+
       // Check for achievements
       await this.checkAchievements(data.userId, data);
 
@@ -378,11 +386,18 @@ class AnalyticsService {
     const totalTimeSpent = sessions.reduce((sum, session) => sum + (session.duration || 0), 0);
     const averageSessionDuration = sessions.length > 0 ? totalTimeSpent / sessions.length : 0;
     
-    const completedTopics = progressData.filter(p => p.action === 'completed').length;
-    const allTopics = [...new Set(progressData.map(p => p.topicId))];
-    const overallProgress = allTopics.length > 0 ? (completedTopics / allTopics.length) * 100 : 0;
-
-    const recentTopics = [...new Set(progressData.slice(0, 10).map(p => p.topicName))];
+    // Progress is measured against the whole curriculum, not just the topics touched so far
+    const curriculumTopics = curriculumService.getTopics();
+    const completedTopicIds = new Set(
+      progressData.filter(p => p.action === 'completed').map(p => p.topicId)
+    );
+    const completedTopics = completedTopicIds.size;
+    const completedInCurriculum = curriculumTopics.filter(topic => completedTopicIds.has(topic.id)).length;
+    const overallProgress = curriculumTopics.length > 0 ? (completedInCurriculum / curriculumTopics.length) * 100 : 0;
+
+    const recentTopics = [...new Set(progressData.slice(0, 10).map(p =>
+      curriculumService.getTopic(p.topicId)?.name || p.topicName
+    ))];
     
     const strugglingConcepts = progressData
       .filter(p => p.action === 'struggled')
@@ -413,6 +428,7 @@ class AnalyticsService {
     }));
 
     return {
+      curriculumVersion: curriculumService.getVersion(),
       overallProgress: Math.round(overallProgress),
       topicsCompleted: completedTopics,
       totalTimeSpent,
@@ -464,6 +480,7 @@ class AnalyticsService {
    */
   private getDefaultAnalytics(): LearningAnalytics {
     return {
+      curriculumVersion: curriculumService.getVersion(),
       overallProgress: 0,
       topicsCompleted: 0,
       totalTimeSpent: 0,
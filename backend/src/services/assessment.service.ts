@@ -0,0 +1,390 @@
+import { getAgentSystem } from './init.service.js';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import {
+  AssessmentAgent,
+  AssessmentContext,
+  HINT_LEVELS,
+  Question,
+  EvaluationResult,
+  DifficultyAdjustment
+} from '../agents/assessment.agent.js';
+import { AssessmentResult, QuestionResult, BankQuestion, CodeExercise } from '../types/index.js';
+import { reviewSchedulerService } from './review-scheduler.service.js';
+import { masteryService } from './mastery.service.js';
+import { hintService } from './hint.service.js';
+import { logger } from '../utils/logger.js';
+
+export type AssessmentErrorCode = 'already_answered' | 'in_quiz';
+
+export class AssessmentError extends Error {
+  constructor(message: string, public readonly code: AssessmentErrorCode) {
+    super(message);
+    this.name = 'AssessmentError';
+  }
+}
+
+export interface AnswerSubmission {
+  userId: string;
+  questionId: string;
+  answer: string;
+  hintsUsed?: number;
+  timeSpent?: number;
+  studentLevel?: 'beginner' | 'intermediate' | 'advanced';
+  sessionId?: string;
+}
+
+/**
+ * Question as shown to a student, without the answer key
+ */
+export interface PublicQuestion {
+  id: string;
+  type: Question['type'];
+  question: string;
+  options?: string[];
+  difficulty: number;
+  concept: string;
+  topic?: string;
+  timeEstimate: number;
+  hintCount: number;
+  code?: Pick<CodeExercise, 'language' | 'starterCode'>; // the tests stay on the server
+}
+
+export interface SubmissionResult {
+  evaluation: EvaluationResult;
+  assessmentResult: AssessmentResult;
+  correctAnswer: string;
+  nextQuestion: PublicQuestion | null;
+  difficultyAdjustment?: DifficultyAdjustment;
+}
+
+export interface ReviewQuestionSet {
+  dueCount: number;
+  questions: PublicQuestion[];
+}
+
+export class AssessmentService {
+  // Submissions being graded, by user and question, so a double submit can't slip past the answered check
+  private grading: Set<string> = new Set();
+
+  /**
+   * Grade a single answer, record it in the student's progress and pick the next question.
+   * Returns null when the question does not exist. A question is graded once per student,
+   * since the result reveals the correct answer, and questions of a quiz in progress are only
+   * graded by the quiz.
+   */
+  async submitAnswer(submission: AnswerSubmission): Promise<SubmissionResult | null> {
+    const agent = this.getAssessmentAgent();
+
+    const question = await agent.getQuestion(submission.questionId);
+    if (!question) {
+      return null;
+    }
+
+    const key = `${submission.userId}:${question.id}`;
+    if (this.grading.has(key)) {
+      throw new AssessmentError('This question has already been answered', 'already_answered');
+    }
+
+    this.grading.add(key);
+    try {
+      const activeQuiz = await RepositoryFactory.getQuizAttemptRepository().findActiveAttempt(submission.userId);
+      if (activeQuiz?.questions.some(quizQuestion => quizQuestion.id === question.id)) {
+        throw new AssessmentError('This question is part of your quiz in progress; answer it in the quiz', 'in_quiz');
+      }
+
+      const answeredIds = await this.getAnsweredQuestionIds(submission.userId);
+      if (answeredIds.includes(question.id)) {
+        throw new AssessmentError('This question has already been answered', 'already_answered');
+      }
+      return await this.gradeSubmission(agent, question, submission, answeredIds);
+    } finally {
+      this.grading.delete(key);
+    }
+  }
+
+  private async gradeSubmission(
+    agent: AssessmentAgent,
+    question: Question,
+    submission: AnswerSubmission,
+    answeredIds: string[]
+  ): Promise<SubmissionResult> {
+    const context = await this.buildContext(submission.userId, question, submission.studentLevel);
+
+    // Hints revealed through the hint ladder count even when the client reports fewer
+    const hintsUsed = Math.max(
+      submission.hintsUsed || 0,
+      await hintService.getHintsUsed(submission.userId, question.id)
+    );
+
+    const evaluation = await agent.evaluateStudentResponse(
+      question.id,
+      submission.answer,
+      context,
+      { hintsUsed, timeSpent: submission.timeSpent }
+    );
+
+    const assessmentResult = this.createAssessmentResult(
+      context.currentTopic,
+      question.difficulty,
+      [this.createQuestionResult(question, evaluation)],
+      evaluation.score,
+      evaluation.maxScore
+    );
+
+    await this.recordAssessmentResult(submission.userId, assessmentResult);
+    await this.recordReviewOutcome(submission.userId, question, evaluation);
+    await this.recordMasteryEvidence(submission.userId, question, evaluation, submission.sessionId);
+    await this.recordHintUsage(submission.userId, question, evaluation, submission.sessionId);
+
+    // A failure to pick the next question should not lose the graded answer
+    let nextQuestion: PublicQuestion | null = null;
+    let difficultyAdjustment: DifficultyAdjustment | undefined;
+    try {
+      // Never offer a question the student can no longer submit
+      const next = await agent.generateNextQuestion({ ...context, recentQuestionIds: answeredIds }, evaluation, question.difficulty);
+      nextQuestion = this.toPublicQuestion(next.question);
+      difficultyAdjustment = next.difficultyAdjustment;
+    } catch (error) {
+      logger.warn('Failed to generate next adaptive question:', error);
+    }
+
+    return {
+      evaluation,
+      assessmentResult,
+      correctAnswer: question.correctAnswer,
+      nextQuestion,
+      difficultyAdjustment
+    };
+  }
+
+  /**
+   * Build the assessment context from the student's stored progress
+   */
+  async buildContext(
+    userId: string,
+    question: Pick<Question, 'topic' | 'concept'>,
+    studentLevel: 'beginner' | 'intermediate' | 'advanced' = 'beginner'
+  ): Promise<AssessmentContext> {
+    const topicId = question.topic || question.concept;
+    const progress = await RepositoryFactory.getProgressRepository().findByUserId(userId);
+
+    const topicProgress = progress?.topicsCompleted.find(t => t.topicId === topicId);
+    const topicAssessments = (progress?.assessmentScores || [])
+      .filter(a => a.topicId === topicId)
+      .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime());
+
+    return {
+      userId,
+      currentTopic: topicId,
+      studentLevel: topicProgress?.masteryLevel || studentLevel,
+      recentConcepts: topicProgress?.conceptsLearned.slice(-5) || [question.concept],
+      previousScores: topicAssessments
+        .slice(-5)
+        .map(a => (a.maxScore > 0 ? Math.round((a.score / a.maxScore) * 100) : 0)),
+      strugglingAreas: topicProgress?.strugglingConcepts || [],
+      timeSpentOnTopic: topicProgress?.timeSpent || 0,
+      recentQuestionIds: topicAssessments
+        .slice(-10)
+        .flatMap(a => a.questionResults.map(r => r.questionId))
+    };
+  }
+
+  /**
+   * Every question the student has an assessment result for, or has answered or seen the key of in a quiz
+   */
+  async getAnsweredQuestionIds(userId: string): Promise<string[]> {
+    const [progress, attempts] = await Promise.all([
+      RepositoryFactory.getProgressRepository().findByUserId(userId),
+      RepositoryFactory.getQuizAttemptRepository().findAttemptsByUser(userId)
+    ]);
+
+    const graded = (progress?.assessmentScores || []).flatMap(a => a.questionResults.map(r => r.questionId));
+    // A finished quiz shows its answer keys, so every one of its questions counts as answered
+    const quizzed = attempts.flatMap(attempt => attempt.status === 'in_progress'
+      ? attempt.answers.map(answer => answer.questionId)
+      : attempt.questions.map(question => question.id));
+
+    return [...new Set([...graded, ...quizzed])];
+  }
+
+  /**
+   * Persist an assessment result, creating the progress record on first use
+   */
+  async recordAssessmentResult(userId: string, result: AssessmentResult): Promise<void> {
+    const progressRepository = RepositoryFactory.getProgressRepository();
+
+    const existing = await progressRepository.findByUserId(userId);
+    if (!existing) {
+      await progressRepository.createProgress({ userId, initialTopic: result.topicId });
+    }
+
+    await progressRepository.addAssessmentResult(userId, result);
+    logger.info(`Recorded assessment ${result.id} for user ${userId}`, {
+      topicId: result.topicId,
+      score: result.score,
+      maxScore: result.maxScore
+    });
+  }
+
+  /**
+   * Reschedule the question's concept in the student's review queue.
+   * Scheduling failures are logged so they never lose a graded answer.
+   */
+  async recordReviewOutcome(userId: string, question: Question, evaluation: EvaluationResult): Promise<void> {
+    try {
+      await reviewSchedulerService.recordOutcome(userId, {
+        concept: question.concept,
+        topic: question.topic || question.concept,
+        isCorrect: evaluation.isCorrect,
+        score: evaluation.score,
+        maxScore: evaluation.maxScore,
+        hintsUsed: evaluation.hintsUsed
+      });
+    } catch (error) {
+      logger.warn(`Failed to schedule review for concept ${question.concept}:`, error);
+    }
+  }
+
+  /**
+   * Update the student's mastery of the question's concept from the graded answer.
+   * Like review scheduling, failures are logged rather than losing the answer.
+   */
+  async recordMasteryEvidence(
+    userId: string,
+    question: Question,
+    evaluation: EvaluationResult,
+    sessionId?: string
+  ): Promise<void> {
+    try {
+      await masteryService.recordAssessment(userId, {
+        concept: question.concept,
+        topic: question.topic || question.concept,
+        isCorrect: evaluation.isCorrect,
+        hintsUsed: evaluation.hintsUsed,
+        timeSpent: evaluation.timeSpent,
+        difficulty: question.difficulty,
+        sessionId
+      });
+    } catch (error) {
+      logger.warn(`Failed to update mastery for concept ${question.concept}:`, error);
+    }
+  }
+
+  /**
+   * Record how many hints the answer needed, for the student's hint dependence report
+   */
+  async recordHintUsage(
+    userId: string,
+    question: Question,
+    evaluation: EvaluationResult,
+    sessionId?: string
+  ): Promise<void> {
+    await hintService.recordAnswer(userId, question, evaluation.hintsUsed, evaluation.isCorrect, sessionId);
+  }
+
+  /**
+   * Short review questions for the concepts that are due, asked at the start of a session
+   */
+  async createReviewQuestions(
+    userId: string,
+    studentLevel: 'beginner' | 'intermediate' | 'advanced' = 'beginner',
+    limit = 3
+  ): Promise<ReviewQuestionSet> {
+    const due = await reviewSchedulerService.getDueReviews(userId, limit);
+    if (due.items.length === 0) {
+      return { dueCount: 0, questions: [] };
+    }
+
+    const questions = await this.getAssessmentAgent().generateReviewQuestions(
+      due.items.map(item => ({ concept: item.concept, topic: item.topic })),
+      studentLevel,
+      await this.getAnsweredQuestionIds(userId),
+      userId
+    );
+
+    logger.info(`Prepared ${questions.length} review questions for user ${userId}`, { dueCount: due.dueCount });
+    return {
+      dueCount: due.dueCount,
+      questions: questions.map(question => this.toPublicQuestion(question))
+    };
+  }
+
+  createQuestionResult(question: Question, evaluation: EvaluationResult): QuestionResult {
+    return {
+      questionId: question.id,
+      question: question.question,
+      studentAnswer: evaluation.studentAnswer,
+      correctAnswer: question.correctAnswer,
+      isCorrect: evaluation.isCorrect,
+      timeSpent: evaluation.timeSpent,
+      hints: question.hints.slice(0, evaluation.hintsUsed)
+    };
+  }
+
+  createAssessmentResult(
+    topicId: string,
+    difficulty: number,
+    questionResults: QuestionResult[],
+    score: number,
+    maxScore: number
+  ): AssessmentResult {
+    return {
+      id: `assessment-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      topicId,
+      score,
+      maxScore,
+      completedAt: new Date(),
+      timeSpent: questionResults.reduce((sum, r) => sum + r.timeSpent, 0),
+      questionResults,
+      difficulty
+    };
+  }
+
+  toPublicQuestion(question: Question): PublicQuestion {
+    return {
+      id: question.id,
+      type: question.type,
+      question: question.question,
+      options: question.options,
+      difficulty: question.difficulty,
+      concept: question.concept,
+      topic: question.topic,
+      timeEstimate: question.timeEstimate,
+      hintCount: HINT_LEVELS.length,
+      code: question.code ? { language: question.code.language, starterCode: question.code.starterCode } : undefined
+    };
+  }
+
+  /**
+   * Generated questions waiting for a teacher to approve them into the bank
+   */
+  async getPendingQuestions(limit?: number): Promise<BankQuestion[]> {
+    return RepositoryFactory.getQuestionRepository().findPendingReview(limit);
+  }
+
+  /**
+   * Approve or reject a pending question; approved ones become eligible for quizzes
+   */
+  async reviewQuestion(
+    questionId: string,
+    decision: 'approved' | 'rejected',
+    reviewerId: string
+  ): Promise<BankQuestion | null> {
+    const question = await RepositoryFactory.getQuestionRepository().updateReviewStatus(questionId, decision, reviewerId);
+    if (question) {
+      logger.info(`Question ${questionId} ${decision} by ${reviewerId}`);
+    }
+    return question;
+  }
+
+  getAssessmentAgent(): AssessmentAgent {
+    const agent = getAgentSystem().getAgentsByType('assessment')[0];
+    if (!agent) {
+      throw new Error('Assessment agent not available');
+    }
+    return agent as AssessmentAgent;
+  }
+}
+
+// Export singleton instance
+export const assessmentService = new AssessmentService();
@@ -16,6 +16,7 @@ export class AuthService {
   private readonly JWT_EXPIRES_IN: string | number;
   private readonly JWT_REFRESH_EXPIRES_IN: string | number;
   private readonly SALT_ROUNDS: number;
+  private readonly TEACHER_SIGNUP_CODE?: string;
 
   constructor() {
     this.JWT_SECRET = process.env.JWT_SECRET || 'ml-e-super-secret-jwt-key-for-development-only-change-in-production-2024';
@@ -27,6 +28,8 @@ export class AuthService {
     this.JWT_EXPIRES_IN = /^\d+$/.test(jwtExpiresIn) ? parseInt(jwtExpiresIn) : jwtExpiresIn;
     this.JWT_REFRESH_EXPIRES_IN = /^\d+$/.test(jwtRefreshExpiresIn) ? parseInt(jwtRefreshExpiresIn) : jwtRefreshExpiresIn;
     this.SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12');
+    // Teacher self-registration is disabled unless a signup code is configured
+    this.TEACHER_SIGNUP_CODE = process.env.TEACHER_SIGNUP_CODE || undefined;
 
     if (process.env.NODE_ENV === 'production' && 
         (this.JWT_SECRET === 'ml-e-super-secret-jwt-key-for-development-only-change-in-production-2024' || this.JWT_REFRESH_SECRET === 'ml-e-super-secret-refresh-key-for-development-only-change-in-production-2024')) {
@@ -39,6 +42,11 @@ export class AuthService {
    */
   async register(userData: RegisterRequest): Promise<AuthResponse> {
     try {
+      const role = userData.role || 'student';
+      if (role === 'teacher' && (!this.TEACHER_SIGNUP_CODE || userData.teacherCode !== this.TEACHER_SIGNUP_CODE)) {
+        throw new Error('Invalid teacher signup code');
+      }
+
       // Check if user already exists
       const existingUser = await UserModel.findOne({
         $or: [
@@ -64,6 +72,7 @@ export class AuthService {
         username: userData.username,
         email: userData.email.toLowerCase(),
         passwordHash,
+        role,
         grade: userData.grade,
         preferences: {
           learningPace: 'medium',
@@ -84,6 +93,7 @@ export class AuthService {
           id: user._id.toString(),
           username: user.username,
           email: user.email,
+          role: user.role || 'student',
           grade: user.grade
         },
         token,
@@ -135,6 +145,7 @@ export class AuthService {
           id: user._id.toString(),
           username: user.username,
           email: user.email,
+          role: user.role || 'student',
           grade: user.grade
         },
         token,
@@ -215,6 +226,7 @@ export class AuthService {
       userId: user._id.toString(),
       email: user.email,
       username: user.username,
+      role: user.role || 'student',
       grade: user.grade
     };
 
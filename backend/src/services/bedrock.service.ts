@@ -1,7 +1,11 @@
 import {
     BedrockRuntimeClient,
-    InvokeModelCommand
+    InvokeModelCommand,
+    InvokeModelWithResponseStreamCommand
 } from '@aws-sdk/client-bedrock-runtime';
+import { promptRegistry, RenderedPrompt } from './prompt-registry.service.js';
+import { usageService } from './usage.service.js';
+import { LLMAttribution, PromptReference } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 interface BedrockResponse {
@@ -17,9 +21,43 @@ interface BedrockResponse {
         topic?: string;
         complexity: 'simple' | 'medium' | 'complex';
         grade_level: number;
+        prompt: PromptReference;
     };
 }
 
+export interface BedrockMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface BedrockMessagesRequest {
+    modelId: string;
+    system?: string;
+    messages: BedrockMessage[];
+    maxTokens: number;
+    temperature: number;
+}
+
+export interface BedrockMessagesResponse {
+    content: string;
+    tokensUsed: {
+        input: number;
+        output: number;
+    };
+    stopReason: string;
+}
+
+export interface BedrockStreamEvent {
+    delta: string;
+    done: boolean;
+    model: string;
+    tokensUsed?: {
+        input: number;
+        output: number;
+    };
+    stopReason?: string;
+}
+
 export class BedrockService {
     private client: BedrockRuntimeClient;
     private models: {
@@ -44,11 +82,12 @@ export class BedrockService {
     }
 
     /**
-     * Generate ML tutoring response using Bedrock
+     * Generate ML tutoring response using Bedrock, recording its token usage against the caller
      */
     async generateMLResponse(
         question: string,
-        userGrade: number = 10
+        userGrade: number = 10,
+        attribution: LLMAttribution = { agent: 'bedrock' }
     ): Promise<BedrockResponse> {
         const startTime = Date.now();
 
@@ -61,7 +100,7 @@ export class BedrockService {
             const prompt = this.buildPrompt(question, userGrade);
 
             // Invoke Bedrock
-            const response = await this.invokeModel(modelId, prompt);
+            const response = await this.invokeModel(modelId, prompt.text);
 
             const responseTime = Date.now() - startTime;
 
@@ -69,7 +108,17 @@ export class BedrockService {
                 model: modelId,
                 complexity,
                 responseTime,
-                tokensUsed: response.tokensUsed
+                tokensUsed: response.tokensUsed,
+                prompt: prompt.prompt
+            });
+
+            await usageService.recordUsage({
+                attribution,
+                model: modelId,
+                prompt: prompt.prompt,
+                promptTokens: response.tokensUsed.input,
+                completionTokens: response.tokensUsed.output,
+                totalTokens: response.tokensUsed.input + response.tokensUsed.output
             });
 
             return {
@@ -81,7 +130,8 @@ export class BedrockService {
                 metadata: {
                     topic: this.extractTopic(question),
                     complexity,
-                    grade_level: userGrade
+                    grade_level: userGrade,
+                    prompt: prompt.prompt
                 }
             };
 
@@ -92,6 +142,74 @@ export class BedrockService {
         }
     }
 
+    /**
+     * Send a system prompt and role-separated messages to the Anthropic messages API
+     */
+    async invokeMessages(request: BedrockMessagesRequest): Promise<BedrockMessagesResponse> {
+        const command = new InvokeModelCommand({
+            modelId: request.modelId,
+            contentType: 'application/json',
+            accept: 'application/json',
+            body: JSON.stringify(this.buildMessagesBody(request))
+        });
+
+        const response = await this.client.send(command);
+        const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+        return {
+            content: responseBody.content
+                .filter((block: { type: string }) => block.type === 'text')
+                .map((block: { text: string }) => block.text)
+                .join(''),
+            tokensUsed: {
+                input: responseBody.usage?.input_tokens || 0,
+                output: responseBody.usage?.output_tokens || 0
+            },
+            stopReason: responseBody.stop_reason || 'stop'
+        };
+    }
+
+    /**
+     * Stream a messages API completion from Bedrock as it is generated
+     */
+    async *streamMessages(request: BedrockMessagesRequest): AsyncGenerator<BedrockStreamEvent> {
+        const command = new InvokeModelWithResponseStreamCommand({
+            modelId: request.modelId,
+            contentType: 'application/json',
+            accept: 'application/json',
+            body: JSON.stringify(this.buildMessagesBody(request))
+        });
+
+        const response = await this.client.send(command);
+        const tokensUsed = { input: 0, output: 0 };
+        let stopReason = 'stop';
+
+        for await (const event of response.body ?? []) {
+            if (!event.chunk?.bytes) {
+                continue;
+            }
+
+            const chunk = JSON.parse(new TextDecoder().decode(event.chunk.bytes));
+
+            switch (chunk.type) {
+                case 'message_start':
+                    tokensUsed.input = chunk.message?.usage?.input_tokens || 0;
+                    break;
+                case 'content_block_delta':
+                    if (chunk.delta?.text) {
+                        yield { delta: chunk.delta.text, done: false, model: request.modelId };
+                    }
+                    break;
+                case 'message_delta':
+                    tokensUsed.output = chunk.usage?.output_tokens || tokensUsed.output;
+                    stopReason = chunk.delta?.stop_reason || stopReason;
+                    break;
+            }
+        }
+
+        yield { delta: '', done: true, model: request.modelId, tokensUsed, stopReason };
+    }
+
     /**
      * Analyze question complexity
      */
@@ -116,25 +234,11 @@ export class BedrockService {
     /**
      * Build educational prompt
      */
-    private buildPrompt(question: string, grade: number): string {
-        const gradeContext = grade === 9
-            ? "9th grade student with basic algebra knowledge"
-            : "10th grade student with algebra and geometry knowledge";
-
-        return `You are ML-E, an expert machine learning tutor for high school students.
-
-STUDENT CONTEXT: ${gradeContext}
-
-TEACHING GUIDELINES:
-1. Use age-appropriate language and analogies
-2. Break complex concepts into simple parts
-3. Provide real-world examples
-4. Be encouraging and supportive
-5. Keep responses 200-400 words
-
-QUESTION: ${question}
-
-Provide a clear, engaging explanation that builds understanding progressively.`;
+    private buildPrompt(question: string, grade: number): RenderedPrompt {
+        return promptRegistry.render('bedrock.ml-response', {
+            question,
+            isNinthGrade: grade === 9
+        });
     }
 
     /**
@@ -144,34 +248,34 @@ Provide a clear, engaging explanation that builds understanding progressively.`;
         content: string;
         tokensUsed: { input: number; output: number };
     }> {
-        const requestBody = {
-            anthropic_version: "bedrock-2023-05-31",
-            max_tokens: 1000,
-            temperature: 0.7,
+        const response = await this.invokeMessages({
+            modelId,
             messages: [
                 {
-                    role: "user",
+                    role: 'user',
                     content: prompt
                 }
-            ]
-        };
-
-        const command = new InvokeModelCommand({
-            modelId,
-            contentType: 'application/json',
-            accept: 'application/json',
-            body: JSON.stringify(requestBody)
+            ],
+            maxTokens: 1000,
+            temperature: 0.7
         });
 
-        const response = await this.client.send(command);
-        const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+        return {
+            content: response.content,
+            tokensUsed: response.tokensUsed
+        };
+    }
 
+    /**
+     * Build the Anthropic messages API request body
+     */
+    private buildMessagesBody(request: BedrockMessagesRequest): Record<string, unknown> {
         return {
-            content: responseBody.content[0].text,
-            tokensUsed: {
-                input: responseBody.usage?.input_tokens || 0,
-                output: responseBody.usage?.output_tokens || 0
-            }
+            anthropic_version: "bedrock-2023-05-31",
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            ...(request.system ? { system: request.system } : {}),
+            messages: request.messages
         };
     }
 
@@ -0,0 +1,399 @@
+import { randomInt } from 'crypto';
+import { RepositoryFactory, ClassroomSettings } from '../database/repositories/index.js';
+import {
+  Classroom,
+  User,
+  StudentProgress,
+  AssessmentResult,
+  Message,
+  QuizAttempt,
+  TutorMode
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// Unambiguous characters so codes can be read off a whiteboard
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+const MAX_JOIN_CODE_ATTEMPTS = 5;
+
+export type ClassroomErrorCode = 'not_found' | 'forbidden' | 'invalid_code' | 'conflict';
+
+export class ClassroomError extends Error {
+  constructor(message: string, public readonly code: ClassroomErrorCode) {
+    super(message);
+    this.name = 'ClassroomError';
+  }
+}
+
+export interface CreateClassroomOptions {
+  name: string;
+  description?: string;
+  grade?: 9 | 10;
+}
+
+export interface ClassroomSummary extends Classroom {
+  studentCount: number;
+}
+
+/**
+ * A class as seen by an enrolled student. The join code is left out.
+ */
+export interface StudentClassroomView {
+  id: string;
+  name: string;
+  description?: string;
+  grade?: 9 | 10;
+  tutorMode?: TutorMode;
+  teacherName: string;
+  joinedAt: Date;
+}
+
+export interface ClassStudent {
+  id: string;
+  username: string;
+  firstName?: string;
+  lastName?: string;
+  grade: 9 | 10;
+  lastActive: Date;
+}
+
+export interface RosterEntry extends ClassStudent {
+  joinedAt: Date;
+  topicsStarted: number;
+  averageCompletion: number;
+  averageScore: number | null;
+  totalTimeSpent: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  currentTopic: string;
+  startTime: Date;
+  endTime?: Date;
+  messageCount: number;
+}
+
+export interface QuizAttemptSummary {
+  id: string;
+  topic: string;
+  status: QuizAttempt['status'];
+  score: number;
+  maxScore: number;
+  percentage?: number;
+  passed?: boolean;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface StudentOverview {
+  student: ClassStudent;
+  classes: { id: string; name: string }[];
+  progress: StudentProgress | null;
+  assessments: AssessmentResult[];
+  quizAttempts: QuizAttemptSummary[];
+  sessions: SessionSummary[];
+}
+
+export interface SessionTranscript extends SessionSummary {
+  messages: Message[];
+}
+
+/**
+ * Classes, enrollment by join code, and teacher oversight of enrolled students
+ */
+export class ClassroomService {
+  /**
+   * Create a class with a fresh join code
+   */
+  async createClassroom(teacherId: string, options: CreateClassroomOptions): Promise<ClassroomSummary> {
+    const classroomRepository = RepositoryFactory.getClassroomRepository();
+
+    for (let attempt = 1; attempt <= MAX_JOIN_CODE_ATTEMPTS; attempt++) {
+      try {
+        const classroom = await classroomRepository.createClassroom({
+          ...options,
+          teacherId,
+          joinCode: this.generateJoinCode()
+        });
+
+        logger.info(`Teacher ${teacherId} created class ${classroom.id}`);
+        return { ...classroom, studentCount: 0 };
+      } catch (error: any) {
+        // A duplicate key means the join code is taken; try another one
+        if (error?.code !== 11000) throw error;
+      }
+    }
+
+    throw new ClassroomError('Could not generate a unique join code', 'conflict');
+  }
+
+  /**
+   * Classes taught by a teacher, with enrollment counts
+   */
+  async getTeacherClassrooms(teacherId: string): Promise<ClassroomSummary[]> {
+    const classrooms = await RepositoryFactory.getClassroomRepository().findClassroomsByTeacher(teacherId);
+    const counts = await RepositoryFactory.getClassEnrollmentRepository()
+      .countEnrollmentsByClass(classrooms.map(classroom => classroom.id));
+
+    return classrooms.map(classroom => ({
+      ...classroom,
+      studentCount: counts[classroom.id] || 0
+    }));
+  }
+
+  /**
+   * Classes a student has joined
+   */
+  async getStudentClassrooms(studentId: string): Promise<StudentClassroomView[]> {
+    const enrollments = await RepositoryFactory.getClassEnrollmentRepository().findEnrollmentsByStudent(studentId);
+    const classrooms = await RepositoryFactory.getClassroomRepository()
+      .findClassroomsByIds(enrollments.map(enrollment => enrollment.classId));
+    const teachers = await this.getUsersById(classrooms.map(classroom => classroom.teacherId));
+
+    return classrooms.map(classroom => this.toStudentView(
+      classroom,
+      teachers.get(classroom.teacherId),
+      enrollments.find(enrollment => enrollment.classId === classroom.id)!.joinedAt
+    ));
+  }
+
+  /**
+   * Enroll a student in the class with the given join code
+   */
+  async joinClassroom(studentId: string, joinCode: string): Promise<StudentClassroomView> {
+    const classroom = await RepositoryFactory.getClassroomRepository().findClassroomByJoinCode(joinCode);
+    if (!classroom) {
+      throw new ClassroomError('No class found for that join code', 'invalid_code');
+    }
+
+    const enrollment = await RepositoryFactory.getClassEnrollmentRepository().enrollStudent(classroom.id, studentId);
+    const teachers = await this.getUsersById([classroom.teacherId]);
+
+    logger.info(`Student ${studentId} joined class ${classroom.id}`);
+    return this.toStudentView(classroom, teachers.get(classroom.teacherId), enrollment.joinedAt);
+  }
+
+  /**
+   * Change the settings of one of the teacher's classes
+   */
+  async updateClassroomSettings(teacherId: string, classId: string, settings: ClassroomSettings): Promise<ClassroomSummary> {
+    await this.getOwnedClassroom(teacherId, classId);
+
+    const classroom = await RepositoryFactory.getClassroomRepository().updateClassroomSettings(classId, settings);
+    if (!classroom) {
+      throw new ClassroomError('Class not found', 'not_found');
+    }
+    const counts = await RepositoryFactory.getClassEnrollmentRepository().countEnrollmentsByClass([classId]);
+
+    logger.info(`Teacher ${teacherId} updated settings of class ${classId}`);
+    return { ...classroom, studentCount: counts[classId] || 0 };
+  }
+
+  /**
+   * The tutor mode required by any of the student's classes, or null when the student may choose
+   */
+  async getRequiredTutorMode(studentId: string): Promise<TutorMode | null> {
+    const enrollments = await RepositoryFactory.getClassEnrollmentRepository().findEnrollmentsByStudent(studentId);
+    const classrooms = await RepositoryFactory.getClassroomRepository()
+      .findClassroomsByIds(enrollments.map(enrollment => enrollment.classId));
+
+    return classrooms.some(classroom => classroom.tutorMode === 'socratic') ? 'socratic' : null;
+  }
+
+  /**
+   * Students in one of the teacher's classes, with a progress summary for each
+   */
+  async getRoster(teacherId: string, classId: string): Promise<RosterEntry[]> {
+    await this.getOwnedClassroom(teacherId, classId);
+
+    const enrollments = await RepositoryFactory.getClassEnrollmentRepository().findEnrollmentsByClass(classId);
+    const students = await this.getUsersById(enrollments.map(enrollment => enrollment.studentId));
+    const progressRepository = RepositoryFactory.getProgressRepository();
+
+    const roster = await Promise.all(enrollments.map(async enrollment => {
+      const student = students.get(enrollment.studentId);
+      if (!student) return null;
+
+      const progress = await progressRepository.findByUserId(student.id);
+      return {
+        ...this.toClassStudent(student),
+        joinedAt: enrollment.joinedAt,
+        ...this.summarizeProgress(progress)
+      };
+    }));
+
+    return roster.filter((entry): entry is RosterEntry => entry !== null);
+  }
+
+  /**
+   * Every student enrolled in any of the teacher's classes
+   */
+  async getTeacherStudents(teacherId: string): Promise<ClassStudent[]> {
+    const classrooms = await RepositoryFactory.getClassroomRepository().findClassroomsByTeacher(teacherId);
+    const enrollmentRepository = RepositoryFactory.getClassEnrollmentRepository();
+    const enrollments = (await Promise.all(
+      classrooms.map(classroom => enrollmentRepository.findEnrollmentsByClass(classroom.id))
+    )).flat();
+    const students = await this.getUsersById(enrollments.map(enrollment => enrollment.studentId));
+
+    return [...students.values()].map(student => this.toClassStudent(student));
+  }
+
+  /**
+   * Remove a student from one of the teacher's classes
+   */
+  async removeStudent(teacherId: string, classId: string, studentId: string): Promise<void> {
+    await this.getOwnedClassroom(teacherId, classId);
+
+    const removed = await RepositoryFactory.getClassEnrollmentRepository().removeEnrollment(classId, studentId);
+    if (!removed) {
+      throw new ClassroomError('Student is not enrolled in this class', 'not_found');
+    }
+  }
+
+  /**
+   * Progress, assessment history and sessions for a student in one of the teacher's classes
+   */
+  async getStudentOverview(teacherId: string, studentId: string): Promise<StudentOverview> {
+    const classes = await this.assertTeachesStudent(teacherId, studentId);
+
+    const [students, progress, assessments, quizAttempts, sessions] = await Promise.all([
+      this.getUsersById([studentId]),
+      RepositoryFactory.getProgressRepository().findByUserId(studentId),
+      RepositoryFactory.getProgressRepository().getAssessmentHistory(studentId),
+      RepositoryFactory.getQuizAttemptRepository().findAttemptsByUser(studentId),
+      RepositoryFactory.getSessionRepository().findUserSessions(studentId, 20)
+    ]);
+
+    const student = students.get(studentId);
+    if (!student) {
+      throw new ClassroomError('Student not found', 'not_found');
+    }
+
+    return {
+      student: this.toClassStudent(student),
+      classes: classes.map(classroom => ({ id: classroom.id, name: classroom.name })),
+      progress,
+      assessments,
+      quizAttempts: quizAttempts.map(attempt => ({
+        id: attempt.id,
+        topic: attempt.topic,
+        status: attempt.status,
+        score: attempt.score,
+        maxScore: attempt.maxScore,
+        percentage: attempt.percentage,
+        passed: attempt.passed,
+        startedAt: attempt.startedAt,
+        completedAt: attempt.completedAt
+      })),
+      sessions: sessions.map(session => ({
+        id: session.id,
+        currentTopic: session.currentTopic,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        messageCount: session.conversationHistory.length
+      }))
+    };
+  }
+
+  /**
+   * Full transcript of one of a student's sessions
+   */
+  async getSessionTranscript(teacherId: string, studentId: string, sessionId: string): Promise<SessionTranscript> {
+    await this.assertTeachesStudent(teacherId, studentId);
+
+    const session = await RepositoryFactory.getSessionRepository().findSessionById(sessionId);
+    if (!session || session.userId !== studentId) {
+      throw new ClassroomError('Session not found', 'not_found');
+    }
+
+    return {
+      id: session.id,
+      currentTopic: session.currentTopic,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      messageCount: session.conversationHistory.length,
+      messages: session.conversationHistory
+    };
+  }
+
+  /**
+   * Return the teacher's classes the student is enrolled in, or throw if there are none
+   */
+  private async assertTeachesStudent(teacherId: string, studentId: string): Promise<Classroom[]> {
+    const classrooms = await RepositoryFactory.getClassroomRepository().findClassroomsByTeacher(teacherId);
+    const enrollments = await RepositoryFactory.getClassEnrollmentRepository().findEnrollmentsByStudent(studentId);
+    const enrolledClassIds = new Set(enrollments.map(enrollment => enrollment.classId));
+
+    const shared = classrooms.filter(classroom => enrolledClassIds.has(classroom.id));
+    if (shared.length === 0) {
+      // Same answer whether the student exists or not, so teachers can't probe other classes
+      throw new ClassroomError('Student not found in your classes', 'forbidden');
+    }
+    return shared;
+  }
+
+  private async getOwnedClassroom(teacherId: string, classId: string): Promise<Classroom> {
+    const classroom = await RepositoryFactory.getClassroomRepository().findClassroomById(classId);
+    if (!classroom || classroom.teacherId !== teacherId) {
+      throw new ClassroomError('Class not found', 'not_found');
+    }
+    return classroom;
+  }
+
+  private async getUsersById(userIds: string[]): Promise<Map<string, User>> {
+    const users = await RepositoryFactory.getUserRepository().findUsersByIds([...new Set(userIds)]);
+    return new Map(users.map(user => [user.id.toString(), user]));
+  }
+
+  private summarizeProgress(progress: StudentProgress | null): Omit<RosterEntry, keyof ClassStudent | 'joinedAt'> {
+    const topics = progress?.topicsCompleted || [];
+    const assessments = progress?.assessmentScores || [];
+    const scored = assessments.filter(assessment => assessment.maxScore > 0);
+
+    return {
+      topicsStarted: topics.length,
+      averageCompletion: topics.length > 0
+        ? Math.round(topics.reduce((sum, topic) => sum + topic.completionPercentage, 0) / topics.length)
+        : 0,
+      averageScore: scored.length > 0
+        ? Math.round(scored.reduce((sum, assessment) => sum + (assessment.score / assessment.maxScore) * 100, 0) / scored.length)
+        : null,
+      totalTimeSpent: progress?.totalTimeSpent || 0
+    };
+  }
+
+  private toClassStudent(user: User): ClassStudent {
+    return {
+      id: user.id.toString(),
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      grade: user.grade,
+      lastActive: user.lastActive
+    };
+  }
+
+  private toStudentView(classroom: Classroom, teacher: User | undefined, joinedAt: Date): StudentClassroomView {
+    return {
+      id: classroom.id,
+      name: classroom.name,
+      description: classroom.description,
+      grade: classroom.grade,
+      tutorMode: classroom.tutorMode,
+      teacherName: teacher
+        ? [teacher.firstName, teacher.lastName].filter(Boolean).join(' ') || teacher.username
+        : 'Unknown teacher',
+      joinedAt
+    };
+  }
+
+  private generateJoinCode(): string {
+    return Array.from(
+      { length: JOIN_CODE_LENGTH },
+      () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+    ).join('');
+  }
+}
+
+export const classroomService = new ClassroomService();
@@ -0,0 +1,356 @@
+import { spawn } from 'child_process';
+import { Readable, Writable } from 'stream';
+import { copyFile, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { constants, tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { CodeLanguage, CodeTestCase, CodeTestResult } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_RUNNERS_PATH = 'sandbox';
+const MAX_FILE_BYTES = 1024 * 1024; // files the student's code may write in its working directory
+const MAX_OPEN_FILES = 64;
+
+export type SandboxErrorCode = 'busy' | 'unavailable';
+
+export class SandboxError extends Error {
+  constructor(message: string, public readonly code: SandboxErrorCode) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+/**
+ * 'namespace' runs code in fresh user, network, mount and PID namespaces: no network, no view of
+ * other processes and the backend directory hidden. 'none' applies only the resource limits and
+ * is meant for development hosts without unprivileged user namespaces.
+ */
+export type SandboxIsolation = 'namespace' | 'none';
+
+export interface SandboxConfig {
+  timeoutMs: number; // wall clock
+  cpuSeconds: number;
+  memoryMb: number;
+  maxOutputBytes: number; // per stream; the rest is dropped
+  maxConcurrent: number;
+  isolation: SandboxIsolation;
+  runtimes: Record<CodeLanguage, string>; // interpreter commands
+  runnersPath: string;
+  hiddenPaths: string[]; // covered with an empty filesystem inside the sandbox
+}
+
+export interface CodeRunRequest {
+  language: CodeLanguage;
+  code: string;
+  stdin?: string;
+  testCases?: CodeTestCase[];
+}
+
+export interface CodeRunResult {
+  language: CodeLanguage;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  outputTruncated: boolean;
+  durationMs: number;
+  results: CodeTestResult[]; // one per test case, in order
+}
+
+interface RuntimeSpec {
+  runner: string;
+  solution: string;
+  args: (config: SandboxConfig) => string[];
+  limitAddressSpace: boolean; // V8 reserves more address space than it uses, so node is capped by heap size instead
+}
+
+const RUNTIMES: Record<CodeLanguage, RuntimeSpec> = {
+  python: {
+    runner: 'runner.py',
+    solution: 'solution.py',
+    args: () => ['-I', 'runner.py'],
+    limitAddressSpace: true
+  },
+  javascript: {
+    runner: 'runner.cjs',
+    solution: 'solution.js',
+    args: config => [`--max-old-space-size=${config.memoryMb}`, 'runner.cjs'],
+    limitAddressSpace: false
+  }
+};
+
+const quote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Whether a value the student's code returned equals the expected one; numbers within a small tolerance
+ */
+const matches = (actual: unknown, expected: unknown): boolean => {
+  if (typeof expected === 'number') {
+    return typeof actual === 'number' &&
+      Math.abs(actual - expected) <= Math.max(1e-9, 1e-6 * Math.max(Math.abs(actual), Math.abs(expected)));
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((value, index) => matches(actual[index], value));
+  }
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    const keys = Object.keys(expected);
+    return Object.keys(actual).length === keys.length &&
+      keys.every(key => matches((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]));
+  }
+  return actual === expected;
+};
+
+/**
+ * Collects a stream up to a byte limit, draining the rest so the child never blocks on a full pipe
+ */
+const collect = (stream: Readable | null | undefined, limit: number) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+
+  stream?.on('data', (chunk: Buffer) => {
+    if (size >= limit) {
+      truncated = true;
+      return;
+    }
+    chunks.push(chunk.subarray(0, limit - size));
+    truncated = truncated || chunk.length > limit - size;
+    size += Math.min(chunk.length, limit - size);
+  });
+
+  return () => ({ text: Buffer.concat(chunks).toString('utf8'), truncated });
+};
+
+/**
+ * Runs student Python and JavaScript in a child process with CPU, memory, time and network limits,
+ * and checks the result against hidden test cases for code_completion questions
+ */
+export class CodeSandboxService {
+  private running = 0;
+
+  constructor(
+    private readonly config: SandboxConfig = {
+      timeoutMs: parseInt(process.env.SANDBOX_TIMEOUT_MS || '5000'),
+      cpuSeconds: parseInt(process.env.SANDBOX_CPU_SECONDS || '3'),
+      memoryMb: parseInt(process.env.SANDBOX_MEMORY_MB || '256'),
+      maxOutputBytes: parseInt(process.env.SANDBOX_MAX_OUTPUT_BYTES || '65536'),
+      maxConcurrent: parseInt(process.env.SANDBOX_MAX_CONCURRENT || '2'),
+      isolation: process.env.SANDBOX_ISOLATION === 'none' ? 'none' : 'namespace',
+      runtimes: {
+        python: process.env.SANDBOX_PYTHON || 'python3',
+        javascript: process.env.SANDBOX_NODE || 'node'
+      },
+      runnersPath: process.env.SANDBOX_RUNNERS_PATH || DEFAULT_RUNNERS_PATH,
+      hiddenPaths: (process.env.SANDBOX_HIDDEN_PATHS || process.cwd()).split(',').map(path => path.trim()).filter(Boolean)
+    }
+  ) {
+    if (this.config.isolation === 'none') {
+      logger.warn('Code sandbox isolation is off: student code can reach the network and read the filesystem');
+    }
+  }
+
+  /**
+   * Run a snippet, then any test cases against the names it defined
+   */
+  async run(request: CodeRunRequest): Promise<CodeRunResult> {
+    if (this.running >= this.config.maxConcurrent) {
+      throw new SandboxError('The code runner is busy, please try again in a moment', 'busy');
+    }
+
+    this.running += 1;
+    const root = join(tmpdir(), 'ml-e-sandbox');
+    let workDir: string | null = null;
+
+    try {
+      await mkdir(root, { recursive: true });
+      workDir = await mkdtemp(join(root, 'run-'));
+      const runtime = RUNTIMES[request.language];
+
+      await writeFile(join(workDir, runtime.solution), request.code);
+      await copyFile(resolve(process.cwd(), this.config.runnersPath, runtime.runner), join(workDir, runtime.runner));
+
+      return await this.execute(request, runtime, workDir, root);
+    } finally {
+      this.running -= 1;
+      if (workDir) {
+        await rm(workDir, { recursive: true, force: true }).catch(error =>
+          logger.warn(`Failed to remove sandbox directory ${workDir}:`, error)
+        );
+      }
+    }
+  }
+
+  private execute(request: CodeRunRequest, runtime: RuntimeSpec, workDir: string, root: string): Promise<CodeRunResult> {
+    const testCases = request.testCases || [];
+    const [command, ...args] = this.buildCommand(request.language, runtime, root);
+    const startedAt = Date.now();
+
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn(command, args, {
+        cwd: workDir,
+        // The student's code sees none of the server's environment
+        env: { PATH: process.env.PATH || '/usr/bin:/bin', HOME: workDir, LANG: 'C.UTF-8', OPENBLAS_NUM_THREADS: '1' },
+        stdio: ['pipe', 'pipe', 'pipe', 'pipe', 'pipe'],
+        detached: true // own process group, so a timeout kills everything the code started
+      });
+
+      const stdout = collect(child.stdout, this.config.maxOutputBytes);
+      const stderr = collect(child.stderr, this.config.maxOutputBytes);
+      const testOutput = collect(child.stdio[4] as Readable, this.config.maxOutputBytes);
+
+      // The child may exit before reading its input; that is reported through its exit code
+      const send = (stream: Writable | null | undefined, data: string) => {
+        stream?.on('error', () => undefined);
+        stream?.end(data);
+      };
+      send(child.stdin, request.stdin || '');
+      // Only the expressions enter the sandbox; the expected values stay here for grading
+      send(child.stdio[3] as Writable, JSON.stringify(testCases.map(testCase => testCase.expression)));
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killGroup(child.pid);
+      }, this.config.timeoutMs);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        logger.error(`Code sandbox failed to start ${command}:`, error);
+        reject(new SandboxError('The code runner is not available right now', 'unavailable'));
+      });
+
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        // Stray processes the code left behind go with the group
+        this.killGroup(child.pid);
+
+        const out = stdout();
+        const err = stderr();
+        const stopped = this.describeStop(timedOut, exitCode, signal);
+        resolvePromise({
+          language: request.language,
+          stdout: out.text,
+          stderr: stopped ? `${err.text}\n${stopped}`.trimStart() : err.text,
+          exitCode,
+          timedOut,
+          outputTruncated: out.truncated || err.truncated,
+          durationMs: Date.now() - startedAt,
+          results: this.readResults(testCases, testOutput().text, timedOut)
+        });
+      });
+    });
+  }
+
+  /**
+   * Wrap the interpreter in resource limits and, when enabled, namespaces
+   */
+  private buildCommand(language: CodeLanguage, runtime: RuntimeSpec, root: string): string[] {
+    const limits = [
+      'prlimit',
+      // SIGXCPU at the limit, SIGKILL a second later if the code ignores it
+      `--cpu=${this.config.cpuSeconds}:${this.config.cpuSeconds + 1}`,
+      `--fsize=${MAX_FILE_BYTES}`,
+      `--nofile=${MAX_OPEN_FILES}`,
+      '--core=0',
+      ...(runtime.limitAddressSpace ? [`--as=${this.config.memoryMb * 1024 * 1024}`] : []),
+      '--',
+      this.config.runtimes[language],
+      ...runtime.args(this.config)
+    ];
+
+    if (this.config.isolation === 'none') {
+      return limits;
+    }
+
+    // Other runs and the hidden paths are covered with empty filesystems, then this run's directory,
+    // still reachable as the current directory, is mounted back at its own path.
+    // If anything cannot be hidden the code does not run.
+    const paths = [root, ...this.config.hiddenPaths].map(quote).join(' ');
+    const isolate = [
+      'work="$(pwd)"',
+      `for path in ${paths}; do [ -d "$path" ] || continue; mount -t tmpfs -o size=1m tmpfs "$path" || exit 125; done`,
+      'mkdir -p "$work" && mount --no-canonicalize --bind . "$work" && cd "$work" || exit 125',
+      // The shell stays as the namespace's init, so a signal that stops the code comes back as 128 + signal
+      '"$@"',
+      'exit $?'
+    ].join('; ');
+
+    return [
+      'unshare', '--map-root-user', '--net', '--mount', '--pid', '--fork', '--mount-proc', '--',
+      'sh', '-c', isolate, 'sandbox',
+      ...limits
+    ];
+  }
+
+  /**
+   * Explain why the code was stopped, if a limit stopped it
+   */
+  private describeStop(timedOut: boolean, exitCode: number | null, signal: NodeJS.Signals | null): string | null {
+    if (timedOut) {
+      return `Stopped after ${this.config.timeoutMs / 1000} seconds.`;
+    }
+
+    const stopSignal = signal ?? (this.config.isolation === 'namespace' && exitCode !== null && exitCode > 128
+      ? Object.entries(constants.signals).find(([, number]) => number === exitCode - 128)?.[0]
+      : undefined);
+
+    if (stopSignal === 'SIGXCPU' || stopSignal === 'SIGKILL') {
+      return `Stopped after using ${this.config.cpuSeconds} seconds of CPU time.`;
+    }
+    if (stopSignal === 'SIGXFSZ') {
+      return 'Stopped because it wrote too much data to a file.';
+    }
+    return null;
+  }
+
+  /**
+   * Grade the values the runner reported against the expected values. The student's code can write
+   * to the results channel as well, so a report is only ever taken as what the code returned;
+   * missing values mean the tests never finished.
+   */
+  private readResults(testCases: CodeTestCase[], output: string, timedOut: boolean): CodeTestResult[] {
+    let reports: unknown[] = [];
+    try {
+      const parsed = output ? JSON.parse(output) : [];
+      reports = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      reports = [];
+    }
+
+    return testCases.map((testCase, index) => {
+      const report = reports[index];
+      if (report === null || typeof report !== 'object') {
+        return {
+          description: testCase.description,
+          passed: false,
+          error: timedOut ? 'The code ran out of time' : 'The test did not run'
+        };
+      }
+
+      const { value, error } = report as { value?: unknown; error?: unknown };
+      let passed = false;
+      try {
+        passed = 'value' in report && matches(value, JSON.parse(testCase.expected));
+      } catch (parseError) {
+        logger.error(`Test case "${testCase.description}" has an expected value that is not JSON:`, parseError);
+      }
+      return {
+        description: testCase.description,
+        passed,
+        ...(typeof error === 'string' ? { error: error.slice(0, 500) } : {})
+      };
+    });
+  }
+
+  private killGroup(pid: number | undefined): void {
+    if (!pid) return;
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // The group has already exited
+    }
+  }
+}
+
+export const codeSandboxService = new CodeSandboxService();
@@ -0,0 +1,154 @@
+import { redisService } from './redis.service.js';
+import { LLMService, createLLMService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { LLMAttribution, Message } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface ConversationWindow {
+  messages: Message[];
+  summary?: string;
+  summarizedCount: number;
+  estimatedTokens: number;
+}
+
+interface CachedSummary {
+  lastMessageId: string; // newest turn the summary covers
+  summary: string;
+}
+
+export class ConversationMemoryService {
+  private llmService: LLMService | null = null;
+  private readonly tokenBudget = parseInt(process.env.LLM_HISTORY_TOKEN_BUDGET || '2000');
+  private readonly SUMMARY_TTL = 24 * 60 * 60; // 24 hours in seconds
+
+  /**
+   * Build the prompt window for a session: the most recent turns that fit the token
+   * budget, plus a summary of everything older. Summary tokens count against userId.
+   */
+  async buildWindow(
+    sessionId: string,
+    history: Message[],
+    tokenBudget: number = this.tokenBudget,
+    userId?: string
+  ): Promise<ConversationWindow> {
+    const recent: Message[] = [];
+    let usedTokens = 0;
+
+    // Walk back from the newest turn until the budget is spent
+    for (let i = history.length - 1; i >= 0; i--) {
+      const tokens = this.estimateTokens(history[i].content);
+      if (usedTokens + tokens > tokenBudget && recent.length > 0) {
+        break;
+      }
+      recent.unshift(history[i]);
+      usedTokens += tokens;
+    }
+
+    const older = history.slice(0, history.length - recent.length);
+    if (older.length === 0) {
+      return { messages: recent, summarizedCount: 0, estimatedTokens: usedTokens };
+    }
+
+    const summary = await this.getSummary(sessionId, older, userId);
+
+    return {
+      messages: recent,
+      summary,
+      summarizedCount: older.length,
+      estimatedTokens: usedTokens + this.estimateTokens(summary)
+    };
+  }
+
+  /**
+   * Rough token estimate (about four characters per token)
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Get a summary of the older turns, extending the cached summary incrementally. The cache is
+   * keyed on the newest summarized turn rather than a count, since capped histories drop their
+   * oldest turns and stop growing.
+   */
+  private async getSummary(sessionId: string, older: Message[], userId?: string): Promise<string> {
+    const cacheKey = `session:${sessionId}:summary`;
+    let cached: CachedSummary | null = null;
+
+    try {
+      const raw = await redisService.get(cacheKey);
+      cached = raw ? JSON.parse(raw) as CachedSummary : null;
+    } catch (error) {
+      logger.warn('Could not read conversation summary cache:', error instanceof Error ? error.message : String(error));
+    }
+
+    const lastIndex = cached ? older.findIndex(turn => turn.id === cached!.lastMessageId) : -1;
+    if (cached && lastIndex === older.length - 1) {
+      return cached.summary;
+    }
+
+    // Only the turns that fell out of the window since the last summary need summarizing
+    const canExtend = cached !== null && lastIndex >= 0;
+    const newTurns = canExtend ? older.slice(lastIndex + 1) : older;
+    const previousSummary = canExtend ? cached!.summary : undefined;
+
+    const summary = await this.summarize(newTurns, previousSummary, { agent: 'conversation-memory', userId, sessionId });
+
+    try {
+      const entry: CachedSummary = { lastMessageId: older[older.length - 1].id, summary };
+      await redisService.set(cacheKey, JSON.stringify(entry), this.SUMMARY_TTL);
+    } catch (error) {
+      logger.warn('Could not cache conversation summary:', error instanceof Error ? error.message : String(error));
+    }
+
+    return summary;
+  }
+
+  /**
+   * Summarize turns with the LLM, falling back to a list of the student's questions
+   */
+  private async summarize(turns: Message[], previousSummary: string | undefined, attribution: LLMAttribution): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.sender === 'student' ? 'Student' : 'Tutor'}: ${turn.content}`)
+      .join('\n');
+
+    try {
+      const systemPrompt = promptRegistry.render('conversation.summary', {});
+      const response = await this.getLLMService().generateCompletion({
+        systemPrompt: systemPrompt.text,
+        prompt: systemPrompt.prompt,
+        attribution,
+        messages: [
+          {
+            role: 'user',
+            content: previousSummary
+              ? `Summary so far:\n${previousSummary}\n\nLater turns:\n${transcript}`
+              : transcript
+          }
+        ],
+        temperature: 0.2,
+        maxTokens: 250
+      });
+
+      return response.content.trim();
+    } catch (error) {
+      logger.warn('LLM summarization failed, using extractive summary:', error instanceof Error ? error.message : String(error));
+
+      const questions = turns
+        .filter(turn => turn.sender === 'student')
+        .map(turn => turn.content.substring(0, 80));
+      const extract = `Earlier the student asked about: ${questions.join('; ')}`;
+
+      return previousSummary ? `${previousSummary}\n${extract}` : extract;
+    }
+  }
+
+  private getLLMService(): LLMService {
+    if (!this.llmService) {
+      this.llmService = createLLMService();
+    }
+    return this.llmService;
+  }
+}
+
+export const conversationMemoryService = new ConversationMemoryService();
@@ -0,0 +1,263 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createHash } from 'crypto';
+import {
+  CurriculumDefinition,
+  CurriculumTopicDefinition,
+  CurriculumConceptDefinition,
+  VersionedCurriculum
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_CURRICULUM_PATH = 'curriculum/ml-foundations.json';
+const GRADE_LEVELS = [9, 10, 'both'];
+const EXAMPLE_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export class CurriculumError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'CurriculumError';
+  }
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check a parsed curriculum file against the curriculum definition types
+ */
+export function validateCurriculumDefinition(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Curriculum file must contain a JSON object'];
+  }
+
+  if (!isNonEmptyString(data.version)) {
+    errors.push('version is required');
+  }
+
+  const curriculum = data.curriculum;
+  if (!curriculum || typeof curriculum !== 'object') {
+    errors.push('curriculum is required');
+  } else {
+    if (!isNonEmptyString(curriculum.id)) errors.push('curriculum.id is required');
+    if (!isNonEmptyString(curriculum.name)) errors.push('curriculum.name is required');
+    if (typeof curriculum.description !== 'string') errors.push('curriculum.description must be a string');
+    if (!GRADE_LEVELS.includes(curriculum.gradeLevel)) errors.push('curriculum.gradeLevel must be 9, 10 or "both"');
+    if (!isStringArray(curriculum.topics)) errors.push('curriculum.topics must be a list of topic ids');
+    if (typeof curriculum.totalEstimatedHours !== 'number' || curriculum.totalEstimatedHours <= 0) {
+      errors.push('curriculum.totalEstimatedHours must be a positive number');
+    }
+  }
+
+  if (!Array.isArray(data.topics) || data.topics.length === 0) {
+    errors.push('topics must be a non-empty list');
+    return errors;
+  }
+
+  const topicIds = new Set<string>();
+  const conceptIds = new Set<string>();
+
+  data.topics.forEach((topic: any, index: number) => {
+    const label = `topics[${index}]${topic?.id ? ` (${topic.id})` : ''}`;
+
+    if (!isNonEmptyString(topic?.id)) {
+      errors.push(`${label}.id is required`);
+      return;
+    }
+    if (topicIds.has(topic.id)) errors.push(`${label} duplicates topic id "${topic.id}"`);
+    topicIds.add(topic.id);
+
+    if (!isNonEmptyString(topic.name)) errors.push(`${label}.name is required`);
+    if (typeof topic.description !== 'string') errors.push(`${label}.description must be a string`);
+    if (typeof topic.difficulty !== 'number' || topic.difficulty < 1 || topic.difficulty > 5) {
+      errors.push(`${label}.difficulty must be between 1 and 5`);
+    }
+    if (!isStringArray(topic.prerequisites)) errors.push(`${label}.prerequisites must be a list of topic ids`);
+    if (typeof topic.estimatedTimeMinutes !== 'number' || topic.estimatedTimeMinutes <= 0) {
+      errors.push(`${label}.estimatedTimeMinutes must be a positive number`);
+    }
+    if (!GRADE_LEVELS.includes(topic.gradeLevel)) errors.push(`${label}.gradeLevel must be 9, 10 or "both"`);
+    if (!isStringArray(topic.learningObjectives)) errors.push(`${label}.learningObjectives must be a list of strings`);
+
+    if (!Array.isArray(topic.concepts) || topic.concepts.length === 0) {
+      errors.push(`${label}.concepts must be a non-empty list`);
+      return;
+    }
+
+    topic.concepts.forEach((concept: any, conceptIndex: number) => {
+      const conceptLabel = `${label}.concepts[${conceptIndex}]`;
+
+      if (!isNonEmptyString(concept?.id)) {
+        errors.push(`${conceptLabel}.id is required`);
+        return;
+      }
+      if (conceptIds.has(concept.id)) errors.push(`${conceptLabel} duplicates concept id "${concept.id}"`);
+      conceptIds.add(concept.id);
+
+      if (!isNonEmptyString(concept.name)) errors.push(`${conceptLabel}.name is required`);
+      if (typeof concept.description !== 'string') errors.push(`${conceptLabel}.description must be a string`);
+      if (typeof concept.complexity !== 'number' || concept.complexity < 1 || concept.complexity > 5) {
+        errors.push(`${conceptLabel}.complexity must be between 1 and 5`);
+      }
+      if (typeof concept.requiresMath !== 'boolean') errors.push(`${conceptLabel}.requiresMath must be a boolean`);
+      if (!isStringArray(concept.relatedConcepts)) errors.push(`${conceptLabel}.relatedConcepts must be a list of strings`);
+      if (!isStringArray(concept.keyTerms) || concept.keyTerms.length === 0) {
+        errors.push(`${conceptLabel}.keyTerms must be a non-empty list of strings`);
+      }
+      if (!isStringArray(concept.realWorldApplications)) {
+        errors.push(`${conceptLabel}.realWorldApplications must be a list of strings`);
+      }
+      if (!Array.isArray(concept.examples)) {
+        errors.push(`${conceptLabel}.examples must be a list`);
+      } else {
+        concept.examples.forEach((example: any, exampleIndex: number) => {
+          const exampleLabel = `${conceptLabel}.examples[${exampleIndex}]`;
+          if (!isNonEmptyString(example?.id) || !isNonEmptyString(example.title) || typeof example.description !== 'string') {
+            errors.push(`${exampleLabel} needs an id, title and description`);
+          }
+          if (!EXAMPLE_DIFFICULTIES.includes(example?.difficulty)) {
+            errors.push(`${exampleLabel}.difficulty must be easy, medium or hard`);
+          }
+          if (typeof example?.ageAppropriate !== 'boolean') {
+            errors.push(`${exampleLabel}.ageAppropriate must be a boolean`);
+          }
+        });
+      }
+    });
+  });
+
+  // Cross-references only make sense once every topic id is known
+  data.topics.forEach((topic: any) => {
+    if (!isStringArray(topic?.prerequisites)) return;
+    topic.prerequisites
+      .filter((prerequisite: string) => !topicIds.has(prerequisite))
+      .forEach((prerequisite: string) => errors.push(`Topic "${topic.id}" has unknown prerequisite "${prerequisite}"`));
+  });
+
+  if (isStringArray(curriculum?.topics)) {
+    curriculum.topics
+      .filter((topicId: string) => !topicIds.has(topicId))
+      .forEach((topicId: string) => errors.push(`curriculum.topics references unknown topic "${topicId}"`));
+    topicIds.forEach(topicId => {
+      if (!curriculum.topics.includes(topicId)) {
+        errors.push(`Topic "${topicId}" is missing from curriculum.topics`);
+      }
+    });
+  }
+
+  const cycle = findPrerequisiteCycle(data.topics);
+  if (cycle) {
+    errors.push(`Prerequisite cycle: ${cycle.join(' -> ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Return the first prerequisite cycle found, if any
+ */
+function findPrerequisiteCycle(topics: any[]): string[] | null {
+  const prerequisites = new Map<string, string[]>(
+    topics
+      .filter(topic => isNonEmptyString(topic?.id) && isStringArray(topic.prerequisites))
+      .map(topic => [topic.id, topic.prerequisites])
+  );
+  const visited = new Set<string>();
+
+  const visit = (topicId: string, path: string[]): string[] | null => {
+    if (path.includes(topicId)) return [...path.slice(path.indexOf(topicId)), topicId];
+    if (visited.has(topicId)) return null;
+    visited.add(topicId);
+
+    for (const prerequisite of prerequisites.get(topicId) || []) {
+      const cycle = visit(prerequisite, [...path, topicId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const topicId of prerequisites.keys()) {
+    const cycle = visit(topicId, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Loads the curriculum definition file and serves it to agents, analytics and the API
+ */
+export class CurriculumService {
+  private curriculum: VersionedCurriculum | null = null;
+  private topicsById = new Map<string, CurriculumTopicDefinition>();
+
+  constructor(private readonly filePath: string = process.env.CURRICULUM_PATH || DEFAULT_CURRICULUM_PATH) {}
+
+  /**
+   * Read, validate and stamp the curriculum file. Throws if the file is invalid.
+   */
+  load(): VersionedCurriculum {
+    const path = resolve(process.cwd(), this.filePath);
+
+    let raw: string;
+    let data: unknown;
+    try {
+      raw = readFileSync(path, 'utf-8');
+      data = JSON.parse(raw);
+    } catch (error) {
+      throw new CurriculumError(`Failed to read curriculum from ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateCurriculumDefinition(data);
+    if (errors.length > 0) {
+      throw new CurriculumError(`Invalid curriculum in ${path}`, errors);
+    }
+
+    const definition = data as CurriculumDefinition;
+    const order = definition.curriculum.topics;
+
+    this.curriculum = {
+      ...definition,
+      topics: [...definition.topics].sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id)),
+      checksum: createHash('sha256').update(raw).digest('hex').slice(0, 12),
+      loadedAt: new Date()
+    };
+    this.topicsById = new Map(this.curriculum.topics.map(topic => [topic.id, topic]));
+
+    logger.info(`Loaded curriculum ${definition.curriculum.id} v${definition.version} (${this.curriculum.checksum}) with ${this.topicsById.size} topics`);
+    return this.curriculum;
+  }
+
+  /**
+   * Get the loaded curriculum, loading it on first use
+   */
+  getCurriculum(): VersionedCurriculum {
+    return this.curriculum ?? this.load();
+  }
+
+  getVersion(): string {
+    return this.getCurriculum().version;
+  }
+
+  /**
+   * Topics in curriculum order
+   */
+  getTopics(): CurriculumTopicDefinition[] {
+    return this.getCurriculum().topics;
+  }
+
+  getTopic(topicId: string): CurriculumTopicDefinition | null {
+    this.getCurriculum();
+    return this.topicsById.get(topicId) || null;
+  }
+
+  getConcepts(): CurriculumConceptDefinition[] {
+    return this.getTopics().flatMap(topic => topic.concepts);
+  }
+}
+
+export const curriculumService = new CurriculumService();
@@ -340,14 +340,7 @@ export class FallbackService extends EventEmitter {
    * Get generic fallback response
    */
   private getGenericFallback(agentType: AgentType): FallbackResponse {
-    const agentNames = {
-      tutor: 'tutor',
-      assessment: 'assessment',
-      content: 'content',
-      coordinator: 'coordinator'
-    };
-
-    const response = `I apologize, but the ${agentNames[agentType]} service is temporarily unavailable. ` +
+    const response = `I apologize, but the ${agentType} service is temporarily unavailable. ` +
                     `Please try again in a few moments. In the meantime, you can ask basic questions ` +
                     `and I'll do my best to provide simplified responses.`;
 
@@ -0,0 +1,126 @@
+import { getAgentSystem } from './init.service.js';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { AssessmentAgent, HINT_LEVELS, Question } from '../agents/assessment.agent.js';
+import { HintDependence, HintLevel } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export type HintErrorCode = 'not_found' | 'no_hints' | 'in_quiz';
+
+export class HintError extends Error {
+  constructor(message: string, public readonly code: HintErrorCode) {
+    super(message);
+    this.name = 'HintError';
+  }
+}
+
+export interface HintResult {
+  questionId: string;
+  level: HintLevel;
+  hint: string;
+  hintsUsed: number;
+  hintsRemaining: number;
+}
+
+/**
+ * Reveals a question's hint ladder one level at a time and records how many
+ * hints each answer needed, so scoring can apply the hint penalty
+ */
+export class HintService {
+  /**
+   * Reveal the next level of the question's hint ladder to the student
+   */
+  async requestHint(userId: string, questionId: string, sessionId?: string): Promise<HintResult> {
+    const agent = this.getAssessmentAgent();
+    const question = await agent.getQuestion(questionId);
+    if (!question) {
+      throw new HintError(`No question with id ${questionId} is available`, 'not_found');
+    }
+
+    // Quiz hints are revealed and counted by the attempt
+    const activeQuiz = await RepositoryFactory.getQuizAttemptRepository().findActiveAttempt(userId);
+    if (activeQuiz?.questions.some(quizQuestion => quizQuestion.id === question.id)) {
+      throw new HintError('This question is part of your quiz in progress; ask for hints from the quiz', 'in_quiz');
+    }
+
+    const repository = RepositoryFactory.getHintUsageRepository();
+    const open = await repository.findOpenUsage(userId, questionId);
+    const revealed = open?.hintsUsed || 0;
+    if (revealed >= HINT_LEVELS.length) {
+      throw new HintError('No more hints are available for this question', 'no_hints');
+    }
+
+    const ladder = await agent.getHintLadder(question, { userId }, sessionId);
+    const usage = await repository.recordHint(userId, {
+      questionId,
+      concept: question.concept,
+      topic: question.topic || question.concept,
+      sessionId
+    });
+
+    const step = ladder[Math.min(usage.hintsUsed, ladder.length) - 1];
+    logger.info(`Revealed ${step.level} hint for question ${questionId} to user ${userId}`);
+
+    return {
+      questionId,
+      level: step.level,
+      hint: step.hint,
+      hintsUsed: usage.hintsUsed,
+      hintsRemaining: Math.max(0, ladder.length - usage.hintsUsed)
+    };
+  }
+
+  /**
+   * Hints the student has revealed for a question they have not answered yet
+   */
+  async getHintsUsed(userId: string, questionId: string): Promise<number> {
+    try {
+      const open = await RepositoryFactory.getHintUsageRepository().findOpenUsage(userId, questionId);
+      return open?.hintsUsed || 0;
+    } catch (error) {
+      logger.warn(`Failed to look up hints used on question ${questionId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Close the student's hint record for an answered question.
+   * Failures are logged so they never lose a graded answer.
+   */
+  async recordAnswer(
+    userId: string,
+    question: Pick<Question, 'id' | 'concept' | 'topic'>,
+    hintsUsed: number,
+    isCorrect: boolean,
+    sessionId?: string
+  ): Promise<void> {
+    try {
+      await RepositoryFactory.getHintUsageRepository().recordAnswer(userId, {
+        questionId: question.id,
+        concept: question.concept,
+        topic: question.topic || question.concept,
+        sessionId
+      }, hintsUsed, isCorrect);
+    } catch (error) {
+      logger.warn(`Failed to record hint usage for question ${question.id}:`, error);
+    }
+  }
+
+  /**
+   * How much the student leans on hints, per concept, most dependent first
+   */
+  async getHintDependence(userId: string): Promise<HintDependence[]> {
+    const concepts = await RepositoryFactory.getHintUsageRepository().summarizeByConcept(userId, HINT_LEVELS.length);
+    return concepts.sort((a, b) => b.dependence - a.dependence || b.hintsUsed - a.hintsUsed);
+  }
+
+  private getAssessmentAgent(): AssessmentAgent {
+    const agent = getAgentSystem().getAgentsByType('assessment')[0];
+    if (!agent) {
+      throw new Error('Assessment agent not available');
+    }
+    return agent as AssessmentAgent;
+  }
+}
+
+// Export singleton instance
+export const hintService = new HintService();
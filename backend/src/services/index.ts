@@ -2,4 +2,72 @@ export { authService, AuthService } from './auth.service.js';
 export { redisService, RedisService } from './redis.service.js';
 export { sessionService, SessionService } from './session.service.js';
 export { LLMService, createLLMService } from './llm.service.js';
-export type { LLMConfig, LLMRequest, LLMResponse, LLMMessage } from './llm.service.js';
\ No newline at end of file
+export type { LLMConfig, LLMRequest, LLMResponse, LLMMessage, LLMStreamChunk } from './llm.service.js';
+export { createLLMProvider, BedrockLLMProvider, ScriptedLLMProvider } from './llm-providers/index.js';
+export type { LLMProvider, LLMProviderName, LLMFixture } from './llm-providers/index.js';
+export { assessmentService, AssessmentService } from './assessment.service.js';
+export type { AnswerSubmission, SubmissionResult, PublicQuestion, ReviewQuestionSet } from './assessment.service.js';
+export { hintService, HintService, HintError } from './hint.service.js';
+export type { HintErrorCode, HintResult } from './hint.service.js';
+export { codeSandboxService, CodeSandboxService, SandboxError } from './code-sandbox.service.js';
+export type { SandboxErrorCode, SandboxIsolation, SandboxConfig, CodeRunRequest, CodeRunResult } from './code-sandbox.service.js';
+export { quizService, QuizService, QuizError } from './quiz.service.js';
+export type { QuizAttemptView, QuizAnswerResult, QuizHintResult, StartQuizOptions } from './quiz.service.js';
+export { curriculumService, CurriculumService, CurriculumError, validateCurriculumDefinition } from './curriculum.service.js';
+export { reviewSchedulerService, ReviewSchedulerService, calculateNextReview, qualityFromOutcome } from './review-scheduler.service.js';
+export type { ReviewState, ScheduledReview, ReviewOutcome, DueReviews } from './review-scheduler.service.js';
+export {
+  masteryService,
+  MasteryService,
+  DEFAULT_BKT_PARAMETERS,
+  updateKnowledge,
+  applyTutorExposure,
+  summarizeTopic
+} from './mastery.service.js';
+export type {
+  BKTParameters,
+  AnswerObservation,
+  TopicMasterySummary,
+  TopicMasteryUpdate,
+  AssessmentEvidence,
+  TutorTurnEvidence
+} from './mastery.service.js';
+export {
+  promptRegistry,
+  PromptRegistry,
+  PromptError,
+  parsePromptTemplate,
+  renderTemplate
+} from './prompt-registry.service.js';
+export type {
+  PromptTemplate,
+  PromptVariableDefinition,
+  PromptVariableType,
+  PromptVariables,
+  PromptId,
+  RenderedPrompt
+} from './prompt-registry.service.js';
+export { questionIndexService, QuestionIndexService, tokenizeQuestion, cosineSimilarity } from './question-index.service.js';
+export type { SimilarQuestion, IndexedAnswer } from './question-index.service.js';
+export {
+  moderationService,
+  ModerationService,
+  ModerationPolicyError,
+  LexiconClassifier,
+  validateModerationPolicy
+} from './moderation.service.js';
+export type {
+  ModerationPolicy,
+  ModerationCategoryPolicy,
+  ModerationClassifier,
+  ModerationContext,
+  ModerationResult
+} from './moderation.service.js';
+export { intentClassifierService, IntentClassifierService } from './intent-classifier.service.js';
+export type { IntentClassifierConfig, IntentContext } from './intent-classifier.service.js';
+export { responseSynthesisService, ResponseSynthesisService } from './response-synthesis.service.js';
+export type { SectionDraft, SynthesizedReply } from './response-synthesis.service.js';
+export { classroomService, ClassroomService, ClassroomError } from './classroom.service.js';
+export type { ClassroomSummary, StudentClassroomView, RosterEntry, StudentOverview, SessionTranscript } from './classroom.service.js';
+export { usageService, UsageService, usageDay } from './usage.service.js';
+export type { UsageBudgets, BudgetScope, BudgetStatus, LLMCallUsage, ModelPrice, UsageReport } from './usage.service.js';
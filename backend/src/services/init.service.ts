@@ -1,10 +1,22 @@
 import { redisService } from './redis.service.js';
 import { connectToDatabase } from '../database/connection.js';
 import { UserModel } from '../database/schemas/user.schema.js';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { CURATED_QUESTIONS } from '../database/seeds/questions.seed.js';
 import { authService } from './auth.service.js';
-import { bedrockService } from './bedrock.service.js';
+import { curriculumService } from './curriculum.service.js';
+import { moderationService } from './moderation.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { AgentSystem, createAgentSystemConfig } from '../agents/agent-system.js';
+import { BaseAgent } from '../agents/base.agent.js';
+import { AgentPlugin, loadAgentPlugins } from '../agents/agent-plugin.js';
+import { TutorAgent, createTutorConfig } from '../agents/tutor.agent.js';
+import { ContentAgent, createContentConfig } from '../agents/content.agent.js';
+import { AssessmentAgent, createAssessmentConfig } from '../agents/assessment.agent.js';
 import { logger } from '../utils/logger.js';
 
+let agentSystem: AgentSystem | null = null;
+
 /**
  * Initialize all services
  */
@@ -12,6 +24,11 @@ export async function initializeServices(): Promise<void> {
   try {
     logger.info('Initializing services...');
 
+    // Load the curriculum, moderation policy and prompt templates first; an invalid file should stop startup
+    curriculumService.load();
+    moderationService.load();
+    promptRegistry.load();
+
     // Connect to MongoDB
     await connectToDatabase();
     logger.info('MongoDB connection established');
@@ -23,8 +40,11 @@ export async function initializeServices(): Promise<void> {
     // Create default users if they don't exist
     await createDefaultUsers();
 
-    // Check Bedrock service status
-    logger.info('Bedrock service initialized and ready');
+    // Make sure every curriculum topic has vetted questions in the bank
+    await seedQuestionBank();
+
+    // Boot the multi-agent system used by the chat endpoints
+    await initializeAgentSystem();
 
     logger.info('All services initialized successfully');
   } catch (error) {
@@ -33,6 +53,105 @@ export async function initializeServices(): Promise<void> {
   }
 }
 
+// The specialized agents a process can host
+const AGENT_FACTORIES: Record<string, (agentId: string) => BaseAgent> = {
+  tutor: (agentId) => new TutorAgent(createTutorConfig(agentId)),
+  content: (agentId) => new ContentAgent(createContentConfig(agentId)),
+  assessment: (agentId) => new AssessmentAgent(createAssessmentConfig(agentId))
+};
+
+/**
+ * Start the agent system and register the specialized agents listed in AGENT_LOCAL_TYPES;
+ * the rest are expected on agent workers sharing the message bus
+ */
+async function initializeAgentSystem(): Promise<void> {
+  agentSystem = new AgentSystem(createAgentSystemConfig(), redisService);
+  await agentSystem.start();
+
+  await registerAgents(agentSystem, process.env.AGENT_LOCAL_TYPES ?? Object.keys(AGENT_FACTORIES).join(','), type => `${type}-main`);
+
+  logger.info(`Agent system ready with ${agentSystem.getAllAgents().length} specialized agents`);
+}
+
+/**
+ * Start a process that only hosts agents, reached by the API server over the Redis message bus.
+ * It runs the agent types listed in AGENT_WORKER_TYPES and the plug-ins in AGENT_PLUGINS.
+ */
+export async function initializeAgentWorker(): Promise<void> {
+  logger.info('Initializing agent worker...');
+
+  curriculumService.load();
+  moderationService.load();
+  promptRegistry.load();
+
+  await connectToDatabase();
+  await redisService.connect();
+
+  const config = createAgentSystemConfig();
+  if (config.messageBus.transport === 'local') {
+    throw new Error('Agent workers need a shared message bus; set AGENT_BUS_TRANSPORT=redis');
+  }
+
+  agentSystem = new AgentSystem(config, redisService);
+  await agentSystem.start();
+
+  // Agent ids carry the node id, so workers running the same agent types don't collide
+  const nodeId = agentSystem.getMessageBus().getNodeId();
+  await registerAgents(agentSystem, process.env.AGENT_WORKER_TYPES || Object.keys(AGENT_FACTORIES).join(','), type => `${type}-${nodeId}`);
+
+  logger.info(`Agent worker ${nodeId} ready with ${agentSystem.getAllAgents().length} agents`);
+}
+
+/**
+ * Register the listed core agent types and the configured plug-ins
+ */
+async function registerAgents(system: AgentSystem, agentTypes: string, agentId: (type: string) => string): Promise<void> {
+  const agents: BaseAgent[] = [];
+  for (const type of agentTypes.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const createAgent = AGENT_FACTORIES[type];
+    if (createAgent) {
+      agents.push(createAgent(agentId(type)));
+    } else {
+      logger.warn(`Unknown agent type ${type} skipped`);
+    }
+  }
+
+  for (const agent of agents) {
+    try {
+      await system.registerAgent(agent);
+    } catch (error) {
+      // A failed agent is skipped; the coordinator falls back to the remaining ones
+      logger.error(`Agent ${agent.getState().agentId} could not be started:`, error);
+    }
+  }
+
+  // Specialist agents from the modules listed in AGENT_PLUGINS
+  let plugins: AgentPlugin[] = [];
+  try {
+    plugins = await loadAgentPlugins();
+  } catch (error) {
+    logger.error('Agent plug-ins could not be loaded:', error);
+  }
+
+  for (const plugin of plugins) {
+    try {
+      await system.registerPlugin(plugin, agentId(plugin.manifest.type));
+    } catch (error) {
+      logger.error(`Agent plug-in ${plugin.manifest.name} could not be started:`, error);
+    }
+  }
+}
+
+/**
+ * Get the running agent system
+ */
+export function getAgentSystem(): AgentSystem {
+  if (!agentSystem) {
+    throw new Error('Agent system not initialized');
+  }
+  return agentSystem;
+}
+
 /**
  * Create default users for testing
  */
@@ -71,6 +190,25 @@ async function createDefaultUsers(): Promise<void> {
   }
 }
 
+/**
+ * Seed the question bank with the curated question set
+ */
+async function seedQuestionBank(): Promise<void> {
+  try {
+    const unknownTopics = [...new Set(CURATED_QUESTIONS.map(q => q.topic))]
+      .filter(topic => !curriculumService.getTopic(topic));
+    if (unknownTopics.length > 0) {
+      logger.warn(`Curated questions reference topics missing from the curriculum: ${unknownTopics.join(', ')}`);
+    }
+
+    const inserted = await RepositoryFactory.getQuestionRepository().seedQuestions(CURATED_QUESTIONS);
+    logger.info(`Question bank seeded (${inserted} new of ${CURATED_QUESTIONS.length} curated questions)`);
+  } catch (error) {
+    logger.error('Failed to seed question bank:', error);
+    // Don't throw - the assessment agent falls back to generated questions
+  }
+}
+
 /**
  * Gracefully shutdown all services
  */
@@ -78,6 +216,13 @@ export async function shutdownServices(): Promise<void> {
   try {
     logger.info('Shutting down services...');
 
+    // Stop agents before their Redis-backed context goes away
+    if (agentSystem) {
+      await agentSystem.stop();
+      agentSystem = null;
+      logger.info('Agent system stopped');
+    }
+
     // Disconnect from Redis
     await redisService.disconnect();
     logger.info('Redis connection closed');
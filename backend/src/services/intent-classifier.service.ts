@@ -0,0 +1,283 @@
+import { LLMService, createLLMService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { IntentClassification, LLMAttribution, StudentIntent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// In tie-break order: a student who is upset is answered as such, whatever else they asked
+const INTENTS: StudentIntent[] = [
+  'emotional',
+  'quiz_answer',
+  'practice_request',
+  'example_request',
+  'concept_question',
+  'off_topic'
+];
+
+// Exemplar similarity is scaled down so only a near-paraphrase clears the threshold on its own
+const EXEMPLAR_WEIGHT = 0.8;
+const RULE_SCORE = 0.9;
+
+export interface IntentClassifierConfig {
+  threshold: number; // rule tier confidence needed to skip the LLM tier
+  useLLM: boolean;
+}
+
+export interface IntentContext {
+  pendingQuestion?: string; // question the tutor's last message asked, if any
+  attribution?: LLMAttribution;
+}
+
+// High-precision patterns; a match scores RULE_SCORE for its intent
+const RULES: Partial<Record<StudentIntent, RegExp[]>> = {
+  example_request: [
+    /\b(?:give|show|need|want|have)\s+(?:me\s+|us\s+)?(?:an?|another|some|more|one)\s+(?:\w+\s+){0,2}examples?\b/i,
+    /\b(?:an?|another|some)\s+examples?\s+(?:of|for)\b/i,
+    /\bcan\s+you\s+(?:show|demonstrate)\b/i,
+    /\bwhat\s+(?:would|does)\s+(?:that|this|it)\s+look\s+like\b/i,
+    /\b(?:for\s+example|for\s+instance|such\s+as)\s*\?\s*$/i
+  ],
+  practice_request: [
+    /\b(?:quiz|test)\s+me\b/i,
+    /\bpractice\s+(?:questions?|problems?|exercises?)\b/i,
+    /\b(?:give|ask|send)\s+me\s+(?:a|an|another|some|more)\s+(?:\w+\s+)?(?:questions?|problems?|exercises?)\b/i,
+    /\bcheck\s+my\s+understanding\b/i,
+    /\b(?:can|could)\s+(?:i|we)\s+(?:do|have|take|try)\s+(?:a\s+)?(?:quiz|practice|test)\b/i
+  ],
+  quiz_answer: [
+    /^\s*(?:my|the)\s+answer\s+(?:is|would\s+be)\b/i,
+    /^\s*answer\s*:/i
+  ],
+  emotional: [
+    /\bi\s*(?:'m|am)\s+(?:so\s+|really\s+|very\s+|kind\s+of\s+|kinda\s+)?(?:stressed|anxious|frustrated|overwhelmed|sad|upset|scared|worried|nervous|bored|tired|lost)\b/i,
+    /\bi\s*(?:'m|am)\s+(?:so\s+|just\s+)?(?:stupid|dumb|bad\s+at|terrible\s+at|never\s+going\s+to\s+get)\b/i,
+    /\bi\s+(?:hate|can't\s+stand|cant\s+stand)\s+(?:this|math|maths|school|coding)\b/i,
+    /\bi\s+(?:give\s+up|can't\s+do\s+this|cant\s+do\s+this|feel\s+like\s+giving\s+up)\b/i
+  ],
+  off_topic: [
+    /\b(?:my|do\s+my|help\s+(?:me\s+)?with\s+my)\s+(?:history|english|spanish|french|chemistry|biology|geography)\s+(?:homework|essay|assignment)\b/i,
+    /\bwhat(?:'s|\s+is)\s+your\s+favou?rite\b/i,
+    /\btell\s+me\s+a\s+joke\b/i
+  ]
+};
+
+// Replies shaped like an answer count only while a question is waiting for one
+const ANSWER_SHAPES: RegExp[] = [
+  /^\s*\(?[a-e]\)?[.)]?\s*$/i,
+  /^\s*(?:true|false|yes|no)\s*[.!]?\s*$/i,
+  /^\s*-?\d+(?:[.,]\d+)?\s*%?\s*[.!]?\s*$/,
+  /^\s*(?:def|function|const|let|import|return)\b/
+];
+const HEDGED_ANSWER = /^\s*(?:i\s+think|i\s+guess|i\s+believe|maybe|probably|it(?:'s|\s+is)|because)\b/i;
+
+const QUESTION_OPENER = /^\s*(?:what|why|how|when|where|which|who|is|are|does|do|can|could|would|should|explain|define|describe)\b/i;
+
+// Typical phrasings per intent for the similarity tier
+const EXEMPLARS: Record<StudentIntent, string[]> = {
+  concept_question: [
+    'what is machine learning',
+    'how does a neural network learn',
+    'why do we split data into training and test sets',
+    'what is the difference between supervised and unsupervised learning',
+    'can you explain overfitting',
+    'i do not understand gradient descent'
+  ],
+  example_request: [
+    'give me an example',
+    'show me an example of classification',
+    'can you show me how that works in code',
+    'what is a real world example of clustering',
+    'i need an example to understand this'
+  ],
+  practice_request: [
+    'quiz me on this',
+    'give me a practice question',
+    'can i try a problem',
+    'test my understanding',
+    'i want to practice',
+    'ask me a question about regression'
+  ],
+  quiz_answer: [
+    'the answer is b',
+    'i think it is overfitting',
+    'my answer is the model memorized the training data',
+    'is it c'
+  ],
+  off_topic: [
+    'what is your favorite movie',
+    'who won the game last night',
+    'can you help me with my history essay',
+    'tell me a joke',
+    'what should i eat for lunch'
+  ],
+  emotional: [
+    'i am so stressed about this',
+    'this is too hard i give up',
+    'i feel stupid',
+    'i am bored',
+    'i am worried about my test',
+    'i will never understand this'
+  ]
+};
+
+type TermVector = Map<string, number>;
+
+/**
+ * Unigram and bigram counts of a message; a cheap bag-of-words embedding
+ */
+const embed = (text: string): TermVector => {
+  const words = text.toLowerCase().replace(/n't\b/g, ' not').match(/[a-z0-9]+/g) || [];
+  const vector: TermVector = new Map();
+  const add = (term: string) => vector.set(term, (vector.get(term) || 0) + 1);
+
+  words.forEach((word, index) => {
+    add(word);
+    if (index > 0) add(`${words[index - 1]} ${word}`);
+  });
+  return vector;
+};
+
+const cosine = (a: TermVector, b: TermVector): number => {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) || 0);
+  });
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+/**
+ * Labels what a student message asks for. A rule and exemplar-similarity tier decides confident
+ * cases for free; the LLM tier handles the rest and falls back to the rule tier's label on failure.
+ */
+export class IntentClassifierService {
+  private llmService: LLMService | null = null;
+  private readonly exemplars = new Map<StudentIntent, TermVector[]>(
+    INTENTS.map(intent => [intent, EXEMPLARS[intent].map(embed)])
+  );
+
+  constructor(
+    private readonly config: IntentClassifierConfig = {
+      threshold: parseFloat(process.env.INTENT_CONFIDENCE_THRESHOLD || '0.7'),
+      useLLM: process.env.INTENT_LLM_TIER !== 'false'
+    }
+  ) {}
+
+  /**
+   * Classify a message, asking the LLM only when the rule tier is unsure
+   */
+  async classify(text: string, context: IntentContext = {}): Promise<IntentClassification> {
+    const ruled = this.classifyWithRules(text, context);
+    if (ruled.confidence >= this.config.threshold || !this.config.useLLM) {
+      return ruled;
+    }
+
+    const llm = await this.classifyWithLLM(text, context);
+    return llm ?? ruled;
+  }
+
+  /**
+   * The cheap tier: high-precision patterns, similarity to exemplar phrasings and whether
+   * the tutor is waiting for an answer
+   */
+  classifyWithRules(text: string, context: Pick<IntentContext, 'pendingQuestion'> = {}): IntentClassification {
+    const vector = embed(text);
+    const scores: Partial<Record<StudentIntent, number>> = {};
+
+    for (const intent of INTENTS) {
+      const ruleScore = (RULES[intent] || []).some(rule => rule.test(text)) ? RULE_SCORE : 0;
+      const similarity = Math.max(0, ...this.exemplars.get(intent)!.map(exemplar => cosine(vector, exemplar)));
+      const score = Math.max(ruleScore, similarity * EXEMPLAR_WEIGHT);
+      if (score > 0) {
+        scores[intent] = round(score);
+      }
+    }
+
+    if (context.pendingQuestion) {
+      // An answer-shaped reply to a waiting question is an answer; other replies probably are too
+      const answerScore = ANSWER_SHAPES.some(shape => shape.test(text))
+        ? 0.95
+        : HEDGED_ANSWER.test(text) ? 0.75 : QUESTION_OPENER.test(text) ? 0.3 : 0.6;
+      scores.quiz_answer = Math.max(scores.quiz_answer || 0, answerScore);
+    } else {
+      delete scores.quiz_answer;
+    }
+
+    if (!scores.concept_question && QUESTION_OPENER.test(text) && text.trim().endsWith('?')) {
+      scores.concept_question = 0.5;
+    }
+
+    return this.pick(scores, 'rule');
+  }
+
+  /**
+   * The LLM tier. Returns null when the call fails or the reply can't be parsed.
+   */
+  private async classifyWithLLM(text: string, context: IntentContext): Promise<IntentClassification | null> {
+    try {
+      const systemPrompt = promptRegistry.render('coordinator.intent', {
+        pendingQuestion: context.pendingQuestion
+      });
+      const response = await this.getLLMService().generateCompletion({
+        systemPrompt: systemPrompt.text,
+        prompt: systemPrompt.prompt,
+        attribution: context.attribution || { agent: 'intent-classifier' },
+        messages: [{ role: 'user', content: text }],
+        temperature: 0,
+        maxTokens: 120
+      });
+
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (!parsed?.scores || typeof parsed.scores !== 'object') {
+        logger.warn('Intent classifier reply had no scores');
+        return null;
+      }
+
+      const scores: Partial<Record<StudentIntent, number>> = {};
+      for (const intent of INTENTS) {
+        const score = Number(parsed.scores[intent]);
+        if (Number.isFinite(score) && score > 0) {
+          scores[intent] = round(Math.min(1, score));
+        }
+      }
+      if (!context.pendingQuestion) {
+        delete scores.quiz_answer;
+      }
+
+      return Object.keys(scores).length > 0 ? this.pick(scores, 'llm') : null;
+    } catch (error) {
+      logger.warn('LLM intent classification failed, using rule tier:', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * The highest-scoring intent; a message with no signal at all is treated as a concept question
+   */
+  private pick(scores: Partial<Record<StudentIntent, number>>, method: IntentClassification['method']): IntentClassification {
+    let intent: StudentIntent = 'concept_question';
+    let confidence = 0;
+
+    for (const candidate of INTENTS) {
+      const score = scores[candidate] || 0;
+      if (score > confidence) {
+        intent = candidate;
+        confidence = score;
+      }
+    }
+
+    return { intent, confidence, scores, method };
+  }
+
+  private getLLMService(): LLMService {
+    if (!this.llmService) {
+      this.llmService = createLLMService();
+    }
+    return this.llmService;
+  }
+}
+
+export const intentClassifierService = new IntentClassifierService();
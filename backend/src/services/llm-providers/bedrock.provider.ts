@@ -0,0 +1,108 @@
+import { bedrockService, BedrockMessage, BedrockMessagesRequest } from '../bedrock.service.js';
+import type { LLMConfig, LLMRequest, LLMResponse, LLMStreamChunk } from '../llm.service.js';
+import { LLMProvider, LLMProviderName } from './llm-provider.js';
+
+/**
+ * LLM provider backed by the Anthropic messages API on AWS Bedrock
+ */
+export class BedrockLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'bedrock';
+
+  /**
+   * Generate completion using AWS Bedrock
+   */
+  async generateCompletion(request: LLMRequest, config: LLMConfig): Promise<LLMResponse> {
+    const response = await bedrockService.invokeMessages(this.buildMessagesRequest(request, config));
+
+    return {
+      content: response.content,
+      usage: {
+        promptTokens: response.tokensUsed.input,
+        completionTokens: response.tokensUsed.output,
+        totalTokens: response.tokensUsed.input + response.tokensUsed.output
+      },
+      model: config.model,
+      finishReason: response.stopReason
+    };
+  }
+
+  /**
+   * Stream completion using AWS Bedrock
+   */
+  async *streamCompletion(request: LLMRequest, config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
+    for await (const event of bedrockService.streamMessages(this.buildMessagesRequest(request, config))) {
+      if (!event.done) {
+        yield { content: event.delta, done: false, model: event.model };
+        continue;
+      }
+
+      const input = event.tokensUsed?.input || 0;
+      const output = event.tokensUsed?.output || 0;
+      yield {
+        content: '',
+        done: true,
+        model: event.model,
+        usage: {
+          promptTokens: input,
+          completionTokens: output,
+          totalTokens: input + output
+        },
+        finishReason: event.stopReason || 'stop'
+      };
+    }
+  }
+
+  /**
+   * Check Bedrock availability with a minimal request
+   */
+  async healthCheck(config: LLMConfig): Promise<boolean> {
+    await this.generateCompletion({
+      messages: [
+        { role: 'user', content: 'Hello, this is a health check.' }
+      ],
+      maxTokens: 10
+    }, config);
+    return true;
+  }
+
+  /**
+   * Convert an LLM request into a messages API request.
+   * System messages are folded into the system prompt, and consecutive turns from the
+   * same role are merged because the API expects alternating user/assistant turns.
+   */
+  private buildMessagesRequest(request: LLMRequest, config: LLMConfig): BedrockMessagesRequest {
+    const systemParts = request.systemPrompt ? [request.systemPrompt] : [];
+    const messages: BedrockMessage[] = [];
+
+    for (const message of request.messages) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+        continue;
+      }
+
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content += `\n\n${message.content}`;
+      } else {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    // The conversation must open with a user turn
+    while (messages.length > 0 && messages[0].role === 'assistant') {
+      messages.shift();
+    }
+
+    if (messages.length === 0) {
+      throw new Error('LLM request must contain at least one user message');
+    }
+
+    return {
+      modelId: config.model,
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages,
+      maxTokens: request.maxTokens ?? config.maxTokens,
+      temperature: request.temperature ?? config.temperature
+    };
+  }
+}
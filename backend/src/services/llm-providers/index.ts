@@ -0,0 +1,27 @@
+import type { LLMConfig } from '../llm.service.js';
+import { LLMProvider } from './llm-provider.js';
+import { BedrockLLMProvider } from './bedrock.provider.js';
+import { ScriptedLLMProvider } from './scripted.provider.js';
+
+export type { LLMProvider, LLMProviderName } from './llm-provider.js';
+export { BedrockLLMProvider } from './bedrock.provider.js';
+export { ScriptedLLMProvider, DEFAULT_LLM_FIXTURES } from './scripted.provider.js';
+export type { LLMFixture } from './scripted.provider.js';
+
+/**
+ * Create the provider selected by the LLM configuration
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'scripted':
+      return config.fixturesPath
+        ? ScriptedLLMProvider.fromFile(config.fixturesPath)
+        : new ScriptedLLMProvider();
+
+    case 'bedrock':
+      return new BedrockLLMProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,25 @@
+import type { LLMConfig, LLMRequest, LLMResponse, LLMStreamChunk } from '../llm.service.js';
+
+export type LLMProviderName = 'bedrock' | 'scripted';
+
+/**
+ * Backend that turns an LLM request into a completion
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Generate a completion for the request using the given model settings
+   */
+  generateCompletion(request: LLMRequest, config: LLMConfig): Promise<LLMResponse>;
+
+  /**
+   * Stream the completion as it is generated; the last chunk has done set and carries usage
+   */
+  streamCompletion(request: LLMRequest, config: LLMConfig): AsyncIterable<LLMStreamChunk>;
+
+  /**
+   * Check whether the provider can serve requests
+   */
+  healthCheck(config: LLMConfig): Promise<boolean>;
+}
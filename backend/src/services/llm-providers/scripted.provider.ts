@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import type { LLMConfig, LLMRequest, LLMResponse, LLMStreamChunk } from '../llm.service.js';
+import { LLMProvider, LLMProviderName } from './llm-provider.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * A canned completion returned when its pattern matches the request
+ */
+export interface LLMFixture {
+  /** Regular expression tested against the system prompt and messages */
+  pattern: string;
+  response: string;
+}
+
+/**
+ * Built-in fixtures so the agents can run offline without a fixture file
+ */
+export const DEFAULT_LLM_FIXTURES: LLMFixture[] = [
+  {
+    pattern: 'health check',
+    response: 'OK'
+  },
+  {
+    pattern: 'FORMAT YOUR RESPONSE AS JSON:[\\s\\S]*"question"',
+    response: JSON.stringify({
+      question: 'A music app suggests songs based on what you played before. What kind of learning is this?',
+      type: 'multiple_choice',
+      options: [
+        'Supervised learning from your listening history',
+        'Random guessing',
+        'A fixed list written by hand',
+        'The app does not use data'
+      ],
+      correctAnswer: 'Supervised learning from your listening history',
+      explanation: 'The app learns from examples of songs you liked to predict new ones you will enjoy.',
+      hints: [
+        'Think about what the app learns from',
+        'Your past choices act like labeled examples'
+      ],
+      concept: 'supervised learning',
+      timeEstimate: 90
+    })
+  }
+];
+
+/**
+ * Deterministic LLM provider that answers from fixtures, for offline runs and tests
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'scripted';
+  private fixtures: { pattern: RegExp; response: string }[];
+
+  constructor(fixtures: LLMFixture[] = DEFAULT_LLM_FIXTURES) {
+    this.fixtures = fixtures.map(fixture => ({
+      pattern: new RegExp(fixture.pattern, 'i'),
+      response: fixture.response
+    }));
+  }
+
+  /**
+   * Load fixtures from a JSON file, keeping the built-in ones as a fallback
+   */
+  static fromFile(path: string): ScriptedLLMProvider {
+    try {
+      const fixtures = JSON.parse(readFileSync(path, 'utf-8')) as LLMFixture[];
+      logger.info(`Loaded ${fixtures.length} LLM fixtures from ${path}`);
+      return new ScriptedLLMProvider([...fixtures, ...DEFAULT_LLM_FIXTURES]);
+    } catch (error) {
+      logger.error(`Failed to load LLM fixtures from ${path}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Return the first fixture matching the request, or a deterministic default reply
+   */
+  async generateCompletion(request: LLMRequest, config: LLMConfig): Promise<LLMResponse> {
+    const prompt = [
+      request.systemPrompt || '',
+      ...request.messages.map(message => message.content)
+    ].join('\n');
+
+    const fixture = this.fixtures.find(f => f.pattern.test(prompt));
+    const content = fixture ? fixture.response : this.createDefaultResponse(request);
+
+    const promptTokens = this.countTokens(prompt);
+    const completionTokens = this.countTokens(content);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      model: config.model,
+      finishReason: 'stop'
+    };
+  }
+
+  /**
+   * Stream the scripted completion word by word
+   */
+  async *streamCompletion(request: LLMRequest, config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.generateCompletion(request, config);
+    const words = response.content.match(/\S+\s*/g) || [];
+
+    for (const word of words) {
+      yield { content: word, done: false, model: response.model };
+    }
+
+    yield {
+      content: '',
+      done: true,
+      model: response.model,
+      usage: response.usage,
+      finishReason: response.finishReason
+    };
+  }
+
+  async healthCheck(config: LLMConfig): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Build a reply from the latest user message when no fixture matches
+   */
+  private createDefaultResponse(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+    const question = lastUserMessage?.content.trim() || 'your question';
+
+    return `Great question! Here is a short explanation about "${question}". ` +
+      'Machine learning lets computers find patterns in examples and use them to make predictions. ' +
+      'Try thinking of an everyday app that learns from what you do.';
+  }
+
+  /**
+   * Approximate token count by whitespace-separated words
+   */
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -1,16 +1,21 @@
-import { bedrockService } from './bedrock.service.js';
+import { LLMProvider, LLMProviderName, createLLMProvider } from './llm-providers/index.js';
+import { usageService } from './usage.service.js';
+import { LLMAttribution, PromptReference } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 export interface LLMConfig {
-  provider: 'bedrock';
+  provider: LLMProviderName;
   model: string;
   temperature: number;
   maxTokens: number;
+  fixturesPath?: string;
 }
 
 export interface LLMRequest {
   messages: LLMMessage[];
   systemPrompt?: string;
+  prompt?: PromptReference; // registry template the system prompt was rendered from
+  attribution?: LLMAttribution; // who the call is made for, for usage accounting and budgets
   temperature?: number;
   maxTokens?: number;
 }
@@ -31,60 +36,56 @@ export interface LLMResponse {
   finishReason: string;
 }
 
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  model?: string;
+  usage?: LLMResponse['usage'];
+  finishReason?: string;
+}
+
 export class LLMService {
   private config: LLMConfig;
+  private provider: LLMProvider;
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, provider?: LLMProvider) {
     this.config = config;
-    logger.info('LLM service initialized with Bedrock provider');
+    this.provider = provider || createLLMProvider(config);
+    logger.info(`LLM service initialized with ${this.provider.name} provider`);
   }
 
   /**
-   * Generate completion using AWS Bedrock
+   * Generate completion using the configured provider and record its token usage
    */
   async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse;
     try {
-      // Convert LLM request to Bedrock format
-      const prompt = this.buildPrompt(request);
-      
-      // Use Bedrock service for generation
-      const bedrockResponse = await bedrockService.generateMLResponse(prompt, 10);
-      
-      return {
-        content: bedrockResponse.message,
-        usage: {
-          promptTokens: bedrockResponse.tokensUsed.input,
-          completionTokens: bedrockResponse.tokensUsed.output,
-          totalTokens: bedrockResponse.tokensUsed.input + bedrockResponse.tokensUsed.output
-        },
-        model: bedrockResponse.model,
-        finishReason: 'stop'
-      };
+      response = await this.provider.generateCompletion(request, this.config);
     } catch (error) {
-      logger.error('LLM completion failed:', error);
+      logger.error(`LLM completion failed${this.describePrompt(request)}:`, error);
       throw error;
     }
+
+    await this.recordUsage(request, response.model, response.usage);
+    return response;
   }
 
   /**
-   * Build prompt from LLM request
+   * Stream completion chunks from the configured provider; usage is recorded from the last chunk
    */
-  private buildPrompt(request: LLMRequest): string {
-    let prompt = '';
-    
-    if (request.systemPrompt) {
-      prompt += `System: ${request.systemPrompt}\n\n`;
-    }
-    
-    for (const message of request.messages) {
-      if (message.role === 'user') {
-        prompt += `Human: ${message.content}\n\n`;
-      } else if (message.role === 'assistant') {
-        prompt += `Assistant: ${message.content}\n\n`;
+  async *streamCompletion(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    try {
+      for await (const chunk of this.provider.streamCompletion(request, this.config)) {
+        // Record before handing over the last chunk, as the caller may stop reading after it
+        if (chunk.done && chunk.usage) {
+          await this.recordUsage(request, chunk.model || this.config.model, chunk.usage);
+        }
+        yield chunk;
       }
+    } catch (error) {
+      logger.error(`LLM streaming failed${this.describePrompt(request)}:`, error);
+      throw error;
     }
-    
-    return prompt.trim();
   }
 
   /**
@@ -92,21 +93,20 @@ export class LLMService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const testRequest: LLMRequest = {
-        messages: [
-          { role: 'user', content: 'Hello, this is a health check.' }
-        ],
-        maxTokens: 10
-      };
-
-      await this.generateCompletion(testRequest);
-      return true;
+      return await this.provider.healthCheck(this.config);
     } catch (error) {
       logger.error('LLM health check failed:', error);
       return false;
     }
   }
 
+  /**
+   * Get the active provider name
+   */
+  getProviderName(): LLMProviderName {
+    return this.provider.name;
+  }
+
   /**
    * Get current configuration
    */
@@ -118,20 +118,43 @@ export class LLMService {
    * Update configuration
    */
   updateConfig(newConfig: Partial<LLMConfig>): void {
+    const providerChanged = newConfig.provider !== undefined && newConfig.provider !== this.config.provider;
     this.config = { ...this.config, ...newConfig };
+
+    if (providerChanged) {
+      this.provider = createLLMProvider(this.config);
+    }
+  }
+
+  private async recordUsage(request: LLMRequest, model: string, usage: LLMResponse['usage']): Promise<void> {
+    await usageService.recordUsage({
+      attribution: request.attribution,
+      model,
+      prompt: request.prompt,
+      ...usage
+    });
+  }
+
+  private describePrompt(request: LLMRequest): string {
+    return request.prompt ? ` for prompt ${request.prompt.id} v${request.prompt.version}` : '';
   }
 }
 
 /**
- * Create LLM service instance for Bedrock
+ * Create LLM service instance using the provider selected by LLM_PROVIDER
  */
 export function createLLMService(): LLMService {
+  const provider = (process.env.LLM_PROVIDER || 'bedrock') as LLMProviderName;
+
   const config: LLMConfig = {
-    provider: 'bedrock',
-    model: process.env.BEDROCK_BALANCED_MODEL || 'anthropic.claude-3-sonnet-20240229-v1:0',
+    provider,
+    model: provider === 'scripted'
+      ? 'scripted-fixture'
+      : process.env.BEDROCK_BALANCED_MODEL || 'anthropic.claude-3-sonnet-20240229-v1:0',
     temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
-    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '1000')
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '1000'),
+    fixturesPath: process.env.LLM_FIXTURES_PATH
   };
 
   return new LLMService(config);
-}
\ No newline at end of file
+}
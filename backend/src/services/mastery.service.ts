@@ -0,0 +1,404 @@
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { ConceptMastery, CurriculumTopicDefinition, StudentProgress, TopicProgress } from '../types/index.js';
+import { analyticsService } from './analytics.service.js';
+import { curriculumService } from './curriculum.service.js';
+import { logger } from '../utils/logger.js';
+
+// Each hint makes a correct answer more likely from a student who does not know the concept
+const HINT_GUESS_INCREMENT = 0.15;
+const MAX_GUESS = 0.9;
+// Tutor explanations raise the estimate slowly; only assessed answers can take it further
+const TUTOR_TRANSIT = 0.05;
+const TUTOR_CEILING = 0.6;
+const LEARNED_THRESHOLD = 0.8;
+const MASTERED_THRESHOLD = 0.95;
+const INTERMEDIATE_THRESHOLD = 0.5;
+const STRUGGLING_THRESHOLD = 0.3;
+const DEFAULT_DIFFICULTY = 5;
+
+export type MasteryLevel = TopicProgress['masteryLevel'];
+export type ProgressAction = 'started' | 'progressed' | 'completed' | 'struggled' | 'mastered';
+
+export interface BKTParameters {
+  pInit: number;
+  pTransit: number;
+  pSlip: number;
+  pGuess: number;
+}
+
+export const DEFAULT_BKT_PARAMETERS: BKTParameters = {
+  pInit: 0.2,
+  pTransit: 0.15,
+  pSlip: 0.1,
+  pGuess: 0.2
+};
+
+export interface AnswerObservation {
+  isCorrect: boolean;
+  hintsUsed: number;
+}
+
+export interface ConceptEstimate {
+  concept: string;
+  pKnown: number;
+  attempts: number;
+  correctAttempts: number;
+}
+
+export interface TopicMasterySummary {
+  completionPercentage: number;
+  masteryLevel: MasteryLevel;
+  conceptsLearned: string[];
+  strugglingConcepts: string[];
+}
+
+export interface TopicMasteryUpdate extends TopicMasterySummary {
+  topicId: string;
+  topicName: string;
+  actions: ProgressAction[];
+}
+
+export interface AssessmentEvidence {
+  concept: string;
+  topic?: string;
+  isCorrect: boolean;
+  hintsUsed: number;
+  timeSpent?: number;
+  difficulty?: number;
+  sessionId?: string;
+}
+
+export interface TutorTurnEvidence {
+  concepts: string[];
+  topic?: string; // the session's current topic; concepts with no curriculum match are tracked under it
+  sessionId: string;
+  timeSpent: number;
+  difficulty?: number;
+}
+
+interface ResolvedConcept {
+  concept: string;
+  topic: string;
+}
+
+interface TopicActivity {
+  sessionId: string;
+  timeSpent: number;
+  difficulty: number;
+  questionsAnswered: number;
+  correctAnswers: number;
+  hintsUsed: number;
+  struggledConcept?: string;
+}
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const normalizeConcept = (concept: string): string =>
+  concept.trim().toLowerCase().replace(/[-_\s]+/g, ' ');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether a concept label and a curriculum key term name the same thing, e.g. "algorithms" and "algorithm"
+ */
+const matchesKeyTerm = (concept: string, term: string): boolean =>
+  new RegExp(`\\b${escapeRegExp(term)}s?\\b`).test(concept) ||
+  new RegExp(`\\b${escapeRegExp(concept)}\\b`).test(term);
+
+/**
+ * Bayesian Knowledge Tracing: update the probability the concept is known from one graded answer,
+ * then apply the chance of learning it from the attempt. Hints count as extra guessing.
+ */
+export function updateKnowledge(
+  pKnown: number,
+  observation: AnswerObservation,
+  params: BKTParameters = DEFAULT_BKT_PARAMETERS
+): number {
+  const pGuess = Math.min(MAX_GUESS, params.pGuess + Math.max(0, observation.hintsUsed) * HINT_GUESS_INCREMENT);
+
+  const posterior = observation.isCorrect
+    ? (pKnown * (1 - params.pSlip)) / (pKnown * (1 - params.pSlip) + (1 - pKnown) * pGuess)
+    : (pKnown * params.pSlip) / (pKnown * params.pSlip + (1 - pKnown) * (1 - pGuess));
+
+  return round(posterior + (1 - posterior) * params.pTransit);
+}
+
+/**
+ * A tutor turn covering the concept is a learning opportunity without an observation
+ */
+export function applyTutorExposure(pKnown: number): number {
+  if (pKnown >= TUTOR_CEILING) return pKnown;
+  return round(Math.min(TUTOR_CEILING, pKnown + (1 - pKnown) * TUTOR_TRANSIT));
+}
+
+/**
+ * Roll concept estimates up into topic progress. Completion reaches 100% once every
+ * concept is learned; the topic is advanced once every concept is mastered.
+ */
+export function summarizeTopic(concepts: ConceptEstimate[]): TopicMasterySummary {
+  if (concepts.length === 0) {
+    return { completionPercentage: 0, masteryLevel: 'beginner', conceptsLearned: [], strugglingConcepts: [] };
+  }
+
+  const completion = concepts.reduce((sum, c) => sum + Math.min(1, c.pKnown / LEARNED_THRESHOLD), 0) / concepts.length;
+  const meanKnown = concepts.reduce((sum, c) => sum + c.pKnown, 0) / concepts.length;
+
+  let masteryLevel: MasteryLevel = 'beginner';
+  if (concepts.every(c => c.pKnown >= MASTERED_THRESHOLD)) {
+    masteryLevel = 'advanced';
+  } else if (meanKnown >= INTERMEDIATE_THRESHOLD) {
+    masteryLevel = 'intermediate';
+  }
+
+  return {
+    completionPercentage: Math.round(completion * 100),
+    masteryLevel,
+    conceptsLearned: concepts.filter(c => c.pKnown >= LEARNED_THRESHOLD).map(c => c.concept),
+    strugglingConcepts: concepts
+      .filter(c => c.attempts > c.correctAttempts && c.pKnown < STRUGGLING_THRESHOLD)
+      .map(c => c.concept)
+  };
+}
+
+/**
+ * Per-student, per-concept mastery estimated from assessment answers, hint usage and
+ * the concepts covered in tutor turns. Drives the student's topic progress and the
+ * completed/mastered progress events that award achievements.
+ */
+export class MasteryService {
+  constructor(private readonly params: BKTParameters = DEFAULT_BKT_PARAMETERS) {}
+
+  /**
+   * Update the answered concept from a graded answer and roll up its topic
+   */
+  async recordAssessment(userId: string, evidence: AssessmentEvidence): Promise<TopicMasteryUpdate[]> {
+    const repository = RepositoryFactory.getConceptMasteryRepository();
+    const target = this.resolveConcept(evidence.concept, evidence.topic);
+    const [existing] = await repository.findByConcepts(userId, [target.concept]);
+
+    const pKnown = updateKnowledge(
+      existing?.pKnown ?? this.params.pInit,
+      { isCorrect: evidence.isCorrect, hintsUsed: evidence.hintsUsed },
+      this.params
+    );
+
+    const mastery = await repository.saveMastery(userId, target.concept, {
+      topic: existing?.topic || target.topic,
+      pKnown,
+      attempts: (existing?.attempts || 0) + 1,
+      correctAttempts: (existing?.correctAttempts || 0) + (evidence.isCorrect ? 1 : 0),
+      hintsUsed: (existing?.hintsUsed || 0) + evidence.hintsUsed,
+      exposures: existing?.exposures || 0,
+      lastEvidence: 'assessment',
+      lastEvidenceAt: new Date()
+    });
+
+    logger.info(`Updated mastery of "${mastery.concept}" for user ${userId}`, {
+      pKnown,
+      isCorrect: evidence.isCorrect,
+      hintsUsed: evidence.hintsUsed
+    });
+
+    return this.rollUpTopics(userId, [mastery.topic], {
+      sessionId: evidence.sessionId || `user_${userId}`,
+      timeSpent: evidence.timeSpent || 0,
+      difficulty: evidence.difficulty || DEFAULT_DIFFICULTY,
+      questionsAnswered: 1,
+      correctAnswers: evidence.isCorrect ? 1 : 0,
+      hintsUsed: evidence.hintsUsed,
+      struggledConcept: !evidence.isCorrect && pKnown < STRUGGLING_THRESHOLD ? mastery.concept : undefined
+    });
+  }
+
+  /**
+   * Count a tutor turn as exposure to each concept it covered and roll up their topics
+   */
+  async recordTutorTurn(userId: string, evidence: TutorTurnEvidence): Promise<TopicMasteryUpdate[]> {
+    // Unmatched labels need a curriculum topic to go under, or they would start a topic of their own
+    const topic = evidence.topic && curriculumService.getTopic(evidence.topic) ? evidence.topic : undefined;
+    const targets = new Map<string, ResolvedConcept>();
+    for (const concept of evidence.concepts.filter(c => c.trim())) {
+      const resolved = this.matchConcept(concept) || (topic ? this.resolveConcept(concept, topic) : null);
+      if (resolved) {
+        targets.set(resolved.concept, resolved);
+      }
+    }
+    if (targets.size === 0) return [];
+
+    const repository = RepositoryFactory.getConceptMasteryRepository();
+    const existing = new Map(
+      (await repository.findByConcepts(userId, [...targets.keys()])).map(m => [m.concept, m])
+    );
+
+    const topics = new Set<string>();
+    for (const target of targets.values()) {
+      const current = existing.get(target.concept);
+      const saved = await repository.saveMastery(userId, target.concept, {
+        topic: current?.topic || target.topic,
+        pKnown: applyTutorExposure(current?.pKnown ?? this.params.pInit),
+        attempts: current?.attempts || 0,
+        correctAttempts: current?.correctAttempts || 0,
+        hintsUsed: current?.hintsUsed || 0,
+        exposures: (current?.exposures || 0) + 1,
+        lastEvidence: 'tutor',
+        lastEvidenceAt: new Date()
+      });
+      topics.add(saved.topic);
+    }
+
+    return this.rollUpTopics(userId, [...topics], {
+      sessionId: evidence.sessionId,
+      // Split the turn's time across the topics it touched
+      timeSpent: Math.round(evidence.timeSpent / topics.size),
+      difficulty: evidence.difficulty || DEFAULT_DIFFICULTY,
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      hintsUsed: 0
+    });
+  }
+
+  /**
+   * The student's concept estimates, optionally for one topic
+   */
+  async getMastery(userId: string, topicId?: string): Promise<ConceptMastery[]> {
+    return RepositoryFactory.getConceptMasteryRepository().findByUser(userId, topicId);
+  }
+
+  /**
+   * Recompute each topic's progress from its concepts and emit the progress events
+   * for thresholds the student just crossed
+   */
+  private async rollUpTopics(userId: string, topicIds: string[], activity: TopicActivity): Promise<TopicMasteryUpdate[]> {
+    const progressRepository = RepositoryFactory.getProgressRepository();
+    const progress: StudentProgress = await progressRepository.findByUserId(userId)
+      ?? await progressRepository.createProgress({ userId });
+
+    const updates: TopicMasteryUpdate[] = [];
+    for (const topicId of topicIds) {
+      const curriculumTopic = curriculumService.getTopic(topicId);
+      const topicName = curriculumTopic?.name || topicId;
+      const summary = summarizeTopic(await this.collectEstimates(userId, topicId, curriculumTopic));
+      const previous = progress.topicsCompleted.find(t => t.topicId === topicId);
+
+      await progressRepository.updateTopicProgress(userId, {
+        topicId,
+        topicName,
+        completionPercentage: summary.completionPercentage,
+        masteryLevel: summary.masteryLevel,
+        timeSpent: (previous?.timeSpent || 0) + activity.timeSpent,
+        conceptsLearned: summary.conceptsLearned,
+        strugglingConcepts: summary.strugglingConcepts
+      });
+
+      const actions = this.detectActions(previous, summary, activity);
+      for (const action of actions) {
+        await analyticsService.trackProgress({
+          userId,
+          sessionId: activity.sessionId,
+          topicId,
+          topicName,
+          action,
+          progressPercentage: summary.completionPercentage,
+          timeSpent: activity.timeSpent,
+          difficultyLevel: activity.difficulty,
+          masteryLevel: summary.masteryLevel,
+          metadata: {
+            questionsAnswered: activity.questionsAnswered,
+            correctAnswers: activity.correctAnswers,
+            hintsUsed: activity.hintsUsed,
+            conceptsUnderstood: summary.conceptsLearned,
+            ...(action === 'struggled' && { strugglingConcepts: summary.strugglingConcepts })
+          }
+        });
+      }
+
+      updates.push({ topicId, topicName, ...summary, actions });
+    }
+
+    return updates;
+  }
+
+  /**
+   * Every curriculum concept in the topic counts, untouched ones as unknown,
+   * plus any other concepts the student was assessed on under that topic
+   */
+  private async collectEstimates(
+    userId: string,
+    topicId: string,
+    curriculumTopic: CurriculumTopicDefinition | null
+  ): Promise<ConceptEstimate[]> {
+    const tracked = new Map(
+      (await RepositoryFactory.getConceptMasteryRepository().findByUser(userId, topicId)).map(m => [m.concept, m])
+    );
+
+    const estimates: ConceptEstimate[] = (curriculumTopic?.concepts || []).map(concept => {
+      const name = normalizeConcept(concept.name);
+      const mastery = tracked.get(name);
+      tracked.delete(name);
+      return {
+        concept: name,
+        pKnown: mastery?.pKnown ?? 0,
+        attempts: mastery?.attempts ?? 0,
+        correctAttempts: mastery?.correctAttempts ?? 0
+      };
+    });
+
+    return [...estimates, ...[...tracked.values()].map(({ concept, pKnown, attempts, correctAttempts }) => ({
+      concept,
+      pKnown,
+      attempts,
+      correctAttempts
+    }))];
+  }
+
+  private detectActions(
+    previous: TopicProgress | undefined,
+    summary: TopicMasterySummary,
+    activity: TopicActivity
+  ): ProgressAction[] {
+    const actions: ProgressAction[] = [];
+
+    if (summary.completionPercentage >= 100 && (previous?.completionPercentage ?? 0) < 100) {
+      actions.push('completed');
+    }
+    if (summary.masteryLevel === 'advanced' && previous?.masteryLevel !== 'advanced') {
+      actions.push('mastered');
+    }
+    if (actions.length > 0) return actions;
+
+    if (activity.struggledConcept && summary.strugglingConcepts.includes(activity.struggledConcept)) {
+      return ['struggled'];
+    }
+    return [previous ? 'progressed' : 'started'];
+  }
+
+  /**
+   * Map a concept label from a question or tutor turn to a curriculum concept.
+   * Labels with no curriculum match are tracked as their own concept under the given topic.
+   */
+  private resolveConcept(concept: string, topicId?: string): ResolvedConcept {
+    const label = normalizeConcept(concept);
+    return this.matchConcept(concept, topicId) || { concept: label, topic: topicId || label };
+  }
+
+  /**
+   * Find the curriculum concept a label names, by name or key term, optionally within one topic
+   */
+  private matchConcept(concept: string, topicId?: string): ResolvedConcept | null {
+    const label = normalizeConcept(concept);
+    const topics = curriculumService.getTopics().filter(topic => !topicId || topic.id === topicId);
+
+    const candidates = topics.flatMap(topic => topic.concepts.map(c => ({ topic: topic.id, definition: c })));
+    const match =
+      candidates.find(({ definition }) =>
+        normalizeConcept(definition.name) === label || normalizeConcept(definition.id) === label
+      ) ||
+      candidates.find(({ definition }) =>
+        definition.keyTerms.some(term => matchesKeyTerm(label, normalizeConcept(term)))
+      );
+
+    return match ? { concept: normalizeConcept(match.definition.name), topic: match.topic } : null;
+  }
+}
+
+export const masteryService = new MasteryService();
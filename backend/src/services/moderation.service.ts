@@ -0,0 +1,346 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import {
+  ModerationAction,
+  ModerationCategory,
+  ModerationDirection,
+  ModerationEvent,
+  ModerationFinding
+} from '../types/index.js';
+import { findPersonalData, redactPersonalData } from '../utils/pii.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_POLICY_PATH = 'moderation/policy.json';
+const CATEGORIES: ModerationCategory[] = ['self_harm', 'harassment', 'personal_data'];
+const ACTIONS: ModerationAction[] = ['allow', 'rewrite', 'block', 'escalate'];
+const DEFAULT_OUTPUT_RESPONSE = "I can't share that answer. Let's get back to machine learning - what would you like to look at next?";
+const MASK = '***';
+
+// Most to least severe; the most severe triggered action decides what happens to the text
+const SEVERITY: ModerationAction[] = ['escalate', 'block', 'rewrite', 'allow'];
+
+export interface ModerationCategoryPolicy {
+  input: ModerationAction;
+  output: ModerationAction;
+  classifierThreshold?: number; // classifier score that counts as a finding; rule matches always count
+  response: string; // shown instead of a blocked or escalated student message
+}
+
+export interface ModerationPolicy {
+  version: string;
+  categories: Record<ModerationCategory, ModerationCategoryPolicy>;
+  outputResponse?: string; // shown instead of a blocked tutor answer
+  excerptLength: number;
+}
+
+export interface ModerationContext {
+  userId: string;
+  sessionId?: string;
+  messageId?: string;
+}
+
+export interface ModerationResult {
+  action: ModerationAction;
+  text: string; // the text to use: unchanged, rewritten, or the policy response
+  findings: ModerationFinding[];
+}
+
+export class ModerationPolicyError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'ModerationPolicyError';
+  }
+}
+
+/**
+ * Scores text per category. The lexicon classifier below can be swapped for a model-backed one.
+ */
+export interface ModerationClassifier {
+  classify(text: string): Partial<Record<ModerationCategory, number>>;
+}
+
+// High-precision patterns; a match is a finding regardless of classifier thresholds
+const RULES: Partial<Record<ModerationCategory, RegExp[]>> = {
+  self_harm: [
+    /\b(?:kill|hurt|harm|cut|cutting|starve)\s+myself\b/i,
+    /\bsuicid(?:e|al)\b/i,
+    /\bself[-\s]?harm/i,
+    /\b(?:want|wanna|going|planning)\s+(?:to\s+)?die\b/i,
+    /\bend\s+(?:my\s+life|it\s+all)\b/i,
+    /\bno\s+reason\s+to\s+(?:live|be\s+alive)\b/i
+  ],
+  harassment: [
+    /\b(?:you(?:'re|\s+are)|ur|u\s+r)\s+(?:(?:so|such|a|an|really|the|most)\s+)*(?:stupid|dumb|idiot|moron|loser|ugly|worthless|pathetic|useless|fat|freak)\b/i,
+    /\bkill\s+yourself\b|\bkys\b/i,
+    /\bnobody\s+(?:likes|wants|cares\s+about)\s+you\b/i,
+    /\bgo\s+die\b/i
+  ]
+};
+
+// Weighted terms combined with a noisy-OR, so several weak signals add up to a finding
+const LEXICON: Partial<Record<ModerationCategory, Array<[string, number]>>> = {
+  self_harm: [
+    ['hopeless', 0.35], ['worthless', 0.35], ['hate myself', 0.45], ['better off without me', 0.7],
+    ['nobody would care', 0.45], ['nobody cares', 0.3], ["can't go on", 0.5], ['cant go on', 0.5],
+    ['disappear', 0.2], ['give up on everything', 0.5], ['no point', 0.25], ['alone', 0.1],
+    ['pills', 0.25], ['want to die', 0.9], ['hurt myself', 0.9]
+  ],
+  harassment: [
+    ['idiot', 0.5], ['stupid', 0.35], ['dumb', 0.35], ['moron', 0.6], ['loser', 0.5], ['ugly', 0.35],
+    ['shut up', 0.4], ['hate you', 0.6], ['freak', 0.45], ['pathetic', 0.45], ['you suck', 0.5],
+    ['nobody likes you', 0.7]
+  ]
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi');
+
+export class LexiconClassifier implements ModerationClassifier {
+  private readonly lexicon = new Map<ModerationCategory, Array<{ pattern: RegExp; weight: number }>>(
+    (Object.entries(LEXICON) as Array<[ModerationCategory, Array<[string, number]>]>).map(([category, terms]) => [
+      category,
+      terms.map(([term, weight]) => ({ pattern: termPattern(term), weight }))
+    ])
+  );
+
+  classify(text: string): Partial<Record<ModerationCategory, number>> {
+    const scores: Partial<Record<ModerationCategory, number>> = {};
+
+    this.lexicon.forEach((terms, category) => {
+      const miss = terms
+        .filter(({ pattern }) => text.match(pattern))
+        .reduce((product, { weight }) => product * (1 - weight), 1);
+      if (miss < 1) {
+        scores[category] = Math.round((1 - miss) * 100) / 100;
+      }
+    });
+
+    return scores;
+  }
+}
+
+/**
+ * Check a parsed moderation policy file
+ */
+export function validateModerationPolicy(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Moderation policy file must contain a JSON object'];
+  }
+
+  if (typeof data.version !== 'string' || data.version.trim().length === 0) {
+    errors.push('version is required');
+  }
+  if (typeof data.excerptLength !== 'number' || data.excerptLength < 0) {
+    errors.push('excerptLength must be a non-negative number');
+  }
+  if (data.outputResponse !== undefined && typeof data.outputResponse !== 'string') {
+    errors.push('outputResponse must be a string');
+  }
+
+  if (!data.categories || typeof data.categories !== 'object') {
+    errors.push('categories is required');
+    return errors;
+  }
+
+  for (const category of CATEGORIES) {
+    const policy = data.categories[category];
+    if (!policy || typeof policy !== 'object') {
+      errors.push(`categories.${category} is required`);
+      continue;
+    }
+
+    for (const direction of ['input', 'output'] as ModerationDirection[]) {
+      if (!ACTIONS.includes(policy[direction])) {
+        errors.push(`categories.${category}.${direction} must be one of ${ACTIONS.join(', ')}`);
+      }
+    }
+    if (policy.output === 'escalate') {
+      errors.push(`categories.${category}.output cannot escalate; tutor answers are blocked or rewritten`);
+    }
+    if (policy.classifierThreshold !== undefined &&
+      (typeof policy.classifierThreshold !== 'number' || policy.classifierThreshold <= 0 || policy.classifierThreshold > 1)) {
+      errors.push(`categories.${category}.classifierThreshold must be between 0 and 1`);
+    }
+    if (typeof policy.response !== 'string' || policy.response.trim().length === 0) {
+      errors.push(`categories.${category}.response is required`);
+    }
+  }
+
+  Object.keys(data.categories)
+    .filter(category => !CATEGORIES.includes(category as ModerationCategory))
+    .forEach(category => errors.push(`categories.${category} is not a known category`));
+
+  return errors;
+}
+
+/**
+ * Screens student messages and tutor answers for self-harm, harassment and personal data,
+ * applies the configured policy and records every intervention in the audit log
+ */
+export class ModerationService {
+  private policy: ModerationPolicy | null = null;
+
+  constructor(
+    private readonly filePath: string = process.env.MODERATION_POLICY_PATH || DEFAULT_POLICY_PATH,
+    private readonly classifier: ModerationClassifier = new LexiconClassifier()
+  ) {}
+
+  /**
+   * Read and validate the policy file. Throws if the file is invalid.
+   */
+  load(): ModerationPolicy {
+    const path = resolve(process.cwd(), this.filePath);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new ModerationPolicyError(`Failed to read moderation policy from ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateModerationPolicy(data);
+    if (errors.length > 0) {
+      throw new ModerationPolicyError(`Invalid moderation policy in ${path}`, errors);
+    }
+
+    this.policy = data as ModerationPolicy;
+    logger.info(`Loaded moderation policy v${this.policy.version}`);
+    return this.policy;
+  }
+
+  /**
+   * Get the loaded policy, loading it on first use
+   */
+  getPolicy(): ModerationPolicy {
+    return this.policy ?? this.load();
+  }
+
+  /**
+   * Apply the policy to a piece of text without recording anything
+   */
+  check(text: string, direction: ModerationDirection): ModerationResult {
+    const policy = this.getPolicy();
+    const findings = this.detect(text, policy);
+    if (findings.length === 0) {
+      return { action: 'allow', text, findings };
+    }
+
+    const actionFor = (finding: ModerationFinding) => policy.categories[finding.category][direction];
+    const triggered = findings.filter(finding => actionFor(finding) !== 'allow');
+    if (triggered.length === 0) {
+      return { action: 'allow', text, findings };
+    }
+
+    const action = SEVERITY.find(candidate => triggered.some(finding => actionFor(finding) === candidate))!;
+
+    if (action === 'rewrite') {
+      return { action, text: this.rewrite(text, triggered.map(finding => finding.category)), findings: triggered };
+    }
+
+    const response = direction === 'output'
+      ? policy.outputResponse || DEFAULT_OUTPUT_RESPONSE
+      : policy.categories[triggered.find(finding => actionFor(finding) === action)!.category].response;
+    return { action, text: response, findings: triggered };
+  }
+
+  /**
+   * Apply the policy and log the intervention, if any. Audit failures are logged but never
+   * let flagged text through: the result is returned either way.
+   */
+  async moderate(text: string, direction: ModerationDirection, context: ModerationContext): Promise<ModerationResult> {
+    const result = this.check(text, direction);
+    if (result.action === 'allow') {
+      return result;
+    }
+
+    const policy = this.getPolicy();
+    try {
+      await RepositoryFactory.getModerationEventRepository().logEvent({
+        userId: context.userId,
+        sessionId: context.sessionId,
+        messageId: context.messageId,
+        direction,
+        action: result.action,
+        findings: result.findings,
+        excerpt: redactPersonalData(text).slice(0, policy.excerptLength),
+        policyVersion: policy.version,
+        status: result.action === 'escalate' ? 'open' : 'closed'
+      });
+    } catch (error) {
+      logger.error(`Failed to record moderation event for user ${context.userId}:`, error);
+    }
+
+    logger.info(`Moderation ${result.action} on ${direction} for user ${context.userId}: ${result.findings.map(f => f.category).join(', ')}`);
+    return result;
+  }
+
+  /**
+   * Moderation events for a set of students, newest first
+   */
+  async getEvents(userIds: string[], status?: ModerationEvent['status'], limit?: number): Promise<ModerationEvent[]> {
+    if (userIds.length === 0) return [];
+    return RepositoryFactory.getModerationEventRepository().findEventsByUsers(userIds, status, limit);
+  }
+
+  /**
+   * Mark an escalation as reviewed. Returns null if the event is not one of the given students'.
+   */
+  async reviewEscalation(eventId: string, reviewerId: string, userIds: string[], note?: string): Promise<ModerationEvent | null> {
+    const repository = RepositoryFactory.getModerationEventRepository();
+    const event = await repository.findEventById(eventId);
+    if (!event || !userIds.includes(event.userId)) {
+      return null;
+    }
+
+    return repository.markReviewed(eventId, reviewerId, note);
+  }
+
+  private detect(text: string, policy: ModerationPolicy): ModerationFinding[] {
+    const scores = this.classifier.classify(text);
+    const findings: ModerationFinding[] = [];
+
+    for (const category of CATEGORIES) {
+      const ruleMatched = category === 'personal_data'
+        ? findPersonalData(text).length > 0
+        : (RULES[category] || []).some(rule => rule.test(text));
+
+      if (ruleMatched) {
+        findings.push({ category, score: 1, method: 'rule' });
+        continue;
+      }
+
+      const score = scores[category];
+      const threshold = policy.categories[category].classifierThreshold;
+      if (score !== undefined && threshold !== undefined && score >= threshold) {
+        findings.push({ category, score, method: 'classifier' });
+      }
+    }
+
+    return findings;
+  }
+
+  private rewrite(text: string, categories: ModerationCategory[]): string {
+    let rewritten = text;
+
+    for (const category of categories) {
+      if (category === 'personal_data') {
+        rewritten = redactPersonalData(rewritten);
+        continue;
+      }
+      for (const rule of RULES[category] || []) {
+        rewritten = rewritten.replace(new RegExp(rule.source, 'gi'), MASK);
+      }
+      for (const [term] of LEXICON[category] || []) {
+        rewritten = rewritten.replace(termPattern(term), MASK);
+      }
+    }
+
+    return rewritten;
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -0,0 +1,361 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { PromptReference } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_PROMPTS_PATH = 'prompts';
+const TEMPLATE_EXTENSION = '.prompt';
+const VARIABLE_TYPES = ['string', 'number', 'boolean', 'list'] as const;
+const ID_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+// {{name}} inserts a value; {{#name}}...{{/name}} keeps the block when the value is set, {{^name}} when it is not
+const TAG_PATTERN = /\{\{([#^/]?)(\w+)\}\}/g;
+const BLOCK_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+// A block tag alone on its line takes the line break with it
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{[#^/]\w+\}\})[ \t]*\r?\n/gm;
+
+export type PromptVariableType = typeof VARIABLE_TYPES[number];
+
+export interface PromptVariableDefinition {
+  name: string;
+  type: PromptVariableType;
+  required: boolean;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  variables: PromptVariableDefinition[];
+  body: string;
+  file: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  prompt: PromptReference;
+}
+
+/**
+ * Variables each template takes. Keep in step with the declarations in the template files;
+ * rendering checks the values against those declarations as well.
+ */
+export interface PromptVariables {
+  'tutor.system': {
+    maxExplanationLength: number;
+    currentTopic?: string;
+    studentLevel?: string;
+    learningPace?: string;
+    strugglingAreas?: string[];
+    previousConcepts?: string[];
+    conversationSummary?: string;
+    isConfused: boolean;
+    needsExample: boolean;
+    needsMath: boolean;
+    concepts: string[];
+  };
+  'tutor.socratic': {
+    question: string;
+    step: number;
+    attempts: number;
+    opening: boolean;
+    finalAttempt: boolean;
+    revealedEarly?: boolean;
+    currentTopic?: string;
+    studentLevel?: string;
+    conversationSummary?: string;
+  };
+  'content.explanation': {
+    topic: string;
+    studentLevel: string;
+    learningPace: string;
+    difficulty: number;
+    includeExamples: boolean;
+    focusConcepts?: string[];
+  };
+  'content.example': {
+    topic: string;
+    preferredExamples: string[];
+  };
+  'content.exercise': {
+    topic: string;
+    timeAvailable: number;
+  };
+  'content.adaptive': {
+    topic: string;
+    recommendedDifficulty: number;
+    preferredStyle: string;
+    strugglingConcepts: string[];
+    learningPace: string;
+  };
+  'assessment.question-generation': {
+    questionType: string;
+    studentLevel: string;
+    topic: string;
+    concepts: string[];
+    difficulty?: number;
+  };
+  'assessment.answer-evaluation': {
+    question: string;
+    correctAnswer: string;
+    rubric: string;
+    studentAnswer: string;
+  };
+  'assessment.hints': {
+    question: string;
+    correctAnswer: string;
+    explanation: string;
+    concept: string;
+  };
+  'conversation.summary': Record<string, never>;
+  'coordinator.intent': {
+    pendingQuestion?: string;
+  };
+  'coordinator.synthesis': {
+    hasExample: boolean;
+    hasCheck: boolean;
+  };
+  'bedrock.ml-response': {
+    question: string;
+    isNinthGrade: boolean;
+  };
+}
+
+export type PromptId = keyof PromptVariables;
+
+type PromptValue = string | number | boolean | string[] | undefined | null;
+
+export class PromptError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'PromptError';
+  }
+}
+
+const isSet = (value: PromptValue): boolean =>
+  value !== undefined && value !== null && value !== false && value !== '' &&
+  !(Array.isArray(value) && value.length === 0);
+
+const matchesType = (value: PromptValue, type: PromptVariableType): boolean => {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'list': return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+};
+
+/**
+ * Parse a template file: "key: value" header lines, a "---" line, then the template body
+ */
+export function parsePromptTemplate(source: string, file: string): PromptTemplate {
+  const errors: string[] = [];
+  const separator = source.search(/^---[ \t]*$/m);
+  if (separator < 0) {
+    throw new PromptError(`Invalid prompt template ${file}`, ['missing "---" line between header and template']);
+  }
+
+  const header = new Map<string, string>();
+  source.slice(0, separator).split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*([a-zA-Z]+)\s*:\s*(.*?)\s*$/);
+    if (match) header.set(match[1], match[2]);
+    else if (line.trim()) errors.push(`unreadable header line "${line.trim()}"`);
+  });
+  const body = source.slice(separator).replace(/^---[ \t]*\r?\n?/, '').trim();
+
+  const id = header.get('id') || '';
+  if (!ID_PATTERN.test(id)) errors.push('id must be dot-separated lowercase names, e.g. tutor.system');
+
+  const version = Number(header.get('version'));
+  if (!Number.isInteger(version) || version < 1) errors.push('version must be a positive integer');
+
+  const description = header.get('description') || '';
+  if (!description) errors.push('description is required');
+
+  const variables: PromptVariableDefinition[] = [];
+  (header.get('variables') || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const match = entry.match(/^(\w+)(\?)?\s*:\s*(\w+)$/);
+    if (!match || !VARIABLE_TYPES.includes(match[3] as PromptVariableType)) {
+      errors.push(`variable "${entry}" must look like name:type or name?:type with type ${VARIABLE_TYPES.join(', ')}`);
+      return;
+    }
+    if (variables.some(variable => variable.name === match[1])) errors.push(`variable "${match[1]}" is declared twice`);
+    variables.push({ name: match[1], type: match[3] as PromptVariableType, required: !match[2] });
+  });
+
+  if (!body) errors.push('template body is empty');
+
+  const declared = new Set(variables.map(variable => variable.name));
+  const used = new Set<string>();
+  const openBlocks = new Map<string, number>();
+  for (const [, kind, name] of body.matchAll(TAG_PATTERN)) {
+    used.add(name);
+    if (kind === '#' || kind === '^') openBlocks.set(name, (openBlocks.get(name) || 0) + 1);
+    if (kind === '/') openBlocks.set(name, (openBlocks.get(name) || 0) - 1);
+  }
+  used.forEach(name => {
+    if (!declared.has(name)) errors.push(`template uses undeclared variable "${name}"`);
+  });
+  declared.forEach(name => {
+    if (!used.has(name)) errors.push(`variable "${name}" is declared but never used`);
+  });
+  openBlocks.forEach((open, name) => {
+    if (open !== 0) errors.push(`block "${name}" is not closed`);
+  });
+
+  if (errors.length > 0) {
+    throw new PromptError(`Invalid prompt template ${file}`, errors);
+  }
+
+  return { id, version, description, variables, body, file };
+}
+
+/**
+ * Fill a template with values, checking them against its declared variables
+ */
+export function renderTemplate(template: PromptTemplate, values: Record<string, PromptValue>): string {
+  const errors: string[] = [];
+  for (const variable of template.variables) {
+    const value = values[variable.name];
+    if (value === undefined || value === null) {
+      if (variable.required) errors.push(`missing required variable "${variable.name}"`);
+    } else if (!matchesType(value, variable.type)) {
+      errors.push(`variable "${variable.name}" must be a ${variable.type}`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new PromptError(`Cannot render prompt ${template.id} v${template.version}`, errors);
+  }
+
+  let text = template.body.replace(STANDALONE_TAG_PATTERN, '$1');
+
+  // Blocks may be nested, so expand until none are left
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(BLOCK_PATTERN, (_, kind: string, name: string, content: string) =>
+      (kind === '#') === isSet(values[name]) ? content : ''
+    );
+  } while (text !== previous);
+
+  return text
+    .replace(TAG_PATTERN, (_, _kind: string, name: string) => {
+      const value = values[name];
+      if (value === undefined || value === null) return '';
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parse pinned versions from "id=version" pairs, e.g. "tutor.system=2,content.example=1"
+ */
+function parseVersionPins(value: string | undefined): Record<string, number> {
+  const pins: Record<string, number> = {};
+  (value || '').split(',').map(pair => pair.trim()).filter(Boolean).forEach(pair => {
+    const [id, version] = pair.split('=').map(part => part.trim());
+    if (id && Number.isInteger(Number(version))) pins[id] = Number(version);
+  });
+  return pins;
+}
+
+/**
+ * Named, versioned prompt templates loaded from the prompts directory. The newest version of
+ * each template is used unless a version is pinned, so staff can roll a prompt back.
+ */
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate[]>();
+  private loaded = false;
+
+  constructor(
+    private readonly directory: string = process.env.PROMPTS_PATH || DEFAULT_PROMPTS_PATH,
+    private readonly pins: Record<string, number> = parseVersionPins(process.env.PROMPT_VERSIONS)
+  ) {}
+
+  /**
+   * Read and validate every template file. Throws if any file is invalid.
+   */
+  load(): PromptTemplate[] {
+    const path = resolve(process.cwd(), this.directory);
+
+    let files: string[];
+    try {
+      files = readdirSync(path).filter(file => file.endsWith(TEMPLATE_EXTENSION)).sort();
+    } catch (error) {
+      throw new PromptError(`Failed to read prompt templates from ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors: string[] = [];
+    const templates = new Map<string, PromptTemplate[]>();
+    for (const file of files) {
+      try {
+        const template = parsePromptTemplate(readFileSync(join(path, file), 'utf-8'), file);
+        const versions = templates.get(template.id) || [];
+        const duplicate = versions.find(existing => existing.version === template.version);
+        if (duplicate) {
+          errors.push(`${file} duplicates ${template.id} v${template.version} from ${duplicate.file}`);
+          continue;
+        }
+        templates.set(template.id, [...versions, template].sort((a, b) => b.version - a.version));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    Object.entries(this.pins).forEach(([id, version]) => {
+      if (!templates.get(id)?.some(template => template.version === version)) {
+        errors.push(`Pinned prompt ${id} v${version} does not exist`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new PromptError(`Invalid prompt templates in ${path}`, errors);
+    }
+
+    this.templates = templates;
+    this.loaded = true;
+    logger.info(`Loaded ${files.length} prompt templates for ${templates.size} prompts from ${path}`);
+    return this.listTemplates();
+  }
+
+  /**
+   * The active version of every template
+   */
+  listTemplates(): PromptTemplate[] {
+    this.ensureLoaded();
+    return [...this.templates.keys()].map(id => this.getTemplate(id));
+  }
+
+  /**
+   * Get a template by id: the requested version, else the pinned one, else the newest
+   */
+  getTemplate(id: string, version?: number): PromptTemplate {
+    this.ensureLoaded();
+    const versions = this.templates.get(id);
+    const wanted = version ?? this.pins[id];
+    const template = wanted === undefined ? versions?.[0] : versions?.find(t => t.version === wanted);
+
+    if (!template) {
+      throw new PromptError(`Unknown prompt template ${id}${wanted !== undefined ? ` v${wanted}` : ''}`);
+    }
+    return template;
+  }
+
+  /**
+   * Render a template, returning the text and the reference to record with the LLM call
+   */
+  render<K extends PromptId>(id: K, variables: PromptVariables[K], version?: number): RenderedPrompt {
+    const template = this.getTemplate(id, version);
+    return {
+      text: renderTemplate(template, variables as Record<string, PromptValue>),
+      prompt: { id: template.id, version: template.version }
+    };
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,192 @@
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { IndexedQuestion } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { redactPersonalData } from '../utils/pii.js';
+
+// Cosine similarity of TF-IDF vectors above which two questions count as the same question
+const SIMILARITY_THRESHOLD = 0.8;
+const MAX_QUESTIONS_PER_USER = 200;
+const MAX_CACHED_USERS = 500;
+
+// Question framing words carry no meaning for matching ("can you explain ..." vs "what is ...")
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'please', 'so', 'some',
+  'tell', 'that', 'the', 'this', 'to', 'us', 'was', 'what', 'whats', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'would', 'you', 'your', 'explain', 'describe', 'mean', 'means',
+  'about', 'again', 'work', 'works'
+]);
+
+// Abbreviations students use for the curriculum's terms
+const EXPANSIONS: Record<string, string> = {
+  ml: 'machine learning',
+  ai: 'artificial intelligence',
+  nn: 'neural network',
+  nns: 'neural network',
+  dl: 'deep learning',
+  pca: 'principal component analysis'
+};
+
+export interface SimilarQuestion {
+  id: string;
+  sessionId: string;
+  question: string;
+  answer: string;
+  askedAt: Date;
+  similarity: number;
+}
+
+export interface IndexedAnswer {
+  sessionId: string;
+  question: string;
+  answer: string;
+  answerMessageId: string;
+}
+
+type TermVector = Map<string, number>;
+
+/**
+ * Crude suffix stripping so "clusters"/"clustering" and "learns"/"learning" share a term
+ */
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Normalize a question into the terms it is indexed by
+ */
+export function tokenizeQuestion(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .flatMap(word => (EXPANSIONS[word] || word).split(' '))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) || 0);
+  });
+
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * Per-student index of answered questions. Questions are embedded as TF-IDF vectors over
+ * the student's own questions, so terms they ask about all the time weigh less than the
+ * specific concept in the question. Each index is loaded once and kept in memory.
+ */
+export class QuestionIndexService {
+  private indexes = new Map<string, IndexedQuestion[]>();
+
+  constructor(private readonly threshold: number = SIMILARITY_THRESHOLD) {}
+
+  /**
+   * The most similar question the student asked before, if any is above the threshold.
+   * Lookup failures return null so the question is answered normally.
+   */
+  async findSimilar(userId: string, question: string): Promise<SimilarQuestion | null> {
+    const terms = tokenizeQuestion(question);
+    if (terms.length === 0) return null;
+
+    let entries: IndexedQuestion[];
+    try {
+      entries = await this.load(userId);
+    } catch (error) {
+      logger.warn(`Failed to load question index for user ${userId}:`, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+    if (entries.length === 0) return null;
+
+    const documentFrequency = new Map<string, number>();
+    for (const entryTerms of [terms, ...entries.map(entry => entry.terms)]) {
+      new Set(entryTerms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    }
+    const totalDocuments = entries.length + 1;
+    const queryVector = this.vectorize(terms, documentFrequency, totalDocuments);
+
+    let best: { entry: IndexedQuestion; similarity: number } | null = null;
+    for (const entry of entries) {
+      const similarity = cosineSimilarity(queryVector, this.vectorize(entry.terms, documentFrequency, totalDocuments));
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) return null;
+
+    return {
+      id: best.entry.id,
+      sessionId: best.entry.sessionId,
+      question: best.entry.question,
+      answer: best.entry.answer,
+      askedAt: best.entry.askedAt,
+      similarity: Math.round(best.similarity * 100) / 100
+    };
+  }
+
+  /**
+   * Add an answered question to the student's index. Failures are logged; the index is best effort.
+   */
+  async indexQuestion(userId: string, answered: IndexedAnswer): Promise<void> {
+    const terms = tokenizeQuestion(answered.question);
+    if (terms.length === 0) return;
+
+    try {
+      const entries = await this.load(userId);
+      const entry = await RepositoryFactory.getIndexedQuestionRepository().addQuestion({
+        userId,
+        ...answered,
+        question: redactPersonalData(answered.question),
+        answer: redactPersonalData(answered.answer),
+        terms,
+        askedAt: new Date()
+      });
+      this.indexes.set(userId, [entry, ...entries].slice(0, MAX_QUESTIONS_PER_USER));
+    } catch (error) {
+      logger.warn(`Failed to index question for user ${userId}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async load(userId: string): Promise<IndexedQuestion[]> {
+    const cached = this.indexes.get(userId);
+    if (cached) {
+      // Re-insert to keep recently active students at the end of the eviction order
+      this.indexes.delete(userId);
+      this.indexes.set(userId, cached);
+      return cached;
+    }
+
+    const entries = await RepositoryFactory.getIndexedQuestionRepository().findRecentByUser(userId, MAX_QUESTIONS_PER_USER);
+    this.indexes.set(userId, entries);
+    if (this.indexes.size > MAX_CACHED_USERS) {
+      this.indexes.delete(this.indexes.keys().next().value as string);
+    }
+    return entries;
+  }
+
+  private vectorize(terms: string[], documentFrequency: Map<string, number>, totalDocuments: number): TermVector {
+    const vector: TermVector = new Map();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+
+    vector.forEach((count, term) => {
+      const idf = Math.log((1 + totalDocuments) / (1 + (documentFrequency.get(term) || 0))) + 1;
+      vector.set(term, (count / terms.length) * idf);
+    });
+    return vector;
+  }
+}
+
+export const questionIndexService = new QuestionIndexService();
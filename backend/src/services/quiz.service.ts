@@ -0,0 +1,382 @@
+import { EventEmitter } from 'events';
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { assessmentService, PublicQuestion } from './assessment.service.js';
+import { HINT_LEVELS } from '../agents/assessment.agent.js';
+import { QuizAttempt, QuizAnswer, QuizQuestion, QuestionResult, HintLevel } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// Allowance for network latency on the final submission
+const QUIZ_TIME_GRACE_MS = 2000;
+
+export type QuizErrorCode = 'not_found' | 'not_active' | 'expired' | 'conflict' | 'no_hints';
+
+export class QuizError extends Error {
+  constructor(message: string, public readonly code: QuizErrorCode) {
+    super(message);
+    this.name = 'QuizError';
+  }
+}
+
+export interface StartQuizOptions {
+  topic: string;
+  sessionId?: string;
+  studentLevel?: 'beginner' | 'intermediate' | 'advanced';
+}
+
+export interface QuizReviewItem {
+  questionId: string;
+  question: string;
+  correctAnswer: string;
+  explanation: string;
+  answer?: string;
+  isCorrect: boolean;
+}
+
+/**
+ * Quiz attempt as shown to the student. Answer keys are only included once the attempt is over.
+ */
+export interface QuizAttemptView {
+  attemptId: string;
+  topic: string;
+  status: QuizAttempt['status'];
+  timeLimit: number;
+  passingScore: number;
+  startedAt: Date;
+  expiresAt: Date;
+  remainingSeconds: number;
+  totalQuestions: number;
+  currentQuestionIndex: number;
+  currentQuestion: PublicQuestion | null;
+  revealedHints: string[];
+  answers: QuizAnswer[];
+  score: number;
+  maxScore: number;
+  percentage?: number;
+  passed?: boolean;
+  review?: QuizReviewItem[];
+}
+
+export interface QuizAnswerResult {
+  feedback: QuizAnswer;
+  attempt: QuizAttemptView;
+}
+
+export interface QuizHintResult {
+  level: HintLevel;
+  hint: string;
+  hintsRemaining: number;
+  attempt: QuizAttemptView;
+}
+
+export class QuizService extends EventEmitter {
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Start a quiz, or resume the student's unfinished one
+   */
+  async startQuiz(userId: string, options: StartQuizOptions): Promise<QuizAttemptView> {
+    const active = await this.getActiveAttempt(userId);
+    if (active) {
+      return active;
+    }
+
+    const agent = assessmentService.getAssessmentAgent();
+    const context = await assessmentService.buildContext(
+      userId,
+      { topic: options.topic, concept: options.topic },
+      options.studentLevel
+    );
+
+    const assessment = await agent.createQuiz(context);
+
+    // Each question carries its hint ladder, so hints are revealed in order from the attempt
+    const questions = await Promise.all(assessment.questions.map(async question => {
+      const ladder = await agent.getHintLadder(question, context, options.sessionId);
+      return { ...question, hints: ladder.map(step => step.hint) };
+    }));
+
+    const attempt = await RepositoryFactory.getQuizAttemptRepository().createAttempt({
+      userId,
+      sessionId: options.sessionId,
+      assessmentId: assessment.id,
+      topic: assessment.topic,
+      difficulty: assessment.difficulty,
+      questions,
+      timeLimit: assessment.timeLimit || assessment.questions.length * 3 * 60,
+      passingScore: assessment.passingScore,
+      pointsPerQuestion: agent.getPointsPerQuestion()
+    });
+
+    this.scheduleExpiry(attempt);
+    logger.info(`Quiz attempt ${attempt.id} started for user ${userId}`, {
+      topic: attempt.topic,
+      questions: attempt.questions.length,
+      timeLimit: attempt.timeLimit
+    });
+
+    return this.toView(attempt);
+  }
+
+  /**
+   * Get the student's unfinished attempt, if any
+   */
+  async getActiveAttempt(userId: string): Promise<QuizAttemptView | null> {
+    const attempt = await RepositoryFactory.getQuizAttemptRepository().findActiveAttempt(userId);
+    if (!attempt) return null;
+
+    const current = await this.enforceTimeLimit(attempt);
+    if (current.status !== 'in_progress') return null;
+
+    this.scheduleExpiry(current);
+    return this.toView(current);
+  }
+
+  /**
+   * Get an attempt owned by the student
+   */
+  async getAttempt(userId: string, attemptId: string): Promise<QuizAttemptView> {
+    const attempt = await this.enforceTimeLimit(await this.loadAttempt(userId, attemptId));
+    return this.toView(attempt);
+  }
+
+  /**
+   * Grade the answer to the current question and advance the attempt
+   */
+  async submitAnswer(userId: string, attemptId: string, answer: string, timeSpent?: number): Promise<QuizAnswerResult> {
+    const attempt = await this.loadActiveAttempt(userId, attemptId);
+    const index = attempt.currentQuestionIndex;
+    const question = attempt.questions[index];
+
+    const context = await assessmentService.buildContext(userId, { topic: attempt.topic, concept: question.concept });
+    const evaluation = await assessmentService.getAssessmentAgent().evaluateAnswer(question, answer, context, {
+      hintsUsed: attempt.hintsRevealed[index] || 0,
+      timeSpent
+    });
+
+    const quizAnswer: QuizAnswer = {
+      questionId: question.id,
+      answer,
+      isCorrect: evaluation.isCorrect,
+      score: evaluation.score,
+      maxScore: evaluation.maxScore,
+      feedback: evaluation.feedback,
+      hintsUsed: evaluation.hintsUsed,
+      timeSpent: evaluation.timeSpent,
+      answeredAt: new Date()
+    };
+
+    const updated = await RepositoryFactory.getQuizAttemptRepository().recordAnswer(attempt.id, index, quizAnswer);
+    if (!updated) {
+      throw new QuizError('This question has already been answered', 'conflict');
+    }
+
+    const answeredQuestion = { ...question, topic: question.topic || attempt.topic };
+    await assessmentService.recordReviewOutcome(userId, answeredQuestion, evaluation);
+    await assessmentService.recordMasteryEvidence(userId, answeredQuestion, evaluation, attempt.sessionId);
+    await assessmentService.recordHintUsage(userId, answeredQuestion, evaluation, attempt.sessionId);
+
+    const current = updated.currentQuestionIndex >= updated.questions.length
+      ? await this.finalize(updated, 'completed')
+      : updated;
+
+    return { feedback: quizAnswer, attempt: this.toView(current) };
+  }
+
+  /**
+   * Reveal the next level of the current question's hint ladder
+   */
+  async requestHint(userId: string, attemptId: string): Promise<QuizHintResult> {
+    const attempt = await this.loadActiveAttempt(userId, attemptId);
+    const index = attempt.currentQuestionIndex;
+    const hints = attempt.questions[index].hints;
+    const revealed = attempt.hintsRevealed[index] || 0;
+
+    if (revealed >= hints.length) {
+      throw new QuizError('No more hints are available for this question', 'no_hints');
+    }
+
+    const updated = await RepositoryFactory.getQuizAttemptRepository().revealHint(attempt.id, index);
+    if (!updated) {
+      throw new QuizError('The question changed before the hint was revealed', 'conflict');
+    }
+
+    return {
+      level: HINT_LEVELS[revealed],
+      hint: hints[revealed],
+      hintsRemaining: hints.length - revealed - 1,
+      attempt: this.toView(updated)
+    };
+  }
+
+  /**
+   * Finish an attempt early; unanswered questions score zero
+   */
+  async finishQuiz(userId: string, attemptId: string): Promise<QuizAttemptView> {
+    const attempt = await this.loadActiveAttempt(userId, attemptId);
+    return this.toView(await this.finalize(attempt, 'completed'));
+  }
+
+  private async loadAttempt(userId: string, attemptId: string): Promise<QuizAttempt> {
+    let attempt: QuizAttempt | null = null;
+    try {
+      attempt = await RepositoryFactory.getQuizAttemptRepository().findAttemptById(attemptId);
+    } catch (error) {
+      // Malformed ids are treated the same as unknown ones
+      logger.warn(`Failed to load quiz attempt ${attemptId}:`, error);
+    }
+
+    if (!attempt || attempt.userId !== userId) {
+      throw new QuizError('Quiz attempt not found', 'not_found');
+    }
+    return attempt;
+  }
+
+  private async loadActiveAttempt(userId: string, attemptId: string): Promise<QuizAttempt> {
+    const attempt = await this.enforceTimeLimit(await this.loadAttempt(userId, attemptId));
+
+    if (attempt.status === 'expired') {
+      throw new QuizError('The time limit for this quiz has passed', 'expired');
+    }
+    if (attempt.status !== 'in_progress') {
+      throw new QuizError('This quiz is already finished', 'not_active');
+    }
+    return attempt;
+  }
+
+  /**
+   * Expire an attempt whose time limit has passed
+   */
+  private async enforceTimeLimit(attempt: QuizAttempt): Promise<QuizAttempt> {
+    if (attempt.status === 'in_progress' && Date.now() > new Date(attempt.expiresAt).getTime() + QUIZ_TIME_GRACE_MS) {
+      return await this.finalize(attempt, 'expired');
+    }
+    return attempt;
+  }
+
+  /**
+   * Score the attempt against its passing score and record it in the student's progress
+   */
+  private async finalize(attempt: QuizAttempt, status: 'completed' | 'expired'): Promise<QuizAttempt> {
+    this.clearExpiry(attempt.id);
+
+    const score = attempt.answers.reduce((sum, answer) => sum + answer.score, 0);
+    const percentage = attempt.maxScore > 0 ? Math.round((score / attempt.maxScore) * 100) : 0;
+
+    const repository = RepositoryFactory.getQuizAttemptRepository();
+    const completed = await repository.completeAttempt(attempt.id, {
+      status,
+      score,
+      maxScore: attempt.maxScore,
+      percentage,
+      passed: percentage >= attempt.passingScore
+    });
+
+    if (!completed) {
+      // Another request finished the attempt first
+      return (await repository.findAttemptById(attempt.id)) || attempt;
+    }
+
+    try {
+      await assessmentService.recordAssessmentResult(completed.userId, assessmentService.createAssessmentResult(
+        completed.topic,
+        completed.difficulty,
+        this.toQuestionResults(completed),
+        completed.score,
+        completed.maxScore
+      ));
+    } catch (error) {
+      logger.error(`Failed to record quiz attempt ${completed.id} in progress:`, error);
+    }
+
+    logger.info(`Quiz attempt ${completed.id} ${status}`, { score, maxScore: completed.maxScore, percentage });
+    this.emit('quiz:finished', completed.userId, this.toView(completed));
+
+    return completed;
+  }
+
+  private scheduleExpiry(attempt: QuizAttempt): void {
+    if (this.expiryTimers.has(attempt.id)) return;
+
+    const delay = Math.max(0, new Date(attempt.expiresAt).getTime() + QUIZ_TIME_GRACE_MS - Date.now());
+    const timer = setTimeout(async () => {
+      this.expiryTimers.delete(attempt.id);
+      try {
+        const latest = await RepositoryFactory.getQuizAttemptRepository().findAttemptById(attempt.id);
+        if (latest) {
+          await this.enforceTimeLimit(latest);
+        }
+      } catch (error) {
+        logger.error(`Failed to expire quiz attempt ${attempt.id}:`, error);
+      }
+    }, delay);
+
+    // Don't keep the process alive just for quiz timers
+    timer.unref();
+    this.expiryTimers.set(attempt.id, timer);
+  }
+
+  private clearExpiry(attemptId: string): void {
+    const timer = this.expiryTimers.get(attemptId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(attemptId);
+    }
+  }
+
+  private toQuestionResults(attempt: QuizAttempt): QuestionResult[] {
+    return attempt.questions.map((question, index) => {
+      const answer = attempt.answers.find(a => a.questionId === question.id);
+      return {
+        questionId: question.id,
+        question: question.question,
+        studentAnswer: answer?.answer || '(no answer)',
+        correctAnswer: question.correctAnswer,
+        isCorrect: answer?.isCorrect || false,
+        timeSpent: answer?.timeSpent || 0,
+        hints: question.hints.slice(0, attempt.hintsRevealed[index] || 0)
+      };
+    });
+  }
+
+  private toView(attempt: QuizAttempt): QuizAttemptView {
+    const inProgress = attempt.status === 'in_progress';
+    const index = attempt.currentQuestionIndex;
+    const currentQuestion: QuizQuestion | undefined = inProgress ? attempt.questions[index] : undefined;
+
+    return {
+      attemptId: attempt.id,
+      topic: attempt.topic,
+      status: attempt.status,
+      timeLimit: attempt.timeLimit,
+      passingScore: attempt.passingScore,
+      startedAt: attempt.startedAt,
+      expiresAt: attempt.expiresAt,
+      remainingSeconds: inProgress
+        ? Math.max(0, Math.round((new Date(attempt.expiresAt).getTime() - Date.now()) / 1000))
+        : 0,
+      totalQuestions: attempt.questions.length,
+      currentQuestionIndex: index,
+      currentQuestion: currentQuestion ? assessmentService.toPublicQuestion(currentQuestion) : null,
+      revealedHints: currentQuestion ? currentQuestion.hints.slice(0, attempt.hintsRevealed[index] || 0) : [],
+      answers: attempt.answers,
+      score: attempt.score,
+      maxScore: attempt.maxScore,
+      percentage: attempt.percentage,
+      passed: attempt.passed,
+      review: inProgress ? undefined : attempt.questions.map(question => {
+        const answer = attempt.answers.find(a => a.questionId === question.id);
+        return {
+          questionId: question.id,
+          question: question.question,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          answer: answer?.answer,
+          isCorrect: answer?.isCorrect || false
+        };
+      })
+    };
+  }
+}
+
+// Export singleton instance
+export const quizService = new QuizService();
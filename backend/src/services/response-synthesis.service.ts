@@ -0,0 +1,139 @@
+import { LLMService, createLLMService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { RetryService } from './retry.service.js';
+import { AgentType, LLMAttribution, Message, PromptReference, ResponseSection, ResponseSectionKind } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const SECTION_ORDER: ResponseSectionKind[] = ['explanation', 'example', 'check'];
+const SECTION_SEPARATOR = '\n\n';
+const DEFAULT_CHECK_INTRO = "Let's check your understanding:";
+
+/**
+ * One agent's reply, to be placed as a section of the synthesized reply
+ */
+export interface SectionDraft {
+  kind: ResponseSectionKind;
+  agentId: string;
+  agentType: AgentType;
+  message: Message;
+}
+
+export interface SynthesizedReply {
+  content: string;
+  sections: ResponseSection[];
+  prompt?: PromptReference; // set when the LLM merged the sections
+}
+
+type SectionEdits = Partial<Record<ResponseSectionKind, string>> & { checkIntro?: string };
+
+/**
+ * Merges the tutor's explanation, the content agent's example and the assessment agent's check
+ * question into one reply. The LLM smooths the wording; if it fails or misses its deadline the
+ * sections are joined as the agents wrote them. The check question is never reworded, so a reply
+ * to it can still be graded against the answer key.
+ */
+export class ResponseSynthesisService {
+  private llmService: LLMService | null = null;
+
+  constructor(private readonly deadlineMs: number = parseInt(process.env.SYNTHESIS_DEADLINE_MS || '15000')) {}
+
+  /**
+   * Merge the drafts in section order, recording where each section sits in the content
+   */
+  async synthesize(studentMessage: Message, drafts: SectionDraft[], attribution: LLMAttribution): Promise<SynthesizedReply> {
+    const ordered = SECTION_ORDER
+      .map(kind => drafts.find(draft => draft.kind === kind))
+      .filter((draft): draft is SectionDraft => draft !== undefined);
+
+    const edits = ordered.length > 1 ? await this.editWithLLM(studentMessage, ordered, attribution) : null;
+    return this.assemble(ordered, edits?.edits || {}, edits?.prompt);
+  }
+
+  private assemble(drafts: SectionDraft[], edits: SectionEdits, prompt?: PromptReference): SynthesizedReply {
+    let content = '';
+    const sections: ResponseSection[] = [];
+
+    for (const draft of drafts) {
+      const text = draft.kind === 'check'
+        ? `${edits.checkIntro || DEFAULT_CHECK_INTRO}${SECTION_SEPARATOR}${draft.message.content.trim()}`
+        : (edits[draft.kind] || draft.message.content).trim();
+
+      if (content) content += SECTION_SEPARATOR;
+      const start = content.length;
+      content += text;
+
+      sections.push({
+        kind: draft.kind,
+        agentId: draft.agentId,
+        agentType: draft.agentType,
+        start,
+        end: content.length,
+        prompts: draft.message.metadata.prompts
+      });
+    }
+
+    return { content, sections, prompt };
+  }
+
+  /**
+   * Ask the LLM to reword the explanation and example so they read as one reply.
+   * Returns null when the call fails, times out or the reply can't be parsed.
+   */
+  private async editWithLLM(
+    studentMessage: Message,
+    drafts: SectionDraft[],
+    attribution: LLMAttribution
+  ): Promise<{ edits: SectionEdits; prompt: PromptReference } | null> {
+    const has = (kind: ResponseSectionKind) => drafts.some(draft => draft.kind === kind);
+
+    try {
+      const systemPrompt = promptRegistry.render('coordinator.synthesis', {
+        hasExample: has('example'),
+        hasCheck: has('check')
+      });
+      const sectionText = drafts
+        .map(draft => `${draft.kind.toUpperCase()}:\n${draft.message.content}`)
+        .join(SECTION_SEPARATOR);
+
+      const response = await RetryService.withTimeout(
+        this.getLLMService().generateCompletion({
+          systemPrompt: systemPrompt.text,
+          prompt: systemPrompt.prompt,
+          attribution,
+          messages: [{ role: 'user', content: `STUDENT MESSAGE:\n${studentMessage.content}${SECTION_SEPARATOR}${sectionText}` }],
+          temperature: 0.3,
+          maxTokens: 1500
+        }),
+        this.deadlineMs,
+        `Response synthesis timed out after ${this.deadlineMs}ms`
+      );
+
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (!parsed || typeof parsed !== 'object') {
+        logger.warn('Response synthesis reply was not JSON, joining sections as written');
+        return null;
+      }
+
+      const edits: SectionEdits = {};
+      for (const key of ['explanation', 'example', 'checkIntro'] as const) {
+        if (typeof parsed[key] === 'string' && parsed[key].trim()) {
+          edits[key] = parsed[key].trim();
+        }
+      }
+      return { edits, prompt: systemPrompt.prompt };
+    } catch (error) {
+      logger.warn('Response synthesis failed, joining sections as written:', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  private getLLMService(): LLMService {
+    if (!this.llmService) {
+      this.llmService = createLLMService();
+    }
+    return this.llmService;
+  }
+}
+
+export const responseSynthesisService = new ResponseSynthesisService();
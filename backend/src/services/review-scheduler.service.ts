@@ -0,0 +1,184 @@
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { ReviewItem } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// Answers graded below this SM-2 quality count as a lapse
+const PASSING_QUALITY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  dueAt: Date;
+}
+
+export interface ReviewOutcome {
+  concept: string;
+  topic: string;
+  isCorrect: boolean;
+  score: number;
+  maxScore: number;
+  hintsUsed: number;
+}
+
+export interface DueReviews {
+  dueCount: number;
+  items: ReviewItem[];
+}
+
+/**
+ * Map a graded answer to an SM-2 quality from 0 (blackout) to 5 (perfect recall)
+ */
+export function qualityFromOutcome(outcome: Pick<ReviewOutcome, 'isCorrect' | 'score' | 'maxScore' | 'hintsUsed'>): number {
+  if (outcome.isCorrect) {
+    if (outcome.hintsUsed === 0) return 5;
+    return outcome.hintsUsed === 1 ? 4 : 3;
+  }
+
+  const ratio = outcome.maxScore > 0 ? outcome.score / outcome.maxScore : 0;
+  if (ratio >= 0.5) return 2;
+  return ratio > 0 ? 1 : 0;
+}
+
+/**
+ * SM-2: grow the interval on successful recall, restart it on a lapse, and adjust the ease factor
+ */
+export function calculateNextReview(state: ReviewState, quality: number, now: Date = new Date()): ScheduledReview {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let { interval, repetitions, lapses } = state;
+  if (q >= PASSING_QUALITY) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * state.easeFactor);
+    repetitions += 1;
+  } else {
+    interval = 1;
+    repetitions = 0;
+    lapses += 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS)
+  };
+}
+
+/**
+ * Per-concept spaced repetition for each student. Struggling concepts and missed
+ * questions become review items; graded answers move their due dates.
+ */
+export class ReviewSchedulerService {
+  /**
+   * Reschedule the concept from a graded answer. Concepts the student has never
+   * missed are not tracked, so a correct answer on an untracked concept is ignored.
+   */
+  async recordOutcome(userId: string, outcome: ReviewOutcome): Promise<ReviewItem | null> {
+    const repository = RepositoryFactory.getReviewItemRepository();
+    const quality = qualityFromOutcome(outcome);
+
+    const existing = await repository.findItem(userId, outcome.concept);
+    if (!existing && quality >= PASSING_QUALITY) {
+      return null;
+    }
+
+    const now = new Date();
+    const next = calculateNextReview(existing || {
+      easeFactor: DEFAULT_EASE_FACTOR,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0
+    }, quality, now);
+
+    const item = await repository.saveSchedule(userId, outcome.concept, 'assessment', {
+      ...next,
+      topic: existing?.topic || outcome.topic,
+      lastReviewedAt: now,
+      lastQuality: quality
+    });
+
+    logger.info(`Scheduled review of "${item.concept}" for user ${userId}`, {
+      quality,
+      interval: item.interval,
+      dueAt: item.dueAt
+    });
+    return item;
+  }
+
+  /**
+   * Add struggling concepts as reviews due now; concepts already tracked keep their schedule
+   */
+  async addStrugglingConcepts(userId: string, topic: string, concepts: string[]): Promise<number> {
+    const unique = [...new Set(concepts.map(concept => concept.trim()).filter(Boolean))];
+    return RepositoryFactory.getReviewItemRepository().addItems(
+      userId,
+      unique.map(concept => ({ concept, topic })),
+      'struggling',
+      new Date()
+    );
+  }
+
+  /**
+   * Reviews due now, oldest first, after picking up newly struggling concepts from progress
+   */
+  async getDueReviews(userId: string, limit = 5): Promise<DueReviews> {
+    await this.syncStrugglingConcepts(userId);
+
+    const repository = RepositoryFactory.getReviewItemRepository();
+    const now = new Date();
+    const [dueCount, items] = await Promise.all([
+      repository.countDueItems(userId, now),
+      repository.findDueItems(userId, now, limit)
+    ]);
+
+    return { dueCount, items };
+  }
+
+  /**
+   * All of the student's review items ordered by due date, for the dashboard queue
+   */
+  async getReviewQueue(userId: string, limit = 50): Promise<DueReviews> {
+    await this.syncStrugglingConcepts(userId);
+
+    const repository = RepositoryFactory.getReviewItemRepository();
+    const [dueCount, items] = await Promise.all([
+      repository.countDueItems(userId, new Date()),
+      repository.findItemsByUser(userId, limit)
+    ]);
+
+    return { dueCount, items };
+  }
+
+  private async syncStrugglingConcepts(userId: string): Promise<void> {
+    const progress = await RepositoryFactory.getProgressRepository().findByUserId(userId);
+    if (!progress) return;
+
+    const added = await RepositoryFactory.getReviewItemRepository().addItems(
+      userId,
+      progress.topicsCompleted.flatMap(topic =>
+        topic.strugglingConcepts.map(concept => ({ concept, topic: topic.topicId }))
+      ),
+      'struggling',
+      new Date()
+    );
+
+    if (added > 0) {
+      logger.info(`Added ${added} struggling concepts to the review queue for user ${userId}`);
+    }
+  }
+}
+
+export const reviewSchedulerService = new ReviewSchedulerService();
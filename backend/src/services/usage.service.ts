@@ -0,0 +1,226 @@
+import { RepositoryFactory } from '../database/repositories/index.js';
+import { LLMAttribution, LLMUsageSummary, LLMUsageTotals, PromptReference } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million completion tokens
+}
+
+// On-demand Bedrock prices, matched against the model id
+const MODEL_PRICES: Array<{ match: string; price: ModelPrice }> = [
+  { match: 'claude-3-haiku', price: { inputPerMillion: 0.25, outputPerMillion: 1.25 } },
+  { match: 'claude-3-5-haiku', price: { inputPerMillion: 0.8, outputPerMillion: 4 } },
+  { match: 'claude-3-sonnet', price: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { match: 'claude-3-5-sonnet', price: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { match: 'claude-3-opus', price: { inputPerMillion: 15, outputPerMillion: 75 } },
+  { match: 'scripted', price: { inputPerMillion: 0, outputPerMillion: 0 } }
+];
+
+export type BudgetScope = 'student' | 'school' | 'deployment';
+
+const BUDGET_MESSAGES: Record<BudgetScope, string> = {
+  student: "You've done a lot of learning today! You've reached today's limit for the AI tutor, " +
+    "so let's pick this up again tomorrow. In the meantime, try reviewing your notes or a practice quiz.",
+  school: "The AI tutor has reached your school's limit for today, so it can't answer right now. " +
+    'Please try again tomorrow, or ask your teacher for help in the meantime.',
+  deployment: "The AI tutor has reached its limit for today, so it can't answer right now. " +
+    'Please try again tomorrow, or ask your teacher for help in the meantime.'
+};
+
+export interface UsageBudgets {
+  studentDailyTokens: number; // 0 turns the budget off
+  schoolDailyTokens: number; // shared by every student of one school; 0 turns it off
+  deploymentDailyTokens: number; // global cap on tokens across every user and school of this deployment; 0 turns it off
+}
+
+export interface LLMCallUsage {
+  attribution?: LLMAttribution;
+  model: string;
+  prompt?: PromptReference;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  exceeded?: BudgetScope;
+  message?: string; // friendly explanation for the student when a budget has run out
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: LLMUsageTotals;
+  byDay: Array<LLMUsageTotals & { day: string }>;
+  byModel: Array<LLMUsageTotals & { model: string }>;
+  byAgent: Array<LLMUsageTotals & { agent: string }>;
+  bySchool: Array<LLMUsageTotals & { school: string }>; // 'unassigned' collects users without a school
+  rows: LLMUsageSummary[];
+  forecast: {
+    averageDailyCost: number;
+    projectedMonthlyCost: number;
+  };
+}
+
+/**
+ * UTC calendar day (YYYY-MM-DD) that usage counts against; budgets reset at midnight UTC
+ */
+export const usageDay = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+const roundCost = (cost: number): number => Math.round(cost * 1e6) / 1e6;
+
+const emptyTotals = (): LLMUsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  estimatedCost: 0
+});
+
+const addTotals = (totals: LLMUsageTotals, row: LLMUsageTotals): LLMUsageTotals => ({
+  calls: totals.calls + row.calls,
+  promptTokens: totals.promptTokens + row.promptTokens,
+  completionTokens: totals.completionTokens + row.completionTokens,
+  totalTokens: totals.totalTokens + row.totalTokens,
+  estimatedCost: roundCost(totals.estimatedCost + row.estimatedCost)
+});
+
+/**
+ * Records who every LLM call was made for and what it cost, enforces the daily
+ * token budgets and reports spend for forecasting
+ */
+export class UsageService {
+  private readonly unpricedModels = new Set<string>();
+
+  constructor(
+    private readonly budgets: UsageBudgets = {
+      studentDailyTokens: parseInt(process.env.USAGE_STUDENT_DAILY_TOKENS || '100000'),
+      schoolDailyTokens: parseInt(process.env.USAGE_SCHOOL_DAILY_TOKENS || '1000000'),
+      deploymentDailyTokens: parseInt(process.env.USAGE_DEPLOYMENT_DAILY_TOKENS || '5000000')
+    }
+  ) {}
+
+  /**
+   * Estimated cost in USD of a call; models without a known price cost nothing
+   */
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = MODEL_PRICES.find(entry => model.includes(entry.match))?.price;
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn(`No price known for model ${model}; its usage is recorded without a cost`);
+      }
+      return 0;
+    }
+
+    return roundCost((promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1e6);
+  }
+
+  /**
+   * Store the usage of one LLM call. Accounting never fails the call it describes.
+   */
+  async recordUsage(call: LLMCallUsage): Promise<void> {
+    try {
+      const userId = call.attribution?.userId;
+      await RepositoryFactory.getLLMUsageRepository().recordUsage({
+        userId,
+        schoolId: userId ? await this.schoolOf(userId) : undefined,
+        sessionId: call.attribution?.sessionId,
+        agent: call.attribution?.agent || 'unattributed',
+        modelId: call.model,
+        prompt: call.prompt,
+        promptTokens: call.promptTokens,
+        completionTokens: call.completionTokens,
+        totalTokens: call.totalTokens,
+        estimatedCost: this.estimateCost(call.model, call.promptTokens, call.completionTokens),
+        day: usageDay()
+      });
+    } catch (error) {
+      logger.error(`Failed to record LLM usage for ${call.attribution?.agent || 'unattributed'} call:`, error);
+    }
+  }
+
+  /**
+   * Whether a student may make another tutoring request today
+   */
+  async checkBudget(userId: string): Promise<BudgetStatus> {
+    const day = usageDay();
+
+    try {
+      const repository = RepositoryFactory.getLLMUsageRepository();
+
+      if (this.budgets.studentDailyTokens > 0 &&
+          await repository.sumTokensForDay(day, { userId }) >= this.budgets.studentDailyTokens) {
+        return { allowed: false, exceeded: 'student', message: BUDGET_MESSAGES.student };
+      }
+
+      if (this.budgets.schoolDailyTokens > 0) {
+        const schoolId = await this.schoolOf(userId);
+        if (schoolId && await repository.sumTokensForDay(day, { schoolId }) >= this.budgets.schoolDailyTokens) {
+          return { allowed: false, exceeded: 'school', message: BUDGET_MESSAGES.school };
+        }
+      }
+
+      if (this.budgets.deploymentDailyTokens > 0 &&
+          await repository.sumTokensForDay(day) >= this.budgets.deploymentDailyTokens) {
+        return { allowed: false, exceeded: 'deployment', message: BUDGET_MESSAGES.deployment };
+      }
+    } catch (error) {
+      // Budgets protect spend; an outage of the usage store should not stop tutoring
+      logger.warn('Could not check token budgets, allowing the request:', error instanceof Error ? error.message : String(error));
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * The school a student's usage counts against, if an admin has assigned one
+   */
+  private async schoolOf(userId: string): Promise<string | undefined> {
+    const [user] = await RepositoryFactory.getUserRepository().findUsersByIds([userId]);
+    return user?.schoolId;
+  }
+
+  /**
+   * Usage and estimated cost for an inclusive range of days, broken down by day, model, agent and school,
+   * with the monthly spend projected from the range's daily average
+   */
+  async getReport(from: string, to: string): Promise<UsageReport> {
+    const rows = await RepositoryFactory.getLLMUsageRepository().summarize(from, to);
+
+    const group = <K extends 'day' | 'model' | 'agent' | 'school'>(key: K) => {
+      const groups = new Map<string, LLMUsageTotals>();
+      rows.forEach(row => {
+        const value = row[key] || 'unassigned';
+        groups.set(value, addTotals(groups.get(value) || emptyTotals(), row));
+      });
+      return [...groups.entries()].map(([value, totals]) => ({ [key]: value, ...totals }) as LLMUsageTotals & Record<K, string>);
+    };
+
+    const totals = rows.reduce(addTotals, emptyTotals());
+    const days = Math.max(1, Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1);
+    const averageDailyCost = roundCost(totals.estimatedCost / days);
+
+    return {
+      from,
+      to,
+      totals,
+      byDay: group('day'),
+      byModel: group('model').sort((a, b) => b.estimatedCost - a.estimatedCost),
+      byAgent: group('agent').sort((a, b) => b.estimatedCost - a.estimatedCost),
+      bySchool: group('school').sort((a, b) => b.estimatedCost - a.estimatedCost),
+      rows,
+      forecast: {
+        averageDailyCost,
+        projectedMonthlyCost: roundCost(averageDailyCost * DAYS_PER_MONTH)
+      }
+    };
+  }
+}
+
+export const usageService = new UsageService();
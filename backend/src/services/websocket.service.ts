@@ -3,11 +3,20 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { logger } from '../utils/logger.js';
 import { redisService } from './redis.service.js';
-import { bedrockService } from './bedrock.service.js';
 import { authService } from './auth.service.js';
+import { getAgentSystem } from './init.service.js';
 import { analyticsService } from './analytics.service.js';
+import { masteryService } from './mastery.service.js';
+import { questionIndexService, SimilarQuestion } from './question-index.service.js';
+import { quizService, QuizAttemptView, QuizError } from './quiz.service.js';
+import { curriculumService } from './curriculum.service.js';
+import { hintService, HintError } from './hint.service.js';
 import { SessionRepositoryImpl } from '../database/repositories/session.repository.js';
 import { Message } from '../types/index.js';
+import { CoordinationResponse } from '../agents/coordinator.agent.js';
+import { SERVER_CONTEXT_KEYS } from '../agents/agent-system.js';
+import { redactPersonalData } from '../utils/pii.js';
+import { moderationService, ModerationResult } from './moderation.service.js';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -22,8 +31,25 @@ interface ChatMessage {
   timestamp: Date;
   sessionId?: string;
   agentResponse?: boolean;
+  agentType?: string;
+  agents?: string[];
+  earlierAnswer?: {
+    question: string;
+    askedAt: Date;
+    sessionId: string;
+  };
 }
 
+interface PendingQuestion {
+  chatMessage: ChatMessage;
+  context: any;
+  similar: SimilarQuestion;
+  moderation: ModerationResult;
+}
+
+// Gaps longer than this between chat turns count as time away, not study time
+const MAX_TURN_SECONDS = 300;
+
 interface TypingData {
   userId: string;
   username: string;
@@ -34,6 +60,8 @@ class WebSocketService {
   private io: SocketIOServer | null = null;
   private connectedUsers = new Map<string, AuthenticatedSocket>();
   private userSessions = new Map<string, string>(); // userId -> sessionId
+  private lastTurnAt = new Map<string, number>(); // sessionId -> time of the last chat turn
+  private pendingQuestions = new Map<string, PendingQuestion>(); // userId -> question waiting on the student's choice
   private sessionRepository: SessionRepositoryImpl;
 
   constructor() {
@@ -84,6 +112,11 @@ class WebSocketService {
       this.handleConnection(socket);
     });
 
+    // Push quiz results, including attempts expired by the server-side timer
+    quizService.on('quiz:finished', (userId: string, attempt: QuizAttemptView) => {
+      this.sendToUser(userId, 'quiz:finished', attempt);
+    });
+
     logger.info('WebSocket server initialized');
   }
 
@@ -135,11 +168,63 @@ class WebSocketService {
       }
     });
 
+    // Handle the student's choice after a similar earlier question was found
+    socket.on('chat:similar:choose', async (data) => {
+      try {
+        await this.handleSimilarChoice(socket, data);
+      } catch (error) {
+        logger.error(`Error in similar question handler for user ${userId}:`, error);
+        socket.emit('error', {
+          message: 'Failed to process message. Please try again.'
+        });
+      }
+    });
+
     // Handle typing indicators
     socket.on('chat:typing', (data) => {
       this.handleTyping(socket, data);
     });
 
+    // Handle quiz attempts
+    socket.on('quiz:start', (data) => {
+      this.handleQuizEvent(socket, async () => {
+        socket.emit('quiz:state', await quizService.startQuiz(userId, {
+          topic: data?.topic || curriculumService.getTopics()[0].id,
+          sessionId: data?.sessionId
+        }));
+      });
+    });
+
+    socket.on('quiz:resume', () => {
+      this.handleQuizEvent(socket, async () => {
+        socket.emit('quiz:state', await quizService.getActiveAttempt(userId));
+      });
+    });
+
+    socket.on('quiz:answer', (data) => {
+      this.handleQuizEvent(socket, async () => {
+        socket.emit('quiz:feedback', await quizService.submitAnswer(userId, data?.attemptId, String(data?.answer ?? ''), data?.timeSpent));
+      });
+    });
+
+    socket.on('quiz:hint', (data) => {
+      this.handleQuizEvent(socket, async () => {
+        socket.emit('quiz:hint', await quizService.requestHint(userId, data?.attemptId));
+      });
+    });
+
+    // Handle hints for single assessment questions
+    socket.on('question:hint', (data) => {
+      this.handleHintRequest(socket, data);
+    });
+
+    socket.on('quiz:finish', (data) => {
+      // The result is pushed through the quiz:finished listener
+      this.handleQuizEvent(socket, async () => {
+        await quizService.finishQuiz(userId, data?.attemptId);
+      });
+    });
+
     // Handle session management
     socket.on('session:join', (sessionId: string) => {
       this.handleSessionJoin(socket, sessionId);
@@ -165,7 +250,8 @@ class WebSocketService {
    */
   private async handleChatMessage(socket: AuthenticatedSocket, data: any): Promise<void> {
     try {
-      const { message, sessionId, context } = data;
+      const { message, sessionId } = data;
+      const context = this.clientContext(data.context);
       const userId = socket.userId!;
       const username = socket.username!;
 
@@ -189,35 +275,11 @@ class WebSocketService {
         agentResponse: false
       };
 
-      logger.info(`Chat message received from ${userId}: ${message.substring(0, 100)}...`);
+      logger.info(`Chat message received from ${userId}: ${redactPersonalData(message.substring(0, 100))}...`);
 
       // Emit message to user immediately for instant feedback
       socket.emit('chat:message', chatMessage);
 
-      // Check for duplicate/similar questions BEFORE calling LLM
-      const cachedResponse = await this.checkForCachedResponse(userId, sessionId, message.trim());
-      if (cachedResponse) {
-        logger.info(`Using cached response for duplicate question from user ${userId}: "${message.trim().substring(0, 50)}..."`);
-        
-        // Send cached response with updated timestamp and cache indicator
-        const cachedAgentMessage: ChatMessage = {
-          ...cachedResponse,
-          id: `cached_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-          timestamp: new Date(),
-          message: `${cachedResponse.message}\n\n*[This response was retrieved from your previous conversations]*`
-        };
-
-        socket.emit('chat:message', cachedAgentMessage);
-        
-        // Store both user message and cached response in MongoDB
-        if (sessionId) {
-          await this.storeMessageInMongoDB(sessionId, chatMessage);
-          await this.storeMessageInMongoDB(sessionId, cachedAgentMessage);
-        }
-        
-        return;
-      }
-
       // Store user message in MongoDB
       if (sessionId) {
         await this.storeMessageInMongoDB(sessionId, chatMessage);
@@ -228,6 +290,111 @@ class WebSocketService {
         await analyticsService.updateSessionActivity(sessionId, 1, message.includes('?') ? 1 : 0);
       }
 
+      // Moderated before anything answers it, so a blocked or escalated message is never
+      // answered from the question index; the agent system replies with the policy response
+      const moderation = await moderationService.moderate(chatMessage.message, 'input', {
+        userId,
+        sessionId,
+        messageId: chatMessage.id
+      });
+      if (moderation.action === 'block' || moderation.action === 'escalate') {
+        await this.respondToMessage(socket, chatMessage, context, moderation);
+        return;
+      }
+
+      // Offer the earlier answer to a similar question instead of answering straight away;
+      // the student decides between the earlier answer and a fresh one
+      const similar = await questionIndexService.findSimilar(userId, moderation.text);
+      if (similar) {
+        this.pendingQuestions.set(userId, { chatMessage, context, similar, moderation });
+        socket.emit('chat:similar', {
+          messageId: chatMessage.id,
+          sessionId,
+          similar: {
+            id: similar.id,
+            question: similar.question,
+            askedAt: similar.askedAt,
+            similarity: similar.similarity
+          }
+        });
+        logger.info(`Offered earlier answer to a similar question from user ${userId}`, { similarity: similar.similarity });
+        return;
+      }
+
+      await this.respondToMessage(socket, chatMessage, context, moderation);
+    } catch (error) {
+      logger.error('Error handling chat message:', error);
+      socket.emit('error', {
+        message: 'Failed to process message. Please try again.'
+      });
+    }
+  }
+
+  /**
+   * The client's turn context without the keys the agent system owns
+   */
+  private clientContext(context: unknown): Record<string, any> {
+    if (!context || typeof context !== 'object' || Array.isArray(context)) {
+      return {};
+    }
+    const owned = new Set<string>(SERVER_CONTEXT_KEYS);
+    return Object.fromEntries(Object.entries(context).filter(([key]) => !owned.has(key)));
+  }
+
+  /**
+   * Resolve a question that matched an earlier one: show the earlier answer or ask the agents again
+   */
+  private async handleSimilarChoice(socket: AuthenticatedSocket, data: any): Promise<void> {
+    const userId = socket.userId!;
+    const pending = this.pendingQuestions.get(userId);
+
+    if (!pending || pending.chatMessage.id !== data?.messageId) {
+      socket.emit('error', { message: 'This question is no longer waiting for an answer' });
+      return;
+    }
+    this.pendingQuestions.delete(userId);
+
+    if (data.choice !== 'previous') {
+      await this.respondToMessage(socket, pending.chatMessage, pending.context, pending.moderation);
+      return;
+    }
+
+    const { chatMessage, similar } = pending;
+    const earlierAnswer: ChatMessage = {
+      id: `earlier_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      userId: 'system',
+      username: 'ML-E Tutor',
+      message: similar.answer,
+      timestamp: new Date(),
+      sessionId: chatMessage.sessionId,
+      agentResponse: true,
+      agentType: 'tutor',
+      earlierAnswer: {
+        question: similar.question,
+        askedAt: similar.askedAt,
+        sessionId: similar.sessionId
+      }
+    };
+
+    socket.emit('chat:message', earlierAnswer);
+    if (chatMessage.sessionId) {
+      await this.storeMessageInMongoDB(chatMessage.sessionId, earlierAnswer);
+    }
+  }
+
+  /**
+   * Route the student's message through the agents and stream back the reply
+   */
+  private async respondToMessage(
+    socket: AuthenticatedSocket,
+    chatMessage: ChatMessage,
+    context: any,
+    moderation: ModerationResult
+  ): Promise<void> {
+    try {
+      const userId = socket.userId!;
+      const sessionId = chatMessage.sessionId;
+
       // Show typing indicator for agent
       socket.emit('chat:typing', {
         userId: 'system',
@@ -246,26 +413,88 @@ class WebSocketService {
         logger.warn('Could not fetch user grade, using default:', error instanceof Error ? error.message : String(error));
       }
 
-      // Generate intelligent response using AWS Bedrock
-      const agentResponse = await bedrockService.generateMLResponse(message.trim(), userGrade);
+      // Route the message through the coordinator and specialized agents
+      const studentMessage: Message = {
+        id: chatMessage.id,
+        sender: 'student',
+        content: chatMessage.message,
+        timestamp: chatMessage.timestamp,
+        metadata: { messageType: 'question' }
+      };
+
+      // Prior turns for multi-turn memory; the agent system trims them to the context budget
+      // with older turns summarized, once the student's token budget allows the turn
+      const history = sessionId
+        ? (await this.loadConversationHistory(sessionId)).filter(m => m.id !== chatMessage.id)
+        : undefined;
+
+      // Stream partial agent output to the client; only the final message is persisted
+      const streamId = `stream_${chatMessage.id}`;
+      socket.emit('chat:stream:start', { streamId, sessionId, timestamp: new Date() });
+
+      let coordination: CoordinationResponse;
+      try {
+        coordination = await getAgentSystem().handleStudentMessage(
+          sessionId || `user_${userId}`,
+          userId,
+          studentMessage,
+          {
+            ...(context || {}),
+            studentLevel: userGrade === 9 ? 'beginner' : 'intermediate'
+          },
+          (content) => socket.emit('chat:stream:chunk', { streamId, content }),
+          {
+            // A student is watching the reply stream in, so live chat goes ahead of API turns and background work
+            priority: 'high',
+            history,
+            moderation,
+            // Tell the student where they stand while the system is too busy to start on the message
+            onQueued: (position) => socket.emit('chat:queued', { streamId, sessionId, position, message: this.queueNotice(position) })
+          }
+        );
+      } catch (error) {
+        socket.emit('chat:stream:end', {
+          streamId,
+          sessionId,
+          error: 'Failed to process message. Please try again.'
+        });
+        throw error;
+      }
+
+      const agentReply = coordination.aggregatedResponse;
+      // Answers replaced by moderation are neither indexed nor counted as tutoring
+      const answered = coordination.success && !agentReply.metadata?.moderation;
+      const answeringAgents = coordination.responses
+        .filter(r => r.success)
+        .map(r => r.agentType);
 
       // Create agent response message
       const agentMessage: ChatMessage = {
         id: `agent_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
         userId: 'system',
-        username: `ML-E (${agentResponse.model.includes('haiku') ? 'Fast' : 'Balanced'})`,
-        message: agentResponse.message,
+        username: this.formatAgentName(answeringAgents),
+        message: agentReply.content,
         timestamp: new Date(),
         sessionId,
-        agentResponse: true
+        agentResponse: true,
+        agentType: agentReply.sender,
+        agents: answeringAgents
       };
 
-      // Send agent response to user
-      socket.emit('chat:message', agentMessage);
+      // Finish the stream with the complete agent response
+      socket.emit('chat:stream:end', { streamId, sessionId, message: agentMessage });
 
-      // Store agent response in MongoDB
-      if (sessionId) {
+      // Store agent response in MongoDB and index the question for later lookups; a busy reply is not kept
+      if (sessionId && !agentReply.metadata?.busy) {
         await this.storeMessageInMongoDB(sessionId, agentMessage);
+        if (answered) {
+          await questionIndexService.indexQuestion(userId, {
+            sessionId,
+            question: chatMessage.message,
+            answer: agentMessage.message,
+            answerMessageId: agentMessage.id
+          });
+        }
       }
 
       // Stop typing indicator
@@ -275,31 +504,28 @@ class WebSocketService {
         isTyping: false
       });
 
-      // Track learning progress if topic detected
-      if (sessionId && agentResponse.metadata?.topic && agentResponse.metadata.topic !== 'general') {
-        await analyticsService.trackProgress({
-          userId,
-          sessionId,
-          topicId: agentResponse.metadata.topic.replace(/\s+/g, '_').toLowerCase(),
-          topicName: agentResponse.metadata.topic,
-          action: 'progressed',
-          progressPercentage: Math.min(100, Math.random() * 30 + 20), // Simulated progress
-          timeSpent: Math.floor(Math.random() * 300 + 60), // 1-5 minutes
-          difficultyLevel: userGrade === 9 ? 4 : 6,
-          masteryLevel: userGrade === 9 ? 'beginner' : 'intermediate',
-          metadata: {
-            conceptsUnderstood: [agentResponse.metadata.topic],
-            questionsAnswered: message.includes('?') ? 1 : 0
-          }
-        });
+      // Update concept mastery from the concepts the reply covered
+      const coveredConcepts = agentReply.metadata?.concepts
+        || (agentReply.metadata?.topicId ? [agentReply.metadata.topicId] : []);
+      if (sessionId && answered && coveredConcepts.length > 0) {
+        try {
+          await masteryService.recordTutorTurn(userId, {
+            sessionId,
+            concepts: coveredConcepts,
+            topic: agentReply.metadata?.topicId,
+            timeSpent: this.measureTurnTime(sessionId, chatMessage.timestamp),
+            difficulty: agentReply.metadata?.difficulty
+          });
+        } catch (error) {
+          logger.warn('Failed to update concept mastery from tutor turn:', error);
+        }
       }
 
-      logger.info(`Bedrock response sent to user ${userId}`, {
-        confidence: agentResponse.confidence,
-        model: agentResponse.model,
-        topic: agentResponse.metadata?.topic,
-        responseTime: agentResponse.responseTime,
-        tokensUsed: agentResponse.tokensUsed
+      logger.info(`Agent response sent to user ${userId}`, {
+        agents: coordination.involvedAgents,
+        success: coordination.success,
+        processingTime: coordination.processingTime,
+        errors: coordination.errors
       });
 
     } catch (error) {
@@ -310,6 +536,77 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Seconds the student spent on this turn: time since their previous turn in the session,
+   * capped so idle gaps don't count, or the time the reply took on the first turn
+   */
+  private measureTurnTime(sessionId: string, messageTime: Date): number {
+    const now = Date.now();
+    const since = this.lastTurnAt.get(sessionId) ?? messageTime.getTime();
+    this.lastTurnAt.set(sessionId, now);
+    return Math.min(MAX_TURN_SECONDS, Math.round((now - since) / 1000));
+  }
+
+  /**
+   * What a student sees while their message waits for the agents
+   */
+  private queueNotice(position: number): string {
+    return position === 1
+      ? "Lots of students are asking questions right now. You're next!"
+      : `Lots of students are asking questions right now. You're number ${position} in line.`;
+  }
+
+  /**
+   * Build a display name listing the agents that answered
+   */
+  private formatAgentName(agentTypes: string[]): string {
+    if (agentTypes.length === 0) {
+      return 'ML-E';
+    }
+
+    const names = agentTypes.map(type => type.charAt(0).toUpperCase() + type.slice(1));
+    return `ML-E (${names.join(' + ')})`;
+  }
+
+  /**
+   * Run a quiz action and report failures as quiz:error
+   */
+  private async handleQuizEvent(socket: AuthenticatedSocket, action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof QuizError) {
+        socket.emit('quiz:error', { code: error.code, message: error.message });
+        return;
+      }
+
+      logger.error(`Error in quiz handler for user ${socket.userId}:`, error);
+      socket.emit('quiz:error', { code: 'internal', message: 'Failed to process quiz action. Please try again.' });
+    }
+  }
+
+  /**
+   * Reveal the next level of a question's hint ladder
+   */
+  private async handleHintRequest(socket: AuthenticatedSocket, data: { questionId?: string; sessionId?: string }): Promise<void> {
+    try {
+      if (!data?.questionId) {
+        socket.emit('question:hint:error', { code: 'not_found', message: 'A question id is required' });
+        return;
+      }
+
+      socket.emit('question:hint', await hintService.requestHint(socket.userId!, data.questionId, data.sessionId));
+    } catch (error) {
+      if (error instanceof HintError) {
+        socket.emit('question:hint:error', { code: error.code, message: error.message });
+        return;
+      }
+
+      logger.error(`Error revealing hint for user ${socket.userId}:`, error);
+      socket.emit('question:hint:error', { code: 'internal', message: 'Failed to load a hint. Please try again.' });
+    }
+  }
+
   /**
    * Handle typing indicators
    */
@@ -363,6 +660,7 @@ class WebSocketService {
     if (sessionId) {
       socket.leave(`session:${sessionId}`);
       this.userSessions.delete(userId);
+      this.lastTurnAt.delete(sessionId);
 
       logger.info(`User ${userId} left session: ${sessionId}`);
 
@@ -385,6 +683,7 @@ class WebSocketService {
 
     // Remove from connected users
     this.connectedUsers.delete(userId);
+    this.pendingQuestions.delete(userId);
 
     // Leave session if any
     this.handleSessionLeave(socket);
@@ -406,7 +705,7 @@ class WebSocketService {
           agentId: chatMessage.agentResponse ? 'ml-tutor' : undefined,
           topicId: 'machine-learning', // Could be derived from message content
           difficulty: 5, // Default difficulty
-          hasCode: chatMessage.message.includes('```') || chatMessage.message.includes('code'),
+          hasCode: /^ {0,3}(```|~~~)/m.test(chatMessage.message), // fenced code blocks, which the client renders as runnable
           hasMath: /\b(equation|formula|calculate|math|algorithm)\b/i.test(chatMessage.message)
         }
       };
@@ -428,7 +727,7 @@ class WebSocketService {
       // Also store in Redis for fast access (fallback)
       await this.storeMessageInRedis(sessionId, chatMessage);
       
-      logger.debug(`Message stored in MongoDB for session ${sessionId}: ${message.content.substring(0, 50)}...`);
+      logger.debug(`Message stored in MongoDB for session ${sessionId}: ${redactPersonalData(message.content.substring(0, 50))}...`);
     } catch (error) {
       logger.error('Failed to store message in MongoDB:', error);
       // Fallback to Redis only
@@ -442,7 +741,8 @@ class WebSocketService {
   private async storeMessageInRedis(sessionId: string, message: ChatMessage): Promise<void> {
     try {
       const key = `session:${sessionId}:messages`;
-      await redisService.lpush(key, JSON.stringify(message));
+      // Redacted like the MongoDB copy, since personal data must not be stored
+      await redisService.lpush(key, JSON.stringify({ ...message, message: redactPersonalData(message.message) }));
 
       // Keep only last 100 messages per session
       await redisService.ltrim(key, 0, 99);
@@ -455,6 +755,31 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Load prior turns for a session from MongoDB, falling back to the Redis message list
+   */
+  private async loadConversationHistory(sessionId: string): Promise<Message[]> {
+    try {
+      const history = await this.sessionRepository.getConversationHistory(sessionId);
+      if (history.length > 0) {
+        return history;
+      }
+    } catch (error) {
+      logger.debug('Session history not available in MongoDB, using Redis:', error instanceof Error ? error.message : String(error));
+    }
+
+    const chatMessages = await this.getSessionMessages(sessionId);
+    return chatMessages.map(chatMessage => ({
+      id: chatMessage.id,
+      sender: chatMessage.agentResponse ? 'tutor' as const : 'student' as const,
+      content: chatMessage.message,
+      timestamp: new Date(chatMessage.timestamp),
+      metadata: {
+        messageType: chatMessage.agentResponse ? 'explanation' as const : 'question' as const
+      }
+    }));
+  }
+
   /**
    * Get message history for a session
    */
@@ -503,162 +828,6 @@ class WebSocketService {
     return this.connectedUsers.has(userId);
   }
 
-  /**
-   * Check for cached response to similar questions across all user sessions
-   */
-  private async checkForCachedResponse(userId: string, currentSessionId: string, question: string): Promise<ChatMessage | null> {
-    try {
-      const normalizedQuestion = this.normalizeQuestion(question);
-      
-      // First check current session from MongoDB
-      if (currentSessionId) {
-        const currentSessionResponse = await this.checkSessionForDuplicate(currentSessionId, normalizedQuestion);
-        if (currentSessionResponse) {
-          return currentSessionResponse;
-        }
-      }
-
-      // Then check user's recent sessions from MongoDB
-      const userSessions = await this.sessionRepository.findUserSessions(userId, 5); // Check last 5 sessions
-      
-      for (const session of userSessions) {
-        if (session.id === currentSessionId) continue; // Skip current session (already checked)
-        
-        const sessionResponse = await this.checkSessionForDuplicate(session.id, normalizedQuestion);
-        if (sessionResponse) {
-          return sessionResponse;
-        }
-      }
-
-      // Fallback to Redis if MongoDB fails
-      return await this.checkRedisForDuplicate(currentSessionId, normalizedQuestion);
-      
-    } catch (error) {
-      logger.warn('Error checking cached responses:', error instanceof Error ? error.message : String(error));
-      return null;
-    }
-  }
-
-  /**
-   * Check a specific session for duplicate questions
-   */
-  private async checkSessionForDuplicate(sessionId: string, normalizedQuestion: string): Promise<ChatMessage | null> {
-    try {
-      // Get conversation history from MongoDB
-      const messages = await this.sessionRepository.getConversationHistory(sessionId, 50); // Check last 50 messages
-      
-      for (let i = 0; i < messages.length - 1; i++) {
-        const userMsg = messages[i];
-        const agentMsg = messages[i + 1];
-
-        // Check if we have a user question followed by agent response
-        if (userMsg.sender === 'student' && agentMsg.sender === 'tutor') {
-          const cachedQuestion = this.normalizeQuestion(userMsg.content);
-          
-          if (this.isSimilarQuestion(normalizedQuestion, cachedQuestion)) {
-            logger.info(`Found duplicate question in session ${sessionId}: "${userMsg.content.substring(0, 50)}..."`);
-            
-            // Convert MongoDB Message to ChatMessage format
-            return {
-              id: agentMsg.id,
-              userId: 'system',
-              username: 'ML-E Tutor',
-              message: agentMsg.content,
-              timestamp: agentMsg.timestamp,
-              sessionId: sessionId,
-              agentResponse: true
-            };
-          }
-        }
-      }
-
-      return null;
-    } catch (error) {
-      logger.warn(`Error checking session ${sessionId} for duplicates:`, error instanceof Error ? error.message : String(error));
-      return null;
-    }
-  }
-
-  /**
-   * Fallback to check Redis for duplicate questions
-   */
-  private async checkRedisForDuplicate(sessionId: string, normalizedQuestion: string): Promise<ChatMessage | null> {
-    if (!sessionId) return null;
-
-    try {
-      const messages = await this.getSessionMessages(sessionId);
-      
-      // Look for similar questions in recent messages (last 20 messages)
-      const recentMessages = messages.slice(-20);
-      
-      for (let i = 0; i < recentMessages.length - 1; i++) {
-        const userMsg = recentMessages[i];
-        const agentMsg = recentMessages[i + 1];
-
-        // Check if we have a user question followed by agent response
-        if (!userMsg.agentResponse && agentMsg.agentResponse) {
-          const cachedQuestion = this.normalizeQuestion(userMsg.message);
-          
-          if (this.isSimilarQuestion(normalizedQuestion, cachedQuestion)) {
-            return agentMsg;
-          }
-        }
-      }
-
-      return null;
-    } catch (error) {
-      logger.warn('Error checking Redis for cached responses:', error instanceof Error ? error.message : String(error));
-      return null;
-    }
-  }
-
-  /**
-   * Normalize question for comparison
-   */
-  private normalizeQuestion(question: string): string {
-    return question
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' '); // Normalize whitespace
-  }
-
-  /**
-   * Check if two questions are similar (enhanced duplicate detection)
-   */
-  private isSimilarQuestion(question1: string, question2: string): boolean {
-    // Exact match
-    if (question1 === question2) {
-      return true;
-    }
-
-    // Check if one question contains the other (for variations like "what is ML?" vs "what is machine learning?")
-    if (question1.includes(question2) || question2.includes(question1)) {
-      return true;
-    }
-
-    // Split into significant words (length > 2 to avoid common words like "is", "the", etc.)
-    const words1 = question1.split(' ').filter(word => word.length > 2);
-    const words2 = question2.split(' ').filter(word => word.length > 2);
-    
-    if (words1.length === 0 || words2.length === 0) {
-      return false;
-    }
-
-    // Calculate similarity based on common significant words
-    const commonWords = words1.filter(word => words2.includes(word));
-    const similarity = commonWords.length / Math.max(words1.length, words2.length);
-    
-    // Enhanced similarity check with different thresholds based on question length
-    if (words1.length <= 3 || words2.length <= 3) {
-      // For short questions, require higher similarity (80%)
-      return similarity >= 0.8;
-    } else {
-      // For longer questions, 70% similarity is sufficient
-      return similarity >= 0.7;
-    }
-  }
-
   /**
    * Shutdown WebSocket server
    */
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const { AgentPluginError, createPluginConfig, loadAgentPlugins, validateManifest } = await import('../../agents/agent-plugin.js');
+const { AgentRegistry } = await import('../../agents/agent-registry.js');
+
+const manifest = {
+  type: 'ethics',
+  name: 'ai-ethics-agent',
+  version: '1.0.0',
+  description: 'Discusses fairness, bias and privacy in ML',
+  capabilities: [{ name: 'discuss_ethics', description: 'Discuss ML ethics', inputTypes: ['student_question'], outputTypes: ['explanation'] }],
+  routing: [{ keywords: ['bias'] }]
+};
+
+// The registry only reads an agent's state and capabilities
+const agent = (agentId: string, agentType: string, capabilities = manifest.capabilities) => ({
+  getState: () => ({ agentId, agentType, status: 'active' }),
+  getCapabilities: () => capabilities
+}) as any;
+
+describe('validateManifest', () => {
+  it('should accept a complete manifest', () => {
+    expect(validateManifest(manifest)).toEqual([]);
+  });
+
+  it('should reject core and malformed type names', () => {
+    expect(validateManifest({ ...manifest, type: 'tutor' })).toEqual(['type tutor is reserved']);
+    expect(validateManifest({ ...manifest, type: 'student' })).toEqual(['type student is reserved']);
+    expect(validateManifest({ ...manifest, type: 'Math Helper' })[0]).toMatch(/^type must match/);
+  });
+
+  it('should list every missing field and unusable routing hint', () => {
+    const errors = validateManifest({ ...manifest, name: '', capabilities: [], routing: [{ priority: 5 }, { keywords: ['x'], minConfidence: 2 }] });
+
+    expect(errors).toEqual([
+      'name is required',
+      'at least one capability is required',
+      'routing[0] needs intents or keywords',
+      'routing[1].minConfidence must be between 0 and 1'
+    ]);
+  });
+
+  it('should build the agent config from the manifest', () => {
+    expect(createPluginConfig(manifest)).toMatchObject({ id: 'ethics-main', type: 'ethics', capabilities: manifest.capabilities, maxConcurrentTasks: 5 });
+  });
+});
+
+describe('loadAgentPlugins', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'agent-plugins-'));
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('should import the plug-ins named by path', async () => {
+    const path = join(directory, 'ethics.mjs');
+    writeFileSync(path, `export default { manifest: ${JSON.stringify(manifest)}, createAgent: () => null };`);
+
+    const plugins = await loadAgentPlugins(` ${path} ,`);
+
+    expect(plugins.map(plugin => plugin.manifest.type)).toEqual(['ethics']);
+  });
+
+  it('should reject a module without a manifest and factory', async () => {
+    const path = join(directory, 'empty.mjs');
+    writeFileSync(path, 'export const manifest = {};');
+
+    await expect(loadAgentPlugins(path)).rejects.toThrow(AgentPluginError);
+  });
+});
+
+describe('AgentRegistry plug-ins', () => {
+  let registry: InstanceType<typeof AgentRegistry>;
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+  });
+
+  afterEach(() => {
+    registry.cleanup();
+  });
+
+  it('should index a plug-in agent by its type and capabilities once its manifest is registered', () => {
+    registry.registerPlugin(manifest);
+    registry.registerAgent(agent('ethics-main', 'ethics'));
+
+    expect(registry.getManifests()).toEqual([manifest]);
+    expect(registry.findAgentsByType('ethics').map(reg => reg.agentId)).toEqual(['ethics-main']);
+    expect(registry.findAgentsByCapability('discuss_ethics').map(reg => reg.agentId)).toEqual(['ethics-main']);
+    expect(registry.getStatistics().agentsByType).toEqual({ ethics: 1 });
+  });
+
+  it('should refuse agents of a type without a manifest', () => {
+    expect(() => registry.registerAgent(agent('ethics-main', 'ethics')))
+      .toThrow('Agent type ethics has no registered plug-in manifest');
+    expect(() => registry.registerAgent(agent('tutor-main', 'tutor'))).not.toThrow();
+  });
+
+  it('should refuse an invalid manifest or a second plug-in claiming the same type', () => {
+    expect(() => registry.registerPlugin({ ...manifest, type: 'content' })).toThrow(AgentPluginError);
+
+    registry.registerPlugin(manifest);
+    expect(() => registry.registerPlugin({ ...manifest, name: 'other-ethics-agent' }))
+      .toThrow('Agent type ethics is already provided by ai-ethics-agent');
+    expect(() => registry.registerPlugin({ ...manifest, version: '1.1.0' })).not.toThrow();
+  });
+});
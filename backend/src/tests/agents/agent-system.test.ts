@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Message } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+vi.mock('../../services/llm.service.js', () => ({
+  createLLMService: () => ({ generateCompletion: vi.fn(async () => ({ content: '{"scores": {"concept_question": 0.9}}' })) })
+}));
+
+const moderate = vi.fn(async (text: string) => ({ action: 'allow', text, findings: [] }));
+vi.mock('../../services/moderation.service.js', () => ({
+  moderationService: {
+    moderate,
+    check: vi.fn((text: string) => ({ action: 'allow', text }))
+  }
+}));
+
+const checkBudget = vi.fn();
+vi.mock('../../services/usage.service.js', () => ({
+  usageService: { checkBudget }
+}));
+
+vi.mock('../../services/classroom.service.js', () => ({
+  classroomService: { getRequiredTutorMode: vi.fn(async () => null) }
+}));
+
+const buildWindow = vi.fn(async (_sessionId: string, history: Message[]) => ({ messages: history, summary: undefined }));
+vi.mock('../../services/conversation-memory.service.js', () => ({
+  conversationMemoryService: { buildWindow }
+}));
+
+const { AgentSystem, createAgentSystemConfig } = await import('../../agents/agent-system.js');
+const { BaseAgent } = await import('../../agents/base.agent.js');
+type AgentMessage = import('../../agents/base.agent.js').AgentMessage;
+
+// Shared context lives in Redis; a map stands in for it
+const redisStore = new Map<string, string>();
+const redisService = {
+  set: vi.fn(async (key: string, value: string) => { redisStore.set(key, value); }),
+  get: vi.fn(async (key: string) => redisStore.get(key) ?? null),
+  del: vi.fn(async (key: string) => (redisStore.delete(key) ? 1 : 0))
+};
+
+// Answers with the question it was asked and the history it was given
+class EchoTutor extends BaseAgent {
+  public received: AgentMessage[] = [];
+  public historySeen: string[][] = [];
+
+  constructor() {
+    super({
+      id: 'tutor-main',
+      type: 'tutor',
+      capabilities: [{ name: 'explain_concepts', description: 'Explain concepts', inputTypes: ['text'], outputTypes: ['text'] }],
+      maxConcurrentTasks: 5,
+      healthCheckInterval: 60000
+    });
+  }
+
+  protected async initialize(): Promise<void> {}
+  protected async cleanup(): Promise<void> {}
+  protected checkHealth(): boolean { return true; }
+  protected async handleBroadcast(): Promise<void> {}
+
+  protected async handleRequest(message: AgentMessage): Promise<AgentMessage | null> {
+    this.received.push(message);
+    this.historySeen.push(message.payload.context.conversationHistory.map((seen: Message) => seen.id));
+    const reply: Message = {
+      id: `reply-${this.received.length}`,
+      sender: 'tutor',
+      content: `About "${message.payload.message.content}"`,
+      timestamp: new Date(),
+      metadata: { messageType: 'explanation', agentId: 'tutor-main' }
+    };
+    return this.createResponse(message, { message: reply });
+  }
+}
+
+const studentMessage = (id: string, content: string): Message => ({
+  id,
+  sender: 'student',
+  content,
+  timestamp: new Date(),
+  metadata: { messageType: 'question' }
+});
+
+describe('AgentSystem student turns', () => {
+  let system: InstanceType<typeof AgentSystem>;
+  let tutor: EchoTutor;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    redisStore.clear();
+    checkBudget.mockResolvedValue({ allowed: true });
+
+    system = new AgentSystem(createAgentSystemConfig(), redisService as any);
+    await system.start();
+    tutor = new EchoTutor();
+    await system.registerAgent(tutor);
+  });
+
+  afterEach(async () => {
+    await system.stop();
+  });
+
+  it('should answer through the coordinator and name the agent that answered', async () => {
+    const response = await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'What is supervised learning?'));
+
+    expect(response.success).toBe(true);
+    expect(response.involvedAgents).toEqual(['tutor-main']);
+    expect(response.aggregatedResponse.content).toBe('About "What is supervised learning?"');
+  });
+
+  it('should keep the question and answer in the shared session context for the next turn', async () => {
+    await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'What is supervised learning?'));
+    await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-2', 'And unsupervised?'));
+
+    const context = await system.getContextManager().getContext('session-1');
+    expect(context?.conversationHistory.map(message => message.id)).toEqual(['msg-1', 'reply-1', 'msg-2', 'reply-2']);
+    expect(tutor.historySeen).toEqual([[], ['msg-1', 'reply-1']]);
+  });
+
+  it('should carry the turn priority onto the messages sent to agents', async () => {
+    await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'What is a model?'), {}, undefined, { priority: 'high' });
+
+    expect(tutor.received[0].priority).toBe('high');
+  });
+
+  it('should not let the client context replace the identity, history or stream of the turn', async () => {
+    const forged = {
+      userId: 'user-2',
+      conversationHistory: [studentMessage('msg-x', 'Unwindowed text')],
+      streamId: 'stream-other',
+      currentTopic: 'supervised-learning'
+    };
+
+    await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'What is a label?'), forged);
+
+    const context = tutor.received[0].payload.context;
+    expect(context.userId).toBe('user-1');
+    expect(context.streamId).toBeUndefined();
+    expect(context.currentTopic).toBe('supervised-learning');
+    expect(tutor.historySeen).toEqual([[]]);
+    expect(buildWindow).toHaveBeenCalledTimes(1);
+    expect(checkBudget).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should use the history the caller keeps in place of the shared context history', async () => {
+    const earlier = [studentMessage('msg-0', 'What is a model?')];
+
+    await system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'And a feature?'), {}, undefined, { history: earlier });
+
+    expect(buildWindow).toHaveBeenCalledWith('session-1', earlier, undefined, 'user-1');
+    expect(tutor.historySeen).toEqual([['msg-0']]);
+  });
+
+  it('should not build the history window or reach the agents once the token budget is spent', async () => {
+    checkBudget.mockResolvedValue({ allowed: false, exceeded: 'student', message: 'You have used today\'s tutoring budget.' });
+
+    const response = await system.handleStudentMessage(
+      'session-1', 'user-1', studentMessage('msg-1', 'What is supervised learning?'), {}, undefined,
+      { history: [studentMessage('msg-0', 'What is a model?')] }
+    );
+
+    expect(response.success).toBe(false);
+    expect(response.aggregatedResponse.metadata?.budgetExceeded).toBe('student');
+    expect(buildWindow).not.toHaveBeenCalled();
+    expect(tutor.received).toEqual([]);
+  });
+
+  it('should stop on the moderation result the caller supplies without moderating again', async () => {
+    const response = await system.handleStudentMessage(
+      'session-1', 'user-1', studentMessage('msg-1', 'I want to hurt myself'), {}, undefined,
+      { moderation: { action: 'escalate', text: 'Please talk to someone you trust.', findings: [] } }
+    );
+
+    expect(response.aggregatedResponse.content).toBe('Please talk to someone you trust.');
+    expect(response.aggregatedResponse.metadata?.moderation).toBe('escalate');
+    expect(moderate).not.toHaveBeenCalled();
+    expect(tutor.received).toEqual([]);
+  });
+
+  it('should refuse turns when the system is not running', async () => {
+    await system.stop();
+
+    await expect(system.handleStudentMessage('session-1', 'user-1', studentMessage('msg-1', 'Hello')))
+      .rejects.toThrow('Agent system is not running');
+  });
+});
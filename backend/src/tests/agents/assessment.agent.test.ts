@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BankQuestion } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const storedQuestions = new Map<string, BankQuestion>();
+const questionRepository = {
+  findQuestionById: vi.fn(async (id: string) => storedQuestions.get(id) || null),
+  pickApprovedQuestion: vi.fn(async () => null),
+  saveForReview: vi.fn(),
+  updateHints: vi.fn(),
+  recordAnswer: vi.fn()
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getQuestionRepository: () => questionRepository,
+    getLLMUsageRepository: () => ({ recordUsage: vi.fn() })
+  }
+}));
+
+// Code answers are run against their tests by the sandbox
+const sandbox = { run: vi.fn() };
+
+vi.mock('../../services/code-sandbox.service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/code-sandbox.service.js')>();
+  return { ...actual, codeSandboxService: sandbox };
+});
+
+// Open-ended answers are judged by the scripted LLM
+vi.mock('../../services/llm.service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/llm.service.js')>();
+  const { ScriptedLLMProvider } = await import('../../services/llm-providers/scripted.provider.js');
+
+  return {
+    ...actual,
+    createLLMService: () => new actual.LLMService(
+      { provider: 'scripted', model: 'scripted-fixture', temperature: 0, maxTokens: 200 },
+      new ScriptedLLMProvider([
+        { pattern: 'assessment evaluator', response: '{"isCorrect": false, "confidence": 0.8, "reasoning": "Mostly right"}' },
+        { pattern: 'writing hints[\\s\\S]*house prices', response: '{"nudge": "Is a price a category?", "partialStep": "A price can be any number, like 312,000."}' }
+      ])
+    )
+  };
+});
+
+const { AssessmentAgent, createAssessmentConfig } = await import('../../agents/assessment.agent.js');
+const { SandboxError } = await import('../../services/code-sandbox.service.js');
+
+const bankQuestion = (overrides: Partial<BankQuestion>): BankQuestion => ({
+  id: 'curated-1',
+  type: 'multiple_choice',
+  question: 'Which task predicts a number?',
+  options: ['Classification', 'Regression', 'Clustering'],
+  correctAnswer: 'Regression',
+  explanation: 'Regression predicts continuous values.',
+  hints: ['Is the answer a category?', 'Could it be 21.5?', 'Think of temperatures'],
+  difficulty: 2,
+  concept: 'regression',
+  topic: 'supervised-learning',
+  timeEstimate: 60,
+  source: 'curated',
+  reviewStatus: 'approved',
+  timesAnswered: 0,
+  timesCorrect: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const context = {
+  currentTopic: 'supervised-learning',
+  studentLevel: 'beginner' as const,
+  recentConcepts: [],
+  previousScores: [],
+  strugglingAreas: [],
+  timeSpentOnTopic: 0
+};
+
+describe('AssessmentAgent grading', () => {
+  let agent: InstanceType<typeof AssessmentAgent>;
+
+  beforeEach(() => {
+    storedQuestions.clear();
+    vi.clearAllMocks();
+    agent = new AssessmentAgent(createAssessmentConfig('assessment-test'));
+  });
+
+  it('should grade multiple choice answers by option letter', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+
+    const result = await agent.evaluateStudentResponse('curated-1', 'b', context);
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.score).toBe(10);
+    expect(result.maxScore).toBe(10);
+    expect(questionRepository.recordAnswer).toHaveBeenCalledWith('curated-1', true);
+  });
+
+  it('should give no credit for a wrong closed answer', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+
+    const result = await agent.evaluateStudentResponse('curated-1', 'Clustering', context);
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.score).toBe(0);
+  });
+
+  it('should apply the hint penalty', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+
+    const result = await agent.evaluateStudentResponse('curated-1', 'regression.', context, { hintsUsed: 2, timeSpent: 40 });
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.score).toBe(6);
+    expect(result.hintsUsed).toBe(2);
+    expect(result.timeSpent).toBe(40);
+  });
+
+  it('should give partial credit for open-ended answers from the LLM rubric', async () => {
+    storedQuestions.set('curated-2', bankQuestion({
+      id: 'curated-2',
+      type: 'short_answer',
+      options: undefined,
+      correctAnswer: 'To check the model on unseen data'
+    }));
+
+    const result = await agent.evaluateStudentResponse('curated-2', 'To see if it works', context);
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.score).toBe(8);
+  });
+
+  it('should grade code answers by the hidden tests they pass', async () => {
+    const testCases = [
+      { description: 'Picks the only example', expression: "predict([1, 1], [([0, 0], 'cat')])", expected: '"cat"' },
+      { description: 'Picks the closer example', expression: "predict([4, 5], [([0, 0], 'cat'), ([5, 5], 'dog')])", expected: '"dog"' },
+      { description: 'Handles negative coordinates', expression: "predict([-3, -2], [([-3, -3], 'pear')])", expected: '"pear"' }
+    ];
+    storedQuestions.set('curated-code', bankQuestion({
+      id: 'curated-code',
+      type: 'code_completion',
+      options: undefined,
+      correctAnswer: 'def predict(point, examples): ...',
+      code: { language: 'python', starterCode: 'def predict(point, examples):\n    pass', testCases }
+    }));
+    sandbox.run.mockResolvedValueOnce({
+      results: [
+        { description: 'Picks the only example', passed: true },
+        { description: 'Picks the closer example', passed: true },
+        { description: 'Handles negative coordinates', passed: false, error: "NameError: name 'dist' is not defined" }
+      ]
+    });
+
+    const result = await agent.evaluateStudentResponse('curated-code', 'def predict(point, examples): ...', context);
+
+    expect(sandbox.run).toHaveBeenCalledWith({ language: 'python', code: 'def predict(point, examples): ...', testCases });
+    expect(result.isCorrect).toBe(false);
+    expect(result.score).toBe(6);
+    expect(result.testResults).toHaveLength(3);
+    expect(result.feedback).toContain('2 of 3 tests passed');
+    expect(result.feedback).toContain("Handles negative coordinates (NameError: name 'dist' is not defined)");
+    expect(result.gradedBy).toBeUndefined();
+  });
+
+  it('should grade code answers with the LLM rubric when the sandbox is busy', async () => {
+    storedQuestions.set('curated-code', bankQuestion({
+      id: 'curated-code',
+      type: 'code_completion',
+      options: undefined,
+      code: {
+        language: 'python',
+        starterCode: '',
+        testCases: [{ description: 'Returns a label', expression: 'predict([0, 0], [])', expected: '"cat"' }]
+      }
+    }));
+    sandbox.run.mockRejectedValueOnce(new SandboxError('The code runner is busy', 'busy'));
+
+    const result = await agent.evaluateStudentResponse('curated-code', 'def predict(point, examples): ...', context);
+
+    expect(result.score).toBe(8);
+    expect(result.testResults).toBeUndefined();
+    expect(result.gradedBy).toEqual({ id: 'assessment.answer-evaluation', version: 1 });
+  });
+
+  it('should reject unknown questions', async () => {
+    await expect(agent.evaluateStudentResponse('missing', 'a', context))
+      .rejects.toThrow('Question missing not found');
+  });
+
+  it('should grade a chat reply to the question it asked', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+    await agent.start();
+
+    const response = await agent.processMessage({
+      id: 'request-1',
+      from: 'coordinator-test',
+      to: 'assessment-test',
+      type: 'request',
+      payload: {
+        sessionId: 'session-1',
+        studentMessage: {
+          id: 'msg-1',
+          sender: 'student',
+          content: 'My answer is B',
+          timestamp: new Date(),
+          metadata: { messageType: 'question' }
+        },
+        context,
+        assessmentType: 'answer',
+        questionId: 'curated-1'
+      },
+      timestamp: new Date()
+    });
+    await agent.stop();
+
+    expect(response!.payload.evaluationResult).toMatchObject({ questionId: 'curated-1', studentAnswer: 'B', isCorrect: true });
+    expect(response!.payload.message.content).toBe('Correct! Regression predicts continuous values.');
+    expect(response!.payload.message.metadata).toMatchObject({ messageType: 'feedback', concepts: ['regression'] });
+  });
+});
+
+describe('AssessmentAgent hint ladder', () => {
+  let agent: InstanceType<typeof AssessmentAgent>;
+
+  beforeEach(() => {
+    storedQuestions.clear();
+    vi.clearAllMocks();
+    agent = new AssessmentAgent(createAssessmentConfig('assessment-test'));
+  });
+
+  it('should build the ladder from authored hints and end with the worked solution', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+    const question = await agent.getQuestion('curated-1');
+
+    const ladder = await agent.getHintLadder(question!, { userId: 'student-1' });
+
+    expect(ladder).toEqual([
+      { level: 'nudge', hint: 'Is the answer a category?' },
+      { level: 'partial_step', hint: 'Could it be 21.5? Think of temperatures' },
+      { level: 'worked_solution', hint: 'Regression predicts continuous values. The answer is: Regression' }
+    ]);
+    expect(questionRepository.updateHints).not.toHaveBeenCalled();
+  });
+
+  it('should generate and save hints for a question without any', async () => {
+    storedQuestions.set('curated-3', bankQuestion({
+      id: 'curated-3',
+      question: 'Which task predicts house prices?',
+      hints: []
+    }));
+    const question = await agent.getQuestion('curated-3');
+
+    const ladder = await agent.getHintLadder(question!, { userId: 'student-1' });
+
+    expect(ladder.map(step => step.hint).slice(0, 2)).toEqual([
+      'Is a price a category?',
+      'A price can be any number, like 312,000.'
+    ]);
+    expect(questionRepository.updateHints).toHaveBeenCalledWith('curated-3', [
+      'Is a price a category?',
+      'A price can be any number, like 312,000.'
+    ]);
+  });
+
+  it('should fall back to generic hints without saving them when generation fails', async () => {
+    storedQuestions.set('curated-4', bankQuestion({ id: 'curated-4', hints: [] }));
+    const question = await agent.getQuestion('curated-4');
+
+    const ladder = await agent.getHintLadder(question!, { userId: 'student-1' });
+
+    expect(ladder).toHaveLength(3);
+    expect(ladder[0].hint).toContain('regression');
+    expect(questionRepository.updateHints).not.toHaveBeenCalled();
+  });
+
+  it('should charge the hint penalty for every level revealed, up to the worked solution', async () => {
+    storedQuestions.set('curated-1', bankQuestion({}));
+
+    const result = await agent.evaluateStudentResponse('curated-1', 'Regression', context, { hintsUsed: 5 });
+
+    expect(result.hintsUsed).toBe(3);
+    expect(result.score).toBe(4);
+  });
+});
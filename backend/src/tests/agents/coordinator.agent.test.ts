@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Message } from '../../types/index.js';
+import { AgentManifest } from '../../agents/agent-plugin.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// Messages the rule tier is unsure about are labelled by the LLM tier
+const generateCompletion = vi.fn();
+vi.mock('../../services/llm.service.js', () => ({
+  createLLMService: () => ({ generateCompletion })
+}));
+
+const { CoordinatorAgent, createCoordinatorConfig } = await import('../../agents/coordinator.agent.js');
+
+// Plug-in manifests registered in the registry
+const manifests: AgentManifest[] = [];
+
+// One active agent of each type; every agent replies with a message naming it
+const registry = {
+  findAgentsByType: vi.fn((type: string) => [{ agentId: `${type}-1`, agentType: type, status: 'active' }]),
+  findAgentsByCapability: vi.fn((capability: string) => manifests
+    .filter(manifest => manifest.capabilities.some(({ name }) => name === capability))
+    .map(manifest => ({ agentId: `${manifest.type}-1`, agentType: manifest.type, status: 'active' }))),
+  getManifests: vi.fn(() => manifests),
+  isCapabilityAvailable: vi.fn(() => true),
+  getActiveAgents: vi.fn(() => [])
+};
+
+// Milliseconds each agent takes to reply
+const delays: Record<string, number> = {};
+
+const messageBus = {
+  sendMessage: vi.fn(async (message: any) => {
+    await new Promise(resolve => setTimeout(resolve, delays[message.to] || 0));
+    const asksQuestion = message.payload.assessmentType === 'comprehension';
+
+    return {
+      ...message,
+      type: 'response',
+      payload: {
+        message: {
+          id: `reply-${message.to}`,
+          sender: message.to.replace(/-1$/, ''),
+          content: `Reply from ${message.to}`,
+          timestamp: new Date(),
+          metadata: asksQuestion
+            ? { messageType: 'assessment', questionId: 'curated-1' }
+            : { messageType: 'explanation', prompts: [{ id: `${message.to}.prompt`, version: 1 }] }
+        }
+      }
+    };
+  })
+};
+
+const payloadsSent = () => messageBus.sendMessage.mock.calls.map(([message]) => message);
+
+const studentMessage = (content: string): Message => ({
+  id: 'msg-1',
+  sender: 'student',
+  content,
+  timestamp: new Date(),
+  metadata: { messageType: 'question' }
+});
+
+const questionAsked: Message = {
+  id: 'assessment-1',
+  sender: 'assessment',
+  content: 'Which task predicts a number?\n\nOptions:\nA. Classification\nB. Regression',
+  timestamp: new Date(),
+  metadata: { messageType: 'assessment', questionId: 'curated-1' }
+};
+
+describe('CoordinatorAgent intent routing', () => {
+  let coordinator: InstanceType<typeof CoordinatorAgent>;
+
+  const coordinate = (content: string, context: Record<string, any> = {}) =>
+    coordinator.coordinateRequest({
+      sessionId: 'session-1',
+      studentMessage: studentMessage(content),
+      context: { userId: 'user-1', currentTopic: 'supervised-learning', ...context }
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generateCompletion.mockResolvedValue({ content: '{"scores": {"concept_question": 0.8}}' });
+    coordinator = new CoordinatorAgent(createCoordinatorConfig('coordinator-test'), messageBus as any, registry as any);
+  });
+
+  it('should send example requests to the content agent', async () => {
+    const response = await coordinate('Can you give me an example of classification?');
+
+    expect(response.involvedAgents).toEqual(['content-1']);
+    expect(response.intent?.intent).toBe('example_request');
+    expect(payloadsSent()[0].payload.requestType).toBe('example');
+  });
+
+  it('should send practice requests to the assessment agent for a practice question', async () => {
+    const response = await coordinate('quiz me on regression');
+
+    expect(response.involvedAgents).toEqual(['assessment-1']);
+    expect(payloadsSent()[0].payload.assessmentType).toBe('practice');
+  });
+
+  it('should send answers to a waiting question to the assessment agent for grading', async () => {
+    const response = await coordinate('B', { conversationHistory: [questionAsked] });
+
+    expect(response.involvedAgents).toEqual(['assessment-1']);
+    expect(response.intent).toMatchObject({ intent: 'quiz_answer', method: 'rule' });
+    expect(payloadsSent()[0].payload).toMatchObject({ assessmentType: 'answer', questionId: 'curated-1' });
+  });
+
+  it('should keep emotional messages with the tutor alone', async () => {
+    const response = await coordinate("I'm so frustrated, can you give me an example?");
+
+    expect(response.involvedAgents).toEqual(['tutor-1']);
+    expect(payloadsSent()[0].payload.context.intent).toBe('emotional');
+  });
+
+  it('should route concept questions the LLM tier labels to the tutor by default', async () => {
+    const response = await coordinate('decision trees??');
+
+    expect(response.involvedAgents).toEqual(['tutor-1']);
+    expect(response.intent).toMatchObject({ intent: 'concept_question', method: 'llm' });
+    expect(generateCompletion).toHaveBeenCalledWith(expect.objectContaining({
+      attribution: { agent: 'intent-classifier', userId: 'user-1', sessionId: 'session-1' }
+    }));
+  });
+
+  it('should not classify messages an exclusive rule routes first', async () => {
+    const response = await coordinate('decision trees??', { tutorMode: 'socratic' });
+
+    expect(response.involvedAgents).toEqual(['tutor-1']);
+    expect(response.intent).toBeUndefined();
+    expect(generateCompletion).not.toHaveBeenCalled();
+  });
+});
+
+describe('CoordinatorAgent fan-out', () => {
+  let coordinator: InstanceType<typeof CoordinatorAgent>;
+
+  const coordinate = (content: string) =>
+    coordinator.coordinateRequest({
+      sessionId: 'session-1',
+      studentMessage: studentMessage(content),
+      requiresMultipleAgents: true,
+      context: { userId: 'user-1', currentTopic: 'supervised-learning' }
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(delays).forEach(agentId => delete delays[agentId]);
+    generateCompletion.mockImplementation(async (request: any) => ({
+      content: request.systemPrompt.includes('You edit replies')
+        ? JSON.stringify({ explanation: 'Explanation.', example: 'Example.', checkIntro: 'Try this:' })
+        : '{"scores": {"concept_question": 0.8}}'
+    }));
+
+    const config = createCoordinatorConfig('coordinator-test');
+    coordinator = new CoordinatorAgent(
+      { ...config, fanOutRules: config.fanOutRules.map(rule => ({ ...rule, deadlineMs: 200 })) },
+      messageBus as any,
+      registry as any
+    );
+  });
+
+  it('should query the tutor, content and assessment agents in parallel', async () => {
+    Object.assign(delays, { 'tutor-1': 120, 'content-1': 120, 'assessment-1': 120 });
+
+    const response = await coordinate('Can you explain overfitting?');
+
+    expect(response.involvedAgents).toEqual(['tutor-1', 'content-1', 'assessment-1']);
+    expect(response.processingTime).toBeLessThan(300);
+    expect(payloadsSent().map(message => [message.to, message.payload.requestType ?? message.payload.assessmentType]))
+      .toEqual([['tutor-1', undefined], ['content-1', 'example'], ['assessment-1', 'comprehension']]);
+  });
+
+  it('should synthesize one reply with the provenance of each section', async () => {
+    const response = await coordinate('Can you explain overfitting?');
+    const reply = response.aggregatedResponse;
+
+    expect(reply.content).toBe('Explanation.\n\nExample.\n\nTry this:\n\nReply from assessment-1');
+    expect(reply.metadata.sections?.map(section => [section.kind, section.agentId, reply.content.slice(section.start, section.end)]))
+      .toEqual([
+        ['explanation', 'tutor-1', 'Explanation.'],
+        ['example', 'content-1', 'Example.'],
+        ['check', 'assessment-1', 'Try this:\n\nReply from assessment-1']
+      ]);
+    expect(reply.metadata.questionId).toBe('curated-1');
+    expect(reply.metadata.prompts).toEqual([
+      { id: 'tutor-1.prompt', version: 1 },
+      { id: 'content-1.prompt', version: 1 },
+      { id: 'coordinator.synthesis', version: 1 }
+    ]);
+  });
+
+  it('should leave out the section of an agent that misses its deadline', async () => {
+    delays['content-1'] = 1000;
+
+    const response = await coordinate('Can you explain overfitting?');
+
+    expect(response.success).toBe(true);
+    expect(response.errors).toEqual(['content agent missed its 200ms deadline']);
+    expect(response.aggregatedResponse.metadata.sections?.map(section => section.kind)).toEqual(['explanation', 'check']);
+  });
+
+  it('should grade a reply to the synthesized check question', async () => {
+    const first = await coordinate('Can you explain overfitting?');
+
+    const response = await coordinator.coordinateRequest({
+      sessionId: 'session-1',
+      studentMessage: studentMessage('B'),
+      context: { userId: 'user-1', currentTopic: 'supervised-learning', conversationHistory: [first.aggregatedResponse] }
+    });
+
+    expect(response.intent?.intent).toBe('quiz_answer');
+    expect(payloadsSent().at(-1).payload).toMatchObject({ assessmentType: 'answer', questionId: 'curated-1' });
+  });
+});
+
+describe('CoordinatorAgent plug-in routing', () => {
+  let coordinator: InstanceType<typeof CoordinatorAgent>;
+
+  const ethicsManifest: AgentManifest = {
+    type: 'ethics',
+    name: 'ai-ethics-agent',
+    version: '1.0.0',
+    description: 'Discusses fairness, bias and privacy in ML',
+    capabilities: [{ name: 'discuss_ethics', description: 'Discuss ML ethics', inputTypes: ['student_question'], outputTypes: ['explanation'] }],
+    routing: [{ keywords: ['bias', 'fair'], priority: 16, exclusive: true }]
+  };
+
+  const mathManifest: AgentManifest = {
+    type: 'math-helper',
+    name: 'math-helper-agent',
+    version: '0.2.0',
+    description: 'Works through the math behind ML formulas',
+    capabilities: [{ name: 'explain_math', description: 'Explain formulas step by step', inputTypes: ['student_question'], outputTypes: ['explanation'] }],
+    routing: [{ keywords: ['formula'], capability: 'explain_math', priority: 16, exclusive: true }]
+  };
+
+  const coordinate = (content: string) =>
+    coordinator.coordinateRequest({
+      sessionId: 'session-1',
+      studentMessage: studentMessage(content),
+      context: { userId: 'user-1', currentTopic: 'supervised-learning' }
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manifests.splice(0, manifests.length, ethicsManifest, mathManifest);
+    generateCompletion.mockResolvedValue({ content: '{"scores": {"concept_question": 0.8}}' });
+    coordinator = new CoordinatorAgent(createCoordinatorConfig('coordinator-test'), messageBus as any, registry as any);
+  });
+
+  it('should route messages matching a manifest routing hint to the plug-in agent', async () => {
+    const response = await coordinate('Can an example of a model be unfair because of bias?');
+
+    expect(response.involvedAgents).toEqual(['ethics-1']);
+    expect(response.responses[0].agentType).toBe('ethics');
+    expect(payloadsSent()[0].payload).toMatchObject({ sessionId: 'session-1', message: { content: expect.stringContaining('bias') } });
+    expect(coordinator.getCoordinationStats().routingStats.ethics).toEqual({ requests: 1, successRate: 1 });
+  });
+
+  it('should route a capability target to whichever agent offers the capability', async () => {
+    const response = await coordinate('What does the formula for gradient descent mean?');
+
+    expect(registry.findAgentsByCapability).toHaveBeenCalledWith('explain_math');
+    expect(response.involvedAgents).toEqual(['math-helper-1']);
+  });
+
+  it('should fall back to the tutor when no plug-in agent is available', async () => {
+    registry.findAgentsByType.mockImplementationOnce(() => []);
+
+    const response = await coordinate('Is this model biased?');
+
+    expect(response.involvedAgents).toEqual(['tutor-1']);
+  });
+
+  it('should keep core routing for messages no hint matches', async () => {
+    const response = await coordinate('Can you give me an example of classification?');
+
+    expect(response.involvedAgents).toEqual(['content-1']);
+  });
+});
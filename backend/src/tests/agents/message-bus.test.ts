@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const { BaseAgent } = await import('../../agents/base.agent.js');
+const { MessageBus } = await import('../../agents/message-bus.js');
+const { RedisMessageTransport } = await import('../../agents/transports/index.js');
+type AgentMessage = import('../../agents/base.agent.js').AgentMessage;
+
+/**
+ * In-memory stand-in for one Redis server: every client shares its channels and hashes,
+ * and published messages arrive asynchronously as they would over the network
+ */
+class FakeRedisServer {
+  private listeners = new Map<string, Set<(raw: string) => void>>();
+  private hashes = new Map<string, Map<string, string>>();
+
+  client(): any {
+    const subscribed: Array<[string, (raw: string) => void]> = [];
+
+    return {
+      duplicate: () => this.client(),
+      connect: async () => {},
+      quit: async () => {},
+      subscribe: async (channels: string[], listener: (raw: string) => void) => {
+        for (const channel of channels) {
+          if (!this.listeners.has(channel)) this.listeners.set(channel, new Set());
+          this.listeners.get(channel)!.add(listener);
+          subscribed.push([channel, listener]);
+        }
+      },
+      unsubscribe: async () => {
+        for (const [channel, listener] of subscribed.splice(0)) {
+          this.listeners.get(channel)?.delete(listener);
+        }
+      },
+      publish: async (channel: string, raw: string) => {
+        const listeners = [...(this.listeners.get(channel) || [])];
+        listeners.forEach(listener => setImmediate(() => listener(raw)));
+        return listeners.length;
+      },
+      hSet: async (key: string, field: string, value: string) => {
+        if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+        this.hashes.get(key)!.set(field, value);
+        return 1;
+      },
+      hDel: async (key: string, field: string) => (this.hashes.get(key)?.delete(field) ? 1 : 0),
+      hGetAll: async (key: string) => Object.fromEntries(this.hashes.get(key) || [])
+    };
+  }
+}
+
+// Replies with what it was sent, or fails or stalls when asked to
+class EchoAgent extends BaseAgent {
+  public broadcasts: AgentMessage[] = [];
+
+  constructor(id: string, type: string) {
+    super({
+      id,
+      type,
+      capabilities: [{ name: 'echo', description: 'Echo requests', inputTypes: ['text'], outputTypes: ['text'] }],
+      maxConcurrentTasks: 5,
+      healthCheckInterval: 60000
+    });
+  }
+
+  protected async initialize(): Promise<void> {}
+  protected async cleanup(): Promise<void> {}
+  protected checkHealth(): boolean { return true; }
+
+  protected async handleRequest(message: AgentMessage): Promise<AgentMessage | null> {
+    if (message.payload.fail) throw new Error('Model unavailable');
+    if (message.payload.stallMs) await new Promise(resolve => setTimeout(resolve, message.payload.stallMs));
+    if (message.payload.chunk) this.emit('agent:stream_chunk', { streamId: 'stream-1', content: message.payload.chunk });
+
+    return this.createResponse(message, { echo: message.payload.text, by: this.config.id, sentAt: message.timestamp });
+  }
+
+  protected async handleBroadcast(message: AgentMessage): Promise<void> {
+    this.broadcasts.push(message);
+  }
+}
+
+const config = (nodeId: string) => ({
+  maxQueueSize: 100,
+  messageTimeout: 200,
+  retryAttempts: 0,
+  retryDelay: 0,
+  transport: 'redis' as const,
+  nodeId,
+  heartbeatInterval: 60000
+});
+
+const request = (to: string, payload: Record<string, any>): AgentMessage => ({
+  id: `msg-${Math.random().toString(36).slice(2)}`,
+  from: 'coordinator-main',
+  to,
+  type: 'request',
+  payload,
+  timestamp: new Date('2026-03-01T10:00:00.000Z')
+});
+
+describe('MessageBus over the Redis transport', () => {
+  let server: FakeRedisServer;
+  let api: InstanceType<typeof MessageBus>;
+  let worker: InstanceType<typeof MessageBus>;
+  let tutor: EchoAgent;
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    api = new MessageBus(config('api-1'), undefined, new RedisMessageTransport(server.client()));
+    worker = new MessageBus(config('worker-1'), undefined, new RedisMessageTransport(server.client()));
+    await api.start();
+    await worker.start();
+
+    tutor = new EchoAgent('tutor-worker-1', 'tutor');
+    worker.registerAgent(tutor);
+    await tutor.start();
+    await api.refreshRemoteAgents();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    await api.stop();
+  });
+
+  it('should list agents hosted by other processes', () => {
+    expect(api.getRemoteAgents()).toEqual([
+      expect.objectContaining({ agentId: 'tutor-worker-1', agentType: 'tutor', nodeId: 'worker-1', status: 'active' })
+    ]);
+    expect(api.getRemoteAgents()[0].capabilities.map(capability => capability.name)).toEqual(['echo']);
+    expect(worker.getRemoteAgents()).toEqual([]);
+  });
+
+  it('should correlate the reply to a request sent to another process', async () => {
+    const [first, second] = await Promise.all([
+      api.sendMessage(request('tutor-worker-1', { text: 'first' })),
+      api.sendMessage(request('tutor-worker-1', { text: 'second', stallMs: 20 }))
+    ]);
+
+    expect(first!.payload.echo).toBe('first');
+    expect(second!.payload.echo).toBe('second');
+    expect(second!.timestamp).toBeInstanceOf(Date);
+    expect(second!.payload.sentAt).toEqual(new Date('2026-03-01T10:00:00.000Z'));
+  });
+
+  it('should reject with the remote agent error', async () => {
+    await expect(api.sendMessage(request('tutor-worker-1', { fail: true }))).rejects.toThrow('Model unavailable');
+  });
+
+  it('should time out a request the remote agent does not answer in time', async () => {
+    const message = request('tutor-worker-1', { stallMs: 400 });
+
+    await expect(api.sendMessage(message)).rejects.toThrow(`Message ${message.id} timed out`);
+  });
+
+  it('should drop the agents of a process that stopped listening', async () => {
+    const [entry] = api.getRemoteAgents();
+    await worker.stop();
+    // The directory entry is left behind, as when a worker crashes
+    await new RedisMessageTransport(server.client()).advertise({ ...entry, lastSeen: Date.now() });
+    await api.refreshRemoteAgents();
+    const lost = vi.fn();
+    api.on('agent:remote_lost', lost);
+
+    await expect(api.sendMessage(request('tutor-worker-1', { text: 'hello' }))).rejects.toThrow('Agent tutor-worker-1 is unreachable');
+    expect(api.getRemoteAgents()).toEqual([]);
+    expect(lost).toHaveBeenCalledWith(expect.objectContaining({ agentId: 'tutor-worker-1' }));
+  });
+
+  it('should send to every agent of a type across processes', async () => {
+    const localTutor = new EchoAgent('tutor-main', 'tutor');
+    api.registerAgent(localTutor);
+    await localTutor.start();
+
+    const responses = await api.sendToAgentType('tutor', {
+      id: 'msg-type', from: 'coordinator-main', type: 'request', payload: { text: 'all tutors' }, timestamp: new Date()
+    });
+
+    expect(responses.map(response => response.payload.by).sort()).toEqual(['tutor-main', 'tutor-worker-1']);
+  });
+
+  it('should deliver broadcasts to agents in every process once', async () => {
+    const localContent = new EchoAgent('content-main', 'content');
+    api.registerAgent(localContent);
+    await localContent.start();
+
+    await api.broadcastMessage({ id: 'sync-1', from: 'state-sync', type: 'broadcast', payload: { type: 'system_status_update' }, timestamp: new Date() });
+    await vi.waitFor(() => expect(tutor.broadcasts).toHaveLength(1));
+
+    expect(localContent.broadcasts).toHaveLength(1);
+    expect(tutor.broadcasts[0].payload.type).toBe('system_status_update');
+  });
+
+  it('should forward stream chunks to the process that made the request', async () => {
+    const chunks: string[] = [];
+    api.on('agent:stream_chunk', data => chunks.push(data.content));
+
+    await api.sendMessage(request('tutor-worker-1', { text: 'hi', chunk: 'Hel' }));
+    await vi.waitFor(() => expect(chunks).toEqual(['Hel']));
+  });
+
+  it('should withdraw agents from the directory when their process stops', async () => {
+    await worker.stop();
+    await api.refreshRemoteAgents();
+
+    expect(api.getRemoteAgents()).toEqual([]);
+  });
+});
+
+describe('MessageBus scheduling', () => {
+  let bus: InstanceType<typeof MessageBus>;
+  let tutor: EchoAgent;
+
+  beforeEach(async () => {
+    bus = new MessageBus({ ...config('api-1'), transport: 'local', maxQueueSize: 2, messageTimeout: 1000 });
+    await bus.start();
+    tutor = new EchoAgent('tutor-main', 'tutor');
+    bus.registerAgent(tutor);
+    await tutor.start();
+  });
+
+  afterEach(async () => {
+    await bus.stop();
+  });
+
+  it('should hold deliveries beyond the agent task limit instead of overloading it', async () => {
+    const replies = Array.from({ length: 7 }, (_, i) => bus.sendMessage(request('tutor-main', { text: `q${i}`, stallMs: 20 })));
+
+    expect(bus.getQueueStats()).toEqual(expect.objectContaining({ running: 5, queued: 2 }));
+    const responses = await Promise.all(replies);
+    expect(responses.map(response => response!.payload.echo)).toEqual(['q0', 'q1', 'q2', 'q3', 'q4', 'q5', 'q6']);
+  });
+
+  it('should refuse messages once the queue is full', async () => {
+    const replies = Array.from({ length: 7 }, () => bus.sendMessage(request('tutor-main', { stallMs: 20 })));
+
+    await expect(bus.sendMessage(request('tutor-main', { text: 'one too many' }))).rejects.toThrow('Message queue is full');
+    await Promise.all(replies);
+  });
+
+  it('should hold messages sent to an agent type behind the agent task limit', async () => {
+    const replies = Array.from({ length: 5 }, () => bus.sendMessage(request('tutor-main', { stallMs: 20 })));
+
+    const byType = bus.sendToAgentType('tutor', {
+      id: 'msg-type', from: 'coordinator-main', type: 'request', payload: { text: 'all tutors' }, timestamp: new Date()
+    });
+    expect(bus.getQueueStats()).toEqual(expect.objectContaining({ running: 5, queued: 1 }));
+
+    expect((await byType).map(response => response.payload.echo)).toEqual(['all tutors']);
+    await Promise.all(replies);
+  });
+
+  it('should schedule broadcasts like any other delivery', async () => {
+    const replies = Array.from({ length: 5 }, () => bus.sendMessage(request('tutor-main', { stallMs: 20 })));
+
+    const broadcast = bus.broadcastMessage({ id: 'sync-1', from: 'state-sync', type: 'broadcast', payload: {}, timestamp: new Date() });
+    expect(bus.getQueueStats()).toEqual(expect.objectContaining({ running: 5, queued: 1 }));
+    expect(tutor.broadcasts).toHaveLength(0);
+
+    await broadcast;
+    expect(tutor.broadcasts).toHaveLength(1);
+    await Promise.all(replies);
+  });
+
+  it('should start a high priority message before queued ones', async () => {
+    const order: string[] = [];
+    const replies = Array.from({ length: 6 }, (_, i) =>
+      bus.sendMessage(request('tutor-main', { text: `q${i}`, stallMs: 20 })).then(() => order.push(`q${i}`)));
+    const urgent = bus.sendMessage({ ...request('tutor-main', { text: 'urgent', stallMs: 20 }), priority: 'high' }).then(() => order.push('urgent'));
+
+    await Promise.all([...replies, urgent]);
+    expect(order.indexOf('urgent')).toBeLessThan(order.indexOf('q5'));
+  });
+});
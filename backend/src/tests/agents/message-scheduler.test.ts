@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { MessageScheduler, SchedulerBusyError } = await import('../../agents/message-scheduler.js');
+
+// A job that runs until the test releases it
+function gate() {
+  let release!: () => void;
+  const released = new Promise<void>(resolve => { release = resolve; });
+  return { release, run: () => released };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MessageScheduler', () => {
+  it('should start higher priority jobs first and keep arrival order within a class', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 1, maxQueued: 10 });
+    const started: string[] = [];
+    const blocker = gate();
+    const job = (name: string) => async () => { started.push(name); };
+
+    const running = scheduler.schedule({}, blocker.run);
+    const jobs = [
+      scheduler.schedule({ priority: 'low' }, job('low')),
+      scheduler.schedule({ priority: 'medium' }, job('medium-1')),
+      scheduler.schedule({ priority: 'high' }, job('high')),
+      scheduler.schedule({ priority: 'medium' }, job('medium-2'))
+    ];
+    expect(scheduler.getStats().queuedByPriority).toEqual({ high: 1, medium: 2, low: 1 });
+
+    blocker.release();
+    await Promise.all([running, ...jobs]);
+
+    expect(started).toEqual(['high', 'medium-1', 'medium-2', 'low']);
+  });
+
+  it('should run the jobs of one session one at a time in arrival order, even past a higher priority', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 5, maxQueued: 10 });
+    const started: string[] = [];
+    const first = gate();
+
+    const jobs = [
+      scheduler.schedule({ sessionId: 'session-a' }, async () => { started.push('a-1'); await first.run(); }),
+      scheduler.schedule({ sessionId: 'session-a', priority: 'low' }, async () => { started.push('a-2'); }),
+      scheduler.schedule({ sessionId: 'session-a', priority: 'high' }, async () => { started.push('a-3'); }),
+      scheduler.schedule({ sessionId: 'session-b' }, async () => { started.push('b-1'); })
+    ];
+    await settle();
+
+    expect(started).toEqual(['a-1', 'b-1']);
+
+    first.release();
+    await Promise.all(jobs);
+
+    expect(started).toEqual(['a-1', 'b-1', 'a-2', 'a-3']);
+  });
+
+  it('should hold jobs for an agent at its concurrency limit and start others meanwhile', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 5, maxQueued: 10 });
+    const tutorJobs = [gate(), gate()];
+    const started: string[] = [];
+
+    const jobs = [
+      scheduler.schedule({ agentId: 'tutor-main', agentLimit: 2 }, () => { started.push('tutor-1'); return tutorJobs[0].run(); }),
+      scheduler.schedule({ agentId: 'tutor-main', agentLimit: 2 }, () => { started.push('tutor-2'); return tutorJobs[1].run(); }),
+      scheduler.schedule({ agentId: 'tutor-main', agentLimit: 2 }, async () => { started.push('tutor-3'); }),
+      scheduler.schedule({ agentId: 'content-main', agentLimit: 2 }, async () => { started.push('content-1'); })
+    ];
+    await settle();
+
+    expect(started).toEqual(['tutor-1', 'tutor-2', 'content-1']);
+    expect(scheduler.getStats()).toEqual(expect.objectContaining({ running: 2, queued: 1 }));
+
+    tutorJobs[0].release();
+    tutorJobs[1].release();
+    await Promise.all(jobs);
+
+    expect(started).toContain('tutor-3');
+  });
+
+  it('should refuse jobs once the queue is full', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 1, maxQueued: 1 }, 'Message queue is full');
+    const blocker = gate();
+
+    const running = scheduler.schedule({}, blocker.run);
+    const queued = scheduler.schedule({}, async () => 'done');
+
+    expect(scheduler.isFull()).toBe(true);
+    const refused = scheduler.schedule({}, async () => 'never');
+    await expect(refused).rejects.toThrow(SchedulerBusyError);
+    await expect(refused).rejects.toThrow('Message queue is full');
+
+    blocker.release();
+    await running;
+    await expect(queued).resolves.toBe('done');
+  });
+
+  it('should tell waiting jobs their place in line as it changes', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 1, maxQueued: 10 });
+    const blockers = [gate(), gate()];
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const running = scheduler.schedule({}, blockers[0].run);
+    const next = scheduler.schedule({ onQueued: first }, blockers[1].run);
+    const last = scheduler.schedule({ onQueued: second }, async () => {});
+
+    expect(first).toHaveBeenCalledWith(1);
+    expect(second).toHaveBeenCalledWith(2);
+
+    blockers[0].release();
+    await running;
+    await settle();
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenLastCalledWith(1);
+
+    blockers[1].release();
+    await Promise.all([next, last]);
+  });
+
+  it('should pass on a failed job and start the next one', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 1, maxQueued: 10 });
+
+    const failing = scheduler.schedule({ sessionId: 'session-a' }, async () => { throw new Error('Model unavailable'); });
+    const next = scheduler.schedule({ sessionId: 'session-a' }, async () => 'answered');
+
+    await expect(failing).rejects.toThrow('Model unavailable');
+    await expect(next).resolves.toBe('answered');
+    expect(scheduler.getStats().running).toBe(0);
+  });
+
+  it('should reject waiting jobs when cleared', async () => {
+    const scheduler = new MessageScheduler({ maxConcurrent: 1, maxQueued: 10 });
+    const blocker = gate();
+
+    const running = scheduler.schedule({}, blocker.run);
+    const waiting = scheduler.schedule({}, async () => {});
+    scheduler.clear(new Error('Message bus stopped'));
+
+    await expect(waiting).rejects.toThrow('Message bus stopped');
+    blocker.release();
+    await running;
+  });
+});
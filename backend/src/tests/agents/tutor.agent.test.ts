@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Message, SocraticDialogue } from '../../types/index.js';
+import type { AgentMessage } from '../../agents/base.agent.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getLLMUsageRepository: () => ({ recordUsage: vi.fn() })
+  }
+}));
+
+// The scripted LLM judges the student's replies by what they say
+vi.mock('../../services/llm.service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/llm.service.js')>();
+  const { ScriptedLLMProvider } = await import('../../services/llm-providers/scripted.provider.js');
+
+  return {
+    ...actual,
+    createLLMService: () => new actual.LLMService(
+      { provider: 'scripted', model: 'scripted-fixture', temperature: 0, maxTokens: 200 },
+      new ScriptedLLMProvider([
+        { pattern: 'The student just asked this problem', response: '{"verdict": "not_yet", "reply": "What kind of value is the price of a house?"}' },
+        { pattern: 'a number', response: '{"verdict": "step_complete", "reply": "Yes! So which kind of task predicts numbers?"}' },
+        { pattern: 'regression', response: '{"verdict": "solved", "reply": "Exactly, it is regression. Well done!"}' },
+        { pattern: 'walk through the full solution[\\s\\S]*no idea', response: '{"verdict": "revealed", "reply": "Prices are numbers, so this is regression."}' },
+        { pattern: 'gave away the answer[\\s\\S]*no idea', response: '{"verdict": "not_yet", "reply": "Is a house price a category or an amount?"}' },
+        { pattern: 'just tell me', response: '{"verdict": "revealed", "reply": "It is regression."}' },
+        { pattern: 'no idea', response: '{"verdict": "revealed", "reply": "It is regression."}' },
+        { pattern: 'health check', response: 'OK' }
+      ])
+    )
+  };
+});
+
+const { TutorAgent, createTutorConfig } = await import('../../agents/tutor.agent.js');
+
+const QUESTION = 'Is predicting house prices a classification task?';
+
+const studentMessage = (content: string): Message => ({
+  id: `msg-${content.length}`,
+  sender: 'student',
+  content,
+  timestamp: new Date(),
+  metadata: { messageType: 'question' }
+});
+
+const dialogue = (overrides: Partial<SocraticDialogue> = {}): SocraticDialogue => ({
+  question: QUESTION,
+  step: 0,
+  attempts: 0,
+  status: 'active',
+  ...overrides
+});
+
+describe('TutorAgent Socratic mode', () => {
+  let agent: InstanceType<typeof TutorAgent>;
+
+  const ask = async (content: string, socraticDialogue: SocraticDialogue | null): Promise<Message> => {
+    const request: AgentMessage = {
+      id: `request-${Date.now()}`,
+      from: 'coordinator-test',
+      to: 'tutor-test',
+      type: 'request',
+      payload: {
+        sessionId: 'session-1',
+        message: studentMessage(content),
+        context: { userId: 'student-1', tutorMode: 'socratic', socraticDialogue }
+      },
+      timestamp: new Date()
+    };
+
+    const response = await agent.processMessage(request);
+    return response!.payload.message;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    agent = new TutorAgent(createTutorConfig('tutor-test'));
+    await agent.start();
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+  });
+
+  it('should open a dialogue with a leading question instead of the answer', async () => {
+    const reply = await ask(QUESTION, null);
+
+    expect(reply.content).toBe('What kind of value is the price of a house?');
+    expect(reply.metadata.messageType).toBe('question');
+    expect(reply.metadata.socratic).toEqual(dialogue());
+    expect(reply.metadata.prompts).toEqual([{ id: 'tutor.socratic', version: 2 }]);
+  });
+
+  it('should move to the next step when the reply completes it', async () => {
+    const reply = await ask('It is a number', dialogue({ attempts: 1 }));
+
+    expect(reply.metadata.socratic).toEqual(dialogue({ step: 1, attempts: 0 }));
+  });
+
+  it('should finish the dialogue when the student reaches the answer', async () => {
+    const reply = await ask('So it must be regression', dialogue({ step: 1 }));
+
+    expect(reply.metadata.messageType).toBe('explanation');
+    expect(reply.metadata.socratic).toEqual(dialogue({ step: 2, status: 'solved' }));
+  });
+
+  it('should ask again when the answer is revealed before the attempts run out', async () => {
+    const reply = await ask('I have no idea', dialogue({ attempts: 0 }));
+
+    expect(reply.content).toBe('Is a house price a category or an amount?');
+    expect(reply.metadata.messageType).toBe('question');
+    expect(reply.metadata.socratic).toEqual(dialogue({ attempts: 1 }));
+  });
+
+  it('should send a guiding question when the answer is revealed early again', async () => {
+    const reply = await ask('Just tell me the answer', dialogue({ attempts: 0 }));
+
+    expect(reply.content).not.toContain('regression');
+    expect(reply.content).toContain('?');
+    expect(reply.metadata.socratic).toEqual(dialogue({ attempts: 1 }));
+  });
+
+  it('should reveal the answer after repeated misses on one step', async () => {
+    const reply = await ask('I have no idea', dialogue({ attempts: 2 }));
+
+    expect(reply.content).toBe('Prices are numbers, so this is regression.');
+    expect(reply.metadata.socratic).toEqual(dialogue({ attempts: 3, status: 'revealed' }));
+  });
+
+  it('should start a new dialogue after the last one finished', async () => {
+    const reply = await ask('What is overfitting?', dialogue({ step: 2, status: 'solved' }));
+
+    expect(reply.metadata.socratic).toEqual(dialogue({ question: 'What is overfitting?' }));
+  });
+
+  it('should keep the dialogue unchanged when the verdict cannot be read', async () => {
+    const reply = await ask('Maybe it depends?', dialogue({ step: 1, attempts: 1 }));
+
+    expect(reply.metadata.socratic).toEqual(dialogue({ step: 1, attempts: 1 }));
+  });
+});
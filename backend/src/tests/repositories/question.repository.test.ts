@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QuestionRepositoryImpl, CreateQuestionData } from '../../database/repositories/question.repository.js';
+import { CURATED_QUESTIONS } from '../../database/seeds/questions.seed.js';
+
+describe('QuestionRepository', () => {
+  let questionRepository: QuestionRepositoryImpl;
+
+  const createQuestionData = (overrides: Partial<CreateQuestionData> = {}): CreateQuestionData => ({
+    id: 'q-test-1',
+    type: 'multiple_choice',
+    question: 'Which task predicts a number?',
+    options: ['Classification', 'Regression', 'Clustering'],
+    correctAnswer: 'Regression',
+    explanation: 'Regression predicts continuous values.',
+    hints: ['Is the answer a category or a number?'],
+    difficulty: 2,
+    concept: 'regression',
+    topic: 'supervised-learning',
+    source: 'curated',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    questionRepository = new QuestionRepositoryImpl();
+  });
+
+  describe('createQuestion', () => {
+    it('should create an approved curated question', async () => {
+      const question = await questionRepository.createQuestion(createQuestionData());
+
+      expect(question.id).toBe('q-test-1');
+      expect(question.source).toBe('curated');
+      expect(question.reviewStatus).toBe('approved');
+      expect(question.timesAnswered).toBe(0);
+      expect(question.options).toEqual(['Classification', 'Regression', 'Clustering']);
+    });
+
+    it('should throw error for duplicate id', async () => {
+      await questionRepository.createQuestion(createQuestionData());
+
+      await expect(questionRepository.createQuestion(createQuestionData()))
+        .rejects.toThrow('Question with this id already exists');
+    });
+  });
+
+  describe('seedQuestions', () => {
+    it('should seed every curated question once', async () => {
+      const firstRun = await questionRepository.seedQuestions(CURATED_QUESTIONS);
+      const secondRun = await questionRepository.seedQuestions(CURATED_QUESTIONS);
+
+      expect(firstRun).toBe(CURATED_QUESTIONS.length);
+      expect(secondRun).toBe(0);
+    });
+
+    it('should cover each curriculum topic', async () => {
+      await questionRepository.seedQuestions(CURATED_QUESTIONS);
+
+      const counts = await questionRepository.getTopicCounts();
+
+      expect(counts.map(c => c.topic)).toEqual([
+        'intro-to-ml',
+        'neural-networks',
+        'supervised-learning',
+        'unsupervised-learning'
+      ]);
+      counts.forEach(c => expect(c.approved).toBeGreaterThan(0));
+    });
+  });
+
+  describe('pickApprovedQuestion', () => {
+    it('should prefer the closest difficulty', async () => {
+      await questionRepository.createQuestion(createQuestionData({ id: 'q-easy', difficulty: 1 }));
+      await questionRepository.createQuestion(createQuestionData({ id: 'q-hard', difficulty: 5 }));
+
+      const picked = await questionRepository.pickApprovedQuestion('supervised-learning', { difficulty: 4 });
+
+      expect(picked!.id).toBe('q-hard');
+    });
+
+    it('should match concept names and skip excluded ids', async () => {
+      await questionRepository.createQuestion(createQuestionData({ id: 'q-1' }));
+      await questionRepository.createQuestion(createQuestionData({ id: 'q-2' }));
+
+      const picked = await questionRepository.pickApprovedQuestion('Regression', { excludeIds: ['q-1'] });
+
+      expect(picked!.id).toBe('q-2');
+    });
+
+    it('should ignore questions awaiting review', async () => {
+      await questionRepository.saveForReview(createQuestionData({ source: 'generated' }));
+
+      const picked = await questionRepository.pickApprovedQuestion('supervised-learning');
+
+      expect(picked).toBeNull();
+    });
+  });
+
+  describe('review workflow', () => {
+    it('should save generated questions as pending review', async () => {
+      const saved = await questionRepository.saveForReview(createQuestionData({ id: 'q-gen', source: 'generated' }));
+
+      expect(saved.source).toBe('generated');
+      expect(saved.reviewStatus).toBe('pending_review');
+
+      const pending = await questionRepository.findPendingReview();
+      expect(pending.map(q => q.id)).toEqual(['q-gen']);
+    });
+
+    it('should approve a reviewed question', async () => {
+      await questionRepository.saveForReview(createQuestionData({ id: 'q-gen', source: 'generated' }));
+
+      const approved = await questionRepository.updateReviewStatus('q-gen', 'approved', 'teacher1');
+
+      expect(approved!.reviewStatus).toBe('approved');
+      expect(approved!.reviewedBy).toBe('teacher1');
+      expect(approved!.reviewedAt).toBeInstanceOf(Date);
+
+      const picked = await questionRepository.pickApprovedQuestion('supervised-learning');
+      expect(picked!.id).toBe('q-gen');
+    });
+  });
+
+  describe('recordAnswer', () => {
+    it('should track answer statistics', async () => {
+      await questionRepository.createQuestion(createQuestionData());
+
+      await questionRepository.recordAnswer('q-test-1', true);
+      await questionRepository.recordAnswer('q-test-1', false);
+
+      const question = await questionRepository.findQuestionById('q-test-1');
+      expect(question!.timesAnswered).toBe(2);
+      expect(question!.timesCorrect).toBe(1);
+    });
+  });
+});
@@ -131,6 +131,28 @@ describe('SessionRepository', () => {
       expect(updated!.conversationHistory[0].sender).toBe('student');
     });
 
+    it('should redact personal data before storing the message', async () => {
+      const session = await sessionRepository.createSession({
+        userId: 'user123',
+        currentTopic: 'supervised-learning'
+      });
+
+      const message: Message = {
+        id: 'msg1',
+        sender: 'student',
+        content: 'Text me at 555-123-4567 or email sam@example.com',
+        timestamp: new Date(),
+        metadata: {
+          messageType: 'question'
+        }
+      };
+
+      const updated = await sessionRepository.addMessage(session.id, message);
+
+      expect(updated!.conversationHistory[0].content)
+        .toBe('Text me at [phone number removed] or email [email removed]');
+    });
+
     it('should return null for non-existent session', async () => {
       const message: Message = {
         id: 'msg1',
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AssessmentResult, QuizAnswer, QuizAttempt, QuizQuestion } from '../../types/index.js';
+import type { Question, EvaluationResult } from '../../agents/assessment.agent.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const question = (id: string): Question => ({
+  id,
+  type: 'multiple_choice',
+  question: 'Which task predicts a number?',
+  options: ['Classification', 'Regression'],
+  correctAnswer: 'Regression',
+  explanation: 'Regression predicts continuous values.',
+  hints: [],
+  difficulty: 2,
+  concept: 'regression',
+  topic: 'supervised-learning',
+  timeEstimate: 60
+});
+
+const evaluation = (questionId: string, studentAnswer: string): EvaluationResult => ({
+  questionId,
+  studentAnswer,
+  isCorrect: studentAnswer === 'Regression',
+  score: studentAnswer === 'Regression' ? 10 : 0,
+  maxScore: 10,
+  feedback: 'Graded',
+  hintsUsed: 0,
+  timeSpent: 30,
+  conceptsAssessed: ['regression']
+} as EvaluationResult);
+
+// Grading takes a moment, as the LLM tier does for free text
+const agent = {
+  getQuestion: vi.fn(async (id: string) => (id.startsWith('q-') ? question(id) : null)),
+  evaluateStudentResponse: vi.fn(async (id: string, answer: string) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return evaluation(id, answer);
+  }),
+  generateNextQuestion: vi.fn(async () => ({ question: question('q-next') }))
+};
+
+vi.mock('../../services/init.service.js', () => ({
+  getAgentSystem: () => ({ getAgentsByType: () => [agent] })
+}));
+
+// The student's stored assessment results
+let assessmentScores: AssessmentResult[] = [];
+
+const progressRepository = {
+  findByUserId: vi.fn(async () => ({ userId: 'user-1', topicsCompleted: [], assessmentScores })),
+  createProgress: vi.fn(),
+  addAssessmentResult: vi.fn(async (_userId: string, result: AssessmentResult) => {
+    assessmentScores = [...assessmentScores, result];
+  })
+};
+
+// The student's quiz attempts, newest first
+let quizAttempts: QuizAttempt[] = [];
+
+const quizAttemptRepository = {
+  findActiveAttempt: vi.fn(async () => quizAttempts.find(attempt => attempt.status === 'in_progress') || null),
+  findAttemptsByUser: vi.fn(async () => quizAttempts)
+};
+
+const quizAttempt = (status: QuizAttempt['status'], questionIds: string[], answeredIds: string[] = []): QuizAttempt => ({
+  id: `attempt-${quizAttempts.length + 1}`,
+  userId: 'user-1',
+  status,
+  questions: questionIds.map(id => ({ id }) as QuizQuestion),
+  answers: answeredIds.map(questionId => ({ questionId }) as QuizAnswer),
+  currentQuestionIndex: answeredIds.length
+} as QuizAttempt);
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getProgressRepository: () => progressRepository,
+    getQuizAttemptRepository: () => quizAttemptRepository
+  }
+}));
+
+const recordAssessment = vi.fn();
+vi.mock('../../services/mastery.service.js', () => ({
+  masteryService: { recordAssessment }
+}));
+
+vi.mock('../../services/review-scheduler.service.js', () => ({
+  reviewSchedulerService: { recordOutcome: vi.fn() }
+}));
+
+vi.mock('../../services/hint.service.js', () => ({
+  hintService: { getHintsUsed: vi.fn(async () => 0), recordAnswer: vi.fn() }
+}));
+
+const { assessmentService, AssessmentError } = await import('../../services/assessment.service.js');
+
+const submit = (answer: string, questionId = 'q-1') =>
+  assessmentService.submitAnswer({ userId: 'user-1', questionId, answer });
+
+describe('AssessmentService.submitAnswer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    assessmentScores = [];
+    quizAttempts = [];
+  });
+
+  it('should grade and record the first answer to a question', async () => {
+    const result = await submit('Classification');
+
+    expect(result?.evaluation.isCorrect).toBe(false);
+    expect(result?.correctAnswer).toBe('Regression');
+    expect(progressRepository.addAssessmentResult).toHaveBeenCalledTimes(1);
+    expect(recordAssessment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a resubmission once the correct answer was revealed', async () => {
+    await submit('Classification');
+
+    const resubmission = submit('Regression');
+    await expect(resubmission).rejects.toThrow(AssessmentError);
+    await expect(resubmission).rejects.toMatchObject({ code: 'already_answered' });
+    expect(progressRepository.addAssessmentResult).toHaveBeenCalledTimes(1);
+    expect(recordAssessment).toHaveBeenCalledTimes(1);
+    expect(assessmentScores[0].score).toBe(0);
+  });
+
+  it('should grade only one of two submissions sent at once', async () => {
+    const results = await Promise.allSettled([submit('Regression'), submit('Regression')]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(progressRepository.addAssessmentResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not offer a question the student already answered as the next one', async () => {
+    await submit('Regression', 'q-1');
+    await submit('Regression', 'q-2');
+
+    const [context] = agent.generateNextQuestion.mock.calls[1] as any[];
+    expect(context.recentQuestionIds).toEqual(['q-1']);
+  });
+
+  it('should leave the questions of a quiz in progress to the quiz', async () => {
+    quizAttempts = [quizAttempt('in_progress', ['q-1', 'q-2'])];
+
+    await expect(submit('Regression', 'q-2')).rejects.toMatchObject({ code: 'in_quiz' });
+    expect(agent.evaluateStudentResponse).not.toHaveBeenCalled();
+    expect(progressRepository.addAssessmentResult).not.toHaveBeenCalled();
+  });
+
+  it('should treat questions answered or revealed in a quiz as answered', async () => {
+    quizAttempts = [quizAttempt('completed', ['q-1', 'q-2'], ['q-1'])];
+
+    await expect(submit('Regression', 'q-2')).rejects.toMatchObject({ code: 'already_answered' });
+    expect(agent.evaluateStudentResponse).not.toHaveBeenCalled();
+  });
+
+  it('should return null for an unknown question', async () => {
+    expect(await submit('Regression', 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Classroom, ClassEnrollment, User, StudentProgress, LearningSession } from '../../types/index.js';
+import type { ClassroomRepository, CreateClassroomData } from '../../database/repositories/classroom.repository.js';
+import type { ClassEnrollmentRepository } from '../../database/repositories/class-enrollment.repository.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const classrooms = new Map<string, Classroom>();
+const enrollments: ClassEnrollment[] = [];
+const users = new Map<string, User>();
+const progressByUser = new Map<string, StudentProgress>();
+const sessions = new Map<string, LearningSession>();
+const takenJoinCodes = new Set<string>();
+
+// In-memory repositories with the same unique join code rule as the Mongo ones
+const classroomRepository: ClassroomRepository = {
+  async createClassroom(data: CreateClassroomData) {
+    if (takenJoinCodes.has(data.joinCode)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    takenJoinCodes.add(data.joinCode);
+
+    const classroom: Classroom = {
+      ...data,
+      id: `class-${classrooms.size + 1}`,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    classrooms.set(classroom.id, classroom);
+    return classroom;
+  },
+  async findClassroomById(classId) {
+    return classrooms.get(classId) || null;
+  },
+  async findClassroomByJoinCode(joinCode) {
+    return [...classrooms.values()].find(c => c.joinCode === joinCode.trim().toUpperCase()) || null;
+  },
+  async updateClassroomSettings(classId, settings) {
+    const classroom = classrooms.get(classId);
+    if (!classroom) return null;
+
+    const updated = { ...classroom, ...settings, updatedAt: new Date() };
+    classrooms.set(classId, updated);
+    return updated;
+  },
+  async findClassroomsByTeacher(teacherId) {
+    return [...classrooms.values()].filter(c => c.teacherId === teacherId);
+  },
+  async findClassroomsByIds(classIds) {
+    return classIds.map(id => classrooms.get(id)).filter((c): c is Classroom => !!c);
+  }
+};
+
+const classEnrollmentRepository: ClassEnrollmentRepository = {
+  async enrollStudent(classId, studentId) {
+    const existing = enrollments.find(e => e.classId === classId && e.studentId === studentId);
+    if (existing) return existing;
+
+    const enrollment = { id: `enrollment-${enrollments.length + 1}`, classId, studentId, joinedAt: new Date() };
+    enrollments.push(enrollment);
+    return enrollment;
+  },
+  async removeEnrollment(classId, studentId) {
+    const index = enrollments.findIndex(e => e.classId === classId && e.studentId === studentId);
+    if (index === -1) return false;
+    enrollments.splice(index, 1);
+    return true;
+  },
+  async findEnrollmentsByClass(classId) {
+    return enrollments.filter(e => e.classId === classId);
+  },
+  async findEnrollmentsByStudent(studentId) {
+    return enrollments.filter(e => e.studentId === studentId);
+  },
+  async countEnrollmentsByClass(classIds) {
+    return Object.fromEntries(classIds.map(id => [id, enrollments.filter(e => e.classId === id).length]));
+  }
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getClassroomRepository: () => classroomRepository,
+    getClassEnrollmentRepository: () => classEnrollmentRepository,
+    getUserRepository: () => ({
+      findUsersByIds: async (ids: string[]) => ids.map(id => users.get(id)).filter(Boolean)
+    }),
+    getProgressRepository: () => ({
+      findByUserId: async (userId: string) => progressByUser.get(userId) || null,
+      getAssessmentHistory: async (userId: string) => progressByUser.get(userId)?.assessmentScores || []
+    }),
+    getQuizAttemptRepository: () => ({
+      findAttemptsByUser: async () => []
+    }),
+    getSessionRepository: () => ({
+      findUserSessions: async (userId: string) => [...sessions.values()].filter(s => s.userId === userId),
+      findSessionById: async (sessionId: string) => sessions.get(sessionId) || null
+    })
+  }
+}));
+
+const { ClassroomService, ClassroomError } = await import('../../services/classroom.service.js');
+
+const createUser = (id: string, role: User['role']): User => ({
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  role,
+  grade: 10,
+  learningInterests: [],
+  profileCompleted: true,
+  createdAt: new Date(),
+  lastActive: new Date(),
+  preferences: { learningPace: 'medium', preferredExamples: [], difficultyLevel: 5 }
+});
+
+const createSession = (id: string, userId: string): LearningSession => ({
+  id,
+  userId,
+  startTime: new Date(),
+  currentTopic: 'supervised-learning',
+  conversationHistory: [{
+    id: 'message-1',
+    sender: 'student',
+    content: 'What is regression?',
+    timestamp: new Date(),
+    metadata: { messageType: 'question' }
+  }],
+  agentStates: [],
+  progressSnapshot: {
+    overallProgress: 0,
+    currentTopic: 'supervised-learning',
+    topicsCompleted: 0,
+    totalTopics: 0,
+    averageScore: 0,
+    learningVelocity: 0,
+    recommendedNextTopics: []
+  }
+});
+
+describe('ClassroomService', () => {
+  let classroomService: InstanceType<typeof ClassroomService>;
+
+  beforeEach(() => {
+    classrooms.clear();
+    enrollments.length = 0;
+    users.clear();
+    progressByUser.clear();
+    sessions.clear();
+    takenJoinCodes.clear();
+
+    ['teacher-1', 'teacher-2'].forEach(id => users.set(id, createUser(id, 'teacher')));
+    ['student-1', 'student-2'].forEach(id => users.set(id, createUser(id, 'student')));
+
+    classroomService = new ClassroomService();
+  });
+
+  it('should create a class with a readable join code and retry when the code is taken', async () => {
+    const first = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+    expect(first.joinCode).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(first.studentCount).toBe(0);
+
+    // Force the next generated code to collide once
+    const codeSpy = vi.spyOn(classroomService as any, 'generateJoinCode')
+      .mockReturnValueOnce(first.joinCode)
+      .mockReturnValueOnce('ABC234');
+
+    const second = await classroomService.createClassroom('teacher-1', { name: 'Period 2' });
+    expect(second.joinCode).toBe('ABC234');
+    expect(codeSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let students join by code without exposing the code back', async () => {
+    const classroom = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+
+    const joined = await classroomService.joinClassroom('student-1', classroom.joinCode.toLowerCase());
+    await classroomService.joinClassroom('student-1', classroom.joinCode);
+
+    expect(joined.name).toBe('Period 1');
+    expect(joined).not.toHaveProperty('joinCode');
+    expect(enrollments).toHaveLength(1);
+    await expect(classroomService.joinClassroom('student-1', 'ZZZZZZ')).rejects.toMatchObject({ code: 'invalid_code' });
+  });
+
+  it('should summarize progress on the roster and hide it from other teachers', async () => {
+    const classroom = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+    await classroomService.joinClassroom('student-1', classroom.joinCode);
+    progressByUser.set('student-1', {
+      userId: 'student-1',
+      topicsCompleted: [
+        { topicId: 'intro-to-ml', topicName: 'Intro', completionPercentage: 100, masteryLevel: 'intermediate', timeSpent: 30, lastAccessed: new Date(), conceptsLearned: [], strugglingConcepts: [] },
+        { topicId: 'supervised-learning', topicName: 'Supervised', completionPercentage: 50, masteryLevel: 'beginner', timeSpent: 20, lastAccessed: new Date(), conceptsLearned: [], strugglingConcepts: [] }
+      ],
+      currentLevel: 2,
+      totalTimeSpent: 50,
+      assessmentScores: [
+        { id: 'a-1', topicId: 'intro-to-ml', score: 8, maxScore: 10, completedAt: new Date(), timeSpent: 60, questionResults: [], difficulty: 1 },
+        { id: 'a-2', topicId: 'intro-to-ml', score: 6, maxScore: 10, completedAt: new Date(), timeSpent: 60, questionResults: [], difficulty: 1 }
+      ],
+      learningPath: [],
+      lastUpdated: new Date()
+    });
+
+    const roster = await classroomService.getRoster('teacher-1', classroom.id);
+
+    expect(roster).toHaveLength(1);
+    expect(roster[0]).toMatchObject({ id: 'student-1', topicsStarted: 2, averageCompletion: 75, averageScore: 70, totalTimeSpent: 50 });
+    await expect(classroomService.getRoster('teacher-2', classroom.id)).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('should only show student details to teachers of that student', async () => {
+    const classroom = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+    await classroomService.joinClassroom('student-1', classroom.joinCode);
+    sessions.set('session-1', createSession('session-1', 'student-1'));
+
+    const overview = await classroomService.getStudentOverview('teacher-1', 'student-1');
+    expect(overview.classes).toEqual([{ id: classroom.id, name: 'Period 1' }]);
+    expect(overview.sessions[0]).toMatchObject({ id: 'session-1', messageCount: 1 });
+
+    await expect(classroomService.getStudentOverview('teacher-2', 'student-1')).rejects.toBeInstanceOf(ClassroomError);
+    await expect(classroomService.getStudentOverview('teacher-1', 'student-2')).rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('should return transcripts only for the requested student\'s sessions', async () => {
+    const classroom = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+    await classroomService.joinClassroom('student-1', classroom.joinCode);
+    sessions.set('session-1', createSession('session-1', 'student-1'));
+    sessions.set('session-2', createSession('session-2', 'student-2'));
+
+    const transcript = await classroomService.getSessionTranscript('teacher-1', 'student-1', 'session-1');
+    expect(transcript.messages[0].content).toBe('What is regression?');
+
+    await expect(classroomService.getSessionTranscript('teacher-1', 'student-1', 'session-2'))
+      .rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('should require Socratic mode for students of a class that sets it', async () => {
+    const socraticClass = await classroomService.createClassroom('teacher-1', { name: 'Period 1' });
+    const otherClass = await classroomService.createClassroom('teacher-2', { name: 'Period 2' });
+    await classroomService.joinClassroom('student-1', socraticClass.joinCode);
+    await classroomService.joinClassroom('student-2', otherClass.joinCode);
+
+    expect(await classroomService.getRequiredTutorMode('student-1')).toBeNull();
+
+    const updated = await classroomService.updateClassroomSettings('teacher-1', socraticClass.id, { tutorMode: 'socratic' });
+
+    expect(updated).toMatchObject({ tutorMode: 'socratic', studentCount: 1 });
+    expect(await classroomService.getRequiredTutorMode('student-1')).toBe('socratic');
+    expect(await classroomService.getRequiredTutorMode('student-2')).toBeNull();
+    await expect(classroomService.updateClassroomSettings('teacher-2', socraticClass.id, { tutorMode: 'explain' }))
+      .rejects.toMatchObject({ code: 'not_found' });
+  });
+});
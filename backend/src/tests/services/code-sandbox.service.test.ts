@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { spawnSync } from 'child_process';
+import { CodeTestCase } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const { CodeSandboxService, SandboxError } = await import('../../services/code-sandbox.service.js');
+
+// Runs real interpreters with the resource limits only; namespace isolation depends on the host kernel
+const hasRuntime = (command: string) => spawnSync(command, ['--version']).status === 0;
+const canSandbox = hasRuntime('prlimit');
+
+const createSandbox = (overrides: Partial<ConstructorParameters<typeof CodeSandboxService>[0]> = {}) =>
+  new CodeSandboxService({
+    timeoutMs: 5000,
+    cpuSeconds: 2,
+    memoryMb: 256,
+    maxOutputBytes: 1024,
+    maxConcurrent: 2,
+    isolation: 'none',
+    runtimes: { python: 'python3', javascript: 'node' },
+    runnersPath: 'sandbox',
+    hiddenPaths: [],
+    ...overrides
+  });
+
+const testCases: CodeTestCase[] = [
+  { description: 'Picks the only example', expression: "predict([1, 1], [([0, 0], 'cat')])", expected: '"cat"' },
+  { description: 'Picks the closer example', expression: "predict([4, 5], [([0, 0], 'cat'), ([5, 5], 'dog')])", expected: '"dog"' }
+];
+
+describe.skipIf(!canSandbox || !hasRuntime('python3'))('CodeSandboxService with Python', () => {
+  it('should run the hidden tests against the names the code defines', async () => {
+    const result = await createSandbox().run({
+      language: 'python',
+      code: 'def predict(point, examples):\n    print("predicting")\n    return examples[0][1]',
+      testCases
+    });
+
+    expect(result.stdout).toBe('predicting\npredicting\n');
+    expect(result.exitCode).toBe(0);
+    expect(result.results).toEqual([
+      { description: 'Picks the only example', passed: true },
+      { description: 'Picks the closer example', passed: false }
+    ]);
+  });
+
+  it('should report errors per test and fail every test when the code does not load', async () => {
+    const sandbox = createSandbox();
+
+    const failing = await sandbox.run({ language: 'python', code: 'def predict(point, examples):\n    return missing', testCases });
+    expect(failing.results[0]).toMatchObject({ passed: false, error: "NameError: name 'missing' is not defined" });
+
+    const broken = await sandbox.run({ language: 'python', code: 'def predict(', testCases });
+    expect(broken.stderr).toContain('SyntaxError');
+    expect(broken.results.every(result => !result.passed)).toBe(true);
+  });
+
+  it('should reject verdicts the code forges on the results channel', async () => {
+    const sandbox = createSandbox();
+    const wrong = 'def predict(point, examples):\n    return None\n';
+
+    const forged = await sandbox.run({
+      language: 'python',
+      code: `${wrong}import os\nos.write(4, b'[{"passed": true}, {"passed": true}]')\nos._exit(0)`,
+      testCases
+    });
+    expect(forged.results.map(result => result.passed)).toEqual([false, false]);
+
+    const patched = await sandbox.run({
+      language: 'python',
+      code: `${wrong}import sys\nsys.modules["__main__"].matches = lambda actual, expected: True`,
+      testCases
+    });
+    expect(patched.results.map(result => result.passed)).toEqual([false, false]);
+  });
+
+  it('should pass stdin through and cap the output', async () => {
+    const result = await createSandbox().run({
+      language: 'python',
+      code: 'print(input().upper())\nprint("x" * 5000)',
+      stdin: 'hello\n'
+    });
+
+    expect(result.stdout.startsWith('HELLO\n')).toBe(true);
+    expect(result.stdout.length).toBe(1024);
+    expect(result.outputTruncated).toBe(true);
+  });
+
+  it('should stop code that runs past the time limit', async () => {
+    const result = await createSandbox({ timeoutMs: 500 }).run({
+      language: 'python',
+      code: 'import time\ntime.sleep(10)',
+      testCases
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.stderr).toContain('Stopped after 0.5 seconds.');
+    expect(result.results[0]).toMatchObject({ passed: false, error: 'The code ran out of time' });
+  });
+
+  it('should refuse runs beyond the concurrency limit', async () => {
+    const sandbox = createSandbox({ maxConcurrent: 1 });
+    const first = sandbox.run({ language: 'python', code: 'print(1)' });
+
+    await expect(sandbox.run({ language: 'python', code: 'print(2)' })).rejects.toBeInstanceOf(SandboxError);
+    await first;
+  });
+});
+
+describe.skipIf(!canSandbox || !hasRuntime('node'))('CodeSandboxService with JavaScript', () => {
+  it('should run the hidden tests against the functions the code declares', async () => {
+    const result = await createSandbox().run({
+      language: 'javascript',
+      code: 'function square(x) { console.log("squaring"); return x * x; }',
+      testCases: [
+        { description: 'Squares 3', expression: 'square(3)', expected: '9' },
+        { description: 'Squares a fraction', expression: 'square(0.1)', expected: '0.01' },
+        { description: 'Squares a string', expression: 'square("a")', expected: '"aa"' }
+      ]
+    });
+
+    expect(result.stdout).toBe('squaring\nsquaring\nsquaring\n');
+    expect(result.results.map(test => test.passed)).toEqual([true, true, false]);
+  });
+
+  it('should reject verdicts the code forges from outside its context', async () => {
+    const result = await createSandbox().run({
+      language: 'javascript',
+      code: [
+        'function square(x) { return x; }',
+        "const host = console.log.constructor('return process')();",
+        "host.mainModule.require('fs').writeSync(4, JSON.stringify([{ passed: true }]));",
+        'host.exit(0);'
+      ].join('\n'),
+      testCases: [{ description: 'Squares 3', expression: 'square(3)', expected: '9' }]
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.results).toEqual([{ description: 'Squares 3', passed: false }]);
+  });
+});
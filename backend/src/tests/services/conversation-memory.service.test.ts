@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Message } from '../../types/index.js';
+
+const redisStore = new Map<string, string>();
+
+// Mock redis service
+vi.mock('../../services/redis.service.js', () => ({
+  redisService: {
+    get: vi.fn(async (key: string) => redisStore.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      redisStore.set(key, value);
+    })
+  }
+}));
+
+// Mock LLM service
+const generateCompletion = vi.fn();
+vi.mock('../../services/llm.service.js', () => ({
+  createLLMService: () => ({ generateCompletion })
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const { ConversationMemoryService } = await import('../../services/conversation-memory.service.js');
+
+function createTurns(count: number, length: number = 400): Message[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `msg-${i}`,
+    sender: i % 2 === 0 ? 'student' as const : 'tutor' as const,
+    content: `${i}:`.padEnd(length, 'x'),
+    timestamp: new Date(),
+    metadata: { messageType: i % 2 === 0 ? 'question' as const : 'explanation' as const }
+  }));
+}
+
+describe('ConversationMemoryService', () => {
+  let memory: InstanceType<typeof ConversationMemoryService>;
+
+  beforeEach(() => {
+    redisStore.clear();
+    generateCompletion.mockReset();
+    generateCompletion.mockResolvedValue({ content: 'Summary of earlier turns' });
+    memory = new ConversationMemoryService();
+  });
+
+  it('should keep short conversations intact without summarizing', async () => {
+    const history = createTurns(4);
+
+    const window = await memory.buildWindow('session-1', history, 2000);
+
+    expect(window.messages).toEqual(history);
+    expect(window.summary).toBeUndefined();
+    expect(generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should keep the newest turns within the token budget and summarize the rest', async () => {
+    const history = createTurns(10); // ~100 tokens each
+
+    const window = await memory.buildWindow('session-1', history, 300);
+
+    expect(window.messages).toEqual(history.slice(-3));
+    expect(window.summarizedCount).toBe(7);
+    expect(window.summary).toBe('Summary of earlier turns');
+  });
+
+  it('should reuse the cached summary when no new turns fell out of the window', async () => {
+    const history = createTurns(10);
+
+    await memory.buildWindow('session-1', history, 300);
+    await memory.buildWindow('session-1', history, 300);
+
+    expect(generateCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('should extend the cached summary with only the newly evicted turns', async () => {
+    await memory.buildWindow('session-1', createTurns(10), 300);
+    generateCompletion.mockResolvedValue({ content: 'Extended summary' });
+
+    const window = await memory.buildWindow('session-1', createTurns(12), 300);
+    const request = generateCompletion.mock.calls[1][0];
+
+    expect(window.summary).toBe('Extended summary');
+    expect(request.messages[0].content).toContain('Summary of earlier turns');
+    expect(request.messages[0].content).toContain('7:');
+    expect(request.messages[0].content).not.toContain('0:x');
+  });
+
+  it('should keep extending the summary once the history cap drops the oldest turns', async () => {
+    await memory.buildWindow('session-1', createTurns(10), 300);
+    generateCompletion.mockResolvedValue({ content: 'Extended summary' });
+
+    // Still ten turns, as in a history capped at ten: two new ones in, the two oldest out
+    const window = await memory.buildWindow('session-1', createTurns(12).slice(2), 300);
+    const request = generateCompletion.mock.calls[1][0];
+
+    expect(window.summary).toBe('Extended summary');
+    expect(request.messages[0].content).toContain('Summary of earlier turns');
+    expect(request.messages[0].content).toContain('7:');
+    expect(request.messages[0].content).toContain('8:');
+    expect(request.messages[0].content).not.toContain('6:x');
+  });
+
+  it('should fall back to an extractive summary when the LLM fails', async () => {
+    generateCompletion.mockRejectedValue(new Error('LLM unavailable'));
+
+    const window = await memory.buildWindow('session-1', createTurns(10, 40), 30);
+
+    expect(window.summary).toContain('Earlier the student asked about');
+  });
+});
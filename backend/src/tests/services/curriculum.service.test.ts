@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const { CurriculumService, CurriculumError, validateCurriculumDefinition } = await import('../../services/curriculum.service.js');
+
+const BUNDLED_CURRICULUM = 'curriculum/ml-foundations.json';
+
+const loadBundledDefinition = () => JSON.parse(readFileSync(BUNDLED_CURRICULUM, 'utf-8'));
+
+describe('CurriculumService', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'curriculum-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeCurriculum = (name: string, data: unknown): string => {
+    const path = join(tempDir, name);
+    writeFileSync(path, JSON.stringify(data));
+    return path;
+  };
+
+  it('should load the bundled curriculum with a version stamp', () => {
+    const service = new CurriculumService(BUNDLED_CURRICULUM);
+    const curriculum = service.load();
+
+    expect(curriculum.version).toBe('1.0.0');
+    expect(curriculum.checksum).toMatch(/^[0-9a-f]{12}$/);
+    expect(service.getTopics().map(topic => topic.id)).toEqual(curriculum.curriculum.topics);
+    expect(service.getTopic('supervised-learning')!.concepts.map(c => c.id)).toContain('classification');
+    expect(service.getTopic('decision-trees')).toBeNull();
+  });
+
+  it('should keep every curated question topic in the curriculum', async () => {
+    const { CURATED_QUESTIONS } = await import('../../database/seeds/questions.seed.js');
+    const service = new CurriculumService(BUNDLED_CURRICULUM);
+
+    const missing = CURATED_QUESTIONS.filter(question => !service.getTopic(question.topic));
+    expect(missing).toEqual([]);
+  });
+
+  it('should order topics by the curriculum sequence and change the checksum with the content', () => {
+    const definition = loadBundledDefinition();
+    const original = new CurriculumService(writeCurriculum('original.json', definition)).load();
+
+    definition.topics.reverse();
+    const reordered = new CurriculumService(writeCurriculum('reordered.json', definition)).load();
+
+    expect(reordered.topics.map(topic => topic.id)).toEqual(original.topics.map(topic => topic.id));
+    expect(reordered.checksum).not.toBe(original.checksum);
+  });
+
+  it('should reject unknown prerequisites and topics left out of the sequence', () => {
+    const definition = loadBundledDefinition();
+    definition.topics[1].prerequisites = ['decision-trees'];
+    definition.curriculum.topics = definition.curriculum.topics.slice(0, -1);
+
+    const errors = validateCurriculumDefinition(definition);
+
+    expect(errors).toContain('Topic "supervised-learning" has unknown prerequisite "decision-trees"');
+    expect(errors).toContain('Topic "neural-networks" is missing from curriculum.topics');
+  });
+
+  it('should reject prerequisite cycles and duplicate concept ids', () => {
+    const definition = loadBundledDefinition();
+    definition.topics[0].prerequisites = ['neural-networks'];
+    definition.topics[2].concepts.push({ ...definition.topics[1].concepts[0] });
+
+    const errors = validateCurriculumDefinition(definition);
+
+    expect(errors.some(error => error.startsWith('Prerequisite cycle:'))).toBe(true);
+    expect(errors.some(error => error.includes('duplicates concept id "supervised-learning"'))).toBe(true);
+  });
+
+  it('should refuse to load an invalid file', () => {
+    const path = writeCurriculum('invalid.json', { version: '', curriculum: {}, topics: [] });
+    const service = new CurriculumService(path);
+
+    expect(() => service.load()).toThrow(CurriculumError);
+    expect(() => new CurriculumService(join(tempDir, 'missing.json')).load()).toThrow(/Failed to read curriculum/);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HintDependence, HintUsage, QuizAttempt } from '../../types/index.js';
+import type { HintedQuestion } from '../../database/repositories/index.js';
+import type { Question } from '../../agents/assessment.agent.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+// In-memory hint usage records
+const usages: HintUsage[] = [];
+
+const usageFor = (userId: string, question: HintedQuestion): HintUsage => {
+  let usage = usages.find(u => u.userId === userId && u.questionId === question.questionId && !u.answered);
+  if (!usage) {
+    usage = {
+      id: `usage-${usages.length + 1}`,
+      userId,
+      ...question,
+      hintsUsed: 0,
+      answered: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    usages.push(usage);
+  }
+  return usage;
+};
+
+const hintUsageRepository = {
+  findOpenUsage: vi.fn(async (userId: string, questionId: string) =>
+    usages.find(u => u.userId === userId && u.questionId === questionId && !u.answered) || null
+  ),
+  recordHint: vi.fn(async (userId: string, question: HintedQuestion) => {
+    const usage = usageFor(userId, question);
+    usage.hintsUsed += 1;
+    return { ...usage };
+  }),
+  recordAnswer: vi.fn(async (userId: string, question: HintedQuestion, hintsUsed: number, isCorrect: boolean) => {
+    const usage = usageFor(userId, question);
+    Object.assign(usage, { hintsUsed, isCorrect, answered: true, answeredAt: new Date() });
+    return { ...usage };
+  }),
+  summarizeByConcept: vi.fn(async (): Promise<HintDependence[]> => [])
+};
+
+let activeQuiz: QuizAttempt | null = null;
+
+const quizAttemptRepository = {
+  findActiveAttempt: vi.fn(async () => activeQuiz)
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getHintUsageRepository: () => hintUsageRepository,
+    getQuizAttemptRepository: () => quizAttemptRepository
+  }
+}));
+
+const question: Question = {
+  id: 'q-1',
+  type: 'true_false',
+  question: 'Clustering needs labels.',
+  options: ['True', 'False'],
+  correctAnswer: 'False',
+  explanation: 'Clustering works on unlabeled data.',
+  hints: ['Think about unsupervised learning', 'Labels are not required'],
+  difficulty: 1,
+  concept: 'clustering',
+  topic: 'unsupervised-learning',
+  timeEstimate: 30
+};
+
+const agent = {
+  getQuestion: vi.fn(async (id: string) => (id === question.id ? question : null)),
+  getHintLadder: vi.fn(async () => [
+    { level: 'nudge', hint: 'Think about unsupervised learning' },
+    { level: 'partial_step', hint: 'Labels are not required' },
+    { level: 'worked_solution', hint: 'Clustering works on unlabeled data. The answer is: False' }
+  ])
+};
+
+vi.mock('../../services/init.service.js', () => ({
+  getAgentSystem: () => ({
+    getAgentsByType: () => [agent]
+  })
+}));
+
+const { HintService } = await import('../../services/hint.service.js');
+
+const dependence = (concept: string, answers: number, hintedAnswers: number, hintsUsed: number): HintDependence => ({
+  concept,
+  topic: 'unsupervised-learning',
+  answers,
+  hintedAnswers,
+  hintsUsed,
+  workedSolutions: 0,
+  dependence: hintedAnswers / answers
+});
+
+describe('HintService', () => {
+  let hintService: InstanceType<typeof HintService>;
+
+  beforeEach(() => {
+    usages.length = 0;
+    activeQuiz = null;
+    vi.clearAllMocks();
+    hintService = new HintService();
+  });
+
+  it('should reveal the ladder one level at a time and stop after the worked solution', async () => {
+    const nudge = await hintService.requestHint('student-1', 'q-1', 'session-1');
+    expect(nudge).toEqual({
+      questionId: 'q-1',
+      level: 'nudge',
+      hint: 'Think about unsupervised learning',
+      hintsUsed: 1,
+      hintsRemaining: 2
+    });
+
+    expect((await hintService.requestHint('student-1', 'q-1')).level).toBe('partial_step');
+    const solution = await hintService.requestHint('student-1', 'q-1');
+    expect(solution).toMatchObject({ level: 'worked_solution', hintsUsed: 3, hintsRemaining: 0 });
+
+    await expect(hintService.requestHint('student-1', 'q-1')).rejects.toMatchObject({ code: 'no_hints' });
+    expect(usages[0]).toMatchObject({ concept: 'clustering', topic: 'unsupervised-learning', sessionId: 'session-1' });
+  });
+
+  it('should count hints per student until the question is answered', async () => {
+    await hintService.requestHint('student-1', 'q-1');
+    await hintService.requestHint('student-1', 'q-1');
+
+    expect(await hintService.getHintsUsed('student-1', 'q-1')).toBe(2);
+    expect(await hintService.getHintsUsed('student-2', 'q-1')).toBe(0);
+
+    await hintService.recordAnswer('student-1', question, 2, true);
+
+    expect(await hintService.getHintsUsed('student-1', 'q-1')).toBe(0);
+    expect((await hintService.requestHint('student-1', 'q-1')).level).toBe('nudge');
+  });
+
+  it('should record answers given without hints', async () => {
+    await hintService.recordAnswer('student-1', question, 0, false);
+
+    expect(usages).toEqual([expect.objectContaining({ questionId: 'q-1', hintsUsed: 0, answered: true, isCorrect: false })]);
+  });
+
+  it('should reject hints for unknown questions', async () => {
+    await expect(hintService.requestHint('student-1', 'missing')).rejects.toMatchObject({ code: 'not_found' });
+    expect(hintUsageRepository.recordHint).not.toHaveBeenCalled();
+  });
+
+  it('should leave hints for the questions of a quiz in progress to the quiz', async () => {
+    activeQuiz = { id: 'attempt-1', status: 'in_progress', questions: [{ ...question, hints: question.hints }] } as QuizAttempt;
+
+    await expect(hintService.requestHint('student-1', 'q-1')).rejects.toMatchObject({ code: 'in_quiz' });
+    expect(agent.getHintLadder).not.toHaveBeenCalled();
+    expect(hintUsageRepository.recordHint).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the answer when usage cannot be stored', async () => {
+    hintUsageRepository.recordAnswer.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(hintService.recordAnswer('student-1', question, 1, true)).resolves.toBeUndefined();
+  });
+
+  it('should report the concepts that need hints most first', async () => {
+    hintUsageRepository.summarizeByConcept.mockResolvedValueOnce([
+      dependence('clustering', 4, 1, 1),
+      dependence('k-means', 2, 2, 5),
+      dependence('pca', 4, 1, 3)
+    ]);
+
+    const report = await hintService.getHintDependence('student-1');
+
+    expect(hintUsageRepository.summarizeByConcept).toHaveBeenCalledWith('student-1', 3);
+    expect(report.map(row => row.concept)).toEqual(['k-means', 'pca', 'clustering']);
+  });
+});
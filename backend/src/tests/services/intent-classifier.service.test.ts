@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock LLM service
+const generateCompletion = vi.fn();
+vi.mock('../../services/llm.service.js', () => ({
+  createLLMService: () => ({ generateCompletion })
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const { IntentClassifierService } = await import('../../services/intent-classifier.service.js');
+
+const llmScores = (scores: Record<string, number>) => ({ content: JSON.stringify({ scores }) });
+
+describe('IntentClassifierService', () => {
+  let classifier: InstanceType<typeof IntentClassifierService>;
+
+  beforeEach(() => {
+    generateCompletion.mockReset();
+    classifier = new IntentClassifierService({ threshold: 0.7, useLLM: true });
+  });
+
+  describe('rule tier', () => {
+    it.each([
+      ['Can you give me an example of clustering?', 'example_request'],
+      ['show me a real world example', 'example_request'],
+      ['quiz me on regression', 'practice_request'],
+      ['Give me another practice question please', 'practice_request'],
+      ["I'm so stressed about this test", 'emotional'],
+      ['can you help with my history homework', 'off_topic']
+    ])('should label "%s" as %s without the LLM', async (text, intent) => {
+      const result = await classifier.classify(text);
+
+      expect(result.intent).toBe(intent);
+      expect(result.method).toBe('rule');
+      expect(result.confidence).toBeGreaterThanOrEqual(0.7);
+      expect(generateCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should treat an answer-shaped reply to a waiting question as a quiz answer', () => {
+      const result = classifier.classifyWithRules('B', { pendingQuestion: 'Which task predicts a number?' });
+
+      expect(result.intent).toBe('quiz_answer');
+      expect(result.confidence).toBe(0.95);
+    });
+
+    it('should never label a message a quiz answer when no question is waiting', () => {
+      const result = classifier.classifyWithRules('the answer is B');
+
+      expect(result.intent).not.toBe('quiz_answer');
+      expect(result.scores.quiz_answer).toBeUndefined();
+    });
+
+    it('should prefer an explicit request over answering a waiting question', () => {
+      const result = classifier.classifyWithRules('can you give me an example first?', { pendingQuestion: 'What is overfitting?' });
+
+      expect(result.intent).toBe('example_request');
+      expect(result.scores.quiz_answer).toBeLessThan(result.confidence);
+    });
+
+    it('should return scores for every intent with a signal', () => {
+      const result = classifier.classifyWithRules('give me an example, I am so frustrated');
+
+      expect(result.scores.example_request).toBe(0.9);
+      expect(result.scores.emotional).toBe(0.9);
+    });
+  });
+
+  describe('LLM tier', () => {
+    it('should ask the LLM when the rule tier is unsure', async () => {
+      generateCompletion.mockResolvedValue(llmScores({ concept_question: 0.85, example_request: 0.1 }));
+
+      const result = await classifier.classify('decision trees??', {
+        attribution: { agent: 'intent-classifier', userId: 'user-1', sessionId: 'session-1' }
+      });
+
+      expect(result).toEqual({
+        intent: 'concept_question',
+        confidence: 0.85,
+        scores: { concept_question: 0.85, example_request: 0.1 },
+        method: 'llm'
+      });
+      expect(generateCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        prompt: { id: 'coordinator.intent', version: 1 },
+        attribution: { agent: 'intent-classifier', userId: 'user-1', sessionId: 'session-1' },
+        messages: [{ role: 'user', content: 'decision trees??' }]
+      }));
+    });
+
+    it('should tell the LLM which question is waiting for an answer', async () => {
+      generateCompletion.mockResolvedValue(llmScores({ quiz_answer: 0.8 }));
+
+      const result = await classifier.classify('the model learns the noise', { pendingQuestion: 'What is overfitting?' });
+
+      expect(result.intent).toBe('quiz_answer');
+      expect(generateCompletion.mock.calls[0][0].systemPrompt).toContain('What is overfitting?');
+    });
+
+    it('should drop quiz answer scores from the LLM when no question is waiting', async () => {
+      generateCompletion.mockResolvedValue(llmScores({ quiz_answer: 0.9, off_topic: 0.4 }));
+
+      const result = await classifier.classify('banana');
+
+      expect(result.intent).toBe('off_topic');
+      expect(result.scores.quiz_answer).toBeUndefined();
+    });
+
+    it('should fall back to the rule tier when the LLM fails or replies without scores', async () => {
+      generateCompletion.mockRejectedValueOnce(new Error('throttled'));
+      generateCompletion.mockResolvedValueOnce({ content: 'concept_question' });
+
+      const failed = await classifier.classify('decision trees??');
+      const unparsed = await classifier.classify('decision trees??');
+
+      expect(failed.method).toBe('rule');
+      expect(unparsed.method).toBe('rule');
+      expect(failed.intent).toBe('concept_question');
+    });
+
+    it('should not call the LLM when the tier is switched off', async () => {
+      const rulesOnly = new IntentClassifierService({ threshold: 0.7, useLLM: false });
+
+      const result = await rulesOnly.classify('decision trees??');
+
+      expect(result.method).toBe('rule');
+      expect(generateCompletion).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LLMConfig } from '../../services/llm.service.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const recordUsage = vi.fn();
+vi.mock('../../services/usage.service.js', () => ({
+  usageService: { recordUsage }
+}));
+
+const { LLMService } = await import('../../services/llm.service.js');
+const { ScriptedLLMProvider } = await import('../../services/llm-providers/index.js');
+
+const scriptedConfig: LLMConfig = {
+  provider: 'scripted',
+  model: 'scripted-fixture',
+  temperature: 0.7,
+  maxTokens: 500
+};
+
+describe('LLMService', () => {
+  beforeEach(() => {
+    recordUsage.mockClear();
+  });
+
+  describe('scripted provider', () => {
+    it('should select the scripted provider from config', () => {
+      const service = new LLMService(scriptedConfig);
+
+      expect(service.getProviderName()).toBe('scripted');
+    });
+
+    it('should return the first matching fixture', async () => {
+      const service = new LLMService(scriptedConfig, new ScriptedLLMProvider([
+        { pattern: 'overfitting', response: 'Overfitting means memorizing the training data.' },
+        { pattern: '.*', response: 'Catch-all' }
+      ]));
+
+      const response = await service.generateCompletion({
+        messages: [{ role: 'user', content: 'What is overfitting?' }]
+      });
+
+      expect(response.content).toBe('Overfitting means memorizing the training data.');
+      expect(response.model).toBe('scripted-fixture');
+      expect(response.usage.totalTokens).toBe(response.usage.promptTokens + response.usage.completionTokens);
+    });
+
+    it('should match fixtures against the system prompt', async () => {
+      const service = new LLMService(scriptedConfig, new ScriptedLLMProvider([
+        { pattern: 'assessment evaluator', response: '{"isCorrect": true, "confidence": 1, "reasoning": "ok"}' }
+      ]));
+
+      const response = await service.generateCompletion({
+        systemPrompt: 'You are an AI assessment evaluator.',
+        messages: [{ role: 'user', content: 'Evaluate this answer: "B"' }]
+      });
+
+      expect(JSON.parse(response.content).isCorrect).toBe(true);
+    });
+
+    it('should be deterministic when no fixture matches', async () => {
+      const service = new LLMService(scriptedConfig, new ScriptedLLMProvider([]));
+      const request = { messages: [{ role: 'user' as const, content: 'Explain clustering' }] };
+
+      const first = await service.generateCompletion(request);
+      const second = await service.generateCompletion(request);
+
+      expect(first.content).toBe(second.content);
+      expect(first.content).toContain('Explain clustering');
+    });
+
+    it('should generate parseable questions with the default fixtures', async () => {
+      const service = new LLMService(scriptedConfig);
+
+      const response = await service.generateCompletion({
+        systemPrompt: 'FORMAT YOUR RESPONSE AS JSON:\n{\n  "question": "The main question text"\n}',
+        messages: [{ role: 'user', content: 'Generate a practice question about supervised learning.' }]
+      });
+      const question = JSON.parse(response.content);
+
+      expect(question.options).toContain(question.correctAnswer);
+    });
+
+    it('should stream the same content as a full completion', async () => {
+      const service = new LLMService(scriptedConfig, new ScriptedLLMProvider([
+        { pattern: 'gradient', response: 'Gradient descent takes small steps downhill.' }
+      ]));
+      const request = { messages: [{ role: 'user' as const, content: 'What is gradient descent?' }] };
+
+      const chunks = [];
+      for await (const chunk of service.streamCompletion(request)) {
+        chunks.push(chunk);
+      }
+      const completion = await service.generateCompletion(request);
+
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks.map(c => c.content).join('')).toBe(completion.content);
+      expect(chunks[chunks.length - 1].done).toBe(true);
+      expect(chunks[chunks.length - 1].usage).toEqual(completion.usage);
+    });
+
+    it('should record the usage of each call against its caller', async () => {
+      const service = new LLMService(scriptedConfig, new ScriptedLLMProvider([
+        { pattern: '.*', response: 'Regression predicts a number.' }
+      ]));
+      const request = {
+        messages: [{ role: 'user' as const, content: 'What is regression?' }],
+        prompt: { id: 'tutor.system', version: 1 },
+        attribution: { agent: 'tutor', userId: 'student-1', sessionId: 'session-1' }
+      };
+
+      const completion = await service.generateCompletion(request);
+
+      // A stream is recorded before its last chunk is handed over
+      let recordedBeforeLastChunk = false;
+      for await (const chunk of service.streamCompletion(request)) {
+        if (chunk.done) recordedBeforeLastChunk = recordUsage.mock.calls.length === 2;
+      }
+
+      expect(recordedBeforeLastChunk).toBe(true);
+      expect(recordUsage).toHaveBeenCalledTimes(2);
+      expect(recordUsage).toHaveBeenNthCalledWith(1, {
+        attribution: request.attribution,
+        model: 'scripted-fixture',
+        prompt: request.prompt,
+        ...completion.usage
+      });
+      expect(recordUsage.mock.calls[1][0]).toEqual(recordUsage.mock.calls[0][0]);
+    });
+
+    it('should report healthy without network access', async () => {
+      const service = new LLMService(scriptedConfig);
+
+      await expect(service.healthCheck()).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConceptMastery, StudentProgress, TopicProgress } from '../../types/index.js';
+import type { ConceptMasteryRepository } from '../../database/repositories/concept-mastery.repository.js';
+import type { TopicProgressUpdate } from '../../database/repositories/progress.repository.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const topics = [
+  {
+    id: 'intro-to-ml',
+    name: 'Introduction to Machine Learning',
+    concepts: [
+      { id: 'machine-learning', name: 'machine learning', keyTerms: ['machine learning', 'ml', 'algorithm'] },
+      { id: 'training-data', name: 'training data', keyTerms: ['training data', 'dataset', 'features'] }
+    ]
+  },
+  {
+    id: 'supervised-learning',
+    name: 'Supervised Learning',
+    concepts: [
+      { id: 'classification', name: 'classification', keyTerms: ['classification', 'classes'] },
+      { id: 'regression', name: 'regression', keyTerms: ['regression', 'linear'] }
+    ]
+  }
+];
+
+vi.mock('../../services/curriculum.service.js', () => ({
+  curriculumService: {
+    getTopics: () => topics,
+    getTopic: (topicId: string) => topics.find(topic => topic.id === topicId) || null
+  }
+}));
+
+const trackProgress = vi.fn();
+
+vi.mock('../../services/analytics.service.js', () => ({
+  analyticsService: {
+    trackProgress: (...args: unknown[]) => trackProgress(...args)
+  }
+}));
+
+const masteryByKey = new Map<string, ConceptMastery>();
+const progressByUser = new Map<string, StudentProgress>();
+
+const key = (userId: string, concept: string) => `${userId}:${concept.trim().toLowerCase()}`;
+
+const conceptMasteryRepository: ConceptMasteryRepository = {
+  async findByConcepts(userId, concepts) {
+    return concepts.map(concept => masteryByKey.get(key(userId, concept))).filter((m): m is ConceptMastery => !!m);
+  },
+  async findByUser(userId, topic) {
+    return [...masteryByKey.values()].filter(m => m.userId === userId && (!topic || m.topic === topic));
+  },
+  async saveMastery(userId, concept, state) {
+    const existing = masteryByKey.get(key(userId, concept));
+    const mastery: ConceptMastery = {
+      id: existing?.id || `mastery-${masteryByKey.size + 1}`,
+      userId,
+      concept: concept.trim().toLowerCase(),
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+      ...state
+    };
+    masteryByKey.set(key(userId, concept), mastery);
+    return mastery;
+  }
+};
+
+// Keeps just enough of the progress repository to follow topic updates
+const progressRepository = {
+  async findByUserId(userId: string) {
+    return progressByUser.get(userId) || null;
+  },
+  async createProgress({ userId }: { userId: string }) {
+    const progress: StudentProgress = {
+      userId,
+      topicsCompleted: [],
+      currentLevel: 1,
+      totalTimeSpent: 0,
+      assessmentScores: [],
+      learningPath: [],
+      lastUpdated: new Date()
+    };
+    progressByUser.set(userId, progress);
+    return progress;
+  },
+  async updateTopicProgress(userId: string, update: TopicProgressUpdate) {
+    const progress = progressByUser.get(userId)!;
+    const topic: TopicProgress = {
+      topicId: update.topicId,
+      topicName: update.topicName,
+      completionPercentage: update.completionPercentage || 0,
+      masteryLevel: update.masteryLevel || 'beginner',
+      timeSpent: update.timeSpent || 0,
+      lastAccessed: new Date(),
+      conceptsLearned: update.conceptsLearned || [],
+      strugglingConcepts: update.strugglingConcepts || []
+    };
+    progress.topicsCompleted = [...progress.topicsCompleted.filter(t => t.topicId !== update.topicId), topic];
+    return progress;
+  }
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getConceptMasteryRepository: () => conceptMasteryRepository,
+    getProgressRepository: () => progressRepository
+  }
+}));
+
+const { MasteryService, updateKnowledge, applyTutorExposure, summarizeTopic } = await import('../../services/mastery.service.js');
+
+describe('updateKnowledge', () => {
+  it('should raise the estimate on a correct answer and lower it on a miss', () => {
+    expect(updateKnowledge(0.2, { isCorrect: true, hintsUsed: 0 })).toBeCloseTo(0.6, 3);
+    expect(updateKnowledge(0.6, { isCorrect: false, hintsUsed: 0 })).toBeLessThan(0.6);
+  });
+
+  it('should give less credit to correct answers that needed hints', () => {
+    const unaided = updateKnowledge(0.4, { isCorrect: true, hintsUsed: 0 });
+    const oneHint = updateKnowledge(0.4, { isCorrect: true, hintsUsed: 1 });
+    const threeHints = updateKnowledge(0.4, { isCorrect: true, hintsUsed: 3 });
+
+    expect(unaided).toBeGreaterThan(oneHint);
+    expect(oneHint).toBeGreaterThan(threeHints);
+  });
+});
+
+describe('applyTutorExposure', () => {
+  it('should raise the estimate slowly and stop at the tutor ceiling', () => {
+    let pKnown = 0.2;
+    for (let i = 0; i < 100; i++) {
+      pKnown = applyTutorExposure(pKnown);
+    }
+
+    expect(applyTutorExposure(0.2)).toBeCloseTo(0.24, 3);
+    expect(pKnown).toBe(0.6);
+    expect(applyTutorExposure(0.9)).toBe(0.9);
+  });
+});
+
+describe('summarizeTopic', () => {
+  const estimate = (concept: string, pKnown: number, attempts = 0, correctAttempts = 0) =>
+    ({ concept, pKnown, attempts, correctAttempts });
+
+  it('should only reach full completion once every concept is learned', () => {
+    expect(summarizeTopic([estimate('regression', 0.9), estimate('classification', 0.4)])).toEqual({
+      completionPercentage: 75,
+      masteryLevel: 'intermediate',
+      conceptsLearned: ['regression'],
+      strugglingConcepts: []
+    });
+    expect(summarizeTopic([estimate('regression', 0.85), estimate('classification', 0.9)]))
+      .toMatchObject({ completionPercentage: 100, masteryLevel: 'intermediate' });
+    expect(summarizeTopic([estimate('regression', 0.97), estimate('classification', 0.96)]))
+      .toMatchObject({ completionPercentage: 100, masteryLevel: 'advanced' });
+  });
+
+  it('should flag missed concepts with a low estimate as struggling', () => {
+    const summary = summarizeTopic([estimate('regression', 0.1, 2, 0), estimate('classification', 0.1)]);
+    expect(summary.masteryLevel).toBe('beginner');
+    expect(summary.strugglingConcepts).toEqual(['regression']);
+  });
+});
+
+describe('MasteryService', () => {
+  let masteryService: InstanceType<typeof MasteryService>;
+
+  const answer = (concept: string, isCorrect: boolean, hintsUsed = 0) => ({
+    concept,
+    topic: 'supervised-learning',
+    isCorrect,
+    hintsUsed,
+    timeSpent: 30,
+    sessionId: 'session-1'
+  });
+
+  const actionsTracked = () => trackProgress.mock.calls.map(([data]) => data.action);
+
+  beforeEach(() => {
+    masteryByKey.clear();
+    progressByUser.clear();
+    vi.clearAllMocks();
+    masteryService = new MasteryService();
+  });
+
+  it('should complete and then master a topic from assessment evidence', async () => {
+    for (const concept of ['regression', 'classification']) {
+      await masteryService.recordAssessment('student-1', answer(concept, true));
+      await masteryService.recordAssessment('student-1', answer(concept, true));
+    }
+
+    const topic = progressByUser.get('student-1')!.topicsCompleted[0];
+    expect(topic).toMatchObject({ topicId: 'supervised-learning', completionPercentage: 100, masteryLevel: 'intermediate' });
+    expect(topic.timeSpent).toBe(120);
+    expect(actionsTracked()).toEqual(['started', 'progressed', 'progressed', 'completed']);
+
+    const [update] = await masteryService.recordAssessment('student-1', answer('regression', true));
+    expect(update.actions).toEqual(['progressed']);
+
+    const [mastered] = await masteryService.recordAssessment('student-1', answer('classification', true));
+    expect(mastered).toMatchObject({ masteryLevel: 'advanced', actions: ['mastered'] });
+    expect(trackProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'mastered',
+      progressPercentage: 100,
+      masteryLevel: 'advanced',
+      sessionId: 'session-1',
+      metadata: expect.objectContaining({ conceptsUnderstood: ['classification', 'regression'] })
+    }));
+  });
+
+  it('should not complete a topic from tutor turns alone', async () => {
+    for (let i = 0; i < 40; i++) {
+      await masteryService.recordTutorTurn('student-1', {
+        sessionId: 'session-1',
+        concepts: ['machine learning', 'training data'],
+        timeSpent: 60
+      });
+    }
+
+    const topic = progressByUser.get('student-1')!.topicsCompleted[0];
+    expect(topic).toMatchObject({ topicId: 'intro-to-ml', completionPercentage: 75, masteryLevel: 'intermediate' });
+    expect(topic.timeSpent).toBe(2400);
+    expect(actionsTracked()).not.toContain('completed');
+
+    const mastery = await masteryService.getMastery('student-1', 'intro-to-ml');
+    expect(mastery.map(m => m.exposures)).toEqual([40, 40]);
+  });
+
+  it('should report struggling concepts after repeated misses', async () => {
+    await masteryService.recordAssessment('student-1', answer('regression', false));
+    const [update] = await masteryService.recordAssessment('student-1', answer('regression', false, 2));
+
+    expect(update).toMatchObject({ actions: ['struggled'], strugglingConcepts: ['regression'] });
+    expect(trackProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'struggled',
+      metadata: expect.objectContaining({ strugglingConcepts: ['regression'], hintsUsed: 2 })
+    }));
+  });
+
+  it('should map question concepts onto curriculum concepts by key term', async () => {
+    await masteryService.recordAssessment('student-1', { ...answer('algorithms', true), topic: 'intro-to-ml' });
+    await masteryService.recordAssessment('student-1', { ...answer('predictions', true), topic: 'intro-to-ml' });
+
+    const mastery = await masteryService.getMastery('student-1', 'intro-to-ml');
+    expect(mastery.map(m => m.concept).sort()).toEqual(['machine learning', 'predictions']);
+
+    // The unmatched concept counts toward its topic alongside the curriculum concepts
+    const topic = progressByUser.get('student-1')!.topicsCompleted[0];
+    expect(topic.completionPercentage).toBe(50);
+  });
+
+  it('should not start a topic for tutor-turn concepts outside the curriculum', async () => {
+    await masteryService.recordTutorTurn('student-1', {
+      sessionId: 'session-1',
+      concepts: ['gradient boosting', 'regression'],
+      timeSpent: 60
+    });
+
+    expect(progressByUser.get('student-1')!.topicsCompleted.map(t => t.topicId)).toEqual(['supervised-learning']);
+    expect((await masteryService.getMastery('student-1')).map(m => m.concept)).toEqual(['regression']);
+  });
+
+  it('should track unmatched tutor-turn concepts under the session topic', async () => {
+    await masteryService.recordTutorTurn('student-1', {
+      sessionId: 'session-1',
+      concepts: ['gradient boosting'],
+      topic: 'supervised-learning',
+      timeSpent: 60
+    });
+    const updates = await masteryService.recordTutorTurn('student-1', {
+      sessionId: 'session-1',
+      concepts: ['gradient boosting'],
+      topic: 'not-a-topic',
+      timeSpent: 60
+    });
+
+    expect(updates).toEqual([]);
+    expect(progressByUser.get('student-1')!.topicsCompleted.map(t => t.topicId)).toEqual(['supervised-learning']);
+    expect((await masteryService.getMastery('student-1', 'supervised-learning')).map(m => m.concept)).toEqual(['gradient boosting']);
+  });
+});
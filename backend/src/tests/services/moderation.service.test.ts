@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ModerationEvent } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const events: ModerationEvent[] = [];
+
+const moderationEventRepository = {
+  logEvent: vi.fn(async (event: Omit<ModerationEvent, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const logged = { id: `event-${events.length + 1}`, ...event, createdAt: new Date(), updatedAt: new Date() };
+    events.push(logged);
+    return logged;
+  }),
+  findEventById: vi.fn(async (eventId: string) => events.find(event => event.id === eventId) || null),
+  findEventsByUsers: vi.fn(async (userIds: string[], status?: ModerationEvent['status']) =>
+    events.filter(event => userIds.includes(event.userId) && (!status || event.status === status))
+  ),
+  markReviewed: vi.fn(async (eventId: string, reviewerId: string, note?: string) => {
+    const event = events.find(e => e.id === eventId)!;
+    Object.assign(event, { status: 'reviewed', reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note });
+    return event;
+  })
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getModerationEventRepository: () => moderationEventRepository
+  }
+}));
+
+const { ModerationService, ModerationPolicyError, validateModerationPolicy } = await import('../../services/moderation.service.js');
+const { findPersonalData, redactPersonalData } = await import('../../utils/pii.js');
+
+const BUNDLED_POLICY = 'moderation/policy.json';
+
+const loadBundledPolicy = () => JSON.parse(readFileSync(BUNDLED_POLICY, 'utf-8'));
+
+describe('redactPersonalData', () => {
+  it('should replace phone numbers, emails and street addresses', () => {
+    expect(redactPersonalData('Call me on (555) 123-4567 or +44 20 7946 0958'))
+      .toBe('Call me on [phone number removed] or [phone number removed]');
+    expect(redactPersonalData('my email is jo.smith+ml@school.org'))
+      .toBe('my email is [email removed]');
+    expect(redactPersonalData('I live at 42 Oak Tree Lane, come over'))
+      .toBe('I live at [address removed], come over');
+  });
+
+  it('should leave numbers in ML questions alone', () => {
+    const text = 'My model got 0.95 accuracy on 10000 rows with 3 features in 2024-10-19';
+    expect(findPersonalData(text)).toEqual([]);
+    expect(redactPersonalData(text)).toBe(text);
+  });
+
+  it('should also catch lowercase suffixes and trunk-prefixed numbers', () => {
+    expect(redactPersonalData('send it to 7 Baker street or ring 020 7946 0958'))
+      .toBe('send it to [address removed] or ring [phone number removed]');
+  });
+
+  it.each([
+    'With k = 3 is the best way to pick neighbours',
+    'The derivative is 2 times the ln of x',
+    'We trained on 10 000 000 rows',
+    'The Unix timestamp 1700000000 is in November 2023',
+    'Plot the curve for 2 Close points on the unit circle',
+    'Call np.arange(2020 1500 200) to get the grid'
+  ])('should leave tutoring text alone: %s', (text) => {
+    expect(redactPersonalData(text)).toBe(text);
+  });
+
+  it('should leave fenced code alone', () => {
+    const text = [
+      'Try `np.linspace(100, 200, 3000)` first:',
+      '```python',
+      'phone = "555-123-4567"',
+      'street = "42 Oak Tree Lane"',
+      '```',
+      'but call me on 555-123-4567'
+    ].join('\n');
+
+    expect(findPersonalData(text)).toEqual([{ kind: 'phone', start: text.lastIndexOf('555'), end: text.length }]);
+  });
+
+  it('should still redact personal data wrapped in inline code', () => {
+    expect(redactPersonalData('Reach me at `me@example.com` or `555-123-4567`'))
+      .toBe('Reach me at `[email removed]` or `[phone number removed]`');
+  });
+
+  it('should treat an unclosed fence as code while a reply streams', () => {
+    const text = '```python\nrows = 555-123-4567';
+    expect(findPersonalData(text)).toEqual([]);
+  });
+});
+
+describe('validateModerationPolicy', () => {
+  it('should accept the bundled policy', () => {
+    expect(validateModerationPolicy(loadBundledPolicy())).toEqual([]);
+  });
+
+  it('should report unknown actions, missing categories and escalating outputs', () => {
+    const policy = loadBundledPolicy();
+    policy.categories.harassment.input = 'ban';
+    policy.categories.self_harm.output = 'escalate';
+    delete policy.categories.personal_data;
+
+    expect(validateModerationPolicy(policy)).toEqual([
+      'categories.self_harm.output cannot escalate; tutor answers are blocked or rewritten',
+      'categories.harassment.input must be one of allow, rewrite, block, escalate',
+      'categories.personal_data is required'
+    ]);
+  });
+});
+
+describe('ModerationService', () => {
+  let tempDir: string;
+  let moderation: InstanceType<typeof ModerationService>;
+
+  const context = { userId: 'student-1', sessionId: 'session-1', messageId: 'msg-1' };
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'moderation-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+    vi.clearAllMocks();
+    moderation = new ModerationService(BUNDLED_POLICY);
+  });
+
+  it('should let ordinary questions through without logging', async () => {
+    for (const text of [
+      'How do I kill the training process when it hangs?',
+      'My decision tree is so dumb, it predicts the same class every time',
+      'What does it mean when a neuron dies in a ReLU network?'
+    ]) {
+      expect((await moderation.moderate(text, 'input', context)).action).toBe('allow');
+    }
+    expect(moderationEventRepository.logEvent).not.toHaveBeenCalled();
+  });
+
+  it('should escalate self-harm with a support message and an open audit event', async () => {
+    const policy = loadBundledPolicy();
+    const result = await moderation.moderate('honestly I just want to die, call me at 555-123-4567', 'input', context);
+
+    expect(result.action).toBe('escalate');
+    expect(result.text).toBe(policy.categories.self_harm.response);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      userId: 'student-1',
+      sessionId: 'session-1',
+      direction: 'input',
+      action: 'escalate',
+      status: 'open',
+      policyVersion: policy.version,
+      excerpt: 'honestly I just want to die, call me at [phone number removed]'
+    });
+    expect(events[0].findings.map(f => f.category)).toEqual(['self_harm', 'personal_data']);
+  });
+
+  it('should add up weak classifier signals into a finding', () => {
+    const result = moderation.check("I feel hopeless and worthless, nobody would care if I wasn't here", 'input');
+
+    expect(result.action).toBe('escalate');
+    expect(result.findings).toEqual([{ category: 'self_harm', score: 0.77, method: 'classifier' }]);
+    expect(moderation.check('I feel hopeless about gradient descent', 'input').action).toBe('allow');
+  });
+
+  it('should rewrite insults and personal data in student messages', async () => {
+    const result = await moderation.moderate("you're so stupid, my number is 555 123 4567", 'input', context);
+
+    expect(result.action).toBe('rewrite');
+    expect(result.text).toBe('***, my number is [phone number removed]');
+    expect(events[0]).toMatchObject({ action: 'rewrite', status: 'closed' });
+  });
+
+  it('should block harmful tutor answers with the output response', () => {
+    const policy = loadBundledPolicy();
+    const result = moderation.check('Honestly, you are a loser if you need this explained.', 'output');
+
+    expect(result).toMatchObject({ action: 'block', text: policy.outputResponse });
+  });
+
+  it('should follow the configured policy', () => {
+    const policy = loadBundledPolicy();
+    policy.categories.harassment.input = 'allow';
+    const path = join(tempDir, 'lenient.json');
+    writeFileSync(path, JSON.stringify(policy));
+
+    expect(new ModerationService(path).check('you are so dumb', 'input').action).toBe('allow');
+  });
+
+  it('should refuse to load an invalid policy file', () => {
+    const path = join(tempDir, 'invalid.json');
+    writeFileSync(path, JSON.stringify({ version: '1', categories: {} }));
+
+    expect(() => new ModerationService(path).load()).toThrow(ModerationPolicyError);
+  });
+
+  it('should still moderate when the audit log is unavailable', async () => {
+    moderationEventRepository.logEvent.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const result = await moderation.moderate('kys', 'input', context);
+    expect(result.action).toBe('rewrite');
+    expect(result.text).toBe('***');
+  });
+
+  it('should only let teachers review their own students\' escalations', async () => {
+    await moderation.moderate('I keep thinking about suicide', 'input', context);
+    const [event] = await moderation.getEvents(['student-1'], 'open');
+
+    expect(await moderation.reviewEscalation(event.id, 'teacher-2', ['student-9'])).toBeNull();
+
+    const reviewed = await moderation.reviewEscalation(event.id, 'teacher-1', ['student-1'], 'Spoke with the counselor');
+    expect(reviewed).toMatchObject({ status: 'reviewed', reviewedBy: 'teacher-1', reviewNote: 'Spoke with the counselor' });
+    expect(await moderation.getEvents(['student-1'], 'open')).toEqual([]);
+  });
+});
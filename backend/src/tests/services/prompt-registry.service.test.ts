@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const { PromptRegistry, PromptError, parsePromptTemplate } = await import('../../services/prompt-registry.service.js');
+
+const BUNDLED_PROMPTS = 'prompts';
+
+const template = (id: string, version: number, body: string, variables = '') =>
+  `id: ${id}\nversion: ${version}\ndescription: Test template\n${variables ? `variables: ${variables}\n` : ''}---\n${body}\n`;
+
+describe('PromptRegistry', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'prompts-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeTemplates = (name: string, files: Record<string, string>): string => {
+    const directory = join(tempDir, name);
+    mkdirSync(directory);
+    Object.entries(files).forEach(([file, source]) => writeFileSync(join(directory, file), source));
+    return directory;
+  };
+
+  it('should load every bundled template', () => {
+    const registry = new PromptRegistry(BUNDLED_PROMPTS, {});
+
+    expect(registry.load().map(t => t.id).sort()).toEqual([
+      'assessment.answer-evaluation',
+      'assessment.hints',
+      'assessment.question-generation',
+      'bedrock.ml-response',
+      'content.adaptive',
+      'content.example',
+      'content.exercise',
+      'content.explanation',
+      'conversation.summary',
+      'coordinator.intent',
+      'coordinator.synthesis',
+      'tutor.socratic',
+      'tutor.system'
+    ]);
+  });
+
+  it('should render the tutor prompt with only the context it is given', () => {
+    const registry = new PromptRegistry(BUNDLED_PROMPTS, {});
+    const rendered = registry.render('tutor.system', {
+      maxExplanationLength: 400,
+      currentTopic: 'supervised-learning',
+      strugglingAreas: ['overfitting', 'labels'],
+      isConfused: true,
+      needsExample: false,
+      needsMath: false,
+      concepts: []
+    });
+
+    expect(rendered.prompt).toEqual({ id: 'tutor.system', version: 1 });
+    expect(rendered.text).toContain('(under 400 words)');
+    expect(rendered.text).toContain('CURRENT CONTEXT:\n- Current topic: supervised-learning\n- Student struggles with: overfitting, labels\n\nFOR THIS RESPONSE:\n- The student seems confused');
+    expect(rendered.text).not.toContain('Student level');
+    expect(rendered.text).not.toContain('Focus on these ML concepts');
+    expect(rendered.text).not.toMatch(/\{\{|\}\}/);
+  });
+
+  it('should fall back to the inverted block when a value is missing', () => {
+    const registry = new PromptRegistry(BUNDLED_PROMPTS, {});
+
+    expect(registry.render('content.example', { topic: 'clustering', preferredExamples: [] }).text)
+      .toContain('PREFERRED CONTEXTS: social media, entertainment, sports');
+    expect(registry.render('content.example', { topic: 'clustering', preferredExamples: ['music'] }).text)
+      .toContain('PREFERRED CONTEXTS: music\n');
+  });
+
+  it('should reject missing and mistyped variables', () => {
+    const registry = new PromptRegistry(BUNDLED_PROMPTS, {});
+
+    expect(() => registry.render('content.exercise', { topic: 'regression' } as any))
+      .toThrow('missing required variable "timeAvailable"');
+    expect(() => registry.render('content.exercise', { topic: 'regression', timeAvailable: '10' } as any))
+      .toThrow('variable "timeAvailable" must be a number');
+  });
+
+  it('should use the newest version unless one is pinned or requested', () => {
+    const directory = writeTemplates('versions', {
+      'greeting.v1.prompt': template('greeting', 1, 'Hello {{name}}', 'name:string'),
+      'greeting.v2.prompt': template('greeting', 2, 'Hi there, {{name}}!', 'name:string')
+    });
+
+    const latest = new PromptRegistry(directory, {});
+    expect(latest.render('greeting' as any, { name: 'Sam' } as any)).toEqual({
+      text: 'Hi there, Sam!',
+      prompt: { id: 'greeting', version: 2 }
+    });
+    expect(latest.render('greeting' as any, { name: 'Sam' } as any, 1).text).toBe('Hello Sam');
+
+    const pinned = new PromptRegistry(directory, { greeting: 1 });
+    expect(pinned.render('greeting' as any, { name: 'Sam' } as any).prompt).toEqual({ id: 'greeting', version: 1 });
+    expect(() => new PromptRegistry(directory, { greeting: 3 }).load()).toThrow('Pinned prompt greeting v3 does not exist');
+  });
+
+  it('should refuse to load invalid or duplicate templates', () => {
+    const directory = writeTemplates('invalid', {
+      'a.prompt': template('greeting', 1, 'Hello {{name}}', 'name:string'),
+      'b.prompt': template('greeting', 1, 'Hey {{name}}', 'name:string')
+    });
+
+    expect(() => new PromptRegistry(directory, {}).load()).toThrow(PromptError);
+    expect(() => new PromptRegistry(directory, {}).load()).toThrow('b.prompt duplicates greeting v1 from a.prompt');
+  });
+});
+
+describe('parsePromptTemplate', () => {
+  it('should check variables against the template body', () => {
+    expect(() => parsePromptTemplate(template('greeting', 1, 'Hello {{name}} {{#late}}again{{/late}}', 'name:string, unused?:list'), 'x.prompt'))
+      .toThrow(/undeclared variable "late".*"unused" is declared but never used/);
+    expect(() => parsePromptTemplate(template('greeting', 1, '{{#name}}Hello', 'name:string'), 'x.prompt'))
+      .toThrow('block "name" is not closed');
+    expect(() => parsePromptTemplate(template('Greeting', 0, 'Hello', 'name:text'), 'x.prompt'))
+      .toThrow(/id must be.*version must be.*variable "name:text"/);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IndexedQuestion } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const stored: IndexedQuestion[] = [];
+
+const indexedQuestionRepository = {
+  addQuestion: vi.fn(async (entry: Omit<IndexedQuestion, 'id'>) => {
+    const question = { id: `question-${stored.length + 1}`, ...entry };
+    stored.push(question);
+    return question;
+  }),
+  findRecentByUser: vi.fn(async (userId: string) =>
+    stored.filter(q => q.userId === userId).sort((a, b) => b.askedAt.getTime() - a.askedAt.getTime())
+  )
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getIndexedQuestionRepository: () => indexedQuestionRepository
+  }
+}));
+
+const { QuestionIndexService, tokenizeQuestion } = await import('../../services/question-index.service.js');
+
+describe('tokenizeQuestion', () => {
+  it('should drop question framing, expand abbreviations and strip suffixes', () => {
+    expect(tokenizeQuestion("What's ML?")).toEqual(['machine', 'learn']);
+    expect(tokenizeQuestion('Can you explain k-means clustering to me?')).toEqual(['k-mean', 'cluster']);
+    expect(tokenizeQuestion('How do decision trees work?')).toEqual(['decision', 'tree']);
+  });
+});
+
+describe('QuestionIndexService', () => {
+  let questionIndex: InstanceType<typeof QuestionIndexService>;
+
+  const answered = (question: string, sessionId = 'session-1') => ({
+    sessionId,
+    question,
+    answer: `Answer to: ${question}`,
+    answerMessageId: `agent-${question.length}`
+  });
+
+  beforeEach(async () => {
+    stored.length = 0;
+    vi.clearAllMocks();
+    questionIndex = new QuestionIndexService();
+
+    await questionIndex.indexQuestion('student-1', answered('What is machine learning?', 'session-old'));
+    await questionIndex.indexQuestion('student-1', answered('What is supervised learning?'));
+    await questionIndex.indexQuestion('student-1', answered('How does a decision tree work?'));
+  });
+
+  it('should find paraphrases of an earlier question', async () => {
+    const similar = await questionIndex.findSimilar('student-1', 'Can you explain ML to me?');
+
+    expect(similar).toMatchObject({
+      question: 'What is machine learning?',
+      answer: 'Answer to: What is machine learning?',
+      sessionId: 'session-old'
+    });
+    expect(similar!.similarity).toBeGreaterThanOrEqual(0.8);
+    expect(await questionIndex.findSimilar('student-1', 'explain decision trees please'))
+      .toMatchObject({ question: 'How does a decision tree work?' });
+  });
+
+  it('should not match questions about a different concept', async () => {
+    expect(await questionIndex.findSimilar('student-1', 'What is unsupervised learning?')).toBeNull();
+    expect(await questionIndex.findSimilar('student-1', 'What is a neural network?')).toBeNull();
+    expect(await questionIndex.findSimilar('student-1', 'What is it?')).toBeNull();
+  });
+
+  it('should keep each student\'s questions separate', async () => {
+    expect(await questionIndex.findSimilar('student-2', 'What is machine learning?')).toBeNull();
+  });
+
+  it('should load each index from the database once', async () => {
+    await questionIndex.findSimilar('student-1', 'What is ML?');
+    await questionIndex.findSimilar('student-1', 'What is supervised learning?');
+
+    expect(indexedQuestionRepository.findRecentByUser).toHaveBeenCalledTimes(1);
+    expect(stored.every(q => q.terms.length > 0)).toBe(true);
+  });
+
+  it('should answer normally when the index cannot be loaded', async () => {
+    indexedQuestionRepository.findRecentByUser.mockRejectedValueOnce(new Error('database unavailable'));
+
+    expect(await new QuestionIndexService().findSimilar('student-1', 'What is machine learning?')).toBeNull();
+  });
+});
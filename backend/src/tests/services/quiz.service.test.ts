@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuizAttempt, QuizQuestion } from '../../types/index.js';
+import type { QuizAttemptRepository, CreateQuizAttemptData } from '../../database/repositories/quiz-attempt.repository.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const attempts = new Map<string, QuizAttempt>();
+
+// In-memory repository with the same in-progress guards as the Mongo one
+const quizAttemptRepository: QuizAttemptRepository = {
+  async createAttempt(data: CreateQuizAttemptData) {
+    const startedAt = new Date();
+    const attempt: QuizAttempt = {
+      ...data,
+      id: `attempt-${attempts.size + 1}`,
+      answers: [],
+      hintsRevealed: data.questions.map(() => 0),
+      currentQuestionIndex: 0,
+      status: 'in_progress',
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + data.timeLimit * 1000),
+      score: 0,
+      maxScore: data.questions.length * data.pointsPerQuestion
+    };
+    attempts.set(attempt.id, attempt);
+    return structuredClone(attempt);
+  },
+  async findAttemptById(id) {
+    const attempt = attempts.get(id);
+    return attempt ? structuredClone(attempt) : null;
+  },
+  async findActiveAttempt(userId) {
+    const attempt = [...attempts.values()].find(a => a.userId === userId && a.status === 'in_progress');
+    return attempt ? structuredClone(attempt) : null;
+  },
+  async findAttemptsByUser(userId) {
+    return [...attempts.values()].filter(a => a.userId === userId);
+  },
+  async recordAnswer(id, index, answer) {
+    const attempt = attempts.get(id);
+    if (!attempt || attempt.status !== 'in_progress' || attempt.currentQuestionIndex !== index) return null;
+    attempt.answers.push(answer);
+    attempt.currentQuestionIndex += 1;
+    attempt.score += answer.score;
+    return structuredClone(attempt);
+  },
+  async revealHint(id, index) {
+    const attempt = attempts.get(id);
+    if (!attempt || attempt.status !== 'in_progress' || attempt.currentQuestionIndex !== index) return null;
+    attempt.hintsRevealed[index] += 1;
+    return structuredClone(attempt);
+  },
+  async completeAttempt(id, completion) {
+    const attempt = attempts.get(id);
+    if (!attempt || attempt.status !== 'in_progress') return null;
+    Object.assign(attempt, completion, { completedAt: new Date() });
+    return structuredClone(attempt);
+  }
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getQuizAttemptRepository: () => quizAttemptRepository
+  }
+}));
+
+const quizQuestions: QuizQuestion[] = [
+  {
+    id: 'q-1',
+    type: 'true_false',
+    question: 'Clustering needs labels.',
+    options: ['True', 'False'],
+    correctAnswer: 'False',
+    explanation: 'Clustering works on unlabeled data.',
+    hints: ['Think about unsupervised learning', 'Labels are not required'],
+    difficulty: 1,
+    concept: 'clustering',
+    timeEstimate: 30
+  },
+  {
+    id: 'q-2',
+    type: 'multiple_choice',
+    question: 'Which task predicts a number?',
+    options: ['Classification', 'Regression'],
+    correctAnswer: 'Regression',
+    explanation: 'Regression predicts continuous values.',
+    hints: ['Is it a category?'],
+    difficulty: 2,
+    concept: 'regression',
+    timeEstimate: 30
+  }
+];
+
+const agent = {
+  createQuiz: vi.fn(async () => ({
+    id: 'quiz-1',
+    type: 'quiz',
+    questions: quizQuestions,
+    timeLimit: 360,
+    passingScore: 70,
+    topic: 'supervised-learning',
+    difficulty: 2
+  })),
+  getPointsPerQuestion: () => 10,
+  getHintLadder: vi.fn(async (question: QuizQuestion) => [
+    { level: 'nudge', hint: question.hints[0] },
+    { level: 'partial_step', hint: question.hints.slice(1).join(' ') },
+    { level: 'worked_solution', hint: `${question.explanation} The answer is: ${question.correctAnswer}` }
+  ]),
+  evaluateAnswer: vi.fn(async (question: QuizQuestion, answer: string, _context: unknown, attempt: { hintsUsed?: number; timeSpent?: number }) => {
+    const isCorrect = answer === question.correctAnswer;
+    return {
+      questionId: question.id,
+      studentAnswer: answer,
+      isCorrect,
+      score: isCorrect ? Math.max(0, 10 - (attempt.hintsUsed || 0) * 2) : 0,
+      maxScore: 10,
+      feedback: isCorrect ? 'Correct!' : 'Not quite right.',
+      conceptsAssessed: [question.concept],
+      timeSpent: attempt.timeSpent || 0,
+      hintsUsed: attempt.hintsUsed || 0
+    };
+  })
+};
+
+const recordAssessmentResult = vi.fn();
+const recordReviewOutcome = vi.fn();
+const recordMasteryEvidence = vi.fn();
+const recordHintUsage = vi.fn();
+
+vi.mock('../../services/assessment.service.js', () => ({
+  assessmentService: {
+    getAssessmentAgent: () => agent,
+    buildContext: vi.fn(async () => ({
+      currentTopic: 'supervised-learning',
+      studentLevel: 'beginner',
+      recentConcepts: [],
+      previousScores: [],
+      strugglingAreas: [],
+      timeSpentOnTopic: 0
+    })),
+    recordAssessmentResult: (...args: unknown[]) => recordAssessmentResult(...args),
+    recordReviewOutcome: (...args: unknown[]) => recordReviewOutcome(...args),
+    recordMasteryEvidence: (...args: unknown[]) => recordMasteryEvidence(...args),
+    recordHintUsage: (...args: unknown[]) => recordHintUsage(...args),
+    createAssessmentResult: (topicId: string, difficulty: number, questionResults: unknown[], score: number, maxScore: number) => ({
+      id: 'assessment-1', topicId, difficulty, questionResults, score, maxScore, completedAt: new Date(), timeSpent: 0
+    }),
+    toPublicQuestion: (question: QuizQuestion) => ({
+      id: question.id,
+      type: question.type,
+      question: question.question,
+      options: question.options,
+      difficulty: question.difficulty,
+      concept: question.concept,
+      timeEstimate: question.timeEstimate,
+      hintCount: question.hints.length
+    })
+  }
+}));
+
+const { QuizService, QuizError } = await import('../../services/quiz.service.js');
+
+describe('QuizService', () => {
+  let quizService: InstanceType<typeof QuizService>;
+
+  beforeEach(() => {
+    attempts.clear();
+    vi.clearAllMocks();
+    quizService = new QuizService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start a timed attempt without exposing answers', async () => {
+    const view = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+
+    expect(view.status).toBe('in_progress');
+    expect(view.totalQuestions).toBe(2);
+    expect(view.timeLimit).toBe(360);
+    expect(view.maxScore).toBe(20);
+    expect(view.currentQuestion!.id).toBe('q-1');
+    expect(view.currentQuestion).not.toHaveProperty('correctAnswer');
+    expect(view.review).toBeUndefined();
+  });
+
+  it('should resume the unfinished attempt instead of starting another', async () => {
+    const first = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+    const second = await quizService.startQuiz('user-1', { topic: 'neural-networks' });
+
+    expect(second.attemptId).toBe(first.attemptId);
+    expect(agent.createQuiz).toHaveBeenCalledTimes(1);
+  });
+
+  it('should score the attempt against the passing score when the last answer is submitted', async () => {
+    const { attemptId } = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+
+    const first = await quizService.submitAnswer('user-1', attemptId, 'False', 20);
+    expect(first.feedback.isCorrect).toBe(true);
+    expect(first.attempt.currentQuestionIndex).toBe(1);
+
+    const finished = vi.fn();
+    quizService.on('quiz:finished', finished);
+
+    const last = await quizService.submitAnswer('user-1', attemptId, 'Classification');
+
+    expect(last.attempt.status).toBe('completed');
+    expect(last.attempt.score).toBe(10);
+    expect(last.attempt.percentage).toBe(50);
+    expect(last.attempt.passed).toBe(false);
+    expect(last.attempt.review![1].correctAnswer).toBe('Regression');
+    expect(recordAssessmentResult).toHaveBeenCalledTimes(1);
+    expect(recordReviewOutcome).toHaveBeenLastCalledWith(
+      'user-1',
+      expect.objectContaining({ concept: 'regression', topic: 'supervised-learning' }),
+      expect.objectContaining({ isCorrect: false })
+    );
+    expect(recordMasteryEvidence).toHaveBeenCalledTimes(2);
+    expect(finished).toHaveBeenCalledWith('user-1', expect.objectContaining({ attemptId, status: 'completed' }));
+  });
+
+  it('should reveal the hint ladder in order, apply it to grading and stop when it runs out', async () => {
+    const { attemptId } = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+
+    const hint = await quizService.requestHint('user-1', attemptId);
+    expect(hint).toMatchObject({ level: 'nudge', hint: 'Think about unsupervised learning', hintsRemaining: 2 });
+    expect((await quizService.requestHint('user-1', attemptId)).level).toBe('partial_step');
+    const solution = await quizService.requestHint('user-1', attemptId);
+    expect(solution).toMatchObject({ level: 'worked_solution', hintsRemaining: 0 });
+    expect(solution.hint).toContain('The answer is: False');
+
+    await expect(quizService.requestHint('user-1', attemptId)).rejects.toMatchObject({ code: 'no_hints' });
+
+    const result = await quizService.submitAnswer('user-1', attemptId, 'False');
+    expect(result.feedback.hintsUsed).toBe(3);
+    expect(result.feedback.score).toBe(4);
+    expect(recordHintUsage).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'q-1', concept: 'clustering' }),
+      expect.objectContaining({ hintsUsed: 3, isCorrect: true }),
+      undefined
+    );
+  });
+
+  it('should reject answers after the time limit and expire the attempt', async () => {
+    vi.useFakeTimers();
+    const { attemptId } = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+
+    vi.setSystemTime(Date.now() + 400 * 1000);
+
+    await expect(quizService.submitAnswer('user-1', attemptId, 'False')).rejects.toBeInstanceOf(QuizError);
+
+    const view = await quizService.getAttempt('user-1', attemptId);
+    expect(view.status).toBe('expired');
+    expect(view.percentage).toBe(0);
+    expect(recordAssessmentResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let students open other students\' attempts', async () => {
+    const { attemptId } = await quizService.startQuiz('user-1', { topic: 'supervised-learning' });
+
+    await expect(quizService.getAttempt('user-2', attemptId)).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Message } from '../../types/index.js';
+
+// Mock LLM service
+const generateCompletion = vi.fn();
+vi.mock('../../services/llm.service.js', () => ({
+  createLLMService: () => ({ generateCompletion })
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const { ResponseSynthesisService } = await import('../../services/response-synthesis.service.js');
+
+const message = (content: string, metadata: Partial<Message['metadata']> = {}): Message => ({
+  id: `msg-${content.length}`,
+  sender: 'tutor',
+  content,
+  timestamp: new Date(),
+  metadata: { messageType: 'explanation', ...metadata }
+});
+
+const question = message('Which task predicts a number?', { messageType: 'assessment', questionId: 'curated-1' });
+
+const drafts = {
+  explanation: { kind: 'explanation' as const, agentId: 'tutor-1', agentType: 'tutor' as const, message: message('Regression predicts numbers.', { prompts: [{ id: 'tutor.system', version: 1 }] }) },
+  example: { kind: 'example' as const, agentId: 'content-1', agentType: 'content' as const, message: message('For example, house prices.') },
+  check: { kind: 'check' as const, agentId: 'assessment-1', agentType: 'assessment' as const, message: question }
+};
+
+const attribution = { agent: 'coordinator', userId: 'user-1', sessionId: 'session-1' };
+const studentMessage = message('What is regression?');
+
+describe('ResponseSynthesisService', () => {
+  let synthesis: InstanceType<typeof ResponseSynthesisService>;
+
+  beforeEach(() => {
+    generateCompletion.mockReset();
+    synthesis = new ResponseSynthesisService(50);
+  });
+
+  it('should merge sections in order with the LLM edits and record where each one sits', async () => {
+    generateCompletion.mockResolvedValue({
+      content: JSON.stringify({
+        explanation: 'Regression is how a model predicts a number.',
+        example: 'Predicting a house price is a good example.',
+        checkIntro: 'Now try this one:'
+      })
+    });
+
+    // Drafts arrive in the order the agents answered, not section order
+    const reply = await synthesis.synthesize(studentMessage, [drafts.check, drafts.example, drafts.explanation], attribution);
+
+    expect(reply.content).toBe(
+      'Regression is how a model predicts a number.\n\nPredicting a house price is a good example.\n\nNow try this one:\n\nWhich task predicts a number?'
+    );
+    expect(reply.prompt).toEqual({ id: 'coordinator.synthesis', version: 1 });
+    expect(reply.sections.map(section => [section.kind, section.agentId])).toEqual([
+      ['explanation', 'tutor-1'],
+      ['example', 'content-1'],
+      ['check', 'assessment-1']
+    ]);
+    for (const section of reply.sections) {
+      expect(reply.content.slice(section.start, section.end)).not.toMatch(/^\s|\s$/);
+    }
+    expect(reply.content.slice(reply.sections[2].start, reply.sections[2].end)).toBe('Now try this one:\n\nWhich task predicts a number?');
+    expect(reply.sections[0].prompts).toEqual([{ id: 'tutor.system', version: 1 }]);
+    expect(generateCompletion).toHaveBeenCalledWith(expect.objectContaining({ attribution }));
+  });
+
+  it('should keep the check question verbatim even if the LLM rewrites it', async () => {
+    generateCompletion.mockResolvedValue({
+      content: JSON.stringify({ explanation: 'Edited.', check: 'Which task predicts a category?' })
+    });
+
+    const reply = await synthesis.synthesize(studentMessage, [drafts.explanation, drafts.check], attribution);
+
+    expect(reply.content).toBe("Edited.\n\nLet's check your understanding:\n\nWhich task predicts a number?");
+  });
+
+  it('should join the sections as written when the LLM fails', async () => {
+    generateCompletion.mockRejectedValue(new Error('throttled'));
+
+    const reply = await synthesis.synthesize(studentMessage, [drafts.explanation, drafts.example], attribution);
+
+    expect(reply.content).toBe('Regression predicts numbers.\n\nFor example, house prices.');
+    expect(reply.prompt).toBeUndefined();
+    expect(reply.sections).toHaveLength(2);
+  });
+
+  it('should join the sections as written when the LLM misses its deadline', async () => {
+    generateCompletion.mockReturnValue(new Promise(() => {}));
+
+    const reply = await synthesis.synthesize(studentMessage, [drafts.explanation, drafts.example], attribution);
+
+    expect(reply.content).toBe('Regression predicts numbers.\n\nFor example, house prices.');
+    expect(reply.prompt).toBeUndefined();
+  });
+
+  it('should not call the LLM for a single section', async () => {
+    const reply = await synthesis.synthesize(studentMessage, [drafts.example], attribution);
+
+    expect(reply.content).toBe('For example, house prices.');
+    expect(reply.sections).toEqual([
+      { kind: 'example', agentId: 'content-1', agentType: 'content', start: 0, end: 26, prompts: undefined }
+    ]);
+    expect(generateCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReviewItem, StudentProgress } from '../../types/index.js';
+import type { ReviewItemRepository } from '../../database/repositories/review-item.repository.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const items = new Map<string, ReviewItem>();
+const progressByUser = new Map<string, StudentProgress>();
+
+const key = (userId: string, concept: string) => `${userId}:${concept.trim().toLowerCase()}`;
+
+// In-memory repository with the same per-concept upsert rules as the Mongo one
+const reviewItemRepository: ReviewItemRepository = {
+  async findItem(userId, concept) {
+    return items.get(key(userId, concept)) || null;
+  },
+  async saveSchedule(userId, concept, source, schedule) {
+    const existing = items.get(key(userId, concept));
+    const item: ReviewItem = {
+      id: existing?.id || `review-${items.size + 1}`,
+      userId,
+      concept: concept.trim().toLowerCase(),
+      source: existing?.source || source,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+      ...schedule
+    };
+    items.set(key(userId, concept), item);
+    return item;
+  },
+  async addItems(userId, newItems, source, dueAt) {
+    let added = 0;
+    for (const { concept, topic } of newItems) {
+      if (items.has(key(userId, concept))) continue;
+      items.set(key(userId, concept), {
+        id: `review-${items.size + 1}`,
+        userId,
+        concept: concept.trim().toLowerCase(),
+        topic,
+        easeFactor: 2.5,
+        interval: 0,
+        repetitions: 0,
+        lapses: 0,
+        dueAt,
+        source,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      added++;
+    }
+    return added;
+  },
+  async findDueItems(userId, asOf, limit = 10) {
+    return (await this.findItemsByUser(userId)).filter(item => item.dueAt <= asOf).slice(0, limit);
+  },
+  async findItemsByUser(userId) {
+    return [...items.values()]
+      .filter(item => item.userId === userId)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  },
+  async countDueItems(userId, asOf) {
+    return (await this.findDueItems(userId, asOf, Infinity)).length;
+  }
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getReviewItemRepository: () => reviewItemRepository,
+    getProgressRepository: () => ({
+      findByUserId: async (userId: string) => progressByUser.get(userId) || null
+    })
+  }
+}));
+
+const { ReviewSchedulerService, calculateNextReview, qualityFromOutcome } = await import('../../services/review-scheduler.service.js');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const fresh = { easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0 };
+
+describe('calculateNextReview', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should follow the SM-2 intervals for successful recall', () => {
+    const first = calculateNextReview(fresh, 5, now);
+    const second = calculateNextReview(first, 5, now);
+    const third = calculateNextReview(second, 4, now);
+
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 16]);
+    expect(first.easeFactor).toBe(2.6);
+    expect(third.dueAt.getTime() - now.getTime()).toBe(16 * DAY_MS);
+  });
+
+  it('should restart the interval and lower the ease factor on a lapse', () => {
+    const learned = { easeFactor: 2.5, interval: 15, repetitions: 3, lapses: 0 };
+    const next = calculateNextReview(learned, 1, now);
+
+    expect(next).toMatchObject({ interval: 1, repetitions: 0, lapses: 1 });
+    expect(next.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let state = { ...fresh, dueAt: now };
+    for (let i = 0; i < 10; i++) {
+      state = calculateNextReview(state, 0, now);
+    }
+    expect(state.easeFactor).toBe(1.3);
+  });
+});
+
+describe('qualityFromOutcome', () => {
+  it('should grade recall by correctness, hints and partial credit', () => {
+    expect(qualityFromOutcome({ isCorrect: true, score: 10, maxScore: 10, hintsUsed: 0 })).toBe(5);
+    expect(qualityFromOutcome({ isCorrect: true, score: 8, maxScore: 10, hintsUsed: 1 })).toBe(4);
+    expect(qualityFromOutcome({ isCorrect: true, score: 6, maxScore: 10, hintsUsed: 3 })).toBe(3);
+    expect(qualityFromOutcome({ isCorrect: false, score: 5, maxScore: 10, hintsUsed: 0 })).toBe(2);
+    expect(qualityFromOutcome({ isCorrect: false, score: 2, maxScore: 10, hintsUsed: 0 })).toBe(1);
+    expect(qualityFromOutcome({ isCorrect: false, score: 0, maxScore: 10, hintsUsed: 0 })).toBe(0);
+  });
+});
+
+describe('ReviewSchedulerService', () => {
+  let reviewScheduler: InstanceType<typeof ReviewSchedulerService>;
+
+  const outcome = (concept: string, isCorrect: boolean) => ({
+    concept,
+    topic: 'supervised-learning',
+    isCorrect,
+    score: isCorrect ? 10 : 0,
+    maxScore: 10,
+    hintsUsed: 0
+  });
+
+  beforeEach(() => {
+    items.clear();
+    progressByUser.clear();
+    reviewScheduler = new ReviewSchedulerService();
+  });
+
+  it('should only start tracking a concept once it is missed', async () => {
+    expect(await reviewScheduler.recordOutcome('student-1', outcome('Overfitting', true))).toBeNull();
+
+    const missed = await reviewScheduler.recordOutcome('student-1', outcome('Overfitting', false));
+    expect(missed).toMatchObject({ concept: 'overfitting', interval: 1, lapses: 1, lastQuality: 0, source: 'assessment' });
+
+    const recalled = await reviewScheduler.recordOutcome('student-1', outcome('overfitting', true));
+    expect(recalled).toMatchObject({ id: missed!.id, repetitions: 1, lapses: 1 });
+  });
+
+  it('should bring struggling concepts from progress into the due queue', async () => {
+    progressByUser.set('student-1', {
+      userId: 'student-1',
+      topicsCompleted: [{
+        topicId: 'supervised-learning',
+        topicName: 'Supervised Learning',
+        completionPercentage: 40,
+        masteryLevel: 'beginner',
+        timeSpent: 30,
+        lastAccessed: new Date(),
+        conceptsLearned: [],
+        strugglingConcepts: ['regression', 'classification']
+      }],
+      currentLevel: 1,
+      totalTimeSpent: 30,
+      assessmentScores: [],
+      learningPath: [],
+      lastUpdated: new Date()
+    });
+
+    // A concept answered correctly in review is no longer due
+    await reviewScheduler.getDueReviews('student-1');
+    await reviewScheduler.recordOutcome('student-1', outcome('regression', true));
+
+    const due = await reviewScheduler.getDueReviews('student-1');
+    expect(due.dueCount).toBe(1);
+    expect(due.items.map(item => item.concept)).toEqual(['classification']);
+    expect(due.items[0]).toMatchObject({ topic: 'supervised-learning', source: 'struggling' });
+
+    const queue = await reviewScheduler.getReviewQueue('student-1');
+    expect(queue.items.map(item => item.concept)).toEqual(['classification', 'regression']);
+  });
+
+  it('should keep the schedule of concepts that are already tracked', async () => {
+    await reviewScheduler.recordOutcome('student-1', outcome('bias', false));
+    await reviewScheduler.recordOutcome('student-1', outcome('bias', true));
+
+    const added = await reviewScheduler.addStrugglingConcepts('student-1', 'intro-to-ml', ['Bias', 'variance', ' ']);
+
+    expect(added).toBe(1);
+    expect((await reviewScheduler.getDueReviews('student-1')).items.map(item => item.concept)).toEqual(['variance']);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LLMUsageRecord, LLMUsageSummary } from '../../types/index.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn()
+  }
+}));
+
+const records: Array<Omit<LLMUsageRecord, 'id' | 'createdAt'>> = [];
+
+const llmUsageRepository = {
+  recordUsage: vi.fn(async (usage: Omit<LLMUsageRecord, 'id' | 'createdAt'>) => {
+    records.push(usage);
+    return { id: `usage-${records.length}`, ...usage, createdAt: new Date() };
+  }),
+  sumTokensForDay: vi.fn(async (day: string, scope: { userId?: string; schoolId?: string } = {}) => records
+    .filter(record => record.day === day &&
+      (!scope.userId || record.userId === scope.userId) &&
+      (!scope.schoolId || record.schoolId === scope.schoolId))
+    .reduce((sum, record) => sum + record.totalTokens, 0)
+  ),
+  summarize: vi.fn(async (): Promise<LLMUsageSummary[]> => [])
+};
+
+// userId -> schoolId
+const schools = new Map<string, string>();
+
+const userRepository = {
+  findUsersByIds: vi.fn(async (ids: string[]) => ids.map(id => ({ id, schoolId: schools.get(id) })))
+};
+
+vi.mock('../../database/repositories/index.js', () => ({
+  RepositoryFactory: {
+    getLLMUsageRepository: () => llmUsageRepository,
+    getUserRepository: () => userRepository
+  }
+}));
+
+const { UsageService, usageDay } = await import('../../services/usage.service.js');
+const { logger } = await import('../../utils/logger.js');
+
+const HAIKU = 'anthropic.claude-3-haiku-20240307-v1:0';
+const SONNET = 'anthropic.claude-3-sonnet-20240229-v1:0';
+
+const call = (userId: string, totalTokens: number, model = HAIKU) => ({
+  attribution: { agent: 'tutor', userId, sessionId: `session-${userId}` },
+  model,
+  promptTokens: totalTokens - 100,
+  completionTokens: 100,
+  totalTokens
+});
+
+const summary = (day: string, model: string, agent: string, totalTokens: number, estimatedCost: number, school?: string): LLMUsageSummary => ({
+  day,
+  model,
+  agent,
+  school,
+  calls: 1,
+  promptTokens: totalTokens,
+  completionTokens: 0,
+  totalTokens,
+  estimatedCost
+});
+
+describe('UsageService', () => {
+  beforeEach(() => {
+    records.length = 0;
+    schools.clear();
+    vi.clearAllMocks();
+  });
+
+  it('should price calls by model', () => {
+    const usage = new UsageService({ studentDailyTokens: 0, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    expect(usage.estimateCost(HAIKU, 1_000_000, 1_000_000)).toBe(1.5);
+    expect(usage.estimateCost(SONNET, 2000, 500)).toBe(0.0135);
+    expect(usage.estimateCost('scripted-fixture', 2000, 500)).toBe(0);
+  });
+
+  it('should record unknown models without a cost and warn once', () => {
+    const usage = new UsageService({ studentDailyTokens: 0, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    expect(usage.estimateCost('meta.llama3-70b', 1000, 1000)).toBe(0);
+    expect(usage.estimateCost('meta.llama3-70b', 1000, 1000)).toBe(0);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store each call against the student, school, session, agent and model for today', async () => {
+    schools.set('student-1', 'school-a');
+    const usage = new UsageService({ studentDailyTokens: 0, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    await usage.recordUsage({ ...call('student-1', 2500, SONNET), prompt: { id: 'tutor.system', version: 1 } });
+    await usage.recordUsage({ model: HAIKU, promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+
+    expect(records).toEqual([
+      {
+        userId: 'student-1',
+        schoolId: 'school-a',
+        sessionId: 'session-student-1',
+        agent: 'tutor',
+        modelId: SONNET,
+        prompt: { id: 'tutor.system', version: 1 },
+        promptTokens: 2400,
+        completionTokens: 100,
+        totalTokens: 2500,
+        estimatedCost: 0.0087,
+        day: usageDay()
+      },
+      expect.objectContaining({ agent: 'unattributed', userId: undefined, totalTokens: 15 })
+    ]);
+  });
+
+  it('should not fail the call when usage cannot be stored', async () => {
+    llmUsageRepository.recordUsage.mockRejectedValueOnce(new Error('database unavailable'));
+    const usage = new UsageService({ studentDailyTokens: 0, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    await expect(usage.recordUsage(call('student-1', 500))).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('should stop a student who has spent their daily budget', async () => {
+    const usage = new UsageService({ studentDailyTokens: 3000, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    await usage.recordUsage(call('student-1', 2000));
+    expect(await usage.checkBudget('student-1')).toEqual({ allowed: true });
+
+    await usage.recordUsage(call('student-1', 1000));
+    const status = await usage.checkBudget('student-1');
+
+    expect(status).toMatchObject({ allowed: false, exceeded: 'student' });
+    expect(status.message).toContain('tomorrow');
+    expect(await usage.checkBudget('student-2')).toEqual({ allowed: true });
+  });
+
+  it('should stop a school once its students have spent the school budget', async () => {
+    schools.set('student-1', 'school-a');
+    schools.set('student-2', 'school-a');
+    schools.set('student-3', 'school-b');
+    const usage = new UsageService({ studentDailyTokens: 5000, schoolDailyTokens: 6000, deploymentDailyTokens: 0 });
+
+    await usage.recordUsage(call('student-1', 4000));
+    await usage.recordUsage(call('student-2', 2000));
+    await usage.recordUsage(call('student-3', 4000));
+
+    const status = await usage.checkBudget('student-1');
+    expect(status).toMatchObject({ allowed: false, exceeded: 'school' });
+    expect(status.message).toContain('school');
+    expect(await usage.checkBudget('student-3')).toEqual({ allowed: true });
+    expect(await usage.checkBudget('student-4')).toEqual({ allowed: true });
+  });
+
+  it('should stop everyone once the deployment budget is spent', async () => {
+    const usage = new UsageService({ studentDailyTokens: 5000, schoolDailyTokens: 0, deploymentDailyTokens: 6000 });
+
+    await usage.recordUsage(call('student-1', 4000));
+    await usage.recordUsage(call('student-2', 2000));
+
+    expect(await usage.checkBudget('student-3')).toMatchObject({ allowed: false, exceeded: 'deployment' });
+  });
+
+  it('should only count today against the budget', async () => {
+    const usage = new UsageService({ studentDailyTokens: 1000, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+    records.push({
+      userId: 'student-1',
+      agent: 'tutor',
+      modelId: HAIKU,
+      promptTokens: 4000,
+      completionTokens: 1000,
+      totalTokens: 5000,
+      estimatedCost: 0.0023,
+      day: '2020-01-01'
+    });
+
+    expect(await usage.checkBudget('student-1')).toEqual({ allowed: true });
+  });
+
+  it('should allow requests when the budget cannot be checked', async () => {
+    llmUsageRepository.sumTokensForDay.mockRejectedValueOnce(new Error('database unavailable'));
+    const usage = new UsageService({ studentDailyTokens: 1000, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    expect(await usage.checkBudget('student-1')).toEqual({ allowed: true });
+  });
+
+  it('should report spend by day, model, agent and school with a monthly forecast', async () => {
+    llmUsageRepository.summarize.mockResolvedValueOnce([
+      summary('2026-10-01', HAIKU, 'tutor', 10000, 0.2, 'school-a'),
+      summary('2026-10-01', SONNET, 'content', 5000, 0.6),
+      summary('2026-10-03', HAIKU, 'tutor', 20000, 0.3, 'school-a')
+    ]);
+    const usage = new UsageService({ studentDailyTokens: 0, schoolDailyTokens: 0, deploymentDailyTokens: 0 });
+
+    const report = await usage.getReport('2026-10-01', '2026-10-05');
+
+    expect(llmUsageRepository.summarize).toHaveBeenCalledWith('2026-10-01', '2026-10-05');
+    expect(report.totals).toEqual({ calls: 3, promptTokens: 35000, completionTokens: 0, totalTokens: 35000, estimatedCost: 1.1 });
+    expect(report.byDay.map(day => [day.day, day.totalTokens])).toEqual([['2026-10-01', 15000], ['2026-10-03', 20000]]);
+    expect(report.byModel.map(model => [model.model, model.estimatedCost])).toEqual([[SONNET, 0.6], [HAIKU, 0.5]]);
+    expect(report.byAgent.map(agent => [agent.agent, agent.calls])).toEqual([['content', 1], ['tutor', 2]]);
+    expect(report.bySchool.map(school => [school.school, school.totalTokens])).toEqual([['unassigned', 5000], ['school-a', 30000]]);
+    // $1.10 over five days, three of them without usage
+    expect(report.forecast).toEqual({ averageDailyCost: 0.22, projectedMonthlyCost: 6.6 });
+  });
+});
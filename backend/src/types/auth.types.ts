@@ -9,6 +9,8 @@ export interface RegisterRequest {
   email: string;
   password: string;
   grade: 9 | 10;
+  role?: UserRole;
+  teacherCode?: string;
 }
 
 export interface AuthResponse {
@@ -16,6 +18,7 @@ export interface AuthResponse {
     id: string;
     username: string;
     email: string;
+    role: UserRole;
     grade: 9 | 10;
   };
   token: string;
@@ -26,6 +29,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  role: UserRole;
   grade: 9 | 10;
   iat?: number;
   exp?: number;
@@ -39,6 +43,7 @@ export interface RefreshTokenPayload {
 }
 
 import { Request } from 'express';
+import type { UserRole } from './index.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
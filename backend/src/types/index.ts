@@ -1,12 +1,16 @@
 // Local type definitions to avoid cross-package import issues
 
+export type UserRole = 'student' | 'teacher' | 'admin'; // admins are promoted in the database, never self-registered
+
 export interface User {
   id: string;
   username: string;
   email: string;
   firstName?: string;
   lastName?: string;
+  role: UserRole;
   grade: 9 | 10;
+  schoolId?: string; // school whose daily token budget the user's tutoring counts against
   learningInterests: string[];
   profileCompleted: boolean;
   createdAt: Date;
@@ -33,7 +37,7 @@ export interface LearningSession {
 
 export interface Message {
   id: string;
-  sender: 'student' | 'tutor' | 'assessment' | 'content' | 'coordinator';
+  sender: 'student' | AgentType;
   content: string;
   timestamp: Date;
   metadata: MessageMetadata;
@@ -46,9 +50,68 @@ export interface MessageMetadata {
   difficulty?: number;
   hasCode?: boolean;
   hasMath?: boolean;
+  concepts?: string[];
+  moderation?: ModerationAction; // set when moderation changed or replaced the content
+  prompts?: PromptReference[]; // templates behind the LLM calls that produced the content
+  budgetExceeded?: 'student' | 'school' | 'deployment'; // set when a daily token budget stopped the request
+  socratic?: SocraticDialogue; // dialogue state after a Socratic tutor turn
+  questionId?: string; // bank question an assessment message asks, so a reply can be graded
+  sections?: ResponseSection[]; // where each part of a reply synthesized from several agents came from
+  busy?: boolean; // set when the system was too busy to take the message
 }
 
-export type AgentType = 'coordinator' | 'tutor' | 'assessment' | 'content';
+// Parts of a reply synthesized from several agents, in the order they appear
+export type ResponseSectionKind = 'explanation' | 'example' | 'check';
+
+export interface ResponseSection {
+  kind: ResponseSectionKind;
+  agentId: string;
+  agentType: AgentType;
+  start: number; // character offsets of the section in the message content
+  end: number;
+  prompts?: PromptReference[]; // templates behind the agent's part of the section
+}
+
+// 'explain' answers questions directly; 'socratic' guides the student to the answer with questions
+export type TutorMode = 'explain' | 'socratic';
+
+export type SocraticStatus = 'active' | 'solved' | 'revealed';
+
+export interface SocraticDialogue {
+  question: string; // the problem the student is working through
+  step: number; // reasoning steps the student has completed
+  attempts: number; // replies to the current step that missed
+  status: SocraticStatus;
+}
+
+export interface PromptReference {
+  id: string;
+  version: number;
+}
+
+// Scheduling class of a student turn or agent message; higher classes are served first
+export type MessagePriority = 'high' | 'medium' | 'low';
+
+export type CoreAgentType = 'coordinator' | 'tutor' | 'assessment' | 'content';
+
+// Plug-in agents add their own type names, declared in their manifest
+export type AgentType = CoreAgentType | (string & {});
+
+// What a student message asks for; the coordinator routes on it
+export type StudentIntent =
+  | 'concept_question'
+  | 'example_request'
+  | 'practice_request'
+  | 'quiz_answer'
+  | 'off_topic'
+  | 'emotional';
+
+export interface IntentClassification {
+  intent: StudentIntent;
+  confidence: number; // 0-1 score of the chosen intent
+  scores: Partial<Record<StudentIntent, number>>;
+  method: 'rule' | 'llm'; // the tier that decided
+}
 
 export interface AgentState {
   agentId: string;
@@ -103,6 +166,267 @@ export interface QuestionResult {
   hints: string[];
 }
 
+export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer' | 'explanation' | 'code_completion';
+
+export type CodeLanguage = 'python' | 'javascript';
+
+export interface CodeTestCase {
+  description: string; // shown to the student; the expression and expected value stay hidden
+  expression: string; // evaluated after the student's code, e.g. "predict([[0, 0]], ['a'], [0.1, 0.2], 1)"
+  expected: string; // JSON of the value the expression must return
+}
+
+export interface CodeExercise {
+  language: CodeLanguage;
+  starterCode: string;
+  testCases: CodeTestCase[];
+}
+
+export interface CodeTestResult {
+  description: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface BankQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+  hints: string[];
+  difficulty: number;
+  concept: string;
+  topic: string;
+  timeEstimate: number;
+  source: 'curated' | 'generated';
+  prompt?: PromptReference; // template that generated the question
+  code?: CodeExercise; // code_completion questions only
+  reviewStatus: 'approved' | 'pending_review' | 'rejected';
+  timesAnswered: number;
+  timesCorrect: number;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+  hints: string[];
+  difficulty: number;
+  concept: string;
+  topic?: string;
+  timeEstimate: number;
+  source?: 'curated' | 'generated';
+  code?: CodeExercise;
+}
+
+export interface QuizAnswer {
+  questionId: string;
+  answer: string;
+  isCorrect: boolean;
+  score: number;
+  maxScore: number;
+  feedback: string;
+  hintsUsed: number;
+  timeSpent: number;
+  answeredAt: Date;
+}
+
+export type QuizAttemptStatus = 'in_progress' | 'completed' | 'expired';
+
+export interface QuizAttempt {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  assessmentId: string;
+  topic: string;
+  difficulty: number;
+  questions: QuizQuestion[];
+  answers: QuizAnswer[];
+  hintsRevealed: number[];
+  currentQuestionIndex: number;
+  timeLimit: number; // seconds
+  passingScore: number;
+  pointsPerQuestion: number;
+  status: QuizAttemptStatus;
+  startedAt: Date;
+  expiresAt: Date;
+  completedAt?: Date;
+  score: number;
+  maxScore: number;
+  percentage?: number;
+  passed?: boolean;
+}
+
+export interface Classroom {
+  id: string;
+  name: string;
+  description?: string;
+  teacherId: string;
+  joinCode: string;
+  grade?: 9 | 10;
+  tutorMode?: TutorMode; // 'socratic' requires it for every enrolled student
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClassEnrollment {
+  id: string;
+  classId: string;
+  studentId: string;
+  joinedAt: Date;
+}
+
+export type ReviewItemSource = 'struggling' | 'assessment';
+
+export interface ReviewItem {
+  id: string;
+  userId: string;
+  concept: string;
+  topic: string;
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt?: Date;
+  lastQuality?: number; // 0-5
+  source: ReviewItemSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MasteryEvidenceSource = 'assessment' | 'tutor';
+
+export interface ConceptMastery {
+  id: string;
+  userId: string;
+  concept: string;
+  topic: string;
+  pKnown: number; // probability the concept is known, 0-1
+  attempts: number;
+  correctAttempts: number;
+  hintsUsed: number;
+  exposures: number; // tutor turns covering the concept
+  lastEvidence: MasteryEvidenceSource;
+  lastEvidenceAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HintLevel = 'nudge' | 'partial_step' | 'worked_solution';
+
+export interface HintUsage {
+  id: string;
+  userId: string;
+  questionId: string;
+  concept: string;
+  topic: string;
+  sessionId?: string;
+  hintsUsed: number; // ladder levels revealed before answering
+  answered: boolean;
+  isCorrect?: boolean;
+  answeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HintDependence {
+  concept: string;
+  topic: string;
+  answers: number;
+  hintedAnswers: number; // answers given after at least one hint
+  hintsUsed: number;
+  workedSolutions: number; // answers given after the full solution was shown
+  dependence: number; // share of answers that needed a hint, 0-1
+}
+
+export interface IndexedQuestion {
+  id: string;
+  userId: string;
+  sessionId: string;
+  question: string;
+  answer: string;
+  answerMessageId: string;
+  terms: string[]; // normalized tokens used for similarity search
+  askedAt: Date;
+}
+
+export type ModerationCategory = 'self_harm' | 'harassment' | 'personal_data';
+
+export type ModerationAction = 'allow' | 'rewrite' | 'block' | 'escalate';
+
+export type ModerationDirection = 'input' | 'output';
+
+export interface ModerationFinding {
+  category: ModerationCategory;
+  score: number; // 0-1, rule matches score 1
+  method: 'rule' | 'classifier';
+}
+
+export interface ModerationEvent {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  messageId?: string;
+  direction: ModerationDirection;
+  action: Exclude<ModerationAction, 'allow'>;
+  findings: ModerationFinding[];
+  excerpt: string; // redacted and truncated copy of the flagged text
+  policyVersion: string;
+  status: 'open' | 'reviewed' | 'closed'; // only escalations start open
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LLMAttribution {
+  agent: string; // component making the call, e.g. tutor or conversation-memory
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface LLMUsageRecord {
+  id: string;
+  userId?: string; // unset for calls made outside a student's request
+  schoolId?: string; // the user's school when the call was made
+  sessionId?: string;
+  agent: string;
+  modelId: string;
+  prompt?: PromptReference;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // USD at the prices in effect when the call was made
+  day: string; // UTC date (YYYY-MM-DD) the call counts against for budgets
+  createdAt: Date;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export interface LLMUsageSummary extends LLMUsageTotals {
+  day: string;
+  model: string;
+  agent: string;
+  school?: string; // unset for usage by users without a school
+}
+
 export interface ProgressData {
   overallProgress: number;
   currentTopic: string;
@@ -113,6 +437,67 @@ export interface ProgressData {
   recommendedNextTopics: string[];
 }
 
+export interface ConceptExample {
+  id: string;
+  title: string;
+  description: string;
+  code?: string;
+  visualization?: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  ageAppropriate: boolean;
+}
+
+export interface MLConcept {
+  id: string;
+  name: string;
+  description: string;
+  examples: ConceptExample[];
+  keyTerms: string[];
+  realWorldApplications: string[];
+}
+
+export interface MLTopic {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: number;
+  prerequisites: string[];
+  concepts: MLConcept[];
+  estimatedTimeMinutes: number;
+  gradeLevel: 9 | 10 | 'both';
+}
+
+export interface Curriculum {
+  id: string;
+  name: string;
+  description: string;
+  gradeLevel: 9 | 10 | 'both';
+  topics: string[]; // topic IDs in order
+  totalEstimatedHours: number;
+}
+
+export interface CurriculumConceptDefinition extends MLConcept {
+  complexity: number;
+  requiresMath: boolean;
+  relatedConcepts: string[];
+}
+
+export interface CurriculumTopicDefinition extends Omit<MLTopic, 'concepts'> {
+  learningObjectives: string[];
+  concepts: CurriculumConceptDefinition[];
+}
+
+export interface CurriculumDefinition {
+  version: string;
+  curriculum: Curriculum;
+  topics: CurriculumTopicDefinition[];
+}
+
+export interface VersionedCurriculum extends CurriculumDefinition {
+  checksum: string;
+  loadedAt: Date;
+}
+
 // Re-export auth types
 export * from './auth.types.js';
 
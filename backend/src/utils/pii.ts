@@ -0,0 +1,78 @@
+export type PersonalDataKind = 'email' | 'phone' | 'address';
+
+export interface PersonalDataMatch {
+  kind: PersonalDataKind;
+  start: number;
+  end: number;
+}
+
+// Suffixes that are also everyday or math words (way, ln, close, circle...) are left out
+const STREET_SUFFIXES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'lane', 'drive', 'dr',
+  'court', 'place', 'terrace', 'crescent'
+];
+
+// Either case for the first letter, so "Oak Lane" and "Oak lane" both match
+const suffixPattern = STREET_SUFFIXES
+  .map(suffix => `[${suffix[0].toUpperCase()}${suffix[0]}]${suffix.slice(1)}`)
+  .join('|');
+
+// Fenced blocks; an unclosed fence runs to the end, as while streaming. Inline code spans are not exempt,
+// since a student can wrap their own email or number in backticks.
+const CODE_PATTERN = /```[\s\S]*?(?:```|$)/g;
+
+// Order matters: earlier patterns win where matches overlap
+const PERSONAL_DATA_PATTERNS: Array<{ kind: PersonalDataKind; pattern: RegExp; placeholder: string }> = [
+  {
+    kind: 'email',
+    pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+    placeholder: '[email removed]'
+  },
+  {
+    kind: 'phone',
+    // Numbers written the way phone numbers are: with a country code, e.g. +44 20 7946 0958, an area code in
+    // brackets, e.g. (555) 123-4567, or separated 3-3-4 or trunk-prefixed groups, e.g. 555-123-4567, 020 7946 0958.
+    // Bare digit runs and grouped counts like "10 000 000" are left alone.
+    pattern: /(?<![\w.])(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){2,3}|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\d{3}[\s.-]\d{3}[\s.-]\d{4}|0\d{2,4}[\s.-]\d{3,4}[\s.-]\d{3,4})(?![\w.])/g,
+    placeholder: '[phone number removed]'
+  },
+  {
+    kind: 'address',
+    // House number, up to three capitalised name words and a street suffix, e.g. "42 Oak Tree Lane"
+    pattern: new RegExp(`\\b\\d{1,5}\\s+(?:[A-Z][a-z'-]*\\s+){1,3}(?:${suffixPattern})\\b\\.?`, 'g'),
+    placeholder: '[address removed]'
+  }
+];
+
+/**
+ * Find email addresses, phone numbers and street addresses in free text, outside fenced code
+ */
+export function findPersonalData(text: string): PersonalDataMatch[] {
+  // Fenced code counts as matched already, so nothing inside it is reported
+  const code = [...text.matchAll(CODE_PATTERN)].map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+  const matches: PersonalDataMatch[] = [];
+
+  for (const { kind, pattern } of PERSONAL_DATA_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (![...code, ...matches].some(existing => start < existing.end && end > existing.start)) {
+        matches.push({ kind, start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace personal data with placeholders so it is never stored or shown
+ */
+export function redactPersonalData(text: string): string {
+  const placeholders = new Map(PERSONAL_DATA_PATTERNS.map(({ kind, placeholder }) => [kind, placeholder]));
+
+  return findPersonalData(text).reduceRight(
+    (redacted, match) => redacted.slice(0, match.start) + placeholders.get(match.kind) + redacted.slice(match.end),
+    text
+  );
+}
@@ -5,6 +5,7 @@ import { ChatPage } from './pages/ChatPage';
 import { DashboardPage } from './pages/DashboardPage.tsx';
 import { ProfilePage } from './pages/ProfilePage.tsx';
 import { LoginPage } from './pages/LoginPage.tsx';
+import { TeacherDashboardPage } from './pages/TeacherDashboardPage.tsx';
 import { ProtectedRoute } from './components/Auth/ProtectedRoute';
 
 import './styles/global.css';
@@ -27,6 +28,14 @@ const App: React.FC = () => {
             <Route path="chat" element={<ChatPage />} />
             <Route path="dashboard" element={<DashboardPage />} />
             <Route path="profile" element={<ProfilePage />} />
+            <Route
+              path="teacher"
+              element={
+                <ProtectedRoute roles={['teacher']}>
+                  <TeacherDashboardPage />
+                </ProtectedRoute>
+              }
+            />
           </Route>
         </Routes>
       </div>
@@ -3,7 +3,8 @@ import { ChatMessage } from './ChatMessage.tsx';
 import { ChatInput } from './ChatInput.tsx';
 import { TypingIndicator } from './TypingIndicator.tsx';
 import { ConnectionStatus } from './ConnectionStatus.tsx';
-import { Message, ChatAgent } from '../../types';
+import { SimilarQuestionPrompt } from './SimilarQuestionPrompt.tsx';
+import { Message, ChatAgent, SimilarQuestionMatch, SimilarQuestionChoice } from '../../types';
 import './ChatInterface.css';
 
 interface ChatInterfaceProps {
@@ -13,6 +14,9 @@ interface ChatInterfaceProps {
   typingAgent?: ChatAgent;
   isConnected: boolean;
   isLoading?: boolean;
+  similarQuestion?: SimilarQuestionMatch | null;
+  onChooseSimilar?: (choice: SimilarQuestionChoice) => void;
+  queueNotice?: string | null;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -22,6 +26,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   typingAgent,
   isConnected,
   isLoading = false,
+  similarQuestion = null,
+  onChooseSimilar,
+  queueNotice = null,
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -99,6 +106,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             {isTyping && typingAgent && (
               <TypingIndicator agent={typingAgent} />
             )}
+
+            {queueNotice && (
+              <div className="chat-interface__queue-notice" role="status">
+                {queueNotice}
+              </div>
+            )}
           </>
         )}
         
@@ -115,6 +128,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         </button>
       )}
 
+      {similarQuestion && onChooseSimilar && (
+        <SimilarQuestionPrompt match={similarQuestion} onChoose={onChooseSimilar} />
+      )}
+
       <ChatInput
         onSendMessage={handleSendMessage}
         disabled={!isConnected || isLoading}
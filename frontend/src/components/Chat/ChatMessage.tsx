@@ -1,6 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { Message } from '../../types';
-import { MathRenderer } from './MathRenderer.tsx';
+import { RichContent } from '../Content/RichContent.tsx';
 import { AgentAvatar } from './AgentAvatar.tsx';
 import './ChatMessage.css';
 
@@ -51,10 +51,31 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
           </div>
         )}
         
-        <div className="chat-message__text">
-          <MathRenderer content={message.content} />
-        </div>
+        {message.metadata?.earlierAnswer && (
+          <div className="chat-message__earlier">
+            Earlier answer to "{message.metadata.earlierAnswer.question}" from {message.metadata.earlierAnswer.askedAt.toLocaleDateString()}
+          </div>
+        )}
+
+        {message.metadata?.streaming ? (
+          // Render partial text plainly; math is typeset once the final message arrives
+          <div className="chat-message__text chat-message__text--streaming" aria-busy="true">
+            {message.content}
+          </div>
+        ) : (
+          <div className="chat-message__text">
+            <RichContent content={message.content} />
+          </div>
+        )}
         
+        {message.metadata?.agents && message.metadata.agents.length > 0 && (
+          <div className="chat-message__metadata" aria-label={`Answered by: ${message.metadata.agents.join(', ')}`}>
+            <span className="chat-message__agents">
+              Answered by: {message.metadata.agents.join(', ')}
+            </span>
+          </div>
+        )}
+
         {message.metadata?.confidence && (
           <div className="chat-message__metadata" aria-label={`Confidence: ${message.metadata.confidence}%`}>
             <span className="chat-message__confidence">
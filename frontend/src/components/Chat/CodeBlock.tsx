@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { highlightCode, normalizeLanguage } from '../../utils/highlight';
+import { pythonRunnerService, PythonRunResult } from '../../services/python-runner.service';
+import './CodeBlock.css';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+type CopyState = 'idle' | 'copied' | 'failed';
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isLoadingRuntime, setIsLoadingRuntime] = useState(false);
+  const [output, setOutput] = useState<PythonRunResult | null>(null);
+
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+  const runnable = normalizeLanguage(language) === 'python';
+  const label = language || 'code';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState('copied');
+    } catch {
+      setCopyState('failed');
+    }
+    setTimeout(() => setCopyState('idle'), 2000);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setIsLoadingRuntime(!pythonRunnerService.isLoaded());
+    try {
+      setOutput(await pythonRunnerService.run(code));
+    } finally {
+      setIsRunning(false);
+      setIsLoadingRuntime(false);
+    }
+  };
+
+  return (
+    <div className="code-block">
+      <div className="code-block__header">
+        <span className="code-block__language">{label}</span>
+        <div className="code-block__actions">
+          <button
+            type="button"
+            className="code-block__button"
+            onClick={handleCopy}
+            aria-label={`Copy ${label} code`}
+          >
+            {copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+          </button>
+          {runnable && (
+            <button
+              type="button"
+              className="code-block__button code-block__button--run"
+              onClick={handleRun}
+              disabled={isRunning}
+              aria-label="Run this Python code"
+            >
+              {isRunning ? 'Running...' : 'Run'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <pre className="code-block__code">
+        <code>
+          {tokens.map((token, index) => token.type === 'plain'
+            ? token.text
+            : <span key={index} className={`code-token code-token--${token.type}`}>{token.text}</span>
+          )}
+        </code>
+      </pre>
+
+      {isLoadingRuntime && (
+        <div className="code-block__status" role="status">
+          Loading Python, the first run can take a few seconds...
+        </div>
+      )}
+
+      {output && !isRunning && (
+        <div className="code-block__output" role="status" aria-label="Code output">
+          {output.stdout && <pre className="code-block__stdout">{output.stdout}</pre>}
+          {output.result !== undefined && <pre className="code-block__result">{output.result}</pre>}
+          {output.stderr && <pre className="code-block__stderr">{output.stderr}</pre>}
+          {output.error && <pre className="code-block__stderr">{output.error}</pre>}
+          {!output.stdout && output.result === undefined && !output.stderr && !output.error && (
+            <span className="code-block__empty">The code ran without printing anything.</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { SimilarQuestionMatch, SimilarQuestionChoice } from '../../types';
+import { RichContent } from '../Content/RichContent';
+import './SimilarQuestionPrompt.css';
+
+interface SimilarQuestionPromptProps {
+  match: SimilarQuestionMatch;
+  onChoose: (choice: SimilarQuestionChoice) => void;
+}
+
+export const SimilarQuestionPrompt: React.FC<SimilarQuestionPromptProps> = ({ match, onChoose }) => {
+  return (
+    <div className="similar-question" role="region" aria-label="Similar earlier question">
+      <p className="similar-question__text">
+        You asked something similar on {match.askedAt.toLocaleDateString()}:
+      </p>
+      <blockquote className="similar-question__quote"><RichContent content={match.question} inline /></blockquote>
+      <div className="similar-question__actions">
+        <button className="btn btn--secondary" onClick={() => onChoose('previous')}>
+          Open the earlier answer
+        </button>
+        <button className="btn btn--primary" onClick={() => onChoose('fresh')}>
+          Explain it again
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { TutorMode } from '../../types';
+import './TutorModeToggle.css';
+
+interface TutorModeToggleProps {
+  mode: TutorMode;
+  enforced: boolean;
+  disabled?: boolean;
+  error?: string | null;
+  onChange: (mode: TutorMode) => void;
+}
+
+export const TutorModeToggle: React.FC<TutorModeToggleProps> = ({ mode, enforced, disabled, error, onChange }) => {
+  return (
+    <div className="tutor-mode" role="group" aria-label="Tutor mode">
+      <div className="tutor-mode__options">
+        <button
+          className={`tutor-mode__option ${mode === 'explain' ? 'tutor-mode__option--active' : ''}`}
+          onClick={() => onChange('explain')}
+          disabled={disabled || enforced}
+          aria-pressed={mode === 'explain'}
+        >
+          Explain it to me
+        </button>
+        <button
+          className={`tutor-mode__option ${mode === 'socratic' ? 'tutor-mode__option--active' : ''}`}
+          onClick={() => onChange('socratic')}
+          disabled={disabled || enforced}
+          aria-pressed={mode === 'socratic'}
+        >
+          Guide me step by step
+        </button>
+      </div>
+      {mode === 'socratic' && (
+        <p className="tutor-mode__hint">
+          {enforced ? 'Your teacher turned on step-by-step guidance. ' : ''}
+          The tutor will ask you questions to help you find the answer yourself.
+        </p>
+      )}
+      {error && <p className="tutor-mode__error" role="alert">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { parseRichContent, parseRichInline, hasMath, RichNode } from '../../utils/rich-content';
+import { typesetMath } from '../../utils/mathjax';
+import { CodeBlock } from '../Chat/CodeBlock';
+import './RichContent.css';
+
+interface RichContentProps {
+  content: string;
+  inline?: boolean; // for single-line surfaces such as hints and question text
+  className?: string;
+}
+
+const renderNode = (node: RichNode, key: number): React.ReactNode => {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'math':
+      return (
+        <span key={key} className={`tex2jax_process rich-content__math${node.display ? ' rich-content__math--display' : ''}`}>
+          {node.display ? `\\[${node.tex}\\]` : `\\(${node.tex}\\)`}
+        </span>
+      );
+    case 'code-block':
+      return <CodeBlock key={key} code={node.code} language={node.language} />;
+    case 'element': {
+      const { href, title, start, colSpan, rowSpan } = node.attributes;
+      // Tags and attributes come from the sanitizer's allow-list; links always open outside the app
+      const props: Record<string, unknown> = { key, title, start, colSpan, rowSpan };
+      if (node.tag === 'a') {
+        Object.assign(props, { href, target: '_blank', rel: 'noopener noreferrer nofollow' });
+      }
+      return React.createElement(node.tag, props, ...node.children.map(renderNode));
+    }
+  }
+};
+
+/**
+ * Renders message text (markdown, TeX and allow-listed HTML) as sanitized React elements
+ */
+export const RichContent: React.FC<RichContentProps> = ({ content, inline = false, className }) => {
+  const containerRef = useRef<HTMLDivElement & HTMLSpanElement>(null);
+  const nodes = useMemo(() => (inline ? parseRichInline(content) : parseRichContent(content)), [content, inline]);
+
+  useEffect(() => {
+    if (!containerRef.current || !hasMath(nodes)) return;
+
+    typesetMath(containerRef.current).catch(error => {
+      // The TeX source stays readable when MathJax is unavailable
+      console.warn('MathJax rendering failed:', error);
+    });
+  }, [nodes]);
+
+  const classes = ['rich-content', 'tex2jax_ignore', inline ? 'rich-content--inline' : '', className || '']
+    .filter(Boolean)
+    .join(' ');
+
+  return inline
+    ? <span ref={containerRef} className={classes}>{nodes.map(renderNode)}</span>
+    : <div ref={containerRef} className={classes}>{nodes.map(renderNode)}</div>;
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { TopicProgress } from '../../types';
+import { useCurriculum } from '../../hooks/useCurriculum';
 import './LearningPath.css';
 
 interface LearningPathProps {
@@ -7,21 +8,15 @@ interface LearningPathProps {
   completedTopics: TopicProgress[];
 }
 
-const topicDisplayNames: Record<string, string> = {
-  'supervised-learning': 'Supervised Learning',
-  'unsupervised-learning': 'Unsupervised Learning',
-  'decision-trees': 'Decision Trees',
-  'linear-regression': 'Linear Regression',
-  'neural-networks': 'Neural Networks',
-  'clustering': 'Clustering',
-  'data-preprocessing': 'Data Preprocessing',
-  'model-evaluation': 'Model Evaluation',
-};
-
 export const LearningPath: React.FC<LearningPathProps> = ({
   currentPath,
   completedTopics,
 }) => {
+  const { topics, getTopicName } = useCurriculum();
+
+  // Without a personalized path, follow the curriculum's topic order
+  const path = currentPath.length > 0 ? currentPath : topics.map(topic => topic.id);
+
   const getTopicStatus = (topicId: string, index: number) => {
     const topicProgress = completedTopics.find(t => t.topicId === topicId);
     
@@ -34,7 +29,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
     }
     
     // Check if this is the next available topic
-    const previousTopicsCompleted = currentPath
+    const previousTopicsCompleted = path
       .slice(0, index)
       .every(prevTopicId => {
         const prevProgress = completedTopics.find(t => t.topicId === prevTopicId);
@@ -74,7 +69,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
       
       <div className="learning-path__container">
         <div className="learning-path__track" role="list" aria-label="Learning path steps">
-          {currentPath.map((topicId, index) => {
+          {path.map((topicId, index) => {
             const status = getTopicStatus(topicId, index);
             const topicProgress = completedTopics.find(t => t.topicId === topicId);
             
@@ -83,7 +78,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
                 key={topicId}
                 className={`learning-path__step learning-path__step--${status}`}
                 role="listitem"
-                aria-label={`${topicDisplayNames[topicId] || topicId}: ${getStatusLabel(status)}`}
+                aria-label={`${getTopicName(topicId)}: ${getStatusLabel(status)}`}
               >
                 <div className="learning-path__step-connector" aria-hidden="true" />
                 
@@ -94,7 +89,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
                   
                   <div className="learning-path__step-info">
                     <h4 className="learning-path__step-title">
-                      {topicDisplayNames[topicId] || topicId}
+                      {getTopicName(topicId)}
                     </h4>
                     
                     <span className="learning-path__step-status">
@@ -109,7 +104,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
                     {status === 'available' && (
                       <button 
                         className="learning-path__step-action"
-                        aria-label={`Start learning ${topicDisplayNames[topicId] || topicId}`}
+                        aria-label={`Start learning ${getTopicName(topicId)}`}
                       >
                         Start Topic
                       </button>
@@ -118,7 +113,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
                     {status === 'in-progress' && (
                       <button 
                         className="learning-path__step-action learning-path__step-action--continue"
-                        aria-label={`Continue learning ${topicDisplayNames[topicId] || topicId}`}
+                        aria-label={`Continue learning ${getTopicName(topicId)}`}
                       >
                         Continue
                       </button>
@@ -130,7 +125,7 @@ export const LearningPath: React.FC<LearningPathProps> = ({
           })}
         </div>
         
-        {currentPath.length === 0 && (
+        {path.length === 0 && (
           <div className="learning-path__empty" role="status">
             <p>Your personalized learning path will appear here once you start chatting with ML-E!</p>
           </div>
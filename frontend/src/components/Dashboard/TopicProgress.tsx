@@ -1,23 +1,13 @@
 import React from 'react';
 import { TopicProgress as TopicProgressData } from '../../types';
 import { ProgressBar } from './ProgressBar.tsx';
+import { useCurriculum } from '../../hooks/useCurriculum';
 import './TopicProgress.css';
 
 interface TopicProgressProps {
   topics: TopicProgressData[];
 }
 
-const topicDisplayNames: Record<string, string> = {
-  'supervised-learning': 'Supervised Learning',
-  'unsupervised-learning': 'Unsupervised Learning',
-  'decision-trees': 'Decision Trees',
-  'linear-regression': 'Linear Regression',
-  'neural-networks': 'Neural Networks',
-  'clustering': 'Clustering',
-  'data-preprocessing': 'Data Preprocessing',
-  'model-evaluation': 'Model Evaluation',
-};
-
 const getMasteryColor = (level: string): string => {
   switch (level) {
     case 'advanced': return 'var(--success-color)';
@@ -37,6 +27,7 @@ const getMasteryIcon = (level: string): string => {
 };
 
 export const TopicProgress: React.FC<TopicProgressProps> = ({ topics }) => {
+  const { getTopicName } = useCurriculum();
   const sortedTopics = [...topics].sort((a, b) => 
     b.progress - a.progress
   );
@@ -51,7 +42,7 @@ export const TopicProgress: React.FC<TopicProgressProps> = ({ topics }) => {
             key={topic.topicId}
             className="topic-progress__item"
             role="article"
-            aria-label={`${topicDisplayNames[topic.topicId] || topic.topicId}: ${topic.progress}% complete`}
+            aria-label={`${getTopicName(topic.topicId)}: ${topic.progress}% complete`}
           >
             <div className="topic-progress__header">
               <div className="topic-progress__info">
@@ -62,7 +53,7 @@ export const TopicProgress: React.FC<TopicProgressProps> = ({ topics }) => {
                   {getMasteryIcon(topic.difficulty)}
                 </span>
                 <h4 className="topic-progress__name">
-                  {topicDisplayNames[topic.topicId] || topic.topicId}
+                  {getTopicName(topic.topicId)}
                 </h4>
               </div>
               
@@ -87,7 +78,7 @@ export const TopicProgress: React.FC<TopicProgressProps> = ({ topics }) => {
               percentage={topic.progress}
               height={8}
               className="topic-progress__bar"
-              aria-label={`Progress bar for ${topicDisplayNames[topic.topicId] || topic.topicId}`}
+              aria-label={`Progress bar for ${getTopicName(topic.topicId)}`}
             />
             
             <div className="topic-progress__meta">
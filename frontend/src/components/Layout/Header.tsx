@@ -40,9 +40,15 @@ export const Header: React.FC<HeaderProps> = ({ user }) => {
               <span className="header__welcome" aria-label={`Welcome, ${user.username}`}>
                 Welcome, {user.username}
               </span>
-              <span className="header__grade" aria-label={`Grade ${user.grade}`}>
-                Grade {user.grade}
-              </span>
+              {user.role === 'teacher' ? (
+                <span className="header__grade" aria-label="Teacher account">
+                  Teacher
+                </span>
+              ) : (
+                <span className="header__grade" aria-label={`Grade ${user.grade}`}>
+                  Grade {user.grade}
+                </span>
+              )}
             </div>
             <button 
               className="header__logout-btn"
@@ -12,7 +12,7 @@ export const Layout: React.FC = () => {
     <div className="layout" role="main">
       <Header user={user} />
       <div className="layout__content">
-        <Navigation />
+        <Navigation role={user?.role} />
         <main 
           className="layout__main" 
           role="main" 
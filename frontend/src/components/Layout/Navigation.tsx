@@ -1,8 +1,13 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
+import { UserRole } from '../../types/auth';
 import './Navigation.css';
 
-export const Navigation: React.FC = () => {
+interface NavigationProps {
+  role?: UserRole;
+}
+
+export const Navigation: React.FC<NavigationProps> = ({ role }) => {
   return (
     <nav className="navigation" role="navigation" aria-label="Main navigation">
       <ul className="navigation__list" role="menubar">
@@ -32,6 +37,21 @@ export const Navigation: React.FC = () => {
             <span className="navigation__text">Progress</span>
           </NavLink>
         </li>
+        {role === 'teacher' && (
+          <li className="navigation__item" role="none">
+            <NavLink
+              to="/teacher"
+              className={({ isActive }) =>
+                `navigation__link ${isActive ? 'navigation__link--active' : ''}`
+              }
+              role="menuitem"
+              aria-label="Manage classes and review questions"
+            >
+              <span className="navigation__icon" aria-hidden="true">🏫</span>
+              <span className="navigation__text">Classes</span>
+            </NavLink>
+          </li>
+        )}
         <li className="navigation__item" role="none">
           <NavLink
             to="/profile"
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { QuizAttempt, QuizAnswer } from '../../types/quiz';
+import { useCurriculum } from '../../hooks/useCurriculum';
+import { RichContent } from '../Content/RichContent';
+import './QuizPanel.css';
+
+interface QuizPanelProps {
+  attempt: QuizAttempt | null;
+  lastFeedback: QuizAnswer | null;
+  remainingSeconds: number;
+  isLoading: boolean;
+  error: string | null;
+  onStart: (topic: string) => void;
+  onSubmitAnswer: (answer: string) => void;
+  onRequestHint: () => void;
+  onFinish: () => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({
+  attempt,
+  lastFeedback,
+  remainingSeconds,
+  isLoading,
+  error,
+  onStart,
+  onSubmitAnswer,
+  onRequestHint,
+  onFinish,
+  onDismiss,
+}) => {
+  const { topics, isLoading: isCurriculumLoading } = useCurriculum();
+  const [topic, setTopic] = useState('');
+  const [answer, setAnswer] = useState('');
+
+  // Default to the first curriculum topic once it has loaded
+  useEffect(() => {
+    if (!topic && topics.length > 0) {
+      setTopic(topics[0].id);
+    }
+  }, [topic, topics]);
+
+  // Reset the answer, or the starter code for code questions, when the question changes
+  useEffect(() => {
+    setAnswer(attempt?.currentQuestion?.code?.starterCode || '');
+  }, [attempt?.attemptId, attempt?.currentQuestionIndex]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answer.trim()) {
+      onSubmitAnswer(answer.trim());
+    }
+  };
+
+  if (!attempt) {
+    return (
+      <div className="quiz-panel quiz-panel--idle" role="region" aria-label="Start a quiz">
+        <label className="quiz-panel__label" htmlFor="quiz-topic">Test yourself:</label>
+        <select
+          id="quiz-topic"
+          className="quiz-panel__select"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          disabled={isLoading || isCurriculumLoading}
+        >
+          {topics.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <button
+          className="btn btn--primary"
+          onClick={() => onStart(topic)}
+          disabled={isLoading || !topic}
+        >
+          {isLoading ? 'Preparing quiz...' : 'Start quiz'}
+        </button>
+        {error && <p className="quiz-panel__error" role="alert">{error}</p>}
+      </div>
+    );
+  }
+
+  if (attempt.status !== 'in_progress') {
+    return (
+      <div className="quiz-panel quiz-panel--results" role="region" aria-label="Quiz results">
+        <div className="quiz-panel__header">
+          <h2 className="quiz-panel__title">Quiz results</h2>
+          <button className="btn btn--secondary" onClick={onDismiss}>Close</button>
+        </div>
+
+        {attempt.status === 'expired' && (
+          <p className="quiz-panel__notice">Time ran out before the quiz was finished.</p>
+        )}
+
+        <p className={`quiz-panel__score ${attempt.passed ? 'quiz-panel__score--passed' : 'quiz-panel__score--failed'}`}>
+          {attempt.score} / {attempt.maxScore} points ({attempt.percentage ?? 0}%) —{' '}
+          {attempt.passed ? 'Passed' : `Not passed yet (${attempt.passingScore}% needed)`}
+        </p>
+
+        {attempt.review && (
+          <ol className="quiz-panel__review">
+            {attempt.review.map(item => (
+              <li
+                key={item.questionId}
+                className={`quiz-panel__review-item ${item.isCorrect ? 'quiz-panel__review-item--correct' : 'quiz-panel__review-item--incorrect'}`}
+              >
+                <RichContent className="quiz-panel__review-question" content={item.question} />
+                <p>Your answer: {item.answer || 'No answer'}</p>
+                {!item.isCorrect && <p>Correct answer: {item.correctAnswer}</p>}
+                <RichContent className="quiz-panel__review-explanation" content={item.explanation} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  }
+
+  const question = attempt.currentQuestion;
+  const hintsLeft = question ? question.hintCount - attempt.revealedHints.length : 0;
+  const choices = question?.options && question.options.length > 0
+    ? question.options
+    : question?.type === 'true_false' ? ['True', 'False'] : null;
+
+  return (
+    <div className="quiz-panel" role="region" aria-label="Quiz in progress">
+      <div className="quiz-panel__header">
+        <span className="quiz-panel__progress">
+          Question {attempt.currentQuestionIndex + 1} of {attempt.totalQuestions}
+        </span>
+        <span
+          className={`quiz-panel__timer ${remainingSeconds <= 30 ? 'quiz-panel__timer--low' : ''}`}
+          aria-label={`${remainingSeconds} seconds remaining`}
+        >
+          ⏱ {formatTime(remainingSeconds)}
+        </span>
+      </div>
+
+      {lastFeedback && (
+        <div
+          className={`quiz-panel__feedback ${lastFeedback.isCorrect ? 'quiz-panel__feedback--correct' : 'quiz-panel__feedback--incorrect'}`}
+          role="status"
+        >
+          <RichContent content={lastFeedback.feedback} />
+        </div>
+      )}
+
+      {question && (
+        <form className="quiz-panel__question" onSubmit={handleSubmit}>
+          <RichContent className="quiz-panel__question-text" content={question.question} />
+
+          {choices ? (
+            <div className="quiz-panel__options" role="radiogroup">
+              {choices.map((option, index) => (
+                <label key={option} className="quiz-panel__option">
+                  <input
+                    type="radio"
+                    name="quiz-answer"
+                    value={option}
+                    checked={answer === option}
+                    onChange={() => setAnswer(option)}
+                    disabled={isLoading}
+                  />
+                  <span>{String.fromCharCode(65 + index)}. {option}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              className="quiz-panel__textarea"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              placeholder="Type your answer..."
+              rows={question.code ? 10 : 3}
+              spellCheck={!question.code}
+              maxLength={2000}
+              disabled={isLoading}
+            />
+          )}
+
+          {attempt.revealedHints.length > 0 && (
+            <ul className="quiz-panel__hints" aria-label="Hints">
+              {attempt.revealedHints.map((hint, index) => (
+                <li key={index}>💡 <RichContent content={hint} inline /></li>
+              ))}
+            </ul>
+          )}
+
+          <div className="quiz-panel__actions">
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={onRequestHint}
+              disabled={isLoading || hintsLeft <= 0}
+            >
+              Hint ({hintsLeft} left)
+            </button>
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={onFinish}
+              disabled={isLoading}
+            >
+              Finish quiz
+            </button>
+            <button
+              type="submit"
+              className="btn btn--primary"
+              disabled={isLoading || !answer.trim()}
+            >
+              Submit answer
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="quiz-panel__error" role="alert">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { QuizQuestion } from '../../types/quiz';
+import { ReviewAnswerResult, ReviewHint } from '../../types/review';
+import { RichContent } from '../Content/RichContent';
+import './QuizPanel.css';
+
+interface ReviewPanelProps {
+  question: QuizQuestion | null;
+  questionNumber: number;
+  totalQuestions: number;
+  dueCount: number;
+  lastResult: ReviewAnswerResult | null;
+  revealedHints: ReviewHint[];
+  isLoading: boolean;
+  error: string | null;
+  onSubmitAnswer: (answer: string) => void;
+  onRequestHint: () => void;
+  onNext: () => void;
+  onDismiss: () => void;
+}
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  question,
+  questionNumber,
+  totalQuestions,
+  dueCount,
+  lastResult,
+  revealedHints,
+  isLoading,
+  error,
+  onSubmitAnswer,
+  onRequestHint,
+  onNext,
+  onDismiss,
+}) => {
+  const [answer, setAnswer] = useState('');
+
+  // Reset the answer, or the starter code for code questions, when the question changes
+  useEffect(() => {
+    setAnswer(question?.code?.starterCode || '');
+  }, [question?.id]);
+
+  if (totalQuestions === 0) {
+    return null;
+  }
+
+  if (!question) {
+    return (
+      <div className="quiz-panel quiz-panel--results" role="region" aria-label="Review finished">
+        <div className="quiz-panel__header">
+          <h2 className="quiz-panel__title">Review done</h2>
+          <button className="btn btn--secondary" onClick={onDismiss}>Close</button>
+        </div>
+        <p className="quiz-panel__notice">
+          Nice work! Concepts you found hard will come back in a later session.
+        </p>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answer.trim()) {
+      onSubmitAnswer(answer.trim());
+    }
+  };
+
+  const hintsLeft = question.hintCount - revealedHints.length;
+  const choices = question.options && question.options.length > 0
+    ? question.options
+    : question.type === 'true_false' ? ['True', 'False'] : null;
+
+  return (
+    <div className="quiz-panel" role="region" aria-label="Spaced repetition review">
+      <div className="quiz-panel__header">
+        <span className="quiz-panel__progress">
+          Quick review {questionNumber} of {totalQuestions}
+          {dueCount > totalQuestions && ` (${dueCount} concepts due)`}
+        </span>
+        <button className="btn btn--secondary" onClick={onDismiss} disabled={isLoading}>
+          Skip review
+        </button>
+      </div>
+
+      <form className="quiz-panel__question" onSubmit={handleSubmit}>
+        <RichContent className="quiz-panel__question-text" content={question.question} />
+
+        {choices ? (
+          <div className="quiz-panel__options" role="radiogroup">
+            {choices.map((option, index) => (
+              <label key={option} className="quiz-panel__option">
+                <input
+                  type="radio"
+                  name="review-answer"
+                  value={option}
+                  checked={answer === option}
+                  onChange={() => setAnswer(option)}
+                  disabled={isLoading || !!lastResult}
+                />
+                <span>{String.fromCharCode(65 + index)}. {option}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <textarea
+            className="quiz-panel__textarea"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Type your answer..."
+            rows={question.code ? 10 : 3}
+            spellCheck={!question.code}
+            maxLength={2000}
+            disabled={isLoading || !!lastResult}
+          />
+        )}
+
+        {revealedHints.length > 0 && (
+          <ul className="quiz-panel__hints" aria-label="Hints">
+            {revealedHints.map(hint => (
+              <li key={hint.level}>
+                {hint.level === 'worked_solution' ? '📝' : '💡'} <RichContent content={hint.hint} inline />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {lastResult && (
+          <div
+            className={`quiz-panel__feedback ${lastResult.isCorrect ? 'quiz-panel__feedback--correct' : 'quiz-panel__feedback--incorrect'}`}
+            role="status"
+          >
+            <RichContent content={lastResult.feedback} />
+            {!lastResult.isCorrect && <p>Correct answer: <RichContent content={lastResult.correctAnswer} inline /></p>}
+          </div>
+        )}
+
+        <div className="quiz-panel__actions">
+          {lastResult ? (
+            <button type="button" className="btn btn--primary" onClick={onNext}>
+              {questionNumber < totalQuestions ? 'Next question' : 'Finish review'}
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                className="btn btn--secondary"
+                onClick={onRequestHint}
+                disabled={isLoading || hintsLeft <= 0}
+              >
+                {hintsLeft === 1 ? 'Show solution' : `Hint (${hintsLeft} left)`}
+              </button>
+              <button
+                type="submit"
+                className="btn btn--primary"
+                disabled={isLoading || !answer.trim()}
+              >
+                Submit answer
+              </button>
+            </>
+          )}
+        </div>
+      </form>
+
+      {error && <p className="quiz-panel__error" role="alert">{error}</p>}
+    </div>
+  );
+};
@@ -9,10 +9,19 @@ export { ProtectedRoute } from './Auth/ProtectedRoute';
 export { ChatInterface } from './Chat/ChatInterface';
 export { ChatMessage } from './Chat/ChatMessage';
 export { ChatInput } from './Chat/ChatInput';
-export { MathRenderer } from './Chat/MathRenderer';
+export { CodeBlock } from './Chat/CodeBlock';
 export { TypingIndicator } from './Chat/TypingIndicator';
 export { AgentAvatar } from './Chat/AgentAvatar';
 export { ConnectionStatus } from './Chat/ConnectionStatus';
+export { SimilarQuestionPrompt } from './Chat/SimilarQuestionPrompt';
+export { TutorModeToggle } from './Chat/TutorModeToggle';
+
+// Content components
+export { RichContent } from './Content/RichContent';
+
+// Quiz components
+export { QuizPanel } from './Quiz/QuizPanel';
+export { ReviewPanel } from './Quiz/ReviewPanel';
 
 // Dashboard components
 export { ProgressDashboard } from './Dashboard/ProgressDashboard';
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useWebSocket } from './useWebSocket';
-import { Message, ChatAgent, TypingStatus } from '../types/chat';
+import { Message, ChatAgent, TypingStatus, SimilarQuestionMatch, SimilarQuestionChoice } from '../types/chat';
 import { chatSessionService } from '../services/chat-session.service';
 
 interface UseChatReturn {
@@ -13,8 +13,28 @@ interface UseChatReturn {
   clearMessages: () => void;
   refreshMessages: () => void;
   sessionId: string | null;
+  similarQuestion: SimilarQuestionMatch | null;
+  resolveSimilarQuestion: (choice: SimilarQuestionChoice) => void;
+  queueNotice: string | null;
 }
 
+// Map a chat payload from the server to a chat message
+const toChatMessage = (data: any): Message => ({
+  id: data.id || Date.now().toString(),
+  sender: data.agentResponse ? (data.agentType || 'tutor') : 'student',
+  content: data.message,
+  timestamp: new Date(data.timestamp),
+  metadata: {
+    agentResponse: data.agentResponse,
+    userId: data.userId,
+    username: data.username,
+    agents: data.agents,
+    earlierAnswer: data.earlierAnswer
+      ? { ...data.earlierAnswer, askedAt: new Date(data.earlierAnswer.askedAt) }
+      : undefined,
+  },
+});
+
 export const useChat = (providedSessionId?: string): UseChatReturn => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [typingStatus, setTypingStatus] = useState<TypingStatus>({
@@ -23,6 +43,8 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [similarQuestion, setSimilarQuestion] = useState<SimilarQuestionMatch | null>(null);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
 
   const { isConnected, connect, emit, on, off } = useWebSocket();
 
@@ -59,17 +81,7 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
   // Set up message listeners
   useEffect(() => {
     const handleChatMessage = (data: any) => {
-      const message: Message = {
-        id: data.id || Date.now().toString(),
-        sender: data.agentResponse ? (data.username || 'tutor') : 'student',
-        content: data.message,
-        timestamp: new Date(data.timestamp),
-        metadata: {
-          agentResponse: data.agentResponse,
-          userId: data.userId,
-          username: data.username,
-        },
-      };
+      const message = toChatMessage(data);
       
       // Add to session service for persistence
       chatSessionService.addMessage(message);
@@ -93,15 +105,77 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
       }
     };
 
+    // Partial agent output is shown in a placeholder message keyed by stream id
+    const handleStreamChunk = (data: { streamId: string; content: string }) => {
+      setTypingStatus(prev => ({ ...prev, isTyping: false }));
+      setQueueNotice(null);
+      setMessages(prev => {
+        const index = prev.findIndex(m => m.id === data.streamId);
+        if (index === -1) {
+          return [...prev, {
+            id: data.streamId,
+            sender: 'tutor',
+            content: data.content,
+            timestamp: new Date(),
+            metadata: { messageType: 'explanation', streaming: true },
+          }];
+        }
+
+        const updated = [...prev];
+        updated[index] = { ...updated[index], content: updated[index].content + data.content };
+        return updated;
+      });
+    };
+
+    // Replace the placeholder with the final message, which is the only one persisted
+    const handleStreamEnd = (data: { streamId: string; message?: any; error?: string }) => {
+      const finalMessage = data.message ? toChatMessage(data.message) : null;
+      if (finalMessage) {
+        chatSessionService.addMessage(finalMessage);
+      }
+      setQueueNotice(null);
+
+      setMessages(prev => {
+        const withoutPlaceholder = prev.filter(m => m.id !== data.streamId);
+        return finalMessage ? [...withoutPlaceholder, finalMessage] : withoutPlaceholder;
+      });
+      setIsLoading(false);
+    };
+
+    // The system is busy and the message waits its turn; the notice says where it stands
+    const handleQueued = (data: { position: number; message: string }) => {
+      setQueueNotice(data.message);
+    };
+
+    // The server found an earlier answer and waits for the student to pick it or a fresh one
+    const handleSimilar = (data: { messageId: string; sessionId?: string; similar: { question: string; askedAt: string; similarity: number } }) => {
+      setSimilarQuestion({
+        messageId: data.messageId,
+        sessionId: data.sessionId,
+        question: data.similar.question,
+        askedAt: new Date(data.similar.askedAt),
+        similarity: data.similar.similarity,
+      });
+      setIsLoading(false);
+    };
+
     if (isConnected) {
       on('chat:message' as keyof CustomWebSocketEvents, handleChatMessage as any);
       on('chat:typing' as keyof CustomWebSocketEvents, handleTyping as any);
+      on('chat:stream:chunk', handleStreamChunk);
+      on('chat:stream:end', handleStreamEnd);
+      on('chat:similar', handleSimilar);
+      on('chat:queued', handleQueued);
     }
 
     return () => {
       if (isConnected) {
         off('chat:message' as keyof CustomWebSocketEvents, handleChatMessage as any);
         off('chat:typing' as keyof CustomWebSocketEvents, handleTyping as any);
+        off('chat:stream:chunk', handleStreamChunk);
+        off('chat:stream:end', handleStreamEnd);
+        off('chat:similar', handleSimilar);
+        off('chat:queued', handleQueued);
       }
     };
   }, [isConnected, on, off]);
@@ -112,32 +186,8 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
       return;
     }
 
-    // Check for cached response first
-    const cachedResponse = chatSessionService.getCachedResponse(content);
-    if (cachedResponse) {
-      console.log('Using cached response for question:', content);
-      
-      // Add cached messages to current session with new timestamps
-      const [userMsg, agentMsg] = cachedResponse;
-      const newUserMsg = {
-        ...userMsg,
-        id: Date.now().toString(),
-        timestamp: new Date()
-      };
-      const newAgentMsg = {
-        ...agentMsg,
-        id: (Date.now() + 1).toString(),
-        timestamp: new Date()
-      };
-
-      // Add to session and update UI
-      chatSessionService.addMessage(newUserMsg);
-      chatSessionService.addMessage(newAgentMsg);
-      setMessages(prev => [...prev, newUserMsg, newAgentMsg]);
-      
-      return;
-    }
-
+    // A new question replaces one still waiting on the similar-question choice
+    setSimilarQuestion(null);
     setIsLoading(true);
 
     // Send message via WebSocket - backend will echo it back
@@ -148,9 +198,19 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
     });
   }, [isConnected, currentSessionId, emit]);
 
+  const resolveSimilarQuestion = useCallback((choice: SimilarQuestionChoice) => {
+    if (!similarQuestion) return;
+
+    setIsLoading(true);
+    emit('chat:similar:choose', { messageId: similarQuestion.messageId, choice });
+    setSimilarQuestion(null);
+  }, [similarQuestion, emit]);
+
   const clearMessages = useCallback(() => {
     chatSessionService.clearCurrentSession();
     setMessages([]);
+    setSimilarQuestion(null);
+    setQueueNotice(null);
     setTypingStatus({ isTyping: false, timestamp: new Date() });
     setIsLoading(false);
   }, []);
@@ -163,20 +223,6 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
     console.log(`Refreshed ${session.messages.length} messages from session ${session.sessionId}`);
   }, []);
 
-  // Cache question-response pairs for future use
-  useEffect(() => {
-    if (messages.length >= 2) {
-      const lastTwo = messages.slice(-2);
-      const [userMsg, agentMsg] = lastTwo;
-      
-      // Check if we have a user question followed by an agent response
-      if (userMsg.sender === 'student' && agentMsg.sender === 'tutor' && 
-          userMsg.content && agentMsg.content) {
-        chatSessionService.cacheResponse(userMsg.content, userMsg, agentMsg);
-      }
-    }
-  }, [messages]);
-
   // Refresh messages when window gains focus (user returns to tab/page)
   useEffect(() => {
     const handleFocus = () => {
@@ -197,5 +243,8 @@ export const useChat = (providedSessionId?: string): UseChatReturn => {
     clearMessages,
     refreshMessages,
     sessionId: currentSessionId,
+    similarQuestion,
+    resolveSimilarQuestion,
+    queueNotice,
   };
 };
\ No newline at end of file
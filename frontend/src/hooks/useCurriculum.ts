@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { curriculumService } from '../services/curriculum.service';
+import { VersionedCurriculum, CurriculumTopic } from '../types/curriculum';
+
+interface UseCurriculumReturn {
+  curriculum: VersionedCurriculum | null;
+  topics: CurriculumTopic[];
+  isLoading: boolean;
+  error: string | null;
+  getTopicName: (topicId: string) => string;
+}
+
+export const useCurriculum = (): UseCurriculumReturn => {
+  const [curriculum, setCurriculum] = useState<VersionedCurriculum | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    curriculumService.getCurriculum()
+      .then(data => {
+        if (!cancelled) setCurriculum(data);
+      })
+      .catch(err => {
+        console.warn('Failed to load curriculum:', err);
+        if (!cancelled) setError('Failed to load curriculum');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getTopicName = useCallback((topicId: string) => {
+    return curriculum?.topics.find(topic => topic.id === topicId)?.name || topicId;
+  }, [curriculum]);
+
+  return {
+    curriculum,
+    topics: curriculum?.topics || [],
+    isLoading,
+    error,
+    getTopicName,
+  };
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { quizService } from '../services/quiz.service';
+import { QuizAttempt, QuizAnswer } from '../types/quiz';
+
+// The server allows a short grace period before expiring an attempt
+const EXPIRY_REFRESH_DELAY = 3000;
+
+interface UseQuizReturn {
+  attempt: QuizAttempt | null;
+  lastFeedback: QuizAnswer | null;
+  remainingSeconds: number;
+  isLoading: boolean;
+  error: string | null;
+  startQuiz: (topic: string, sessionId?: string) => Promise<void>;
+  submitAnswer: (answer: string) => Promise<void>;
+  requestHint: () => Promise<void>;
+  finishQuiz: () => Promise<void>;
+  dismissQuiz: () => void;
+}
+
+export const useQuiz = (): UseQuizReturn => {
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [lastFeedback, setLastFeedback] = useState<QuizAnswer | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deadlineRef = useRef<number>(0);
+  const questionStartRef = useRef<number>(Date.now());
+
+  const { isConnected, on, off } = useWebSocket();
+
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Quiz request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Resume an unfinished attempt after a page reload
+  useEffect(() => {
+    quizService.getActiveAttempt()
+      .then(active => {
+        if (active) setAttempt(active);
+      })
+      .catch(err => {
+        console.warn('Failed to load active quiz:', err);
+      });
+  }, []);
+
+  // Use the server's remaining time so a skewed local clock doesn't matter
+  useEffect(() => {
+    if (attempt?.status === 'in_progress') {
+      deadlineRef.current = Date.now() + attempt.remainingSeconds * 1000;
+      setRemainingSeconds(attempt.remainingSeconds);
+    } else {
+      deadlineRef.current = 0;
+      setRemainingSeconds(0);
+    }
+  }, [attempt]);
+
+  // Reset the per-question timer whenever a new question is shown
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+  }, [attempt?.attemptId, attempt?.currentQuestionIndex]);
+
+  // Countdown, then ask the server for the expired attempt
+  useEffect(() => {
+    if (attempt?.status !== 'in_progress') return;
+
+    const attemptId = attempt.attemptId;
+    let refreshTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const interval = setInterval(() => {
+      const seconds = Math.max(0, Math.round((deadlineRef.current - Date.now()) / 1000));
+      setRemainingSeconds(seconds);
+
+      if (seconds === 0 && !refreshTimeout) {
+        refreshTimeout = setTimeout(() => {
+          quizService.getAttempt(attemptId)
+            .then(setAttempt)
+            .catch(err => console.warn('Failed to refresh expired quiz:', err));
+        }, EXPIRY_REFRESH_DELAY);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      if (refreshTimeout) clearTimeout(refreshTimeout);
+    };
+  }, [attempt?.attemptId, attempt?.status]);
+
+  // The server pushes results when it finishes or expires an attempt
+  useEffect(() => {
+    const handleQuizFinished = (finished: QuizAttempt) => {
+      setAttempt(prev => (prev && prev.attemptId === finished.attemptId ? finished : prev));
+    };
+
+    if (isConnected) {
+      on('quiz:finished', handleQuizFinished);
+    }
+
+    return () => {
+      if (isConnected) {
+        off('quiz:finished', handleQuizFinished);
+      }
+    };
+  }, [isConnected, on, off]);
+
+  const startQuiz = useCallback(async (topic: string, sessionId?: string) => {
+    await runAction(async () => {
+      setLastFeedback(null);
+      setAttempt(await quizService.startQuiz(topic, sessionId));
+    });
+  }, [runAction]);
+
+  const submitAnswer = useCallback(async (answer: string) => {
+    if (!attempt) return;
+
+    await runAction(async () => {
+      const timeSpent = Math.round((Date.now() - questionStartRef.current) / 1000);
+      const result = await quizService.submitAnswer(attempt.attemptId, answer, timeSpent);
+      setLastFeedback(result.feedback);
+      setAttempt(result.attempt);
+    });
+  }, [attempt, runAction]);
+
+  const requestHint = useCallback(async () => {
+    if (!attempt) return;
+
+    await runAction(async () => {
+      const result = await quizService.requestHint(attempt.attemptId);
+      setAttempt(result.attempt);
+    });
+  }, [attempt, runAction]);
+
+  const finishQuiz = useCallback(async () => {
+    if (!attempt) return;
+
+    await runAction(async () => {
+      setAttempt(await quizService.finishQuiz(attempt.attemptId));
+    });
+  }, [attempt, runAction]);
+
+  const dismissQuiz = useCallback(() => {
+    setAttempt(null);
+    setLastFeedback(null);
+    setError(null);
+  }, []);
+
+  return {
+    attempt,
+    lastFeedback,
+    remainingSeconds,
+    isLoading,
+    error,
+    startQuiz,
+    submitAnswer,
+    requestHint,
+    finishQuiz,
+    dismissQuiz,
+  };
+};
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { reviewService } from '../services/review.service';
+import { QuizQuestion } from '../types/quiz';
+import { ReviewAnswerResult, ReviewHint } from '../types/review';
+
+// Sessions that already got their review, so navigating back to chat doesn't ask again
+const reviewedSessions = new Set<string>();
+
+interface UseReviewReturn {
+  questions: QuizQuestion[];
+  currentQuestion: QuizQuestion | null;
+  currentIndex: number;
+  dueCount: number;
+  lastResult: ReviewAnswerResult | null;
+  revealedHints: ReviewHint[];
+  isLoading: boolean;
+  error: string | null;
+  submitAnswer: (answer: string) => Promise<void>;
+  requestHint: () => Promise<void>;
+  nextQuestion: () => void;
+  dismissReview: () => void;
+}
+
+export const useReview = (sessionId: string | null): UseReviewReturn => {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [dueCount, setDueCount] = useState(0);
+  const [lastResult, setLastResult] = useState<ReviewAnswerResult | null>(null);
+  const [revealedHints, setRevealedHints] = useState<ReviewHint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const questionStartRef = useRef<number>(Date.now());
+
+  // Ask for due reviews once at the start of each chat session
+  useEffect(() => {
+    if (!sessionId || reviewedSessions.has(sessionId)) return;
+    reviewedSessions.add(sessionId);
+
+    setIsLoading(true);
+    reviewService.startReview(sessionId)
+      .then(reviewSet => {
+        setQuestions(reviewSet.questions);
+        setDueCount(reviewSet.dueCount);
+        setCurrentIndex(0);
+      })
+      .catch(err => {
+        // The review is optional; chat works without it
+        console.warn('Failed to load review questions:', err);
+      })
+      .finally(() => setIsLoading(false));
+  }, [sessionId]);
+
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+  }, [currentIndex]);
+
+  const currentQuestion = questions[currentIndex] || null;
+
+  const submitAnswer = useCallback(async (answer: string) => {
+    if (!currentQuestion) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const timeSpent = Math.round((Date.now() - questionStartRef.current) / 1000);
+      setLastResult(await reviewService.submitAnswer(currentQuestion.id, answer, timeSpent));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentQuestion]);
+
+  const requestHint = useCallback(async () => {
+    if (!currentQuestion) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const hint = await reviewService.requestHint(currentQuestion.id, sessionId || undefined);
+      setRevealedHints(hints => [...hints, hint]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Hint request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentQuestion, sessionId]);
+
+  const nextQuestion = useCallback(() => {
+    setLastResult(null);
+    setRevealedHints([]);
+    setError(null);
+    setCurrentIndex(index => index + 1);
+  }, []);
+
+  const dismissReview = useCallback(() => {
+    setQuestions([]);
+    setLastResult(null);
+    setRevealedHints([]);
+    setError(null);
+  }, []);
+
+  return {
+    questions,
+    currentQuestion,
+    currentIndex,
+    dueCount,
+    lastResult,
+    revealedHints,
+    isLoading,
+    error,
+    submitAnswer,
+    requestHint,
+    nextQuestion,
+    dismissReview,
+  };
+};
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { tutorModeService } from '../services/tutor-mode.service';
+import { TutorMode } from '../types/chat';
+
+interface UseTutorModeReturn {
+  mode: TutorMode;
+  enforced: boolean;
+  isUpdating: boolean;
+  error: string | null;
+  setMode: (mode: TutorMode) => Promise<void>;
+}
+
+export const useTutorMode = (sessionId: string | null): UseTutorModeReturn => {
+  const [mode, setModeState] = useState<TutorMode>('explain');
+  const [enforced, setEnforced] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Each chat session keeps its own mode on the server
+  useEffect(() => {
+    if (!sessionId) return;
+
+    tutorModeService.getMode(sessionId)
+      .then(setting => {
+        setModeState(setting.mode);
+        setEnforced(setting.enforced);
+      })
+      .catch(err => {
+        // Chat still works in the default mode
+        console.warn('Failed to load tutor mode:', err);
+      });
+  }, [sessionId]);
+
+  const setMode = useCallback(async (nextMode: TutorMode) => {
+    if (!sessionId) return;
+
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const setting = await tutorModeService.setMode(sessionId, nextMode);
+      setModeState(setting.mode);
+      setEnforced(setting.enforced);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Tutor mode request failed');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [sessionId]);
+
+  return {
+    mode,
+    enforced,
+    isUpdating,
+    error,
+    setMode,
+  };
+};
@@ -1,6 +1,12 @@
 import React from 'react';
 import { ChatInterface } from '../components/Chat/ChatInterface';
+import { QuizPanel } from '../components/Quiz/QuizPanel';
+import { ReviewPanel } from '../components/Quiz/ReviewPanel';
+import { TutorModeToggle } from '../components/Chat/TutorModeToggle';
 import { useChat } from '../hooks/useChat';
+import { useQuiz } from '../hooks/useQuiz';
+import { useReview } from '../hooks/useReview';
+import { useTutorMode } from '../hooks/useTutorMode';
 import './ChatPage.css';
 
 export const ChatPage: React.FC = () => {
@@ -13,8 +19,15 @@ export const ChatPage: React.FC = () => {
     sendMessage,
     refreshMessages,
     sessionId,
+    similarQuestion,
+    resolveSimilarQuestion,
+    queueNotice,
   } = useChat();
 
+  const quiz = useQuiz();
+  const review = useReview(sessionId);
+  const tutorMode = useTutorMode(sessionId);
+
   // Refresh messages when component mounts (user navigates to chat page)
   React.useEffect(() => {
     refreshMessages();
@@ -28,8 +41,44 @@ export const ChatPage: React.FC = () => {
           Ask questions about Machine Learning concepts and get personalized explanations
         </p>
       </div>
+
+      <TutorModeToggle
+        mode={tutorMode.mode}
+        enforced={tutorMode.enforced}
+        disabled={tutorMode.isUpdating}
+        error={tutorMode.error}
+        onChange={tutorMode.setMode}
+      />
       
       <div className="chat-page__content">
+        <ReviewPanel
+          question={review.currentQuestion}
+          questionNumber={review.currentIndex + 1}
+          totalQuestions={review.questions.length}
+          dueCount={review.dueCount}
+          lastResult={review.lastResult}
+          revealedHints={review.revealedHints}
+          isLoading={review.isLoading}
+          error={review.error}
+          onSubmitAnswer={review.submitAnswer}
+          onRequestHint={review.requestHint}
+          onNext={review.nextQuestion}
+          onDismiss={review.dismissReview}
+        />
+
+        <QuizPanel
+          attempt={quiz.attempt}
+          lastFeedback={quiz.lastFeedback}
+          remainingSeconds={quiz.remainingSeconds}
+          isLoading={quiz.isLoading}
+          error={quiz.error}
+          onStart={(topic) => quiz.startQuiz(topic, sessionId || undefined)}
+          onSubmitAnswer={quiz.submitAnswer}
+          onRequestHint={quiz.requestHint}
+          onFinish={quiz.finishQuiz}
+          onDismiss={quiz.dismissQuiz}
+        />
+
         <ChatInterface
           messages={messages}
           onSendMessage={sendMessage}
@@ -37,6 +86,9 @@ export const ChatPage: React.FC = () => {
           typingAgent={typingAgent}
           isConnected={isConnected}
           isLoading={isLoading}
+          similarQuestion={similarQuestion}
+          onChooseSimilar={resolveSimilarQuestion}
+          queueNotice={queueNotice}
         />
       </div>
     </div>
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../services/api.client';
+import { reviewService } from '../services/review.service';
+import { useCurriculum } from '../hooks/useCurriculum';
+import { ReviewQueue } from '../types/review';
 import './DashboardPage.css';
 
 interface LearningAnalytics {
@@ -31,6 +34,8 @@ export const DashboardPage: React.FC = () => {
   const [analytics, setAnalytics] = useState<LearningAnalytics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<ReviewQueue | null>(null);
+  const { getTopicName } = useCurriculum();
 
   const loadAnalytics = async () => {
     try {
@@ -38,6 +43,11 @@ export const DashboardPage: React.FC = () => {
       setError(null);
       const response = await apiClient.get('/analytics/dashboard?days=30');
       setAnalytics(response.data.data);
+
+      // The review queue is optional; the dashboard still shows without it
+      reviewService.getQueue()
+        .then(setReviewQueue)
+        .catch(err => console.warn('Failed to load review queue:', err));
     } catch (err: any) {
       console.error('Failed to load analytics:', err);
       setError(err.response?.data?.message || 'Failed to load progress data');
@@ -59,6 +69,12 @@ export const DashboardPage: React.FC = () => {
     return `${minutes}m`;
   };
 
+  const formatDue = (dueAt: string): string => {
+    const days = Math.ceil((new Date(dueAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+    if (days <= 0) return 'Due now';
+    return days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+  };
+
   if (isLoading) {
     return (
       <div className="dashboard-page" role="main" aria-label="Learning progress dashboard">
@@ -201,6 +217,29 @@ export const DashboardPage: React.FC = () => {
           </div>
         )}
 
+        {/* Review Queue */}
+        {reviewQueue && reviewQueue.items.length > 0 && (
+          <div className="dashboard-section">
+            <h2 className="section-title">Review Queue</h2>
+            <p className="review-queue__summary">
+              {reviewQueue.dueCount > 0
+                ? `${reviewQueue.dueCount} concept${reviewQueue.dueCount === 1 ? '' : 's'} due for review. They'll be asked at the start of your next chat.`
+                : 'Nothing due right now. Upcoming reviews:'}
+            </p>
+            <div className="concept-list">
+              {reviewQueue.items.map((item) => (
+                <div
+                  key={item.id}
+                  className={`concept-item review-queue__item ${new Date(item.dueAt).getTime() <= Date.now() ? 'review-queue__item--due' : ''}`}
+                >
+                  <span>🔁 {item.concept} <span className="review-queue__topic">({getTopicName(item.topic)})</span></span>
+                  <span className="review-queue__due">{formatDue(item.dueAt)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Achievements */}
         {analytics.achievements.length > 0 && (
           <div className="dashboard-section">
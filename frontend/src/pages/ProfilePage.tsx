@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { apiClient } from '../services/api.client';
+import { classroomService } from '../services/classroom.service';
+import { StudentClassroom } from '../types/classroom';
 import './ProfilePage.css';
 
 interface ProfileData {
@@ -31,12 +33,23 @@ export const ProfilePage: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [newInterest, setNewInterest] = useState('');
+  const [classes, setClasses] = useState<StudentClassroom[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [classMessage, setClassMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const isStudent = user?.role !== 'teacher';
 
   useEffect(() => {
     loadProfile();
     loadSuggestions();
   }, []);
 
+  useEffect(() => {
+    if (isStudent) {
+      loadClasses();
+    }
+  }, [isStudent]);
+
   const loadProfile = async () => {
     try {
       const response = await apiClient.get('/profile');
@@ -69,6 +82,31 @@ export const ProfilePage: React.FC = () => {
     }
   };
 
+  const loadClasses = async () => {
+    try {
+      setClasses(await classroomService.getStudentClasses());
+    } catch (error) {
+      console.error('Failed to load classes:', error);
+    }
+  };
+
+  const handleJoinClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsJoining(true);
+    setClassMessage(null);
+
+    try {
+      const joined = await classroomService.joinClass(joinCode.trim());
+      setClasses(prev => [...prev.filter(c => c.id !== joined.id), joined]);
+      setClassMessage({ type: 'success', text: `Joined ${joined.name}` });
+      setJoinCode('');
+    } catch (error: any) {
+      setClassMessage({ type: 'error', text: error.message || 'Failed to join class' });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSaving(true);
@@ -316,6 +354,54 @@ export const ProfilePage: React.FC = () => {
             </button>
           </div>
         </form>
+
+        {/* Classes */}
+        {isStudent && (
+          <section className="profile-section profile-classes">
+            <h2 className="section-title">My Classes</h2>
+            <p className="section-description">
+              Enter the join code from your teacher so they can follow your progress.
+            </p>
+
+            {classMessage && (
+              <div className={`message message--${classMessage.type}`}>
+                {classMessage.text}
+              </div>
+            )}
+
+            <form onSubmit={handleJoinClass} className="add-interest-form">
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                placeholder="Join code, e.g. K7PQ2M"
+                className="form-input"
+                maxLength={6}
+                aria-label="Class join code"
+              />
+              <button
+                type="submit"
+                className="btn btn--secondary"
+                disabled={isJoining || joinCode.trim().length !== 6}
+              >
+                {isJoining ? 'Joining...' : 'Join'}
+              </button>
+            </form>
+
+            {classes.length === 0 ? (
+              <p className="no-interests">You haven't joined any classes yet</p>
+            ) : (
+              <ul className="class-list">
+                {classes.map((classroom) => (
+                  <li key={classroom.id} className="class-list__item">
+                    <strong>{classroom.name}</strong>
+                    <span className="class-list__teacher">{classroom.teacherName}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
       </div>
     </div>
   );
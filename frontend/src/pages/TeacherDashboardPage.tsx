@@ -0,0 +1,452 @@
+import React, { useState, useEffect } from 'react';
+import { classroomService } from '../services/classroom.service';
+import { useCurriculum } from '../hooks/useCurriculum';
+import { RichContent } from '../components/Content/RichContent';
+import {
+  Classroom,
+  RosterEntry,
+  StudentOverview,
+  SessionTranscript,
+  PendingQuestion,
+  ModerationEscalation,
+  ModerationCategory,
+  ClassStudent
+} from '../types/classroom';
+import './DashboardPage.css';
+import './TeacherDashboardPage.css';
+
+const formatTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+const formatDate = (value: string): string => new Date(value).toLocaleDateString();
+
+const CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  self_harm: 'Self-harm',
+  harassment: 'Harassment',
+  personal_data: 'Personal data'
+};
+
+const studentName = (student: ClassStudent): string =>
+  [student.firstName, student.lastName].filter(Boolean).join(' ') || student.username;
+
+export const TeacherDashboardPage: React.FC = () => {
+  const { getTopicName } = useCurriculum();
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [overview, setOverview] = useState<StudentOverview | null>(null);
+  const [transcript, setTranscript] = useState<SessionTranscript | null>(null);
+  const [pendingQuestions, setPendingQuestions] = useState<PendingQuestion[]>([]);
+  const [escalations, setEscalations] = useState<ModerationEscalation[]>([]);
+  const [newClassName, setNewClassName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDashboard = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [teacherClasses, questions, openEscalations] = await Promise.all([
+        classroomService.getTeacherClasses(),
+        classroomService.getPendingQuestions(),
+        classroomService.getEscalations()
+      ]);
+      setClasses(teacherClasses);
+      setPendingQuestions(questions);
+      setEscalations(openEscalations);
+      setSelectedClassId(current => current || teacherClasses[0]?.id || null);
+    } catch (err: any) {
+      console.error('Failed to load teacher dashboard:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDashboard();
+  }, []);
+
+  useEffect(() => {
+    setOverview(null);
+    setTranscript(null);
+
+    if (!selectedClassId) {
+      setRoster([]);
+      return;
+    }
+
+    classroomService.getRoster(selectedClassId)
+      .then(setRoster)
+      .catch(err => setError(err.message));
+  }, [selectedClassId]);
+
+  const handleCreateClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const classroom = await classroomService.createClass({ name: newClassName.trim() });
+      setClasses(prev => [classroom, ...prev]);
+      setSelectedClassId(classroom.id);
+      setNewClassName('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleToggleSocratic = async (required: boolean) => {
+    if (!selectedClassId) return;
+
+    try {
+      const classroom = await classroomService.setTutorMode(selectedClassId, required ? 'socratic' : 'explain');
+      setClasses(prev => prev.map(c => c.id === classroom.id ? classroom : c));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRemoveStudent = async (student: RosterEntry) => {
+    if (!selectedClassId || !window.confirm(`Remove ${studentName(student)} from this class?`)) return;
+
+    try {
+      await classroomService.removeStudent(selectedClassId, student.id);
+      setRoster(prev => prev.filter(entry => entry.id !== student.id));
+      setClasses(prev => prev.map(c => c.id === selectedClassId ? { ...c, studentCount: c.studentCount - 1 } : c));
+      if (overview?.student.id === student.id) {
+        setOverview(null);
+        setTranscript(null);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSelectStudent = async (studentId: string) => {
+    try {
+      setTranscript(null);
+      setOverview(await classroomService.getStudentOverview(studentId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleOpenTranscript = async (sessionId: string) => {
+    if (!overview) return;
+
+    try {
+      setTranscript(await classroomService.getSessionTranscript(overview.student.id, sessionId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleReview = async (questionId: string, decision: 'approved' | 'rejected') => {
+    try {
+      await classroomService.reviewQuestion(questionId, decision);
+      setPendingQuestions(prev => prev.filter(question => question.id !== questionId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleReviewEscalation = async (eventId: string) => {
+    try {
+      await classroomService.reviewEscalation(eventId);
+      setEscalations(prev => prev.filter(escalation => escalation.id !== eventId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const selectedClass = classes.find(c => c.id === selectedClassId);
+
+  return (
+    <div className="dashboard-page teacher-dashboard" role="main" aria-label="Teacher dashboard">
+      <div className="dashboard-page__header">
+        <h1 className="dashboard-page__title">My Classes</h1>
+        <p className="dashboard-page__description">
+          Follow your students' progress and review generated quiz questions
+        </p>
+      </div>
+
+      <div className="dashboard-page__content">
+        {error && (
+          <div className="dashboard-page__error" role="alert">
+            <p>{error}</p>
+            <button onClick={() => setError(null)} className="btn btn--secondary">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="dashboard-placeholder" role="region" aria-label="Loading classes">
+            <div className="loading" aria-hidden="true"></div>
+            <p>Loading your classes...</p>
+          </div>
+        ) : (
+          <>
+            {/* Safety escalations */}
+            {escalations.length > 0 && (
+              <div className="dashboard-section teacher-escalations" role="region" aria-label="Safety escalations">
+                <h2 className="section-title">Needs Your Attention</h2>
+                <p className="teacher-escalations__intro">
+                  These messages were flagged by the safety checks. Students were shown support information;
+                  please follow up in line with your school's safeguarding policy.
+                </p>
+                <div className="teacher-review">
+                  {escalations.map((escalation) => (
+                    <div key={escalation.id} className="teacher-review__item teacher-escalations__item">
+                      <div className="teacher-review__meta">
+                        {escalation.student ? studentName(escalation.student) : 'Unknown student'}
+                        {' · '}{escalation.findings.map(finding => CATEGORY_LABELS[finding.category]).join(', ')}
+                        {' · '}{formatDate(escalation.createdAt)}
+                      </div>
+                      <p className="teacher-escalations__excerpt">“{escalation.excerpt}”</p>
+                      <div className="teacher-review__actions">
+                        {escalation.student && (
+                          <button className="btn btn--secondary" onClick={() => handleSelectStudent(escalation.student!.id)}>
+                            View Student
+                          </button>
+                        )}
+                        <button className="btn btn--primary" onClick={() => handleReviewEscalation(escalation.id)}>
+                          Mark Reviewed
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Classes */}
+            <div className="dashboard-section">
+              <h2 className="section-title">Classes</h2>
+              <form onSubmit={handleCreateClass} className="teacher-dashboard__create">
+                <input
+                  type="text"
+                  value={newClassName}
+                  onChange={(e) => setNewClassName(e.target.value)}
+                  placeholder="New class name, e.g. Period 3"
+                  className="teacher-dashboard__input"
+                  maxLength={100}
+                  aria-label="New class name"
+                />
+                <button type="submit" className="btn btn--primary" disabled={!newClassName.trim()}>
+                  Create Class
+                </button>
+              </form>
+
+              {classes.length === 0 ? (
+                <p className="no-data">Create a class and share its join code with your students.</p>
+              ) : (
+                <div className="teacher-dashboard__classes">
+                  {classes.map((classroom) => (
+                    <button
+                      key={classroom.id}
+                      className={`class-card ${classroom.id === selectedClassId ? 'class-card--active' : ''}`}
+                      onClick={() => setSelectedClassId(classroom.id)}
+                      aria-pressed={classroom.id === selectedClassId}
+                    >
+                      <span className="class-card__name">{classroom.name}</span>
+                      <span className="class-card__code">Join code: {classroom.joinCode}</span>
+                      <span className="class-card__count">{classroom.studentCount} students</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Roster */}
+            {selectedClass && (
+              <div className="dashboard-section">
+                <h2 className="section-title">{selectedClass.name} Roster</h2>
+                <label className="teacher-dashboard__setting">
+                  <input
+                    type="checkbox"
+                    checked={selectedClass.tutorMode === 'socratic'}
+                    onChange={(e) => handleToggleSocratic(e.target.checked)}
+                  />
+                  Require step-by-step guidance: the tutor asks leading questions and only reveals answers after several attempts
+                </label>
+                {roster.length === 0 ? (
+                  <p className="no-data">
+                    No students yet. Share the join code <strong>{selectedClass.joinCode}</strong> to get started.
+                  </p>
+                ) : (
+                  <table className="teacher-table">
+                    <thead>
+                      <tr>
+                        <th>Student</th>
+                        <th>Topics</th>
+                        <th>Completion</th>
+                        <th>Avg. Score</th>
+                        <th>Time</th>
+                        <th>Last Active</th>
+                        <th><span className="sr-only">Actions</span></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {roster.map((student) => (
+                        <tr
+                          key={student.id}
+                          className={overview?.student.id === student.id ? 'teacher-table__row--active' : ''}
+                        >
+                          <td>
+                            <button className="teacher-table__link" onClick={() => handleSelectStudent(student.id)}>
+                              {studentName(student)}
+                            </button>
+                          </td>
+                          <td>{student.topicsStarted}</td>
+                          <td>{student.averageCompletion}%</td>
+                          <td>{student.averageScore === null ? '—' : `${student.averageScore}%`}</td>
+                          <td>{formatTime(student.totalTimeSpent)}</td>
+                          <td>{formatDate(student.lastActive)}</td>
+                          <td>
+                            <button
+                              className="btn btn--secondary"
+                              onClick={() => handleRemoveStudent(student)}
+                              aria-label={`Remove ${studentName(student)} from class`}
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Student Detail */}
+            {overview && (
+              <div className="dashboard-section">
+                <h2 className="section-title">{studentName(overview.student)}</h2>
+
+                <h3 className="teacher-dashboard__subtitle">Topic Progress</h3>
+                {overview.progress?.topicsCompleted.length ? (
+                  <div className="topic-list">
+                    {overview.progress.topicsCompleted.map((topic) => (
+                      <div key={topic.topicId} className="topic-item">
+                        {getTopicName(topic.topicId)}: {topic.completionPercentage}% ({topic.masteryLevel})
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="no-data">No topics started yet.</p>
+                )}
+
+                <h3 className="teacher-dashboard__subtitle">Assessments</h3>
+                {overview.assessments.length === 0 ? (
+                  <p className="no-data">No assessments completed yet.</p>
+                ) : (
+                  <ul className="teacher-list">
+                    {overview.assessments.map((assessment) => (
+                      <li key={assessment.id}>
+                        {getTopicName(assessment.topicId)}: {assessment.score}/{assessment.maxScore}
+                        <span className="teacher-list__meta">{formatDate(assessment.completedAt)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <h3 className="teacher-dashboard__subtitle">Quiz Attempts</h3>
+                {overview.quizAttempts.length === 0 ? (
+                  <p className="no-data">No quizzes taken yet.</p>
+                ) : (
+                  <ul className="teacher-list">
+                    {overview.quizAttempts.map((attempt) => (
+                      <li key={attempt.id}>
+                        {getTopicName(attempt.topic)}: {attempt.status === 'in_progress'
+                          ? 'in progress'
+                          : `${attempt.percentage ?? 0}% ${attempt.passed ? '(passed)' : ''}`}
+                        <span className="teacher-list__meta">{formatDate(attempt.startedAt)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <h3 className="teacher-dashboard__subtitle">Recent Sessions</h3>
+                {overview.sessions.length === 0 ? (
+                  <p className="no-data">No tutoring sessions yet.</p>
+                ) : (
+                  <ul className="teacher-list">
+                    {overview.sessions.map((session) => (
+                      <li key={session.id}>
+                        <button className="teacher-table__link" onClick={() => handleOpenTranscript(session.id)}>
+                          {getTopicName(session.currentTopic)}
+                        </button>
+                        <span className="teacher-list__meta">
+                          {formatDate(session.startTime)} · {session.messageCount} messages
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {transcript && (
+                  <div className="teacher-transcript" role="region" aria-label="Session transcript">
+                    <h3 className="teacher-dashboard__subtitle">
+                      Transcript: {getTopicName(transcript.currentTopic)}
+                    </h3>
+                    {transcript.messages.map((message) => (
+                      <div
+                        key={message.id}
+                        className={`teacher-transcript__message teacher-transcript__message--${message.sender === 'student' ? 'student' : 'tutor'}`}
+                      >
+                        <span className="teacher-transcript__sender">{message.sender}</span>
+                        <RichContent content={message.content} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Question Review */}
+            <div className="dashboard-section">
+              <h2 className="section-title">Questions Awaiting Review</h2>
+              {pendingQuestions.length === 0 ? (
+                <p className="no-data">No generated questions are waiting for review.</p>
+              ) : (
+                <div className="teacher-review">
+                  {pendingQuestions.map((question) => (
+                    <div key={question.id} className="teacher-review__item">
+                      <div className="teacher-review__meta">
+                        {getTopicName(question.topic)} · {question.concept} · difficulty {question.difficulty}
+                      </div>
+                      <RichContent className="teacher-review__question" content={question.question} />
+                      {question.options && (
+                        <ol className="teacher-review__options" type="A">
+                          {question.options.map((option) => (
+                            <li key={option}>{option}</li>
+                          ))}
+                        </ol>
+                      )}
+                      <p><strong>Answer:</strong> {question.correctAnswer}</p>
+                      <RichContent className="teacher-review__explanation" content={question.explanation} />
+                      <div className="teacher-review__actions">
+                        <button className="btn btn--primary" onClick={() => handleReview(question.id, 'approved')}>
+                          Approve
+                        </button>
+                        <button className="btn btn--secondary" onClick={() => handleReview(question.id, 'rejected')}>
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
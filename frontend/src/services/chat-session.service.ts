@@ -4,7 +4,6 @@ interface ChatSession {
   sessionId: string;
   messages: Message[];
   lastActivity: Date;
-  messageCache: Map<string, Message[]>; // question -> [user_message, agent_response]
 }
 
 class ChatSessionService {
@@ -46,8 +45,7 @@ class ChatSessionService {
       this.sessions.set(id, {
         sessionId: id,
         messages: [],
-        lastActivity: new Date(),
-        messageCache: new Map()
+        lastActivity: new Date()
       });
     }
 
@@ -93,52 +91,6 @@ class ChatSessionService {
     return session ? session.messages : [];
   }
 
-  /**
-   * Check if a question has been asked before and return cached response
-   */
-  getCachedResponse(question: string): Message[] | null {
-    if (!this.currentSessionId) {
-      return null;
-    }
-
-    const session = this.sessions.get(this.currentSessionId);
-    if (!session) {
-      return null;
-    }
-
-    // Normalize question for comparison
-    const normalizedQuestion = this.normalizeQuestion(question);
-    
-    // Check cache for similar questions
-    for (const [cachedQuestion, messages] of session.messageCache) {
-      if (this.isSimilarQuestion(normalizedQuestion, cachedQuestion)) {
-        console.log('Found cached response for similar question:', question);
-        return messages;
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Cache a question-response pair
-   */
-  cacheResponse(question: string, userMessage: Message, agentResponse: Message): void {
-    if (!this.currentSessionId) {
-      return;
-    }
-
-    const session = this.sessions.get(this.currentSessionId);
-    if (!session) {
-      return;
-    }
-
-    const normalizedQuestion = this.normalizeQuestion(question);
-    session.messageCache.set(normalizedQuestion, [userMessage, agentResponse]);
-    
-    this.saveToStorage();
-  }
-
   /**
    * Clear current session messages
    */
@@ -150,7 +102,6 @@ class ChatSessionService {
     const session = this.sessions.get(this.currentSessionId);
     if (session) {
       session.messages = [];
-      session.messageCache.clear();
       session.lastActivity = new Date();
     }
 
@@ -200,8 +151,7 @@ class ChatSessionService {
       const sessionsData = Array.from(this.sessions.entries()).map(([id, session]) => ({
         sessionId: id,
         messages: session.messages,
-        lastActivity: session.lastActivity.toISOString(),
-        messageCache: Array.from(session.messageCache.entries())
+        lastActivity: session.lastActivity.toISOString()
       }));
 
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify({
@@ -233,8 +183,7 @@ class ChatSessionService {
             ...msg,
             timestamp: new Date(msg.timestamp)
           })),
-          lastActivity: new Date(sessionData.lastActivity),
-          messageCache: new Map(sessionData.messageCache || [])
+          lastActivity: new Date(sessionData.lastActivity)
         };
 
         this.sessions.set(sessionData.sessionId, session);
@@ -255,46 +204,6 @@ class ChatSessionService {
     return `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  /**
-   * Normalize question for comparison
-   */
-  private normalizeQuestion(question: string): string {
-    return question
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' '); // Normalize whitespace
-  }
-
-  /**
-   * Check if two questions are similar enough to use cached response
-   */
-  private isSimilarQuestion(question1: string, question2: string): boolean {
-    // Exact match
-    if (question1 === question2) {
-      return true;
-    }
-
-    // Check if one question contains the other (for variations)
-    if (question1.includes(question2) || question2.includes(question1)) {
-      return true;
-    }
-
-    // Check for similar key terms (simple approach)
-    const words1 = question1.split(' ').filter(word => word.length > 3);
-    const words2 = question2.split(' ').filter(word => word.length > 3);
-    
-    if (words1.length === 0 || words2.length === 0) {
-      return false;
-    }
-
-    const commonWords = words1.filter(word => words2.includes(word));
-    const similarity = commonWords.length / Math.max(words1.length, words2.length);
-    
-    // Consider similar if 70% of words match
-    return similarity >= 0.7;
-  }
-
   /**
    * Start a new session
    */
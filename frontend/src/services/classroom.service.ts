@@ -0,0 +1,90 @@
+import { apiClient } from './api.client';
+import {
+  Classroom,
+  StudentClassroom,
+  RosterEntry,
+  StudentOverview,
+  SessionTranscript,
+  PendingQuestion,
+  ModerationEscalation,
+  CreateClassroomRequest
+} from '../types/classroom';
+import { TutorMode } from '../types/chat';
+
+interface ClassroomApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+class ClassroomService {
+  async getTeacherClasses(): Promise<Classroom[]> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<Classroom[]>>('/classes'));
+  }
+
+  async getStudentClasses(): Promise<StudentClassroom[]> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<StudentClassroom[]>>('/classes'));
+  }
+
+  async createClass(data: CreateClassroomRequest): Promise<Classroom> {
+    return this.request(() => apiClient.post<ClassroomApiResponse<Classroom>>('/classes', data));
+  }
+
+  async joinClass(joinCode: string): Promise<StudentClassroom> {
+    return this.request(() => apiClient.post<ClassroomApiResponse<StudentClassroom>>('/classes/join', { joinCode }));
+  }
+
+  async setTutorMode(classId: string, tutorMode: TutorMode): Promise<Classroom> {
+    return this.request(() => apiClient.patch<ClassroomApiResponse<Classroom>>(`/classes/${classId}`, { tutorMode }));
+  }
+
+  async getRoster(classId: string): Promise<RosterEntry[]> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<RosterEntry[]>>(`/classes/${classId}/students`));
+  }
+
+  async removeStudent(classId: string, studentId: string): Promise<void> {
+    await this.request(() => apiClient.delete<ClassroomApiResponse<undefined>>(`/classes/${classId}/students/${studentId}`));
+  }
+
+  async getStudentOverview(studentId: string): Promise<StudentOverview> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<StudentOverview>>(`/teacher/students/${studentId}`));
+  }
+
+  async getSessionTranscript(studentId: string, sessionId: string): Promise<SessionTranscript> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<SessionTranscript>>(
+      `/teacher/students/${studentId}/sessions/${sessionId}`
+    ));
+  }
+
+  async getPendingQuestions(): Promise<PendingQuestion[]> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<PendingQuestion[]>>('/teacher/questions/pending'));
+  }
+
+  async reviewQuestion(questionId: string, decision: 'approved' | 'rejected'): Promise<void> {
+    await this.request(() => apiClient.post<ClassroomApiResponse<PendingQuestion>>(
+      `/teacher/questions/${questionId}/review`,
+      { decision }
+    ));
+  }
+
+  async getEscalations(): Promise<ModerationEscalation[]> {
+    return this.request(() => apiClient.get<ClassroomApiResponse<ModerationEscalation[]>>('/teacher/moderation/events'));
+  }
+
+  async reviewEscalation(eventId: string, note?: string): Promise<void> {
+    await this.request(() => apiClient.post<ClassroomApiResponse<ModerationEscalation>>(
+      `/teacher/moderation/events/${eventId}/review`,
+      { note }
+    ));
+  }
+
+  private async request<T>(call: () => Promise<{ data: ClassroomApiResponse<T> }>): Promise<T> {
+    try {
+      const response = await call();
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Class request failed');
+    }
+  }
+}
+
+export const classroomService = new ClassroomService();
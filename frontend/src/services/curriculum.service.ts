@@ -0,0 +1,29 @@
+import { apiClient } from './api.client';
+import { VersionedCurriculum } from '../types/curriculum';
+
+interface CurriculumApiResponse {
+  success: boolean;
+  data: VersionedCurriculum;
+}
+
+class CurriculumService {
+  private request: Promise<VersionedCurriculum> | null = null;
+
+  /**
+   * Fetch the curriculum once per page load and share it between components
+   */
+  getCurriculum(): Promise<VersionedCurriculum> {
+    if (!this.request) {
+      this.request = apiClient.get<CurriculumApiResponse>('/curriculum')
+        .then(response => response.data.data)
+        .catch(error => {
+          // Allow a retry on the next call
+          this.request = null;
+          throw error;
+        });
+    }
+    return this.request;
+  }
+}
+
+export const curriculumService = new CurriculumService();
@@ -2,4 +2,10 @@
 
 export { authService } from './auth.service';
 export { apiClient } from './api.client';
-export { websocketService } from './websocket.service';
\ No newline at end of file
+export { websocketService } from './websocket.service';
+export { quizService } from './quiz.service';
+export { curriculumService } from './curriculum.service';
+export { classroomService } from './classroom.service';
+export { reviewService } from './review.service';
+export { tutorModeService } from './tutor-mode.service';
+export { pythonRunnerService } from './python-runner.service';
@@ -0,0 +1,122 @@
+// Runs Python from chat code blocks in a sandboxed Web Worker (see workers/python.worker.ts)
+
+export interface PythonRunResult {
+  stdout: string;
+  stderr: string;
+  result?: string; // value of the last expression, like the Python prompt shows it
+  error?: string;
+  timedOut: boolean;
+}
+
+export interface PythonWorkerRequest {
+  id: number;
+  code: string;
+}
+
+export type PythonWorkerResponse =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'finished'; stdout: string; stderr: string; result?: string; error?: string };
+
+const LOAD_TIMEOUT_MS = 60000; // downloading Pyodide and any imported packages
+const RUN_TIMEOUT_MS = 10000;
+
+interface PendingRun {
+  resolve: (result: PythonRunResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+class PythonRunnerService {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRun>();
+  private nextId = 1;
+  private loaded = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Whether the Python runtime has already been downloaded, so the first run can warn it is slow
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  // Runs are queued so one slow snippet cannot eat into another's time limit
+  run(code: string): Promise<PythonRunResult> {
+    const result = this.queue.then(() => this.execute(code));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private execute(code: string): Promise<PythonRunResult> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.stop(id, LOAD_TIMEOUT_MS), LOAD_TIMEOUT_MS);
+      this.pending.set(id, { resolve, timer });
+      worker.postMessage({ id, code } satisfies PythonWorkerRequest);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/python.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<PythonWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.failAll(event.message || 'The Python runner crashed');
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: PythonWorkerResponse): void {
+    const run = this.pending.get(message.id);
+    if (!run) return;
+
+    clearTimeout(run.timer);
+    if (message.type === 'started') {
+      this.loaded = true;
+      run.timer = setTimeout(() => this.stop(message.id, RUN_TIMEOUT_MS), RUN_TIMEOUT_MS);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    run.resolve({
+      stdout: message.stdout,
+      stderr: message.stderr,
+      result: message.result,
+      error: message.error,
+      timedOut: false
+    });
+  }
+
+  // A worker stuck in a loop cannot be interrupted, only replaced
+  private stop(id: number, limitMs: number): void {
+    const run = this.pending.get(id);
+    if (!run) return;
+
+    this.pending.delete(id);
+    this.resetWorker();
+    run.resolve({
+      stdout: '',
+      stderr: '',
+      error: `Stopped after ${limitMs / 1000} seconds.`,
+      timedOut: true
+    });
+  }
+
+  private failAll(error: string): void {
+    this.resetWorker();
+    for (const [id, run] of this.pending) {
+      clearTimeout(run.timer);
+      this.pending.delete(id);
+      run.resolve({ stdout: '', stderr: '', error, timedOut: false });
+    }
+  }
+
+  private resetWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.loaded = false;
+  }
+}
+
+export const pythonRunnerService = new PythonRunnerService();
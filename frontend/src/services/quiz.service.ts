@@ -0,0 +1,48 @@
+import { apiClient } from './api.client';
+import { QuizAttempt, QuizAnswerResult, QuizHintResult } from '../types/quiz';
+
+interface QuizApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+class QuizService {
+  async startQuiz(topic: string, sessionId?: string): Promise<QuizAttempt> {
+    return this.request(() => apiClient.post<QuizApiResponse<QuizAttempt>>('/quiz/start', { topic, sessionId }));
+  }
+
+  async getActiveAttempt(): Promise<QuizAttempt | null> {
+    return this.request(() => apiClient.get<QuizApiResponse<QuizAttempt | null>>('/quiz/active'));
+  }
+
+  async getAttempt(attemptId: string): Promise<QuizAttempt> {
+    return this.request(() => apiClient.get<QuizApiResponse<QuizAttempt>>(`/quiz/${attemptId}`));
+  }
+
+  async submitAnswer(attemptId: string, answer: string, timeSpent?: number): Promise<QuizAnswerResult> {
+    return this.request(() => apiClient.post<QuizApiResponse<QuizAnswerResult>>(`/quiz/${attemptId}/answer`, { answer, timeSpent }));
+  }
+
+  async requestHint(attemptId: string): Promise<QuizHintResult> {
+    return this.request(() => apiClient.post<QuizApiResponse<QuizHintResult>>(`/quiz/${attemptId}/hint`));
+  }
+
+  async finishQuiz(attemptId: string): Promise<QuizAttempt> {
+    return this.request(() => apiClient.post<QuizApiResponse<QuizAttempt>>(`/quiz/${attemptId}/finish`));
+  }
+
+  private async request<T>(call: () => Promise<{ data: QuizApiResponse<T> }>): Promise<T> {
+    try {
+      const response = await call();
+      return response.data.data;
+    } catch (error: any) {
+      // Surface the server's message and keep the quiz error code for the caller
+      const message = error.response?.data?.error || error.message || 'Quiz request failed';
+      const quizError = new Error(message) as Error & { code?: string };
+      quizError.code = error.response?.data?.code;
+      throw quizError;
+    }
+  }
+}
+
+export const quizService = new QuizService();
@@ -0,0 +1,45 @@
+import { apiClient } from './api.client';
+import { ReviewQueue, ReviewQuestionSet, ReviewAnswerResult, ReviewHint } from '../types/review';
+
+interface ReviewApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+class ReviewService {
+  async getQueue(): Promise<ReviewQueue> {
+    return this.request(() => apiClient.get<ReviewApiResponse<ReviewQueue>>('/reviews'));
+  }
+
+  async startReview(sessionId?: string): Promise<ReviewQuestionSet> {
+    return this.request(() => apiClient.post<ReviewApiResponse<ReviewQuestionSet>>('/reviews/session', { sessionId }));
+  }
+
+  // Review answers are graded like any assessment answer; grading reschedules the concept
+  async submitAnswer(questionId: string, answer: string, timeSpent?: number): Promise<ReviewAnswerResult> {
+    return this.request(() => apiClient.post<ReviewApiResponse<ReviewAnswerResult>>('/agents/assessment', {
+      questionId,
+      answer,
+      timeSpent
+    }));
+  }
+
+  // Each call reveals the next hint level; the server counts them against the answer's score
+  async requestHint(questionId: string, sessionId?: string): Promise<ReviewHint> {
+    return this.request(() => apiClient.post<ReviewApiResponse<ReviewHint>>('/agents/assessment/hint', {
+      questionId,
+      sessionId
+    }));
+  }
+
+  private async request<T>(call: () => Promise<{ data: ReviewApiResponse<T> }>): Promise<T> {
+    try {
+      const response = await call();
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Review request failed');
+    }
+  }
+}
+
+export const reviewService = new ReviewService();
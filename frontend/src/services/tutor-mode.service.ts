@@ -0,0 +1,31 @@
+import { apiClient } from './api.client';
+import { TutorMode, TutorModeSetting } from '../types/chat';
+
+interface TutorModeApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+class TutorModeService {
+  async getMode(sessionId: string): Promise<TutorModeSetting> {
+    return this.request(() => apiClient.get<TutorModeApiResponse<TutorModeSetting>>(
+      `/agents/mode?sessionId=${encodeURIComponent(sessionId)}`
+    ));
+  }
+
+  // Rejected when the student's teacher requires a different mode
+  async setMode(sessionId: string, mode: TutorMode): Promise<TutorModeSetting> {
+    return this.request(() => apiClient.put<TutorModeApiResponse<TutorModeSetting>>('/agents/mode', { sessionId, mode }));
+  }
+
+  private async request<T>(call: () => Promise<{ data: TutorModeApiResponse<T> }>): Promise<T> {
+    try {
+      const response = await call();
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Tutor mode request failed');
+    }
+  }
+}
+
+export const tutorModeService = new TutorModeService();
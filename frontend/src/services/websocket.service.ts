@@ -1,10 +1,24 @@
 import { io, Socket } from 'socket.io-client';
 import { authService } from './auth.service';
+import { QuizAttempt } from '../types/quiz';
 
 export interface CustomWebSocketEvents {
   // Chat events
   'chat:message': (data: any) => void;
   'chat:typing': (data: { userId: string; username: string; isTyping: boolean }) => void;
+  'chat:stream:start': (data: { streamId: string; sessionId?: string; timestamp: string }) => void;
+  'chat:stream:chunk': (data: { streamId: string; content: string }) => void;
+  'chat:stream:end': (data: { streamId: string; sessionId?: string; message?: any; error?: string }) => void;
+  'chat:queued': (data: { streamId: string; sessionId?: string; position: number; message: string }) => void;
+  'chat:similar': (data: {
+    messageId: string;
+    sessionId?: string;
+    similar: { id: string; question: string; askedAt: string; similarity: number };
+  }) => void;
+
+  // Quiz events
+  'quiz:finished': (data: QuizAttempt) => void;
+  'quiz:error': (data: { code: string; message: string }) => void;
   'connected': (data: any) => void;
   'heartbeat': (data: any) => void;
 
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { CodeBlock } from '../../components/Chat/CodeBlock';
+
+const render = (code: string, language: string) => renderToStaticMarkup(<CodeBlock code={code} language={language} />);
+
+describe('CodeBlock', () => {
+  it('offers Run only for Python, and Copy for every language', () => {
+    const python = render('print(1)', 'py');
+    const javascript = render('console.log(1)', 'javascript');
+
+    expect(python).toContain('aria-label="Copy py code"');
+    expect(python).toContain('aria-label="Run this Python code"');
+    expect(javascript).toContain('aria-label="Copy javascript code"');
+    expect(javascript).not.toContain('Run this Python code');
+  });
+
+  it('labels code without a language as code', () => {
+    expect(render('plain text', '')).toContain('<span class="code-block__language">code</span>');
+  });
+
+  it('highlights tokens and escapes the code', () => {
+    const html = render('x = "<script>"  # done', 'python');
+
+    expect(html).toContain('<span class="code-token code-token--string">&quot;&lt;script&gt;&quot;</span>');
+    expect(html).toContain('<span class="code-token code-token--comment"># done</span>');
+    expect(html).not.toContain('<script>');
+  });
+});
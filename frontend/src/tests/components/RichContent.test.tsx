@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { RichContent } from '../../components/Content/RichContent';
+
+const render = (content: string, inline = false) => renderToStaticMarkup(<RichContent content={content} inline={inline} />);
+
+describe('RichContent', () => {
+  it('never renders script, event handler or javascript: payloads', () => {
+    const html = render([
+      '<script>alert(1)</script>',
+      '<img src=x onerror="alert(1)">',
+      '<p onmouseover="alert(1)">hover</p>',
+      '[link](javascript:alert(1))',
+      '<a href="JaVaScRiPt&#x3A;alert(1)">entity link</a>',
+      '<iframe srcdoc="<script>alert(1)</script>"></iframe>'
+    ].join('\n\n'));
+
+    expect(html).not.toMatch(/<script|<img|<iframe|onerror|onmouseover|javascript:|alert/i);
+    expect(html).toContain('hover');
+    expect(html).toContain('entity link');
+  });
+
+  it('escapes text that only looks like markup', () => {
+    const html = render('&lt;img src=x onerror=alert(1)&gt; and x <y and y> z');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('x &lt;y and y&gt; z');
+  });
+
+  it('opens safe links in a new tab without an opener', () => {
+    const html = render('[docs](https://example.com)');
+
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">docs</a>');
+  });
+
+  it('marks only extracted TeX for MathJax', () => {
+    const html = render('Costs $5 but $x^2$ is math', true);
+
+    expect(html).toMatch(/^<span class="rich-content tex2jax_ignore rich-content--inline">/);
+    expect(html).toContain('<span class="tex2jax_process rich-content__math">\\(x^2\\)</span>');
+    expect(html).toContain('Costs $5 but ');
+  });
+});
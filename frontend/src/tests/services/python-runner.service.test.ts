@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PythonWorkerRequest, PythonWorkerResponse } from '../../services/python-runner.service';
+
+// Stands in for workers/python.worker.ts; tests answer the requests it receives
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  received: PythonWorkerRequest[] = [];
+  terminated = false;
+  onmessage: ((event: { data: PythonWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.created.push(this);
+  }
+
+  postMessage(request: PythonWorkerRequest) {
+    this.received.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(response: PythonWorkerResponse) {
+    this.onmessage?.({ data: response });
+  }
+}
+
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+const loadService = async () => {
+  vi.resetModules();
+  return (await import('../../services/python-runner.service')).pythonRunnerService;
+};
+
+describe('pythonRunnerService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWorker.created = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves with what the worker printed and remembers the runtime is loaded', async () => {
+    const service = await loadService();
+    expect(service.isLoaded()).toBe(false);
+
+    const run = service.run('print(1 + 1)');
+    await settle();
+    const [worker] = FakeWorker.created;
+    expect(worker.received).toEqual([{ id: 1, code: 'print(1 + 1)' }]);
+
+    worker.reply({ id: 1, type: 'started' });
+    worker.reply({ id: 1, type: 'finished', stdout: '2\n', stderr: '' });
+
+    await expect(run).resolves.toEqual({ stdout: '2\n', stderr: '', result: undefined, error: undefined, timedOut: false });
+    expect(service.isLoaded()).toBe(true);
+  });
+
+  it('runs snippets one at a time', async () => {
+    const service = await loadService();
+
+    const first = service.run('a = 1');
+    const second = service.run('b = 2');
+    await settle();
+    const [worker] = FakeWorker.created;
+    expect(worker.received.map(request => request.code)).toEqual(['a = 1']);
+
+    worker.reply({ id: 1, type: 'finished', stdout: '', stderr: '' });
+    await first;
+    await settle();
+    expect(worker.received.map(request => request.code)).toEqual(['a = 1', 'b = 2']);
+
+    worker.reply({ id: 2, type: 'finished', stdout: '', stderr: '' });
+    await second;
+  });
+
+  it('stops a snippet that runs too long by replacing the worker', async () => {
+    const service = await loadService();
+
+    const run = service.run('while True: pass');
+    await settle();
+    const [stuck] = FakeWorker.created;
+    stuck.reply({ id: 1, type: 'started' });
+    await vi.advanceTimersByTimeAsync(10000);
+
+    await expect(run).resolves.toEqual({ stdout: '', stderr: '', error: 'Stopped after 10 seconds.', timedOut: true });
+    expect(stuck.terminated).toBe(true);
+    expect(service.isLoaded()).toBe(false);
+
+    service.run('print(1)');
+    await settle();
+    expect(FakeWorker.created).toHaveLength(2);
+  });
+
+  it('fails waiting runs when the worker crashes', async () => {
+    const service = await loadService();
+
+    const run = service.run('print(1)');
+    await settle();
+    FakeWorker.created[0].onerror?.({ message: 'Out of memory', preventDefault: () => undefined });
+
+    await expect(run).resolves.toMatchObject({ error: 'Out of memory', timedOut: false });
+  });
+});
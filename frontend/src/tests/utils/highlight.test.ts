@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { highlightCode, normalizeLanguage } from '../../utils/highlight';
+
+describe('normalizeLanguage', () => {
+  it('maps fence names to the languages it highlights', () => {
+    expect(normalizeLanguage('py')).toBe('python');
+    expect(normalizeLanguage(' Python3 ')).toBe('python');
+    expect(normalizeLanguage('tsx')).toBe('javascript');
+    expect(normalizeLanguage('rust')).toBeNull();
+    expect(normalizeLanguage('')).toBeNull();
+  });
+});
+
+describe('highlightCode', () => {
+  it('marks keywords, builtins, strings, numbers and comments in Python', () => {
+    expect(highlightCode('def f(x):\n    return len(x) * 2.5  # scale', 'python')).toEqual([
+      { type: 'keyword', text: 'def' },
+      { type: 'plain', text: ' f(x):\n    ' },
+      { type: 'keyword', text: 'return' },
+      { type: 'plain', text: ' ' },
+      { type: 'builtin', text: 'len' },
+      { type: 'plain', text: '(x) * ' },
+      { type: 'number', text: '2.5' },
+      { type: 'plain', text: '  ' },
+      { type: 'comment', text: '# scale' }
+    ]);
+  });
+
+  it('keeps comment markers inside strings as part of the string', () => {
+    expect(highlightCode('print("# not a comment")', 'python')).toContainEqual({ type: 'string', text: '"# not a comment"' });
+    expect(highlightCode("const url = 'http://x'; // link", 'js')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' url = ' },
+      { type: 'string', text: "'http://x'" },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// link' }
+    ]);
+  });
+
+  it('returns code in languages it does not know as one plain token', () => {
+    expect(highlightCode('fn main() {}', 'rust')).toEqual([{ type: 'plain', text: 'fn main() {}' }]);
+  });
+});
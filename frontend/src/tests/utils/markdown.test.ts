@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown } from '../../utils/markdown';
+
+describe('parseMarkdown', () => {
+  it('keeps fenced code verbatim with its language', () => {
+    const blocks = parseMarkdown('Try this:\n\n```Python\ndef f(x):\n    return x * 2  # **not bold**\n```\n\nDone.');
+
+    expect(blocks).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Try this:' }] },
+      { type: 'code', language: 'python', code: 'def f(x):\n    return x * 2  # **not bold**' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Done.' }] }
+    ]);
+  });
+
+  it('runs an unclosed fence to the end of the message', () => {
+    expect(parseMarkdown('~~~\nprint(1)\n\nprint(2)')).toEqual([
+      { type: 'code', language: '', code: 'print(1)\n\nprint(2)' }
+    ]);
+  });
+
+  it('closes a fence only with the same marker', () => {
+    const [block] = parseMarkdown('````md\n```\nnested\n```\n````');
+
+    expect(block).toEqual({ type: 'code', language: 'md', code: '```\nnested\n```' });
+  });
+
+  it('ends a paragraph or list at a fence', () => {
+    const blocks = parseMarkdown('- one\n- two\n```js\nx()\n```');
+
+    expect(blocks.map(block => block.type)).toEqual(['list', 'code']);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseRichContent, parseRichInline, safeUrl, hasMath, RichNode } from '../../utils/rich-content';
+
+// Every tag and attribute left anywhere in a parsed tree
+const collectTags = (nodes: RichNode[]): string[] =>
+  nodes.flatMap(node => (node.type === 'element' ? [node.tag, ...collectTags(node.children)] : []));
+
+const collectHrefs = (nodes: RichNode[]): string[] =>
+  nodes.flatMap(node =>
+    node.type === 'element' ? [...(node.attributes.href ? [node.attributes.href] : []), ...collectHrefs(node.children)] : []
+  );
+
+const collectText = (nodes: RichNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.text;
+      if (node.type === 'element') return collectText(node.children);
+      if (node.type === 'math') return node.tex;
+      return node.code;
+    })
+    .join('');
+
+describe('safeUrl', () => {
+  it('keeps web, mail and relative links', () => {
+    expect(safeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(safeUrl('mailto:teacher@example.com')).toBe('mailto:teacher@example.com');
+    expect(safeUrl('/courses/ml')).toBe('/courses/ml');
+    expect(safeUrl('#section-2')).toBe('#section-2');
+  });
+
+  it('rejects script and data schemes however they are spelled', () => {
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(safeUrl(' javascript:alert(1)')).toBeNull();
+    expect(safeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(safeUrl('java\nscript:alert(1)')).toBeNull();
+    expect(safeUrl('javascript&#58;alert(1)')).toBeNull();
+    expect(safeUrl('javascript&colon;alert(1)')).toBeNull();
+    expect(safeUrl('&#106;avascript:alert(1)')).toBeNull();
+    expect(safeUrl('vbscript:msgbox(1)')).toBeNull();
+    expect(safeUrl('data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==')).toBeNull();
+  });
+});
+
+describe('parseRichContent', () => {
+  it('drops script and style elements together with their content', () => {
+    const nodes = parseRichContent('Hello <script>alert(document.cookie)</script>world<style>body{display:none}</style>!');
+
+    expect(collectTags(nodes)).toEqual(['p']);
+    expect(collectText(nodes)).toBe('Hello world!');
+  });
+
+  it('drops event handler and style attributes from allowed tags', () => {
+    const nodes = parseRichContent('<b onclick="alert(1)" style="color:red">bold</b> <img src=x onerror=alert(1)>');
+    const bold = (nodes[0] as Extract<RichNode, { type: 'element' }>).children[0];
+
+    expect(bold).toEqual({ type: 'element', tag: 'strong', attributes: {}, children: [{ type: 'text', text: 'bold' }] });
+    expect(collectTags(nodes)).not.toContain('img');
+    expect(JSON.stringify(nodes)).not.toMatch(/onerror|onclick|alert/);
+  });
+
+  it('unwraps javascript: links in markdown and HTML to their text', () => {
+    const nodes = parseRichContent(
+      '[click](javascript:alert(1)) <a href="javascript&#58;alert(1)">here</a> <a href="java\tscript:alert(1)">or here</a>'
+    );
+
+    expect(collectTags(nodes)).toEqual(['p']);
+    expect(collectHrefs(nodes)).toEqual([]);
+    expect(collectText(nodes)).toContain('click');
+    expect(collectText(nodes)).toContain('or here');
+  });
+
+  it('keeps safe links with only allow-listed attributes', () => {
+    const nodes = parseRichContent('See [the docs](https://example.com) or <a href="/help" title="Help" target="_self">help</a>');
+
+    expect(collectHrefs(nodes)).toEqual(['https://example.com', '/help']);
+    expect(JSON.stringify(nodes)).not.toContain('_self');
+  });
+
+  it('keeps balanced parentheses in markdown link targets', () => {
+    const nodes = parseRichContent(
+      'See [overfitting](https://en.wikipedia.org/wiki/Overfitting_(machine_learning)) (and [bias](https://example.com/bias)).'
+    );
+
+    expect(collectHrefs(nodes)).toEqual([
+      'https://en.wikipedia.org/wiki/Overfitting_(machine_learning)',
+      'https://example.com/bias'
+    ]);
+    expect(collectText(nodes)).toBe('See overfitting (and bias).');
+  });
+
+  it('does not let entity-encoded markup turn into tags', () => {
+    const nodes = parseRichContent('&lt;script&gt;alert(1)&lt;/script&gt;');
+
+    expect(collectTags(nodes)).toEqual(['p']);
+    expect(collectText(nodes)).toBe('<script>alert(1)</script>');
+  });
+
+  it('keeps comparisons that look like tags as text', () => {
+    expect(collectText(parseRichContent('x <y and y> z'))).toBe('x <y and y> z');
+  });
+
+  it('maps markdown and allowed HTML onto the allow-list', () => {
+    const nodes = parseRichContent('# Title\n\n**bold** and <i>italic</i> with H<sub>2</sub>O\n\n3. three\n4. four');
+
+    expect(collectTags(nodes)).toEqual(['h3', 'p', 'strong', 'em', 'sub', 'ol', 'li', 'li']);
+    expect((nodes[2] as Extract<RichNode, { type: 'element' }>).attributes).toEqual({ start: 3 });
+  });
+
+  it('extracts math and fenced code without parsing markdown inside them', () => {
+    const nodes = parseRichContent('The loss is $a_i * b_j$ and\n\n$$\\sum_i x_i$$\n\n```python\nprint("<b>hi</b>")\n```');
+
+    expect(hasMath(nodes)).toBe(true);
+    expect(collectTags(nodes)).toEqual(['p', 'p']);
+    expect(nodes[2]).toEqual({ type: 'code-block', code: 'print("<b>hi</b>")', language: 'python' });
+  });
+
+  it('leaves prices as text rather than math', () => {
+    const nodes = parseRichContent('It costs $5 and $10 per month');
+
+    expect(hasMath(nodes)).toBe(false);
+    expect(collectText(nodes)).toBe('It costs $5 and $10 per month');
+  });
+});
+
+describe('parseRichInline', () => {
+  it('sanitizes single-line content the same way', () => {
+    const nodes = parseRichInline('Try <em>this</em><iframe src="https://evil.example"></iframe> <svg onload=alert(1)></svg>');
+
+    expect(collectTags(nodes)).toEqual(['em']);
+    expect(collectText(nodes)).toBe('Try this ');
+  });
+});
@@ -1,11 +1,14 @@
 // Authentication related types
 
+export type UserRole = 'student' | 'teacher' | 'admin';
+
 export interface User {
   id: string;
   username: string;
   email: string;
   firstName?: string;
   lastName?: string;
+  role: UserRole;
   grade: 9 | 10;
   learningInterests: string[];
   profileCompleted: boolean;
@@ -17,6 +17,35 @@ export interface MessageMetadata {
   severity?: 'low' | 'medium' | 'high';
   canRetry?: boolean;
   confidence?: number;
+  agents?: string[];
+  streaming?: boolean;
+  earlierAnswer?: EarlierAnswer;
+}
+
+// Where a reused answer was first given
+export interface EarlierAnswer {
+  question: string;
+  askedAt: Date;
+  sessionId: string;
+}
+
+// A question the student asked before, offered instead of answering straight away
+export interface SimilarQuestionMatch {
+  messageId: string;
+  sessionId?: string;
+  question: string;
+  askedAt: Date;
+  similarity: number;
+}
+
+export type SimilarQuestionChoice = 'previous' | 'fresh';
+
+// 'explain' answers questions directly; 'socratic' guides the student to the answer with questions
+export type TutorMode = 'explain' | 'socratic';
+
+export interface TutorModeSetting {
+  mode: TutorMode;
+  enforced: boolean; // a teacher requires this mode
 }
 
 export interface ChatAgent {
@@ -0,0 +1,132 @@
+import { Message, TutorMode } from './chat';
+import { QuizAttempt } from './quiz';
+
+export interface Classroom {
+  id: string;
+  name: string;
+  description?: string;
+  grade?: 9 | 10;
+  teacherId: string;
+  joinCode: string;
+  tutorMode?: TutorMode;
+  studentCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StudentClassroom {
+  id: string;
+  name: string;
+  description?: string;
+  grade?: 9 | 10;
+  tutorMode?: TutorMode;
+  teacherName: string;
+  joinedAt: string;
+}
+
+export interface ClassStudent {
+  id: string;
+  username: string;
+  firstName?: string;
+  lastName?: string;
+  grade: 9 | 10;
+  lastActive: string;
+}
+
+export interface RosterEntry extends ClassStudent {
+  joinedAt: string;
+  topicsStarted: number;
+  averageCompletion: number;
+  averageScore: number | null;
+  totalTimeSpent: number;
+}
+
+export interface StudentTopicProgress {
+  topicId: string;
+  topicName: string;
+  completionPercentage: number;
+  masteryLevel: 'beginner' | 'intermediate' | 'advanced';
+  timeSpent: number;
+  lastAccessed: string;
+  strugglingConcepts: string[];
+}
+
+export interface StudentAssessment {
+  id: string;
+  topicId: string;
+  score: number;
+  maxScore: number;
+  completedAt: string;
+  timeSpent: number;
+}
+
+export interface StudentQuizAttempt {
+  id: string;
+  topic: string;
+  status: QuizAttempt['status'];
+  score: number;
+  maxScore: number;
+  percentage?: number;
+  passed?: boolean;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface StudentSession {
+  id: string;
+  currentTopic: string;
+  startTime: string;
+  endTime?: string;
+  messageCount: number;
+}
+
+export interface StudentOverview {
+  student: ClassStudent;
+  classes: { id: string; name: string }[];
+  progress: {
+    topicsCompleted: StudentTopicProgress[];
+    totalTimeSpent: number;
+    currentLevel: number;
+  } | null;
+  assessments: StudentAssessment[];
+  quizAttempts: StudentQuizAttempt[];
+  sessions: StudentSession[];
+}
+
+export interface SessionTranscript extends StudentSession {
+  messages: Message[];
+}
+
+export interface PendingQuestion {
+  id: string;
+  type: string;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+  difficulty: number;
+  concept: string;
+  topic: string;
+  createdAt: string;
+}
+
+export type ModerationCategory = 'self_harm' | 'harassment' | 'personal_data';
+
+export interface ModerationEscalation {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  direction: 'input' | 'output';
+  action: 'rewrite' | 'block' | 'escalate';
+  findings: Array<{ category: ModerationCategory; score: number; method: 'rule' | 'classifier' }>;
+  excerpt: string;
+  status: 'open' | 'reviewed' | 'closed';
+  student?: ClassStudent;
+  createdAt: string;
+}
+
+export interface CreateClassroomRequest {
+  name: string;
+  description?: string;
+  grade?: 9 | 10;
+}
@@ -0,0 +1,52 @@
+export type GradeLevel = 9 | 10 | 'both';
+
+export interface ConceptExample {
+  id: string;
+  title: string;
+  description: string;
+  code?: string;
+  visualization?: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  ageAppropriate: boolean;
+}
+
+export interface CurriculumConcept {
+  id: string;
+  name: string;
+  description: string;
+  examples: ConceptExample[];
+  keyTerms: string[];
+  realWorldApplications: string[];
+  complexity: number;
+  requiresMath: boolean;
+  relatedConcepts: string[];
+}
+
+export interface CurriculumTopic {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: number;
+  prerequisites: string[];
+  concepts: CurriculumConcept[];
+  estimatedTimeMinutes: number;
+  gradeLevel: GradeLevel;
+  learningObjectives: string[];
+}
+
+export interface Curriculum {
+  id: string;
+  name: string;
+  description: string;
+  gradeLevel: GradeLevel;
+  topics: string[];
+  totalEstimatedHours: number;
+}
+
+export interface VersionedCurriculum {
+  version: string;
+  checksum: string;
+  loadedAt: string;
+  curriculum: Curriculum;
+  topics: CurriculumTopic[];
+}
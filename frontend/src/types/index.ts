@@ -1,3 +1,7 @@
 export * from './progress';
 export * from './chat';
-export * from './auth';
\ No newline at end of file
+export * from './auth';
+export * from './quiz';
+export * from './curriculum';
+export * from './classroom';
+export * from './review';
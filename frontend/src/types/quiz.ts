@@ -0,0 +1,78 @@
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'short_answer' | 'explanation' | 'code_completion';
+
+export type HintLevel = 'nudge' | 'partial_step' | 'worked_solution';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[];
+  difficulty: number;
+  concept: string;
+  topic?: string;
+  timeEstimate: number;
+  hintCount: number;
+  code?: CodeExercise;
+}
+
+export type CodeLanguage = 'python' | 'javascript';
+
+// Starter code for code_completion questions; the tests that grade the answer stay on the server
+export interface CodeExercise {
+  language: CodeLanguage;
+  starterCode: string;
+}
+
+export interface QuizAnswer {
+  questionId: string;
+  answer: string;
+  isCorrect: boolean;
+  score: number;
+  maxScore: number;
+  feedback: string;
+  hintsUsed: number;
+  timeSpent: number;
+  answeredAt: string;
+}
+
+export interface QuizReviewItem {
+  questionId: string;
+  question: string;
+  correctAnswer: string;
+  explanation: string;
+  answer?: string;
+  isCorrect: boolean;
+}
+
+export interface QuizAttempt {
+  attemptId: string;
+  topic: string;
+  status: 'in_progress' | 'completed' | 'expired';
+  timeLimit: number;
+  passingScore: number;
+  startedAt: string;
+  expiresAt: string;
+  remainingSeconds: number;
+  totalQuestions: number;
+  currentQuestionIndex: number;
+  currentQuestion: QuizQuestion | null;
+  revealedHints: string[];
+  answers: QuizAnswer[];
+  score: number;
+  maxScore: number;
+  percentage?: number;
+  passed?: boolean;
+  review?: QuizReviewItem[];
+}
+
+export interface QuizAnswerResult {
+  feedback: QuizAnswer;
+  attempt: QuizAttempt;
+}
+
+export interface QuizHintResult {
+  level: HintLevel;
+  hint: string;
+  hintsRemaining: number;
+  attempt: QuizAttempt;
+}
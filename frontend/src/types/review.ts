@@ -0,0 +1,40 @@
+import { QuizQuestion, HintLevel } from './quiz';
+
+export interface ReviewItem {
+  id: string;
+  concept: string;
+  topic: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt?: string;
+  lastQuality?: number;
+  source: 'struggling' | 'assessment';
+}
+
+export interface ReviewQueue {
+  dueCount: number;
+  items: ReviewItem[];
+}
+
+export interface ReviewQuestionSet {
+  dueCount: number;
+  questions: QuizQuestion[];
+}
+
+export interface ReviewAnswerResult {
+  questionId: string;
+  isCorrect: boolean;
+  feedback: string;
+  correctAnswer: string;
+}
+
+export interface ReviewHint {
+  questionId: string;
+  level: HintLevel;
+  hint: string;
+  hintsUsed: number;
+  hintsRemaining: number;
+}
@@ -0,0 +1,96 @@
+// Lightweight syntax highlighting for the languages the tutor teaches with
+
+export type CodeLanguageName = 'python' | 'javascript';
+
+export type HighlightTokenType = 'plain' | 'keyword' | 'builtin' | 'string' | 'number' | 'comment';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  pattern: RegExp; // groups: comment, string, number, word
+  keywords: Set<string>;
+  builtins: Set<string>;
+}
+
+const LANGUAGE_ALIASES: Record<string, CodeLanguageName> = {
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  typescript: 'javascript',
+  tsx: 'javascript'
+};
+
+const words = (list: string) => new Set(list.split(' '));
+
+const RULES: Record<CodeLanguageName, LanguageRules> = {
+  python: {
+    pattern: /(?<comment>#.*)|(?<string>[rbfuRBFU]{0,2}(?:'''[\s\S]*?(?:'''|$)|"""[\s\S]*?(?:"""|$)|'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?))|(?<number>\b\d[\d_]*(?:\.\d*)?(?:e[+-]?\d+)?j?\b|\.\d+\b)|(?<word>[A-Za-z_]\w*)/g,
+    keywords: words('False None True and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case'),
+    builtins: words('abs all any bool dict enumerate filter float input int isinstance len list map max min open print range round set sorted str sum tuple type zip self')
+  },
+  javascript: {
+    pattern: /(?<comment>\/\/.*|\/\*[\s\S]*?(?:\*\/|$))|(?<string>'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?|`(?:\\.|[^`\\])*`?)|(?<number>\b\d[\d_]*(?:\.\d*)?(?:e[+-]?\d+)?n?\b|\.\d+\b)|(?<word>[A-Za-z_$][\w$]*)/g,
+    keywords: words('async await break case catch class const continue debugger default delete do else export extends false finally for function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while with yield interface type'),
+    builtins: words('Array Boolean console Date Error JSON Map Math Number Object Promise RegExp Set String parseFloat parseInt')
+  }
+};
+
+/**
+ * Map a code fence's info string to a supported language, if any
+ */
+export const normalizeLanguage = (language: string): CodeLanguageName | null =>
+  LANGUAGE_ALIASES[language.trim().toLowerCase()] || null;
+
+/**
+ * Split code into highlight tokens. Unsupported languages come back as a single plain token.
+ */
+export const highlightCode = (code: string, language: string): HighlightToken[] => {
+  const name = normalizeLanguage(language);
+  if (!name) {
+    return [{ type: 'plain', text: code }];
+  }
+
+  const rules = RULES[name];
+  const tokens: HighlightToken[] = [];
+  let position = 0;
+
+  const push = (type: HighlightTokenType, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  for (const match of code.matchAll(rules.pattern)) {
+    const groups = match.groups || {};
+    push('plain', code.slice(position, match.index));
+    position = (match.index || 0) + match[0].length;
+
+    if (groups.comment) {
+      push('comment', match[0]);
+    } else if (groups.string) {
+      push('string', match[0]);
+    } else if (groups.number) {
+      push('number', match[0]);
+    } else if (rules.keywords.has(match[0])) {
+      push('keyword', match[0]);
+    } else if (rules.builtins.has(match[0])) {
+      push('builtin', match[0]);
+    } else {
+      push('plain', match[0]);
+    }
+  }
+
+  push('plain', code.slice(position));
+  return tokens;
+};
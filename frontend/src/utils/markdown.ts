@@ -0,0 +1,162 @@
+// Markdown parsing for chat messages. Produces a small block/inline tree; raw HTML tags and TeX
+// come through as their own nodes for utils/rich-content.ts to sanitize.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'html'; tag: string } // a raw tag or comment, e.g. "<b>" or "</b>"
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'code'; language: string; code: string };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^ {0,3}([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+
+// Math is matched before the emphasis markers so `$a_i * b_j$` reaches MathJax untouched.
+// Link targets may contain balanced parentheses, as in .../wiki/Overfitting_(machine_learning)
+const INLINE = new RegExp([
+  '(?<code>`+)(?<codeText>[\\s\\S]*?[^`])\\k<code>(?!`)',
+  '\\$\\$(?<displayMath>[\\s\\S]+?)\\$\\$|\\\\\\[(?<displayMathAlt>[\\s\\S]+?)\\\\\\]',
+  '\\$(?<inlineMath>[^$\\s](?:[^$\\n]*?[^$\\s])?)\\$(?!\\d)|\\\\\\((?<inlineMathAlt>[\\s\\S]+?)\\\\\\)',
+  '(?<html><!--[\\s\\S]*?(?:-->|$)|<\\/?[A-Za-z][A-Za-z0-9-]*(?:\\s[^<>]*)?\\/?>)',
+  '\\[(?<linkText>[^\\]]+)\\]\\((?<href>(?:[^()\\s]|\\([^()\\s]*\\))+)\\)',
+  '\\*\\*(?<strong>[\\s\\S]+?)\\*\\*|__(?<strongAlt>[\\s\\S]+?)__',
+  '\\*(?<emphasis>[^*\\s](?:[^*]*[^*\\s])?)\\*|(?<![\\w])_(?<emphasisAlt>[^_\\s](?:[^_]*[^_\\s])?)_(?![\\w])'
+].join('|'), 'g');
+
+/**
+ * Parse inline markdown: code spans, math, raw tags, links, bold and italics
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let position = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(INLINE)) {
+    const groups = match.groups || {};
+    pushText(text.slice(position, match.index));
+    position = (match.index || 0) + match[0].length;
+
+    if (groups.code) {
+      nodes.push({ type: 'code', text: groups.codeText.trim() || groups.codeText });
+    } else if (groups.displayMath || groups.displayMathAlt) {
+      nodes.push({ type: 'math', tex: (groups.displayMath || groups.displayMathAlt).trim(), display: true });
+    } else if (groups.inlineMath || groups.inlineMathAlt) {
+      nodes.push({ type: 'math', tex: (groups.inlineMath || groups.inlineMathAlt).trim(), display: false });
+    } else if (groups.html) {
+      nodes.push({ type: 'html', tag: groups.html });
+    } else if (groups.linkText) {
+      nodes.push({ type: 'link', href: groups.href, children: parseInline(groups.linkText) });
+    } else if (groups.strong || groups.strongAlt) {
+      nodes.push({ type: 'strong', children: parseInline(groups.strong || groups.strongAlt) });
+    } else {
+      nodes.push({ type: 'emphasis', children: parseInline(groups.emphasis || groups.emphasisAlt) });
+    }
+  }
+
+  pushText(text.slice(position));
+  return nodes;
+};
+
+/**
+ * Parse markdown into blocks: headings, paragraphs, lists, quotes and fenced code
+ */
+export const parseMarkdown = (content: string): MarkdownBlock[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; start: number; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, start: list.start, items: list.items.map(parseInline) });
+      list = null;
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: 'quote', children: parseInline(quote.join('\n')) });
+      quote = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const marker = fence[1];
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the message
+      while (++index < lines.length && !(lines[index].trim().startsWith(marker) && /^[`~]+$/.test(lines[index].trim()))) {
+        code.push(lines[index]);
+      }
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, start: ordered ? parseInt(item[2]) : 1, items: [] };
+      }
+      list.items.push(item[3]);
+      continue;
+    }
+
+    const quoted = line.match(QUOTE);
+    if (quoted) {
+      if (quote.length === 0) flush();
+      quote.push(quoted[1]);
+      continue;
+    }
+
+    // Indented lines continue the current list item; anything else continues the paragraph
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+    if (list || quote.length > 0) flush();
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+};
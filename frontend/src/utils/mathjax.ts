@@ -0,0 +1,59 @@
+// MathJax is loaded once from the CDN the first time a message needs typesetting.
+// Rich content marks its math with the tex2jax_process class inside tex2jax_ignore containers,
+// so only TeX the parser found is typeset, never dollar signs elsewhere in the text.
+
+let mathJaxPromise: Promise<any> | null = null;
+
+export const loadMathJax = (): Promise<any> => {
+  if (mathJaxPromise) {
+    return mathJaxPromise;
+  }
+
+  mathJaxPromise = new Promise((resolve, reject) => {
+    // Configure MathJax before the script reads it
+    (window as any).MathJax = {
+      // Filters \href, \class and \style URLs and names out of the TeX in messages
+      loader: { load: ['ui/safe'] },
+      tex: {
+        // The rich content parser has already turned $...$ and $$...$$ into these delimiters
+        inlineMath: [['\\(', '\\)']],
+        displayMath: [['\\[', '\\]']],
+        processEscapes: true,
+        processEnvironments: true
+      },
+      options: {
+        skipHtmlTags: ['script', 'noscript', 'style', 'textarea', 'pre', 'code'],
+        ignoreHtmlClass: 'tex2jax_ignore',
+        processHtmlClass: 'tex2jax_process'
+      },
+      startup: {
+        typeset: false, // Don't typeset on startup
+        ready: () => {
+          const MathJax = (window as any).MathJax;
+          MathJax.startup.defaultReady();
+          MathJax.startup.promise.then(() => resolve(MathJax));
+        }
+      }
+    };
+
+    const mathJaxScript = document.createElement('script');
+    mathJaxScript.id = 'MathJax-script';
+    mathJaxScript.async = true;
+    mathJaxScript.src = 'https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-mml-chtml.js';
+    mathJaxScript.onerror = () => {
+      mathJaxPromise = null;
+      reject(new Error('MathJax failed to load'));
+    };
+    document.head.appendChild(mathJaxScript);
+  });
+
+  return mathJaxPromise;
+};
+
+/**
+ * Typeset any TeX in the element, loading MathJax first if needed
+ */
+export const typesetMath = async (element: HTMLElement): Promise<void> => {
+  const MathJax = await loadMathJax();
+  await MathJax.typesetPromise([element]);
+};
@@ -0,0 +1,283 @@
+// Rich content for every surface that shows tutor or student text. Markdown, TeX and a small
+// allow-listed subset of HTML become a sanitized node tree, which components render as React
+// elements, so message text never reaches innerHTML however it was stored or replayed.
+
+import { parseInline, parseMarkdown, InlineNode, MarkdownBlock } from './markdown';
+
+export type RichTag =
+  | 'p' | 'br' | 'hr' | 'strong' | 'em' | 'u' | 's' | 'sub' | 'sup' | 'code' | 'a'
+  | 'h3' | 'h4' | 'h5' | 'h6' | 'ul' | 'ol' | 'li' | 'blockquote'
+  | 'table' | 'thead' | 'tbody' | 'tr' | 'th' | 'td';
+
+export interface RichAttributes {
+  href?: string;
+  title?: string;
+  start?: number;
+  colSpan?: number;
+  rowSpan?: number;
+}
+
+export type RichNode =
+  | { type: 'text'; text: string }
+  | { type: 'element'; tag: RichTag; attributes: RichAttributes; children: RichNode[] }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'code-block'; code: string; language: string };
+
+type RichElement = Extract<RichNode, { type: 'element' }>;
+
+const ALLOWED_TAGS = new Set<RichTag>([
+  'p', 'br', 'hr', 'strong', 'em', 'u', 's', 'sub', 'sup', 'code', 'a',
+  'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+
+// Presentational and heading tags map onto the allow-list; message headings sit below the page's own
+const TAG_ALIASES: Record<string, RichTag> = {
+  b: 'strong',
+  i: 'em',
+  strike: 's',
+  del: 's',
+  h1: 'h3',
+  h2: 'h3'
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'base', 'area', 'col', 'embed', 'source', 'track', 'wbr']);
+
+// Dropped together with everything inside them
+const DROPPED_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template', 'noscript',
+  'noembed', 'noframes', 'svg', 'math', 'textarea', 'select', 'title', 'head', 'xmp', 'plaintext'
+]);
+
+// Other HTML tags are unwrapped, keeping their text; anything else that looks like a tag, e.g. "x <y and y> z",
+// is not HTML and stays as text
+const OTHER_HTML_TAGS = new Set([
+  'html', 'body', 'div', 'span', 'font', 'center', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside',
+  'pre', 'kbd', 'samp', 'var', 'mark', 'small', 'big', 'ins', 'abbr', 'cite', 'q', 'dfn', 'time', 'label',
+  'img', 'input', 'button', 'form', 'option', 'meta', 'link', 'base', 'area', 'map', 'col', 'colgroup', 'caption',
+  'tfoot', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'details', 'summary', 'picture', 'source', 'track', 'video',
+  'audio', 'canvas', 'dialog', 'marquee', 'blink', 'wbr', 'h1', 'h2', 'b', 'i', 'strike', 'del'
+]);
+
+const ALLOWED_ATTRIBUTES: Partial<Record<RichTag, string[]>> = {
+  a: ['href', 'title'],
+  ol: ['start'],
+  th: ['colspan', 'rowspan'],
+  td: ['colspan', 'rowspan']
+};
+
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  colon: ':', tab: '\t', newline: '\n', sol: '/', lpar: '(', rpar: ')'
+};
+
+const TAG = /^<(\/)?([A-Za-z][A-Za-z0-9-]*)([\s\S]*?)(\/)?>$/;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Decode HTML character references the way a browser would before reading text or an attribute
+ */
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (reference, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? reference;
+  });
+
+/**
+ * A link target that is safe to follow, or null. Only web and mail links and relative paths are
+ * kept, after the control characters and whitespace browsers ignore in a scheme are removed.
+ */
+export const safeUrl = (href: string): string | null => {
+  // eslint-disable-next-line no-control-regex
+  const url = decodeEntities(href).replace(/[\u0000-\u0020\u007f-\u009f]/g, '');
+  if (!url) return null;
+
+  const scheme = url.match(/^([^/?#]*?):/);
+  if (scheme) {
+    return SAFE_SCHEMES.has(scheme[1].toLowerCase()) ? url : null;
+  }
+  return url;
+};
+
+const text = (value: string): RichNode => ({ type: 'text', text: value });
+
+const element = (tag: RichTag, children: RichNode[] = [], attributes: RichAttributes = {}): RichElement =>
+  ({ type: 'element', tag, attributes, children });
+
+const readAttributes = (tag: RichTag, source: string): RichAttributes | null => {
+  const allowed = ALLOWED_ATTRIBUTES[tag] || [];
+  const attributes: RichAttributes = {};
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name)) continue;
+
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (name === 'href') {
+      const href = safeUrl(value);
+      if (href) attributes.href = href;
+    } else if (name === 'title') {
+      attributes.title = value;
+    } else {
+      const number = parseInt(value, 10);
+      if (Number.isFinite(number) && number > 0 && number < 1000) {
+        attributes[name === 'start' ? 'start' : name === 'colspan' ? 'colSpan' : 'rowSpan'] = number;
+      }
+    }
+  }
+
+  // Links without a usable target are unwrapped to their text
+  return tag === 'a' && !attributes.href ? null : attributes;
+};
+
+/**
+ * Turn inline markdown nodes into sanitized rich nodes. Raw tags open and close allow-listed
+ * elements; unclosed elements end with the run of text they started in.
+ */
+const buildInline = (nodes: InlineNode[]): RichNode[] => {
+  const root: RichNode[] = [];
+  const open: Array<{ tag: string; node: RichElement | null }> = [];
+  let droppedTag: string | null = null;
+
+  const current = (): RichNode[] => {
+    for (let index = open.length - 1; index >= 0; index--) {
+      const node = open[index].node;
+      if (node) return node.children;
+    }
+    return root;
+  };
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const children = current();
+    const last = children[children.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      children.push(text(value));
+    }
+  };
+
+  const handleTag = (raw: string) => {
+    if (raw.startsWith('<!--')) return;
+
+    const match = raw.match(TAG);
+    if (!match) {
+      pushText(raw);
+      return;
+    }
+
+    const [, closing, rawName, attributeSource, selfClosing] = match;
+    const name = rawName.toLowerCase();
+
+    if (DROPPED_WITH_CONTENT.has(name)) {
+      if (!closing && !selfClosing && !VOID_TAGS.has(name)) droppedTag = name;
+      return;
+    }
+
+    const tag = TAG_ALIASES[name] || (ALLOWED_TAGS.has(name as RichTag) ? name as RichTag : null);
+    if (!tag && !OTHER_HTML_TAGS.has(name)) {
+      pushText(raw);
+      return;
+    }
+
+    if (closing) {
+      const index = open.map(entry => entry.tag).lastIndexOf(name);
+      if (index >= 0) open.length = index;
+      return;
+    }
+
+    const attributes = tag ? readAttributes(tag, attributeSource) : null;
+    const node = tag && attributes ? element(tag, [], attributes) : null;
+    if (node) current().push(node);
+
+    // Unwrapped tags still track their closing tag, so it does not close an outer element
+    if (!selfClosing && !VOID_TAGS.has(name)) {
+      open.push({ tag: name, node });
+    }
+  };
+
+  for (const node of nodes) {
+    if (droppedTag) {
+      if (node.type === 'html' && new RegExp(`^</${droppedTag}\\b`, 'i').test(node.tag)) {
+        droppedTag = null;
+      }
+      continue;
+    }
+
+    switch (node.type) {
+      case 'text':
+        pushText(decodeEntities(node.text));
+        break;
+      case 'code':
+        current().push(element('code', [text(node.text)]));
+        break;
+      case 'math':
+        current().push({ type: 'math', tex: node.tex, display: node.display });
+        break;
+      case 'html':
+        handleTag(node.tag);
+        break;
+      case 'strong':
+        current().push(element('strong', buildInline(node.children)));
+        break;
+      case 'emphasis':
+        current().push(element('em', buildInline(node.children)));
+        break;
+      case 'link': {
+        const href = safeUrl(node.href);
+        const children = buildInline(node.children);
+        if (href) {
+          current().push(element('a', children, { href }));
+        } else {
+          current().push(...children);
+        }
+        break;
+      }
+    }
+  }
+
+  return root;
+};
+
+const buildBlock = (block: MarkdownBlock): RichNode => {
+  switch (block.type) {
+    case 'heading':
+      return element(`h${Math.min(block.level + 2, 6)}` as RichTag, buildInline(block.children));
+    case 'paragraph':
+      return element('p', buildInline(block.children));
+    case 'list':
+      return element(
+        block.ordered ? 'ol' : 'ul',
+        block.items.map(item => element('li', buildInline(item))),
+        block.ordered && block.start !== 1 ? { start: block.start } : {}
+      );
+    case 'quote':
+      return element('blockquote', buildInline(block.children));
+    case 'code':
+      return { type: 'code-block', code: block.code, language: block.language };
+  }
+};
+
+/**
+ * Parse a message into sanitized block content: paragraphs, lists, code blocks and math
+ */
+export const parseRichContent = (content: string): RichNode[] =>
+  parseMarkdown(content).map(buildBlock);
+
+/**
+ * Parse a single line of text, such as a hint or a question, into sanitized inline content
+ */
+export const parseRichInline = (content: string): RichNode[] =>
+  buildInline(parseInline(content));
+
+/**
+ * Whether any node in the tree needs MathJax
+ */
+export const hasMath = (nodes: RichNode[]): boolean =>
+  nodes.some(node => node.type === 'math' || (node.type === 'element' && hasMath(node.children)));
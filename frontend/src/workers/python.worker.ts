@@ -0,0 +1,81 @@
+// Runs Python snippets from chat messages with Pyodide, off the page's main thread.
+// The worker has no DOM, no network beyond the Pyodide CDN, and is terminated by the
+// python runner service when a run takes too long.
+
+import type { PythonWorkerRequest, PythonWorkerResponse } from '../services/python-runner.service';
+
+const PYODIDE_BASE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+
+const MAX_OUTPUT_LENGTH = 20000;
+
+interface WorkerScope {
+  postMessage(message: PythonWorkerResponse): void;
+  onmessage: ((event: MessageEvent<PythonWorkerRequest>) => void) | null;
+  fetch: typeof fetch;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let pyodidePromise: Promise<any> | null = null;
+
+const loadRuntime = (): Promise<any> => {
+  if (!pyodidePromise) {
+    pyodidePromise = (async () => {
+      const { loadPyodide } = await import(/* @vite-ignore */ `${PYODIDE_BASE_URL}pyodide.mjs`);
+      const pyodide = await loadPyodide({ indexURL: PYODIDE_BASE_URL });
+
+      // Packages still load from the CDN; the snippet itself cannot reach anything else
+      const cdnFetch = scope.fetch.bind(self);
+      scope.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        return url.startsWith(PYODIDE_BASE_URL)
+          ? cdnFetch(input, init)
+          : Promise.reject(new TypeError('Network access is disabled in the code runner'));
+      };
+      for (const name of ['XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts']) {
+        Object.defineProperty(self, name, { value: undefined, configurable: false });
+      }
+
+      pyodide.setStdin({ error: true });
+      return pyodide;
+    })();
+  }
+  return pyodidePromise;
+};
+
+const append = (output: string, line: string): string =>
+  output.length >= MAX_OUTPUT_LENGTH ? output : `${output}${line}\n`.slice(0, MAX_OUTPUT_LENGTH);
+
+scope.onmessage = async (event: MessageEvent<PythonWorkerRequest>) => {
+  const { id, code } = event.data;
+  let stdout = '';
+  let stderr = '';
+
+  try {
+    const pyodide = await loadRuntime();
+    pyodide.setStdout({ batched: (line: string) => { stdout = append(stdout, line); } });
+    pyodide.setStderr({ batched: (line: string) => { stderr = append(stderr, line); } });
+    await pyodide.loadPackagesFromImports(code);
+
+    scope.postMessage({ id, type: 'started' });
+
+    // Every run gets fresh globals, so snippets do not see each other's names
+    const globals = pyodide.globals.get('dict')();
+    try {
+      const value = await pyodide.runPythonAsync(code, { globals });
+      const result = value === undefined || value === null ? undefined : String(value);
+      value?.destroy?.();
+      scope.postMessage({ id, type: 'finished', stdout, stderr, result });
+    } finally {
+      globals.destroy();
+    }
+  } catch (error) {
+    scope.postMessage({
+      id,
+      type: 'finished',
+      stdout,
+      stderr,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -1,3 +1,5 @@
+import { AGENT_TYPE_PATTERN } from './validation/index.js';
+
 // User types
 export * from './types/user.js';
 
@@ -23,7 +25,7 @@ export * from './validation/index.js';
 export * as serialization from './serialization/index.js';
 
 // Constants
-export const AGENT_TYPES = ['coordinator', 'tutor', 'assessment', 'content'] as const;
+export const AGENT_TYPES = ['coordinator', 'tutor', 'assessment', 'content'] as const; // built in; plug-ins add more
 export const MESSAGE_TYPES = ['explanation', 'question', 'assessment', 'feedback', 'system'] as const;
 export const MASTERY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
 export const LEARNING_PACES = ['slow', 'medium', 'fast'] as const;
@@ -34,7 +36,7 @@ export const isValidGrade = (grade: number): grade is 9 | 10 => {
 };
 
 export const isValidAgentType = (type: string): type is import('./types/agent.js').AgentType => {
-  return AGENT_TYPES.includes(type as any);
+  return AGENT_TYPE_PATTERN.test(type);
 };
 
 export const isValidMessageType = (type: string): type is import('./types/session.js').MessageMetadata['messageType'] => {
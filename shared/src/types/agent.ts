@@ -1,4 +1,7 @@
-export type AgentType = 'coordinator' | 'tutor' | 'assessment' | 'content';
+export type CoreAgentType = 'coordinator' | 'tutor' | 'assessment' | 'content';
+
+// Plug-in agents add their own type names, declared in their manifest
+export type AgentType = CoreAgentType | (string & {});
 
 export interface AgentState {
   agentId: string;
@@ -42,6 +42,22 @@ export interface SocketEvents {
   'agent-response': { response: any };
   'session-error': { error: string };
   'progress-updated': { progress: any };
+  'chat:stream:start': { streamId: string; sessionId?: string; timestamp: string };
+  'chat:stream:chunk': { streamId: string; content: string };
+  'chat:stream:end': { streamId: string; sessionId?: string; message?: any; error?: string };
+
+  // Quiz attempts (client to server)
+  'quiz:start': { topic: string; sessionId?: string };
+  'quiz:resume': Record<string, never>;
+  'quiz:answer': { attemptId: string; answer: string; timeSpent?: number };
+  'quiz:hint': { attemptId: string } | { hint: string; hintsRemaining: number; attempt: any };
+  'quiz:finish': { attemptId: string };
+
+  // Quiz attempts (server to client; quiz:hint above is answered with the revealed hint)
+  'quiz:state': any;
+  'quiz:feedback': { feedback: any; attempt: any };
+  'quiz:finished': any;
+  'quiz:error': { code: string; message: string };
 }
 
 export type SocketEventName = keyof SocketEvents;
\ No newline at end of file
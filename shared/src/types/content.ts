@@ -48,4 +48,28 @@ export interface Curriculum {
   gradeLevel: 9 | 10 | 'both';
   topics: string[]; // topic IDs in order
   totalEstimatedHours: number;
-}
\ No newline at end of file
+}
+// Curriculum file format: the shared topic and concept shapes plus the
+// fields the agents need for tutoring and sequencing
+export interface CurriculumConceptDefinition extends MLConcept {
+  complexity: number;
+  requiresMath: boolean;
+  relatedConcepts: string[];
+}
+
+export interface CurriculumTopicDefinition extends Omit<MLTopic, 'concepts'> {
+  learningObjectives: string[];
+  concepts: CurriculumConceptDefinition[];
+}
+
+export interface CurriculumDefinition {
+  version: string;
+  curriculum: Curriculum;
+  topics: CurriculumTopicDefinition[];
+}
+
+// A curriculum definition as served by the API, stamped with its content hash
+export interface VersionedCurriculum extends CurriculumDefinition {
+  checksum: string;
+  loadedAt: Date;
+}
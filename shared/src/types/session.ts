@@ -1,4 +1,4 @@
-import { AgentState } from './agent.js';
+import { AgentState, AgentType } from './agent.js';
 import { ProgressData } from './progress.js';
 
 export interface LearningSession {
@@ -14,7 +14,7 @@ export interface LearningSession {
 
 export interface Message {
   id: string;
-  sender: 'student' | 'tutor' | 'assessment' | 'content' | 'coordinator';
+  sender: 'student' | AgentType;
   content: string;
   timestamp: Date;
   metadata: MessageMetadata;
@@ -1,7 +1,10 @@
+export type UserRole = 'student' | 'teacher' | 'admin';
+
 export interface User {
   id: string;
   username: string;
   email: string;
+  role: UserRole;
   grade: 9 | 10;
   createdAt: Date;
   lastActive: Date;
@@ -29,6 +29,9 @@ export interface ValidationResult {
 // Email validation regex
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+// Message senders and agent types: 'student', the built-in agents and plug-in agents
+export const AGENT_TYPE_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
 // Input sanitization
 export const sanitizeString = (input: string): string => {
   return input
@@ -183,7 +186,7 @@ export const validateMessage = (message: Partial<Message>): ValidationResult =>
     errors.push('Message ID is required');
   }
 
-  if (!message.sender || !['student', 'tutor', 'assessment', 'content', 'coordinator'].includes(message.sender)) {
+  if (!message.sender || !AGENT_TYPE_PATTERN.test(message.sender)) {
     errors.push('Valid sender is required');
   }
 
@@ -299,8 +302,7 @@ export const validateAgentState = (agentState: Partial<AgentState>): ValidationR
     errors.push('Agent ID is required');
   }
 
-  if (!agentState.agentType || 
-      !['coordinator', 'tutor', 'assessment', 'content'].includes(agentState.agentType)) {
+  if (!agentState.agentType || !AGENT_TYPE_PATTERN.test(agentState.agentType)) {
     errors.push('Valid agent type is required');
   }
 